@@ -11,20 +11,51 @@
 import type * as ai from "../ai.js";
 import type * as auth from "../auth.js";
 import type * as conversations from "../conversations.js";
+import type * as crons from "../crons.js";
 import type * as files from "../files.js";
+import type * as groups from "../groups.js";
+import type * as household from "../household.js";
 import type * as http from "../http.js";
+import type * as lib_allergenSafety from "../lib/allergenSafety.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_contextAssembler from "../lib/contextAssembler.js";
 import type * as lib_errors from "../lib/errors.js";
+import type * as lib_groups from "../lib/groups.js";
+import type * as lib_historySummary from "../lib/historySummary.js";
+import type * as lib_household from "../lib/household.js";
 import type * as lib_imageAnalysis from "../lib/imageAnalysis.js";
+import type * as lib_llm_fake from "../lib/llm/fake.js";
+import type * as lib_llm_index from "../lib/llm/index.js";
+import type * as lib_llm_openai from "../lib/llm/openai.js";
+import type * as lib_llm_types from "../lib/llm/types.js";
+import type * as lib_mealPlanning from "../lib/mealPlanning.js";
 import type * as lib_memoryCompaction from "../lib/memoryCompaction.js";
+import type * as lib_memoryEvents from "../lib/memoryEvents.js";
+import type * as lib_memoryLifetime from "../lib/memoryLifetime.js";
+import type * as lib_memoryMatching from "../lib/memoryMatching.js";
 import type * as lib_memorySanitization from "../lib/memorySanitization.js";
+import type * as lib_memorySimilarity from "../lib/memorySimilarity.js";
+import type * as lib_memoryTombstones from "../lib/memoryTombstones.js";
+import type * as lib_messageRecipes from "../lib/messageRecipes.js";
+import type * as lib_pantry from "../lib/pantry.js";
+import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_recipeDiff from "../lib/recipeDiff.js";
 import type * as lib_recipeGeneration from "../lib/recipeGeneration.js";
+import type * as lib_recipeScaling from "../lib/recipeScaling.js";
+import type * as lib_recipeSearch from "../lib/recipeSearch.js";
+import type * as lib_recipeVersions from "../lib/recipeVersions.js";
+import type * as lib_shoppingList from "../lib/shoppingList.js";
+import type * as lib_tokenCount from "../lib/tokenCount.js";
 import type * as lib_topicGuardrails from "../lib/topicGuardrails.js";
 import type * as lib_validators from "../lib/validators.js";
+import type * as mealPlans from "../mealPlans.js";
 import type * as memories from "../memories.js";
 import type * as memoryCompaction from "../memoryCompaction.js";
 import type * as messages from "../messages.js";
+import type * as migrations from "../migrations.js";
+import type * as pantry from "../pantry.js";
 import type * as recipes from "../recipes.js";
+import type * as shoppingLists from "../shoppingLists.js";
 import type * as users from "../users.js";
 
 import type {
@@ -37,20 +68,51 @@ declare const fullApi: ApiFromModules<{
   ai: typeof ai;
   auth: typeof auth;
   conversations: typeof conversations;
+  crons: typeof crons;
   files: typeof files;
+  groups: typeof groups;
+  household: typeof household;
   http: typeof http;
+  "lib/allergenSafety": typeof lib_allergenSafety;
   "lib/auth": typeof lib_auth;
+  "lib/contextAssembler": typeof lib_contextAssembler;
   "lib/errors": typeof lib_errors;
+  "lib/groups": typeof lib_groups;
+  "lib/historySummary": typeof lib_historySummary;
+  "lib/household": typeof lib_household;
   "lib/imageAnalysis": typeof lib_imageAnalysis;
+  "lib/llm/fake": typeof lib_llm_fake;
+  "lib/llm/index": typeof lib_llm_index;
+  "lib/llm/openai": typeof lib_llm_openai;
+  "lib/llm/types": typeof lib_llm_types;
+  "lib/mealPlanning": typeof lib_mealPlanning;
   "lib/memoryCompaction": typeof lib_memoryCompaction;
+  "lib/memoryEvents": typeof lib_memoryEvents;
+  "lib/memoryLifetime": typeof lib_memoryLifetime;
+  "lib/memoryMatching": typeof lib_memoryMatching;
   "lib/memorySanitization": typeof lib_memorySanitization;
+  "lib/memorySimilarity": typeof lib_memorySimilarity;
+  "lib/memoryTombstones": typeof lib_memoryTombstones;
+  "lib/messageRecipes": typeof lib_messageRecipes;
+  "lib/pantry": typeof lib_pantry;
+  "lib/rateLimit": typeof lib_rateLimit;
+  "lib/recipeDiff": typeof lib_recipeDiff;
   "lib/recipeGeneration": typeof lib_recipeGeneration;
+  "lib/recipeScaling": typeof lib_recipeScaling;
+  "lib/recipeSearch": typeof lib_recipeSearch;
+  "lib/recipeVersions": typeof lib_recipeVersions;
+  "lib/shoppingList": typeof lib_shoppingList;
+  "lib/tokenCount": typeof lib_tokenCount;
   "lib/topicGuardrails": typeof lib_topicGuardrails;
   "lib/validators": typeof lib_validators;
+  mealPlans: typeof mealPlans;
   memories: typeof memories;
   memoryCompaction: typeof memoryCompaction;
   messages: typeof messages;
+  migrations: typeof migrations;
+  pantry: typeof pantry;
   recipes: typeof recipes;
+  shoppingLists: typeof shoppingLists;
   users: typeof users;
 }>;
 
@@ -0,0 +1,993 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import {
+  FakeLLMProvider,
+  LLMProvider,
+  ScriptedChatTurn,
+  setLLMProviderForTesting,
+} from "./lib/llm";
+import { createUser, setupTest, TestConvex } from "./test.setup";
+
+type TestUser = Awaited<ReturnType<typeof createUser>>;
+
+function useFakeProvider(chat: ScriptedChatTurn[] = []) {
+  const provider = new FakeLLMProvider({ chat });
+  setLLMProviderForTesting(provider);
+  return provider;
+}
+
+// A reply that presents a recipe card, then finishes without more text
+function recipeReply(recipe: unknown, content = "Here you go!"): ScriptedChatTurn[] {
+  return [
+    { content, toolCalls: [{ name: "present_recipe", arguments: recipe as Record<string, unknown> }] },
+    {},
+  ];
+}
+
+async function startChat(user: TestUser, content: string) {
+  const conversationId = await user.as.mutation(api.conversations.create, {});
+  const messageId = await user.as.mutation(api.messages.send, {
+    conversationId,
+    content,
+  });
+  return { conversationId, messageId };
+}
+
+async function assistantMessages(
+  t: TestConvex,
+  conversationId: Id<"conversations">
+) {
+  const messages = await t.run(async (ctx) =>
+    ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q.eq("conversationId", conversationId)
+      )
+      .collect()
+  );
+  return messages.filter((m) => m.role === "assistant");
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  setLLMProviderForTesting(null);
+});
+
+describe("chat", () => {
+  it("finalizes the streamed reply and applies the generated title", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const provider = useFakeProvider([
+      {
+        content:
+          "Try a quick tomato pasta tonight.\n<!-- CONV_TITLE: Quick Tomato Pasta -->",
+      },
+    ]);
+    const { conversationId, messageId } = await startChat(
+      user,
+      "What should I cook tonight?"
+    );
+
+    const result = await user.as.action(api.ai.chat, {
+      conversationId,
+      messageId,
+    });
+
+    expect(result).toMatchObject({ success: true, toolCallsUsed: 0 });
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.content).toBe("Try a quick tomato pasta tonight.");
+    expect(reply.isStreaming).toBe(false);
+    expect(reply.recipes).toBeUndefined();
+
+    const conversation = await t.query(internal.conversations.getInternal, {
+      conversationId,
+    });
+    expect(conversation?.title).toBe("Quick Tomato Pasta");
+    expect(provider.calls.filter((c) => c.kind === "chat")).toHaveLength(1);
+  });
+
+  it("attaches the recipe presented with the present_recipe tool", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const recipe = {
+      title: "Garlic Toast",
+      description: "Crunchy",
+      ingredients: [{ name: "bread", amount: 2, unit: "slices" }],
+      instructions: ["Toast the bread", "Rub with garlic"],
+      servings: 2,
+    };
+    const provider = useFakeProvider(recipeReply(recipe));
+    const { conversationId, messageId } = await startChat(user, "Garlic toast?");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.content).toBe("Here you go!");
+    expect(JSON.parse(reply.recipes![0].recipeJson)).toEqual({
+      ...recipe,
+      ingredients: [{ name: "bread", amount: "2", unit: "slices" }],
+      dietaryTags: [],
+    });
+    expect(reply.recipeError).toBeUndefined();
+    // Valid on the first try, so no repair pass
+    expect(provider.calls.some((c) => c.kind === "json")).toBe(false);
+  });
+
+  it("shows each recipe presented in a reply as its own card", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const option = (title: string) => ({
+      title,
+      description: "",
+      ingredients: [{ name: "pasta", amount: "200", unit: "g" }],
+      instructions: ["Boil the pasta"],
+      servings: 2,
+    });
+    useFakeProvider([
+      {
+        content: "Three weeknight options:",
+        toolCalls: [
+          { name: "present_recipe", arguments: option("Aglio e Olio") },
+          { name: "present_recipe", arguments: option("Cacio e Pepe") },
+          { name: "present_recipe", arguments: option("Pasta al Limone") },
+        ],
+      },
+      {},
+      { toolCalls: [{ name: "save_recipe_from_conversation", arguments: {} }] },
+      {
+        toolCalls: [
+          { name: "save_recipe_from_conversation", arguments: { title: "cacio" } },
+        ],
+      },
+      { content: "Saved the cacio e pepe." },
+    ]);
+    const { conversationId, messageId } = await startChat(user, "Three weeknight pastas?");
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [options] = await assistantMessages(t, conversationId);
+    expect(options.recipes!.map((r) => JSON.parse(r.recipeJson).title)).toEqual([
+      "Aglio e Olio",
+      "Cacio e Pepe",
+      "Pasta al Limone",
+    ]);
+
+    // "Save it" is ambiguous with three cards; the title picks one
+    const saveRequest = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "Save the cacio e pepe",
+    });
+    await user.as.action(api.ai.chat, { conversationId, messageId: saveRequest });
+
+    const savedRecipes = await user.as.query(api.recipes.list, {});
+    expect(savedRecipes.map((r) => r.title)).toEqual(["Cacio e Pepe"]);
+    const [saved] = savedRecipes;
+    const [linked] = await assistantMessages(t, conversationId);
+    expect(linked.recipes!.map((r) => r.linkedRecipeId)).toEqual([
+      undefined,
+      saved._id,
+      undefined,
+    ]);
+  });
+
+  it("flags recipe ingredients that conflict with the dietary profile", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("userMemories", {
+        userId: user.userId,
+        fact: "User is allergic to sesame",
+        category: "allergy",
+        confidence: "high",
+        extractedAt: Date.now(),
+      });
+    });
+    const recipe = {
+      title: "Hummus Bowl",
+      ingredients: [
+        { name: "chickpeas", amount: "1", unit: "can" },
+        { name: "tahini", amount: "2", unit: "tbsp" },
+      ],
+      instructions: ["Blend everything"],
+      servings: 2,
+    };
+    useFakeProvider(recipeReply(recipe, "Enjoy!"));
+    const { conversationId, messageId } = await startChat(user, "Hummus bowl?");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.recipes![0].dietaryWarnings).toEqual([
+      {
+        ingredient: "tahini",
+        allergen: "sesame",
+        fact: "User is allergic to sesame",
+      },
+    ]);
+  });
+
+  it("tells the model what was wrong so it can resend the recipe", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const recipe = {
+      title: "Garlic Toast",
+      description: "",
+      ingredients: [{ name: "bread", amount: "2", unit: "slices" }],
+      instructions: ["Toast the bread"],
+      servings: 2,
+    };
+    const provider = useFakeProvider([
+      {
+        content: "Here you go!",
+        toolCalls: [{ name: "present_recipe", arguments: { ...recipe, servings: "two" } }],
+      },
+      { toolCalls: [{ name: "present_recipe", arguments: recipe }] },
+      {},
+    ]);
+    const { conversationId, messageId } = await startChat(user, "Garlic toast?");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const toolMessage = provider.calls
+      .flatMap((c) => (c.kind === "chat" ? [c.request] : []))[1]
+      .messages.at(-1);
+    expect(JSON.parse(toolMessage!.content as string).error).toMatch(/^Invalid recipe: servings:/);
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.recipes).toHaveLength(1);
+    expect(JSON.parse(reply.recipes![0].recipeJson).servings).toBe(2);
+  });
+
+  it("repairs a recipe the model never got right", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const provider = new FakeLLMProvider({
+      chat: [
+        { content: "Here you go!", toolCalls: [{ name: "present_recipe", arguments: "{ title: oops" }] },
+        {},
+      ],
+      json: [
+        {
+          title: "Garlic Toast",
+          description: "",
+          ingredients: [{ name: "bread", amount: "2", unit: "slices" }],
+          instructions: ["Toast the bread"],
+          servings: 2,
+        },
+      ],
+    });
+    setLLMProviderForTesting(provider);
+    const { conversationId, messageId } = await startChat(user, "Garlic toast?");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(JSON.parse(reply.recipes![0].recipeJson).title).toBe("Garlic Toast");
+    const repair = provider.calls.find((c) => c.kind === "json");
+    expect(repair?.kind === "json" && repair.request.prompt).toContain("{ title: oops");
+  });
+
+  it("records why a recipe couldn't be attached", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    useFakeProvider([
+      {
+        content: "Here you go!",
+        toolCalls: [{ name: "present_recipe", arguments: { title: "Garlic Toast" } }],
+      },
+      {},
+    ]);
+    const { conversationId, messageId } = await startChat(user, "Garlic toast?");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.content).toBe("Here you go!");
+    expect(reply.recipes).toBeUndefined();
+    // The fake's repair pass returns no JSON
+    expect(reply.recipeError).toMatch(/^"Garlic Toast": ingredients: .+\(repair returned no JSON\)$/);
+    expect(reply.isStreaming).toBe(false);
+  });
+
+  it("keeps an untitled invalid recipe when another one in the reply validates", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const toast = {
+      title: "Garlic Toast",
+      description: "",
+      ingredients: [{ name: "bread", amount: "2", unit: "slices" }],
+      instructions: ["Toast the bread"],
+      servings: 2,
+    };
+    const provider = useFakeProvider([
+      {
+        content: "Two sides:",
+        toolCalls: [
+          { name: "present_recipe", arguments: { ingredients: [], servings: 4 } },
+          { name: "present_recipe", arguments: toast },
+        ],
+      },
+      {},
+    ]);
+    const { conversationId, messageId } = await startChat(user, "Two sides?");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.recipes!.map((r) => JSON.parse(r.recipeJson).title)).toEqual(["Garlic Toast"]);
+    // The untitled one still got its repair pass, and its failure is recorded
+    expect(provider.calls.filter((c) => c.kind === "json")).toHaveLength(1);
+    expect(reply.recipeError).toMatch(/^Recipe: .+\(repair returned no JSON\)$/);
+  });
+
+  it("runs memory tool calls before producing the final reply", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const provider = useFakeProvider([
+      {
+        toolCalls: [
+          {
+            name: "add_user_memory",
+            arguments: { fact: "User is allergic to shellfish", category: "allergy" },
+          },
+        ],
+      },
+      { content: "Noted, I'll keep shellfish out of your recipes." },
+    ]);
+    const { conversationId, messageId } = await startChat(
+      user,
+      "I'm allergic to shellfish"
+    );
+
+    const result = await user.as.action(api.ai.chat, {
+      conversationId,
+      messageId,
+    });
+
+    expect(result.toolCallsUsed).toBe(1);
+    const memories = await t.query(internal.memories.getMemoriesInternal, {
+      userId: user.userId,
+    });
+    expect(memories.map((m) => m.fact)).toEqual(["User is allergic to shellfish"]);
+
+    // The tool result is fed back to the model on the second round
+    const chatRequests = provider.calls.flatMap((c) =>
+      c.kind === "chat" ? [c.request] : []
+    );
+    expect(chatRequests).toHaveLength(2);
+    const secondRound = chatRequests[1].messages;
+    expect(secondRound[secondRound.length - 1]).toMatchObject({ role: "tool" });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.content).toBe("Noted, I'll keep shellfish out of your recipes.");
+  });
+
+  it("confirms an allergy removal with the user before deleting it", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    await t.run((ctx) =>
+      ctx.db.insert("userMemories", {
+        userId: user.userId,
+        fact: "User is allergic to peanuts",
+        category: "allergy",
+        confidence: "high",
+        extractedAt: Date.now(),
+      })
+    );
+    useFakeProvider([
+      {
+        toolCalls: [
+          { name: "remove_user_memory", arguments: { searchTerm: "peanut" } },
+        ],
+      },
+      { content: "Just to be safe: should I forget your peanut allergy?" },
+    ]);
+    const { conversationId, messageId } = await startChat(
+      user,
+      "forget the peanut thing"
+    );
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [memory] = await t.query(internal.memories.getMemoriesInternal, {
+      userId: user.userId,
+    });
+    expect(memory.fact).toBe("User is allergic to peanuts");
+
+    // Next turn: the open question and its candidate ID are in the prompt
+    const provider = useFakeProvider([
+      {
+        toolCalls: [
+          {
+            name: "remove_user_memory",
+            arguments: { memoryId: memory._id, confirmed: true },
+          },
+        ],
+      },
+      { content: "Done, I've forgotten it." },
+    ]);
+    const yes = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "yes",
+    });
+    await user.as.action(api.ai.chat, { conversationId, messageId: yes });
+
+    const [firstRequest] = provider.calls.flatMap((c) =>
+      c.kind === "chat" ? [c.request] : []
+    );
+    expect(firstRequest.messages[0].content).toContain(
+      `- ${memory._id}: User is allergic to peanuts (allergy)`
+    );
+    expect(
+      await t.query(internal.memories.getMemoriesInternal, { userId: user.userId })
+    ).toEqual([]);
+  });
+
+  it("cooks for household members picked in the chat and tags the recipe", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    await user.as.mutation(api.household.add, {
+      name: "Sam",
+      facts: [{ fact: "Allergic to tree nuts", category: "allergy" }],
+    });
+    const recipe = {
+      title: "Walnut Pesto Pasta",
+      description: "Quick",
+      ingredients: [{ name: "walnuts", amount: "50", unit: "g" }],
+      instructions: ["Blend"],
+      servings: 2,
+      dietaryTags: [],
+    };
+    const provider = useFakeProvider([
+      {
+        toolCalls: [
+          { name: "set_cooking_for", arguments: { names: ["sam"] } },
+        ],
+      },
+      ...recipeReply(recipe),
+    ]);
+    const { conversationId, messageId } = await startChat(
+      user,
+      "cooking for me and Sam tonight"
+    );
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.recipes![0].memberSafety).toEqual([
+      { name: "You", safe: true, allergens: [] },
+      expect.objectContaining({ name: "Sam", safe: false, allergens: ["tree nut"] }),
+    ]);
+
+    // The next turn carries everyone's restrictions in the prompt
+    const next = useFakeProvider([{ content: "Sure." }]);
+    const followUp = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "something else?",
+    });
+    await user.as.action(api.ai.chat, { conversationId, messageId: followUp });
+    const [request] = next.calls.flatMap((c) => (c.kind === "chat" ? [c.request] : []));
+    expect(request.messages[0].content).toContain("  - Sam: Allergic to tree nuts");
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  it("skips the user's own dietary warnings when they aren't eating", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("userMemories", {
+        userId: user.userId,
+        fact: "User is allergic to sesame",
+        category: "allergy",
+        confidence: "high",
+        extractedAt: Date.now(),
+      });
+    });
+    await user.as.mutation(api.household.add, { name: "Sam", facts: [] });
+    const recipe = {
+      title: "Hummus Bowl",
+      ingredients: [{ name: "tahini", amount: "2", unit: "tbsp" }],
+      instructions: ["Blend everything"],
+      servings: 1,
+    };
+    useFakeProvider([
+      {
+        toolCalls: [
+          { name: "set_cooking_for", arguments: { names: ["sam"], include_me: false } },
+        ],
+      },
+      ...recipeReply(recipe),
+    ]);
+    const { conversationId, messageId } = await startChat(
+      user,
+      "lunch for Sam, I'm eating out"
+    );
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.recipes![0].dietaryWarnings).toBeUndefined();
+    expect(reply.recipes![0].memberSafety).toEqual([
+      expect.objectContaining({ name: "Sam", safe: true, allergens: [] }),
+    ]);
+  });
+
+  it("answers meal plan questions with the get_meal_plan tool", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    await user.as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-06",
+      slot: "dinner",
+      title: "Chicken tikka masala",
+    });
+    const provider = useFakeProvider([
+      {
+        toolCalls: [
+          {
+            name: "get_meal_plan",
+            arguments: { start_date: "2025-03-06", slot: "dinner" },
+          },
+        ],
+      },
+      { content: "Thursday is chicken tikka masala night." },
+    ]);
+    const { conversationId, messageId } = await startChat(
+      user,
+      "What's for dinner Thursday?"
+    );
+
+    await user.as.action(api.ai.chat, {
+      conversationId,
+      messageId,
+      localDate: "2025-03-03",
+    });
+
+    const chatRequests = provider.calls.flatMap((c) =>
+      c.kind === "chat" ? [c.request] : []
+    );
+    expect(chatRequests[0].messages[0].content).toContain(
+      "Today is Monday, 2025-03-03."
+    );
+    const toolMessage = chatRequests[1].messages.at(-1);
+    expect(toolMessage).toMatchObject({ role: "tool" });
+    expect(JSON.parse(toolMessage!.content as string)).toMatchObject({
+      success: true,
+      entries: [
+        { date: "2025-03-06", weekday: "Thursday", title: "Chicken tikka masala" },
+      ],
+    });
+  });
+
+  it("draws on the stored pantry with the get_pantry_items tool", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    await user.as.mutation(api.pantry.add, { name: "Eggs", quantity: "6" });
+    const provider = useFakeProvider([
+      { toolCalls: [{ name: "get_pantry_items", arguments: {} }] },
+      { content: "With six eggs you could make a frittata." },
+    ]);
+    const { conversationId, messageId } = await startChat(user, "Use what I have");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const chatRequests = provider.calls.flatMap((c) =>
+      c.kind === "chat" ? [c.request] : []
+    );
+    const toolMessage = chatRequests[1].messages.at(-1);
+    expect(JSON.parse(toolMessage!.content as string)).toMatchObject({
+      success: true,
+      items: [{ name: "Eggs", quantity: "6" }],
+    });
+  });
+
+  it("finds saved recipes with the search_recipe_book tool", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const recipeId = await user.as.mutation(api.recipes.create, {
+      title: "Red Lentil Dal",
+      description: "Weeknight dal",
+      ingredients: [{ name: "red lentils", amount: "1", unit: "cup" }],
+      instructions: ["Simmer"],
+      servings: 4,
+      dietaryTags: [],
+      source: "user_created",
+    });
+    await user.as.mutation(api.recipes.create, {
+      title: "Greek Salad",
+      description: "",
+      ingredients: [{ name: "feta", amount: "100", unit: "g" }],
+      instructions: ["Toss"],
+      servings: 2,
+      dietaryTags: [],
+      source: "user_created",
+    });
+    const provider = useFakeProvider([
+      {
+        toolCalls: [
+          {
+            name: "search_recipe_book",
+            arguments: { query: "that lentil thing", saved_after: "2000-01-01" },
+          },
+        ],
+      },
+      { content: "That was your Red Lentil Dal." },
+    ]);
+    const { conversationId, messageId } = await startChat(
+      user,
+      "What was that lentil thing I saved?"
+    );
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const toolMessage = provider.calls
+      .flatMap((c) => (c.kind === "chat" ? [c.request] : []))[1]
+      .messages.at(-1);
+    expect(JSON.parse(toolMessage!.content as string)).toMatchObject({
+      success: true,
+      recipes: [{ id: recipeId, title: "Red Lentil Dal" }],
+    });
+  });
+
+  it("saves a recipe from an earlier reply and marks it favorite", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const recipe = {
+      title: "Garlic Toast",
+      description: "Crunchy",
+      ingredients: [{ name: "bread", amount: "2", unit: "slices" }],
+      instructions: ["Toast the bread", "Rub with garlic"],
+      servings: 2,
+    };
+    useFakeProvider([
+      ...recipeReply(recipe),
+      { toolCalls: [{ name: "save_recipe_from_conversation", arguments: {} }] },
+      { content: "Saved!" },
+    ]);
+    const { conversationId, messageId } = await startChat(user, "Garlic toast?");
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+    const saveRequest = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "Save that",
+    });
+    await user.as.action(api.ai.chat, { conversationId, messageId: saveRequest });
+
+    const [recipeMessage] = await assistantMessages(t, conversationId);
+    const [saved] = await user.as.query(api.recipes.list, {});
+    expect(saved).toMatchObject({ title: "Garlic Toast", isFavorite: false });
+    expect(recipeMessage.recipes![0].linkedRecipeId).toBe(saved._id);
+
+    useFakeProvider([
+      {
+        toolCalls: [
+          { name: "toggle_favorite", arguments: { recipe_id: saved._id } },
+          // Saving again finds the existing copy
+          { name: "save_recipe_from_conversation", arguments: { title: "garlic" } },
+        ],
+      },
+      { content: "Done." },
+    ]);
+    const favoriteRequest = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "Make it a favorite",
+    });
+    await user.as.action(api.ai.chat, { conversationId, messageId: favoriteRequest });
+
+    const recipes = await user.as.query(api.recipes.list, {});
+    expect(recipes).toHaveLength(1);
+    expect(recipes[0].isFavorite).toBe(true);
+  });
+
+  it("validates ingredients the model sends to update_saved_recipe", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const recipeId = await user.as.mutation(api.recipes.create, {
+      title: "Chili",
+      description: "",
+      ingredients: [{ name: "beans", amount: "1", unit: "can" }],
+      instructions: ["Simmer"],
+      servings: 4,
+      dietaryTags: [],
+      source: "user_created",
+    });
+    const provider = useFakeProvider([
+      {
+        toolCalls: [
+          {
+            name: "update_saved_recipe",
+            arguments: { recipe_id: recipeId, ingredients: [{ amount: 2 }] },
+          },
+        ],
+      },
+      {
+        toolCalls: [
+          {
+            name: "update_saved_recipe",
+            arguments: {
+              recipe_id: recipeId,
+              ingredients: [{ name: " beans ", amount: 2, unit: "cans", preparation: "drained" }],
+            },
+          },
+        ],
+      },
+      { content: "Doubled the beans." },
+    ]);
+    const { conversationId, messageId } = await startChat(user, "More beans please");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    const [, retry] = provider.calls.flatMap((c) => (c.kind === "chat" ? [c.request] : []));
+    expect(retry.messages.at(-1)?.content).toMatch(/Nothing was changed. ingredients: 0.name/);
+    const recipe = await user.as.query(api.recipes.get, { id: recipeId });
+    expect(recipe.ingredients).toEqual([
+      { name: "beans", amount: "2", unit: "cans", preparation: "drained" },
+    ]);
+  });
+
+  it("won't touch another user's recipes through the tools", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const other = await createUser(t, "Other");
+    const recipeId = await owner.as.mutation(api.recipes.create, {
+      title: "Secret Stew",
+      description: "",
+      ingredients: [{ name: "beef", amount: "1", unit: "kg" }],
+      instructions: ["Stew"],
+      servings: 4,
+      dietaryTags: [],
+      source: "user_created",
+    });
+
+    const result = await t.mutation(internal.recipes.updateForTool, {
+      userId: other.userId,
+      recipeId,
+      title: "Mine now",
+    });
+
+    expect(result).toMatchObject({ success: false });
+    const recipe = await owner.as.query(api.recipes.get, { id: recipeId });
+    expect(recipe.title).toBe("Secret Stew");
+    expect(
+      await t.query(internal.recipes.getForTool, { userId: other.userId, recipeId })
+    ).toMatchObject({ success: false });
+  });
+
+  it("stops looping after the tool call limit", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const listTurn: ScriptedChatTurn = {
+      toolCalls: [{ name: "list_user_memories", arguments: {} }],
+    };
+    const provider = useFakeProvider(Array(8).fill(listTurn));
+    const { conversationId, messageId } = await startChat(user, "What do you know?");
+
+    const result = await user.as.action(api.ai.chat, {
+      conversationId,
+      messageId,
+    });
+
+    expect(result.toolCallsUsed).toBe(5);
+    expect(provider.calls.filter((c) => c.kind === "chat")).toHaveLength(6);
+    const [reply] = await assistantMessages(t, conversationId);
+    expect(reply.content).toBe("I'm sorry, I couldn't generate a response.");
+  });
+
+  it("requires authentication", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    useFakeProvider();
+    const { conversationId, messageId } = await startChat(user, "Hello");
+
+    await expect(
+      t.action(api.ai.chat, { conversationId, messageId })
+    ).rejects.toThrow(/UNAUTHORIZED/);
+  });
+
+  it("refuses to answer another user's message", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const intruder = await createUser(t, "Intruder");
+    const provider = useFakeProvider();
+    const { conversationId, messageId } = await startChat(owner, "Hello");
+
+    await expect(
+      intruder.as.action(api.ai.chat, { conversationId, messageId })
+    ).rejects.toThrow(/NOT_FOUND/);
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it("discards the placeholder and reports a retryable error when the provider fails", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const failing = new FakeLLMProvider();
+    failing.chat = async () => {
+      throw new Error("connection reset");
+    };
+    setLLMProviderForTesting(failing as LLMProvider);
+    const { conversationId, messageId } = await startChat(user, "Hello");
+
+    await expect(
+      user.as.action(api.ai.chat, { conversationId, messageId })
+    ).rejects.toThrow(/AI_SERVICE_UNAVAILABLE/);
+
+    expect(await assistantMessages(t, conversationId)).toHaveLength(0);
+    const conversation = await t.query(internal.conversations.getInternal, {
+      conversationId,
+    });
+    expect(conversation?.messageCount).toBe(1);
+  });
+
+  it("doesn't leave the placeholder streaming when handling the reply fails", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    useFakeProvider([
+      {
+        content: "Here you go!",
+        toolCalls: [{ name: "present_recipe", arguments: { title: "Garlic Toast" } }],
+      },
+      {},
+    ]);
+    // Fails after the tool loop, while reporting the recipe that didn't attach
+    const warn = vi.spyOn(console, "warn").mockImplementation((message: string) => {
+      if (message.startsWith("Recipes for")) throw new Error("log sink unavailable");
+    });
+    const { conversationId, messageId } = await startChat(user, "Garlic toast?");
+
+    try {
+      await expect(
+        user.as.action(api.ai.chat, { conversationId, messageId })
+      ).rejects.toThrow(/log sink unavailable/);
+    } finally {
+      warn.mockRestore();
+    }
+
+    expect(await assistantMessages(t, conversationId)).toHaveLength(0);
+  });
+
+  it("queues memory compaction instead of running it before replying", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const provider = useFakeProvider([{ content: "Sure!" }]);
+    const conversationId = await user.as.mutation(api.conversations.create, {});
+    await t.run(async (ctx) => {
+      for (let i = 0; i < 9; i++) {
+        await ctx.db.insert("messages", {
+          conversationId,
+          userId: user.userId,
+          role: i % 2 === 0 ? "assistant" : "user",
+          content: `Earlier message ${i}`,
+          isStreaming: false,
+          createdAt: Date.now(),
+        });
+      }
+    });
+    const messageId = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "Hello",
+    });
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+
+    expect(provider.calls.filter((c) => c.kind === "json")).toHaveLength(0);
+    const conversation = await t.run((ctx) => ctx.db.get(conversationId));
+    expect(conversation?.pendingCompaction).toBeDefined();
+  });
+
+  it("rejects sends once the daily quota is spent, without storing the message", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const conversationId = await user.as.mutation(api.conversations.create, {});
+    await t.run(async (ctx) => {
+      const profile = await ctx.db
+        .query("userProfiles")
+        .withIndex("by_userId", (q) => q.eq("userId", user.userId))
+        .unique();
+      await ctx.db.patch(profile!._id, { dailyRequestCount: 50 });
+    });
+
+    await expect(
+      user.as.mutation(api.messages.send, { conversationId, content: "Hello" })
+    ).rejects.toThrow(/RATE_LIMIT_EXCEEDED/);
+    const messages = await t.run((ctx) => ctx.db.query("messages").collect());
+    expect(messages).toHaveLength(0);
+  });
+
+  it("answers each charged message only once", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const provider = useFakeProvider([{ content: "Hi!" }]);
+    const { conversationId, messageId } = await startChat(user, "Hello");
+
+    await user.as.action(api.ai.chat, { conversationId, messageId });
+    await expect(
+      user.as.action(api.ai.chat, { conversationId, messageId })
+    ).rejects.toThrow(/already been answered/);
+    expect(provider.calls).toHaveLength(1);
+    expect(await user.as.query(api.users.getQuota, {})).toMatchObject({ used: 1 });
+  });
+
+  it("answers a message once when two replies for it start together", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const provider = useFakeProvider([{ content: "Hi!" }]);
+    const { conversationId, messageId } = await startChat(user, "Hello");
+
+    const results = await Promise.allSettled([
+      user.as.action(api.ai.chat, { conversationId, messageId }),
+      user.as.action(api.ai.chat, { conversationId, messageId }),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(provider.calls).toHaveLength(1);
+    expect(await assistantMessages(t, conversationId)).toHaveLength(1);
+  });
+});
+
+describe("chat context budget", () => {
+  const chatRequests = (provider: FakeLLMProvider) =>
+    provider.calls.flatMap((c) => (c.kind === "chat" ? [c.request] : []));
+
+  it("keeps allergies, trims old history and summarizes it for later turns", async () => {
+    vi.useFakeTimers();
+    vi.stubEnv("LLM_CONTEXT_WINDOW", "16000");
+    const t = setupTest();
+    const user = await createUser(t);
+    const provider = new FakeLLMProvider({
+      chat: [{ content: "Tacos it is." }, { content: "Use corn tortillas." }],
+      json: [{ summary: "The user is planning a taco night for six." }],
+    });
+    setLLMProviderForTesting(provider);
+
+    const conversationId = await user.as.mutation(api.conversations.create, {});
+    await t.run(async (ctx) => {
+      await ctx.db.insert("userMemories", {
+        userId: user.userId,
+        fact: "User is allergic to sesame",
+        category: "allergy",
+        confidence: "high",
+        extractedAt: Date.now(),
+      });
+      for (let i = 0; i < 40; i++) {
+        await ctx.db.insert("messages", {
+          conversationId,
+          userId: user.userId,
+          role: i % 2 === 0 ? "user" : "assistant",
+          content: `Turn ${i}: ${"let's talk about taco night fillings ".repeat(40)}`,
+          isStreaming: false,
+          createdAt: Date.now(),
+        });
+      }
+    });
+
+    const first = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "So what are we making?",
+    });
+    await user.as.action(api.ai.chat, { conversationId, messageId: first });
+
+    const [request] = chatRequests(provider);
+    expect(request.messages[0].content).toContain("User is allergic to sesame");
+    expect(request.messages.at(-1)).toEqual({
+      role: "user",
+      content: "So what are we making?",
+    });
+    // The oldest turns were left out...
+    expect(request.messages.length).toBeLessThan(42);
+    expect(request.messages[1].content).not.toContain("Turn 0:");
+
+    // ...and get folded into the running summary in the background
+    vi.advanceTimersByTime(1);
+    await t.finishInProgressScheduledFunctions();
+    const summaryPrompt = provider.calls.find((c) => c.kind === "json");
+    expect(summaryPrompt?.kind === "json" && summaryPrompt.request.prompt).toContain(
+      "Turn 0:"
+    );
+
+    const second = await user.as.mutation(api.messages.send, {
+      conversationId,
+      content: "Which tortillas?",
+    });
+    await user.as.action(api.ai.chat, { conversationId, messageId: second });
+    expect(chatRequests(provider)[1].messages[0].content).toContain(
+      "## Earlier in This Conversation\nThe user is planning a taco night for six."
+    );
+  });
+});
@@ -1,140 +1,406 @@
-import { v } from "convex/values";
-import { action } from "./_generated/server";
+import { Infer, v } from "convex/values";
+import { action, internalAction } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { messageRecipe } from "./schema";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import OpenAI from "openai";
 import {
   checkForAbuse,
   checkOutputGuardrail,
   CULINARY_SYSTEM_PROMPT,
 } from "./lib/topicGuardrails";
 import {
+  MEAL_TYPES,
+  GeneratedRecipe,
+  MAX_RECIPES_PER_MESSAGE,
   RECIPE_GENERATION_PROMPT,
-  extractRecipeJson,
+  RECIPE_JSON_SCHEMA,
   extractConversationTitle,
+  getStreamingDisplayText,
+  repairRecipe,
+  validateIngredients,
+  validateRecipe,
 } from "./lib/recipeGeneration";
+import { findRecipeConflicts } from "./lib/allergenSafety";
 import { analyzeIngredientImage } from "./lib/imageAnalysis";
+import { AppError, createError } from "./lib/errors";
+import { addDays, isPlanDate, MealSlot, weekdayName } from "./lib/mealPlanning";
+import { getLLMProvider, LLMMessage, LLMToolDefinition } from "./lib/llm";
+import { buildHouseholdContext, recipeSafetyFor } from "./lib/household";
+import {
+  assembleContext,
+  CONTEXT_PRIORITY,
+  ContextSection,
+  HistoryMessage,
+  MEMORY_CATEGORY_PRIORITY,
+  REQUIRED,
+} from "./lib/contextAssembler";
+import { promptBudgetFor, tokenCounterFor } from "./lib/tokenCount";
+import { summarizeHistory } from "./lib/historySummary";
 
 // ============================================
 // MEMORY MANAGEMENT TOOLS FOR FUNCTION CALLING
 // ============================================
 
-const MEMORY_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
+const MEMORY_TOOLS: LLMToolDefinition[] = [
   {
-    type: "function",
-    function: {
-      name: "list_user_memories",
-      description:
-        "List all stored memories/preferences for the user. Use when user asks 'what do you know about me?' or 'show my preferences'. Returns dietary info, allergies, equipment, and preferences.",
-      parameters: {
-        type: "object",
-        properties: {
-          category: {
-            type: "string",
-            enum: [
-              "allergy",
-              "intolerance",
-              "restriction",
-              "equipment",
-              "goal",
-              "preference",
-            ],
-            description:
-              "Optional: filter by category. Omit to show all memories.",
-          },
+    name: "list_user_memories",
+    description:
+      "List all stored memories/preferences for the user. Use when user asks 'what do you know about me?' or 'show my preferences'. Returns dietary info, allergies, equipment, and preferences.",
+    parameters: {
+      type: "object",
+      properties: {
+        category: {
+          type: "string",
+          enum: [
+            "allergy",
+            "intolerance",
+            "restriction",
+            "equipment",
+            "goal",
+            "preference",
+          ],
+          description:
+            "Optional: filter by category. Omit to show all memories.",
         },
-        required: [],
       },
+      required: [],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "remove_user_memory",
-      description:
-        "Delete/forget a memory when user wants to remove something. Use when user says 'forget that I...', 'I'm not X anymore', 'remove my X', 'delete my allergy to X'. Matches partially against stored facts.",
-      parameters: {
-        type: "object",
-        properties: {
-          searchTerm: {
-            type: "string",
-            description:
-              "Text to match against existing memories (e.g., 'peanut', 'vegetarian', 'air fryer'). Case-insensitive partial match.",
-          },
+    name: "remove_user_memory",
+    description:
+      "Delete/forget a memory when user wants to remove something. Use when user says 'forget that I...', 'I'm not X anymore', 'remove my X', 'delete my allergy to X'. If several memories match, nothing is deleted and the candidates come back with IDs: ask the user which one, then call again with memoryId. Allergies are only removed with confirmed: true after the user has said yes.",
+    parameters: {
+      type: "object",
+      properties: {
+        searchTerm: {
+          type: "string",
+          description:
+            "Text to match against existing memories (e.g., 'peanut', 'vegetarian', 'air fryer'). Case-insensitive partial match.",
+        },
+        memoryId: {
+          type: "string",
+          description:
+            "ID of the exact memory to remove, from a previous candidates list or list_user_memories. Takes precedence over searchTerm.",
+        },
+        confirmed: {
+          type: "boolean",
+          description:
+            "Set true only when the user has explicitly confirmed removing this allergy in their latest message.",
         },
-        required: ["searchTerm"],
       },
+      required: [],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "add_user_memory",
-      description:
-        "Add/remember a new fact about the user. Use when user says 'remember that I...', 'I just got...', 'I am allergic to...', 'I'm vegan now'. Automatically checks for duplicates.",
-      parameters: {
-        type: "object",
-        properties: {
-          fact: {
-            type: "string",
-            description:
-              "The fact to remember, phrased as 'User is/has/prefers...' (e.g., 'User is allergic to shellfish', 'User has an Instant Pot')",
-          },
-          category: {
-            type: "string",
-            enum: [
-              "allergy",
-              "intolerance",
-              "restriction",
-              "equipment",
-              "goal",
-              "preference",
-            ],
-            description:
-              "Category: allergy (life-threatening), intolerance (digestive issues), restriction (vegan/halal/kosher), equipment (kitchen tools), goal (dietary goals), preference (likes/dislikes)",
-          },
+    name: "add_user_memory",
+    description:
+      "Add/remember a new fact about the user. Use when user says 'remember that I...', 'I just got...', 'I am allergic to...', 'I'm vegan now'. Automatically checks for duplicates.",
+    parameters: {
+      type: "object",
+      properties: {
+        fact: {
+          type: "string",
+          description:
+            "The fact to remember, phrased as 'User is/has/prefers...' (e.g., 'User is allergic to shellfish', 'User has an Instant Pot')",
+        },
+        category: {
+          type: "string",
+          enum: [
+            "allergy",
+            "intolerance",
+            "restriction",
+            "equipment",
+            "goal",
+            "preference",
+          ],
+          description:
+            "Category: allergy (life-threatening), intolerance (digestive issues), restriction (vegan/halal/kosher), equipment (kitchen tools), goal (dietary goals), preference (likes/dislikes)",
+        },
+        expiresInDays: {
+          type: "number",
+          description:
+            "Optional: for temporary facts, how many days it lasts (e.g. 30 for 'this month', 7 for 'my oven is broken this week', 0.5 for 'tonight'). Omit for permanent facts.",
+        },
+        thisConversationOnly: {
+          type: "boolean",
+          description:
+            "Optional: true when the fact only matters for this chat (e.g. 'I'm cooking for my in-laws').",
         },
-        required: ["fact", "category"],
       },
+      required: ["fact", "category"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "update_user_memory",
-      description:
-        "Update an existing memory. Use when user says 'actually I...' or wants to modify an existing preference. Finds matching memory and updates it.",
-      parameters: {
-        type: "object",
-        properties: {
-          searchTerm: {
-            type: "string",
-            description: "Text to find the memory to update",
-          },
-          newFact: {
-            type: "string",
-            description:
-              "The updated fact (optional if only changing category)",
-          },
-          newCategory: {
-            type: "string",
-            enum: [
-              "allergy",
-              "intolerance",
-              "restriction",
-              "equipment",
-              "goal",
-              "preference",
-            ],
-            description: "New category (optional if only changing fact)",
+    name: "update_user_memory",
+    description:
+      "Update an existing memory. Use when user says 'actually I...' or wants to modify an existing preference. If several memories match, nothing changes and the candidates come back with IDs: ask the user which one, then call again with memoryId. Allergies are only reworded or recategorized with confirmed: true after the user has said yes.",
+    parameters: {
+      type: "object",
+      properties: {
+        searchTerm: {
+          type: "string",
+          description: "Text to find the memory to update",
+        },
+        memoryId: {
+          type: "string",
+          description:
+            "ID of the exact memory to update, from a previous candidates list or list_user_memories. Takes precedence over searchTerm.",
+        },
+        newFact: {
+          type: "string",
+          description:
+            "The updated fact (optional if only changing category)",
+        },
+        newCategory: {
+          type: "string",
+          enum: [
+            "allergy",
+            "intolerance",
+            "restriction",
+            "equipment",
+            "goal",
+            "preference",
+          ],
+          description: "New category (optional if only changing fact)",
+        },
+        confirmed: {
+          type: "boolean",
+          description:
+            "Set true only when the user has explicitly confirmed changing this allergy in their latest message.",
+        },
+      },
+      required: [],
+    },
+  },
+];
+
+// ============================================
+// MEAL PLAN TOOLS
+// ============================================
+
+const MEAL_PLAN_TOOLS: LLMToolDefinition[] = [
+  {
+    name: "get_meal_plan",
+    description:
+      "Look up what the user has planned in their weekly meal planner. Use when the user asks 'what's for dinner Thursday?', 'what am I cooking this week?' or similar. Resolve relative days against today's date from the system prompt.",
+    parameters: {
+      type: "object",
+      properties: {
+        start_date: {
+          type: "string",
+          description: "First day to look up, in YYYY-MM-DD format",
+        },
+        end_date: {
+          type: "string",
+          description:
+            "Optional: last day to look up (YYYY-MM-DD, at most 31 days after start_date). Omit for a single day.",
+        },
+        slot: {
+          type: "string",
+          enum: ["breakfast", "lunch", "dinner", "snack"],
+          description: "Optional: only return this meal slot",
+        },
+      },
+      required: ["start_date"],
+    },
+  },
+];
+
+// ============================================
+// PANTRY TOOLS
+// ============================================
+
+const PANTRY_TOOLS: LLMToolDefinition[] = [
+  {
+    name: "get_pantry_items",
+    description:
+      "List the ingredients the user has on hand in their pantry, soonest-expiring first. Use when the user says 'use what I have', 'what can I make with my pantry?' or asks what is about to go off.",
+    parameters: {
+      type: "object",
+      properties: {
+        expiring_within_days: {
+          type: "number",
+          description:
+            "Optional: only return items expected to expire within this many days",
+        },
+      },
+      required: [],
+    },
+  },
+];
+
+// ============================================
+// HOUSEHOLD TOOLS
+// ============================================
+
+const HOUSEHOLD_TOOLS: LLMToolDefinition[] = [
+  {
+    name: "set_cooking_for",
+    description:
+      "Choose which household members this chat is cooking for, e.g. 'cooking for me and Sam tonight' or 'something the kids will eat'. Returns each person's dietary facts; every recipe from then on must be safe for all of them. Pass an empty names list to go back to cooking for the user only.",
+    parameters: {
+      type: "object",
+      properties: {
+        names: {
+          type: "array",
+          items: { type: "string" },
+          description: "First names of the household members eating (not the user)",
+        },
+        include_me: {
+          type: "boolean",
+          description:
+            "Whether the user is eating too (default true). False for 'cooking for Sam, I'm eating out'.",
+        },
+      },
+      required: ["names"],
+    },
+  },
+];
+
+// ============================================
+// RECIPE OUTPUT TOOL
+// ============================================
+
+const PRESENT_RECIPE_TOOL: LLMToolDefinition = {
+  name: "present_recipe",
+  description: `Attach a recipe in your reply as a recipe card the user can save. Call it whenever your reply gives a full recipe (ingredients and steps), once per recipe; for several options, call it for each (up to ${MAX_RECIPES_PER_MESSAGE}).`,
+  parameters: RECIPE_JSON_SCHEMA,
+};
+
+// Title of a recipe as sent to present_recipe, when it has one
+function sentRecipeTitle(data: unknown): string {
+  const title = (data as { title?: unknown } | null)?.title;
+  return typeof title === "string" ? title.trim() : "";
+}
+
+// ============================================
+// RECIPE BOOK TOOLS
+// ============================================
+
+const RECIPE_ID_PARAMETER = {
+  type: "string",
+  description: "ID of a saved recipe, from search_recipe_book",
+};
+
+const RECIPE_TOOLS: LLMToolDefinition[] = [
+  {
+    name: "search_recipe_book",
+    description:
+      "Search the user's saved recipes ('that lentil thing I saved last month', 'my favorite soups'). Returns up to 10 matches with IDs, best first; use get_recipe for the full recipe.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Optional: words from the title, ingredients or tags (e.g. 'lentil')",
+        },
+        favorites_only: {
+          type: "boolean",
+          description: "Optional: only favorites",
+        },
+        meal_type: {
+          type: "string",
+          enum: [...MEAL_TYPES],
+          description: "Optional: only this meal type",
+        },
+        saved_after: {
+          type: "string",
+          description:
+            "Optional: only recipes saved on or after this day (YYYY-MM-DD). Resolve 'last month' against today's date.",
+        },
+        saved_before: {
+          type: "string",
+          description: "Optional: only recipes saved on or before this day (YYYY-MM-DD)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "get_recipe",
+    description:
+      "Get a saved recipe in full (ingredients, steps, servings, times) to answer questions about it or cook from it.",
+    parameters: {
+      type: "object",
+      properties: { recipe_id: RECIPE_ID_PARAMETER },
+      required: ["recipe_id"],
+    },
+  },
+  {
+    name: "save_recipe_from_conversation",
+    description:
+      "Save a recipe from an earlier reply in this chat to the user's recipe book ('save this'). Saves the most recent one unless a title is given; when that reply has several, ask which one.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          description: "Optional: part of the title, when the chat has several recipes",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "update_saved_recipe",
+    description:
+      "Edit a recipe in the user's recipe book ('update my saved chili to serve 8'). Pass only the fields that change; ingredients and instructions replace the whole list.",
+    parameters: {
+      type: "object",
+      properties: {
+        recipe_id: RECIPE_ID_PARAMETER,
+        title: { type: "string" },
+        description: { type: "string" },
+        servings: { type: "number" },
+        prep_time: { type: "number", description: "Minutes" },
+        cook_time: { type: "number", description: "Minutes" },
+        ingredients: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              amount: { type: "string" },
+              unit: { type: "string" },
+            },
+            required: ["name", "amount", "unit"],
           },
         },
-        required: ["searchTerm"],
+        instructions: { type: "array", items: { type: "string" } },
+        dietary_tags: { type: "array", items: { type: "string" } },
       },
+      required: ["recipe_id"],
+    },
+  },
+  {
+    name: "toggle_favorite",
+    description:
+      "Mark or unmark a saved recipe as a favorite.",
+    parameters: {
+      type: "object",
+      properties: {
+        recipe_id: RECIPE_ID_PARAMETER,
+        favorite: {
+          type: "boolean",
+          description: "Omit to flip the current state",
+        },
+      },
+      required: ["recipe_id"],
     },
   },
 ];
 
+const CHAT_TOOLS = [
+  ...MEMORY_TOOLS,
+  ...MEAL_PLAN_TOOLS,
+  ...PANTRY_TOOLS,
+  ...HOUSEHOLD_TOOLS,
+  ...RECIPE_TOOLS,
+  PRESENT_RECIPE_TOOL,
+];
+
 // Type for valid category values
 type MemoryCategory =
   | "allergy"
@@ -144,318 +410,844 @@ type MemoryCategory =
   | "goal"
   | "preference";
 
+// Minimum delay between partial-content writes while a reply streams
+const STREAM_FLUSH_INTERVAL_MS = 200;
+
+const CHAT_MAX_TOKENS = 2048;
+// Tool definitions are sent with every request, outside the prompt budget
+const CHAT_TOOLS_JSON = JSON.stringify(CHAT_TOOLS);
+// Room for tool results appended during the tool loop
+const TOOL_RESULT_RESERVE_TOKENS = 1500;
+// Unsummarized messages read per request, before budgeting
+const HISTORY_FETCH_LIMIT = 100;
+
 export const chat = action({
   args: {
     conversationId: v.id("conversations"),
     messageId: v.id("messages"),
     mentionedRecipeIds: v.optional(v.array(v.id("recipes"))),
+    // The user's local calendar date (YYYY-MM-DD), so "Thursday" resolves correctly
+    localDate: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Unauthorized");
+    if (!userId) throw createError("UNAUTHORIZED", "Please sign in");
 
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+    const provider = getLLMProvider();
 
     // Get the user's message
     const userMessage = await ctx.runQuery(internal.messages.getById, {
       messageId: args.messageId,
     });
-    if (!userMessage) throw new Error("Message not found");
+    if (
+      !userMessage ||
+      userMessage.userId !== userId ||
+      userMessage.conversationId !== args.conversationId
+    ) {
+      throw createError("NOT_FOUND", "Message not found");
+    }
 
     // Fetch conversation to check if this is the first message
     const conversation = await ctx.runQuery(internal.conversations.getInternal, {
       conversationId: args.conversationId,
     });
-    const isFirstMessage = conversation ? conversation.messageCount <= 1 : false;
-    const titleInstruction = isFirstMessage
-      ? `\n\nIMPORTANT: This is the first message in this conversation. Include a concise 3-6 word title summarizing the user's request at the end of your response in this exact format:\n<!-- CONV_TITLE: Your Title Here -->`
-      : "";
-
-    // Handle image if present
-    let imageContext = "";
-    if (userMessage.imageStorageId) {
-      try {
-        const imageUrl = await ctx.storage.getUrl(userMessage.imageStorageId);
-        if (imageUrl) {
-          // Fetch and convert to base64
-          const imageResponse = await fetch(imageUrl);
-          const imageBuffer = await imageResponse.arrayBuffer();
-          const base64 = btoa(String.fromCharCode(...new Uint8Array(imageBuffer)));
-
-          const analysis = await analyzeIngredientImage(
-            client,
-            base64,
-            "image/jpeg",
-            userMessage.content
-          );
-          imageContext = `\n\n[Image Analysis: ${analysis.rawAnalysis}]`;
-
-          // Store image analysis on message
-          await ctx.runMutation(internal.messages.updateImageAnalysis, {
-            messageId: args.messageId,
-            analysis: analysis.rawAnalysis,
-          });
-        }
-      } catch (error) {
-        console.error("Image analysis error:", error);
-        imageContext = "\n\n[Image could not be analyzed]";
-      }
+    if (!conversation || conversation.userId !== userId) {
+      throw createError("NOT_FOUND", "Conversation not found");
     }
 
-    // Minimal abuse check (jailbreak attempts only) - LLM handles topic routing naturally
-    const abuseCheck = checkForAbuse(userMessage.content);
-    if (abuseCheck.isAbusive) {
-      await ctx.runMutation(internal.messages.createAssistantMessage, {
+    // Placeholder message that the UI renders while the reply streams in.
+    // messages.send charged the quota for one reply, so creating it claims
+    // that reply: it's refused unless the user's message is still the latest.
+    const assistantMessageId = await ctx.runMutation(
+      internal.messages.createStreamingMessage,
+      {
         conversationId: args.conversationId,
         userId,
-        content:
-          "I'm your cooking assistant! I'd love to help with recipes, meal planning, or food questions. What would you like to cook today?",
-      });
-      return { success: true, offTopic: true };
-    }
+        replyTo: args.messageId,
+      }
+    );
 
-    // Get conversation history
-    const history = await ctx.runQuery(internal.messages.getRecentInternal, {
-      conversationId: args.conversationId,
-      limit: 20,
-    });
+    // Whatever fails from here on, the placeholder must not be left streaming,
+    // so a retry can claim the reply again
+    let finalized = false;
+    try {
+      const isFirstMessage = conversation.messageCount <= 1;
+      const titleInstruction = isFirstMessage
+        ? `\n\nIMPORTANT: This is the first message in this conversation. Include a concise 3-6 word title summarizing the user's request at the end of your response in this exact format:\n<!-- CONV_TITLE: Your Title Here -->`
+        : "";
 
-    // Get user's memory context (allergies, preferences, etc.)
-    const memoryContext = await ctx.runQuery(
-      internal.memories.getMemoryContextInternal,
-      { userId }
-    );
+      // Handle image if present
+      let imageContext = "";
+      if (userMessage.imageStorageId) {
+        try {
+          const imageUrl = await ctx.storage.getUrl(userMessage.imageStorageId);
+          if (imageUrl) {
+            // Fetch and convert to base64
+            const imageResponse = await fetch(imageUrl);
+            const imageBuffer = await imageResponse.arrayBuffer();
+            const base64 = btoa(String.fromCharCode(...new Uint8Array(imageBuffer)));
 
-    // Fetch referenced recipe context if @mentions present
-    let recipeContext = "";
-    if (args.mentionedRecipeIds && args.mentionedRecipeIds.length > 0) {
-      const recipes = await Promise.all(
-        args.mentionedRecipeIds.map((id) =>
-          ctx.runQuery(internal.recipes.getInternal, { id })
-        )
+            const analysis = await analyzeIngredientImage(
+              provider,
+              base64,
+              "image/jpeg",
+              userMessage.content
+            );
+            imageContext = `\n\n[Image Analysis: ${analysis.rawAnalysis}]`;
+
+            // Store image analysis on message
+            await ctx.runMutation(internal.messages.updateImageAnalysis, {
+              messageId: args.messageId,
+              analysis: analysis.rawAnalysis,
+              detectedItems: analysis.items,
+            });
+          }
+        } catch (error) {
+          console.error("Image analysis error:", error);
+          imageContext = "\n\n[Image could not be analyzed]";
+        }
+      }
+
+      // Minimal abuse check (jailbreak attempts only) - LLM handles topic routing naturally
+      const abuseCheck = checkForAbuse(userMessage.content);
+      if (abuseCheck.isAbusive) {
+        await ctx.runMutation(internal.messages.finalizeStreamingMessage, {
+          messageId: assistantMessageId,
+          content:
+            "I'm your cooking assistant! I'd love to help with recipes, meal planning, or food questions. What would you like to cook today?",
+        });
+        finalized = true;
+        return { success: true, offTopic: true };
+      }
+
+      // Messages the running summary doesn't cover yet; the budget decides how
+      // many of them make it into the prompt
+      const historySummary = conversation.historySummary;
+      const recentMessages = await ctx.runQuery(internal.messages.getRecentInternal, {
+        conversationId: args.conversationId,
+        limit: HISTORY_FETCH_LIMIT,
+        afterCreationTime: historySummary?.throughCreationTime,
+      });
+      // The placeholder for this reply is the latest message; it's not history
+      const earlierMessages = recentMessages.filter((m) => m._id !== assistantMessageId);
+
+      // Get user's memory context (allergies, preferences, etc.), by category
+      const memorySections = await ctx.runQuery(
+        internal.memories.getMemoryContextSectionsInternal,
+        { userId, conversationId: args.conversationId }
       );
 
-      const validRecipes = recipes.filter(Boolean);
-      if (validRecipes.length > 0) {
-        const recipeTexts = validRecipes.map((r) => {
-          const ingredients = r!.ingredients
-            .map((i: { amount: string; unit: string; name: string }) => `- ${i.amount} ${i.unit} ${i.name}`)
+      // Fetch referenced recipe context if @mentions present
+      const recipeSections: ContextSection[] = [];
+      if (args.mentionedRecipeIds && args.mentionedRecipeIds.length > 0) {
+        const recipes = await Promise.all(
+          args.mentionedRecipeIds.map((id) =>
+            ctx.runQuery(internal.recipes.getInternal, { id })
+          )
+        );
+
+        for (const r of recipes) {
+          if (!r) continue;
+          const ingredients = r.ingredients
+            .map((i) => `- ${i.amount} ${i.unit} ${i.name}`)
             .join("\n");
-          const instructions = r!.instructions
-            .map((step: string, i: number) => `${i + 1}. ${step}`)
+          const instructions = r.instructions
+            .map((step, i) => `${i + 1}. ${step}`)
             .join("\n");
-          return `### ${r!.title}
-${r!.description}
-**Meal Type:** ${r!.mealType || "N/A"} | **Protein:** ${r!.proteinType || "N/A"} | **Servings:** ${r!.servings}
-**Ingredients:**
-${ingredients}
-**Instructions:**
-${instructions}`;
-        });
+          recipeSections.push({
+            key: `recipe:${r._id}`,
+            text: `## Referenced Recipe from User's Recipe Book
+  ### ${r.title}
+  ${r.description}
+  **Meal Type:** ${r.mealType || "N/A"} | **Protein:** ${r.proteinType || "N/A"} | **Servings:** ${r.servings}
+  **Ingredients:**
+  ${ingredients}
+  **Instructions:**
+  ${instructions}
 
-        recipeContext = `\n\n## Referenced Recipes from User's Recipe Book\n${recipeTexts.join("\n\n")}\n\nThe user is referencing the above recipe(s). Use this information to inform your response.`;
+  The user is referencing this recipe. Use it to inform your response.`,
+            priority: CONTEXT_PRIORITY.mentionedRecipes,
+          });
+        }
       }
-    }
 
-    // Build system prompt with memory context injected
-    const systemPrompt = `${CULINARY_SYSTEM_PROMPT.replace("{memoryContext}", memoryContext || "No dietary profile stored yet.")}
-
-${RECIPE_GENERATION_PROMPT}${recipeContext}${titleInstruction}`;
-
-    // Build messages for GPT (include image analysis context in history)
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-      { role: "system", content: systemPrompt },
-      ...history.reverse().map((m: any) => ({
-        role: m.role as "user" | "assistant",
-        content:
-          m.content + (m.imageAnalysis ? `\n[Image: ${m.imageAnalysis}]` : ""),
-      })),
-    ];
-
-    // Add current message with image context if not already in history
-    if (imageContext && !history.find((m: any) => m._id === args.messageId)) {
-      messages.push({
-        role: "user",
-        content: userMessage.content + imageContext,
+      const today =
+        args.localDate && isPlanDate(args.localDate)
+          ? args.localDate
+          : new Date().toISOString().slice(0, 10);
+
+      // Household members this chat is cooking for, if any
+      const cookingFor = await ctx.runQuery(internal.household.getCookingForInternal, {
+        userId,
+        conversationId: args.conversationId,
       });
-    }
 
-    // ============================================
-    // AGENTIC TOOL LOOP - Handle memory management
-    // ============================================
+      // A memory change waiting on the user's answer from the previous turn
+      const pendingConfirmation = await ctx.runQuery(
+        internal.memories.getPendingConfirmationInternal,
+        { userId, conversationId: args.conversationId }
+      );
+      let confirmationContext = "";
+      if (pendingConfirmation) {
+        const toolName =
+          pendingConfirmation.action === "remove"
+            ? "remove_user_memory"
+            : "update_user_memory";
+        const candidates = pendingConfirmation.candidates
+          .map((c) => `- ${c.id}: ${c.fact} (${c.category})`)
+          .join("\n");
+        confirmationContext = `## Waiting on the User\nYou asked the user to confirm or choose before calling ${toolName}. Candidates:\n${candidates}\nIf their latest message picks one or says yes, call ${toolName} with that memoryId${pendingConfirmation.action === "update" ? ", the same changes" : ""} and confirmed: true. If it doesn't, don't change anything.`;
+      }
 
-    let aiResponse = "";
-    let toolCallsCount = 0;
-    const MAX_TOOL_CALLS = 5; // Safety limit
+      // System prompt sections in prompt order; the assembler drops the
+      // lowest-priority ones when the budget runs short
+      const required = (key: string, text: string): ContextSection[] =>
+        text ? [{ key, text, priority: REQUIRED }] : [];
+      const sections: ContextSection[] = [
+        ...required(
+          "base",
+          CULINARY_SYSTEM_PROMPT.replace(
+            "{memoryContext}",
+            memorySections.length > 0
+              ? "**User Dietary Profile (ALWAYS RESPECT):**"
+              : "No dietary profile stored yet."
+          )
+        ),
+        ...memorySections.map((section) => ({
+          key: `memory:${section.category}`,
+          text: section.text,
+          priority: MEMORY_CATEGORY_PRIORITY[section.category],
+        })),
+        ...required(
+          "household",
+          cookingFor
+            ? `## Household\n${buildHouseholdContext(cookingFor.members, cookingFor.includesUser).trim()}`
+            : ""
+        ),
+        ...required("date", `Today is ${weekdayName(today)}, ${today}.`),
+        ...required("recipeFormat", RECIPE_GENERATION_PROMPT),
+        ...recipeSections,
+        ...(historySummary
+          ? [
+              {
+                key: "historySummary",
+                text: `## Earlier in This Conversation\n${historySummary.text}`,
+                priority: CONTEXT_PRIORITY.historySummary,
+              },
+            ]
+          : []),
+        ...required("confirmation", confirmationContext),
+        ...required("title", titleInstruction.trim()),
+      ];
 
-    try {
-      // Initial request with tools
-      let response = await client.chat.completions.create({
-        model: "gpt-4o",
-        max_completion_tokens: 2048,
-        messages,
-        tools: MEMORY_TOOLS,
-        tool_choice: "auto",
-      });
+      const history: HistoryMessage[] = earlierMessages.reverse().map((m) => ({
+        role: m.role,
+        content: m.content + (m.imageAnalysis ? `\n[Image: ${m.imageAnalysis}]` : ""),
+        creationTime: m._creationTime,
+      }));
+      // Include image analysis for the current message if it isn't in the history yet
+      if (imageContext && !earlierMessages.some((m) => m._id === args.messageId)) {
+        history.push({
+          role: "user",
+          content: userMessage.content + imageContext,
+          creationTime: userMessage._creationTime,
+        });
+      }
 
-      // Tool loop - keep processing until no more tool calls
-      while (
-        response.choices[0]?.message?.tool_calls &&
-        response.choices[0].message.tool_calls.length > 0 &&
-        toolCallsCount < MAX_TOOL_CALLS
-      ) {
-        const assistantMessage = response.choices[0].message;
-        messages.push(assistantMessage);
-
-        // Process each tool call (we know tool_calls exists from while condition)
-        const toolCalls = assistantMessage.tool_calls!;
-        for (const toolCall of toolCalls) {
-          const functionName = toolCall.function.name;
-          let toolResult: any;
-
-          try {
-            const functionArgs = JSON.parse(toolCall.function.arguments);
-
-            switch (functionName) {
-              case "list_user_memories": {
-                const memories = await ctx.runQuery(
-                  internal.memories.listMemoriesForTool,
-                  {
-                    userId,
-                    category: functionArgs.category as MemoryCategory | undefined,
+      const countTokens = tokenCounterFor(provider.models.chat);
+      const context = assembleContext(
+        sections,
+        history,
+        promptBudgetFor(
+          provider.models.chat,
+          CHAT_MAX_TOKENS + countTokens(CHAT_TOOLS_JSON) + TOOL_RESULT_RESERVE_TOKENS
+        ),
+        countTokens
+      );
+      const { usage } = context;
+      console.log(
+        `Chat context for ${args.conversationId} (${provider.models.chat}):`,
+        JSON.stringify(usage)
+      );
+      if (usage.overBudget || usage.droppedSections.length > 0 || usage.messagesDropped > 0) {
+        console.warn(
+          `Chat context for ${args.conversationId} trimmed to fit ${provider.models.chat}`
+        );
+      }
+
+      const messages: LLMMessage[] = [
+        { role: "system", content: context.systemPrompt },
+        ...context.history.map((m) => ({ role: m.role, content: m.content })),
+      ];
+
+      let streamedText = "";
+      let lastFlushAt = 0;
+      const onContent = async (delta: string) => {
+        streamedText += delta;
+        const now = Date.now();
+        if (now - lastFlushAt < STREAM_FLUSH_INTERVAL_MS) return;
+        lastFlushAt = now;
+        await ctx.runMutation(internal.messages.updateStreamingContent, {
+          messageId: assistantMessageId,
+          content: getStreamingDisplayText(streamedText),
+        });
+      };
+
+      // ============================================
+      // AGENTIC TOOL LOOP - Handle memory management
+      // ============================================
+
+      let aiResponse = "";
+      const MAX_TOOL_CALLS = 5; // Safety limit
+      let toolCallsCount = 0;
+
+      // The reply's recipe cards, from present_recipe; invalid attempts are
+      // kept for a repair pass until the model resends them correctly
+      const presentedRecipes: GeneratedRecipe[] = [];
+      let invalidRecipes: Array<{ data: unknown; error: string }> = [];
+
+      try {
+        // Initial request with tools
+        let turn = await provider.chat({
+          messages,
+          tools: CHAT_TOOLS,
+          maxTokens: CHAT_MAX_TOKENS,
+          onContent,
+        });
+
+        // Tool loop - keep processing until no more tool calls
+        while (turn.toolCalls.length > 0 && toolCallsCount < MAX_TOOL_CALLS) {
+          messages.push({
+            role: "assistant",
+            content: turn.content || null,
+            toolCalls: turn.toolCalls,
+          });
+
+          // Keep text streamed before the tool call apart from what follows it
+          if (turn.content && !streamedText.endsWith("\n\n")) {
+            streamedText += "\n\n";
+          }
+
+          // Process each tool call
+          for (const toolCall of turn.toolCalls) {
+            const functionName = toolCall.name;
+            let toolResult: any;
+
+            try {
+              const functionArgs = JSON.parse(toolCall.arguments);
+
+              switch (functionName) {
+                case "list_user_memories": {
+                  const memories = await ctx.runQuery(
+                    internal.memories.listMemoriesForTool,
+                    {
+                      userId,
+                      category: functionArgs.category as MemoryCategory | undefined,
+                      conversationId: args.conversationId,
+                    }
+                  );
+
+                  if (memories.length === 0) {
+                    toolResult = {
+                      success: true,
+                      message: "No memories stored yet.",
+                      memories: [],
+                    };
+                  } else {
+                    toolResult = {
+                      success: true,
+                      message: `Found ${memories.length} memories.`,
+                      memories: memories,
+                    };
                   }
-                );
+                  break;
+                }
+
+                case "remove_user_memory": {
+                  const result = await ctx.runMutation(
+                    internal.memories.removeBySearch,
+                    {
+                      userId,
+                      searchTerm: functionArgs.searchTerm,
+                      memoryId: functionArgs.memoryId as
+                        | Id<"userMemories">
+                        | undefined,
+                      confirmed: functionArgs.confirmed === true ? true : undefined,
+                      conversationId: args.conversationId,
+                      messageId: args.messageId,
+                    }
+                  );
+                  toolResult = result;
+                  break;
+                }
 
-                if (memories.length === 0) {
+                case "add_user_memory": {
+                  const result = await ctx.runMutation(
+                    internal.memories.addMemoryForTool,
+                    {
+                      userId,
+                      fact: functionArgs.fact,
+                      category: functionArgs.category as MemoryCategory,
+                      sourceConversationId: args.conversationId,
+                      expiresInDays:
+                        typeof functionArgs.expiresInDays === "number"
+                          ? functionArgs.expiresInDays
+                          : undefined,
+                      thisConversationOnly:
+                        functionArgs.thisConversationOnly === true ? true : undefined,
+                    }
+                  );
+                  toolResult = result;
+                  break;
+                }
+
+                case "update_user_memory": {
+                  const result = await ctx.runMutation(
+                    internal.memories.updateMemoryForTool,
+                    {
+                      userId,
+                      searchTerm: functionArgs.searchTerm,
+                      memoryId: functionArgs.memoryId as
+                        | Id<"userMemories">
+                        | undefined,
+                      newFact: functionArgs.newFact,
+                      newCategory: functionArgs.newCategory as
+                        | MemoryCategory
+                        | undefined,
+                      confirmed: functionArgs.confirmed === true ? true : undefined,
+                      conversationId: args.conversationId,
+                      messageId: args.messageId,
+                    }
+                  );
+                  toolResult = result;
+                  break;
+                }
+
+                case "get_meal_plan": {
+                  const startDate: string = functionArgs.start_date;
+                  const endDate: string = functionArgs.end_date || startDate;
+                  if (!isPlanDate(startDate) || !isPlanDate(endDate)) {
+                    toolResult = { error: "Dates must be in YYYY-MM-DD format" };
+                    break;
+                  }
+                  if (endDate < startDate || endDate > addDays(startDate, 30)) {
+                    toolResult = { error: "Date range must cover 1-31 days" };
+                    break;
+                  }
+
+                  const entries = await ctx.runQuery(
+                    internal.mealPlans.getPlanForTool,
+                    {
+                      userId,
+                      startDate,
+                      endDate,
+                      slot: functionArgs.slot as MealSlot | undefined,
+                    }
+                  );
                   toolResult = {
                     success: true,
-                    message: "No memories stored yet.",
-                    memories: [],
+                    message:
+                      entries.length === 0
+                        ? "Nothing is planned for these dates."
+                        : `Found ${entries.length} planned meals.`,
+                    entries,
                   };
-                } else {
+                  break;
+                }
+
+                case "get_pantry_items": {
+                  const days = Number(functionArgs.expiring_within_days);
+                  const items = await ctx.runQuery(
+                    internal.pantry.getPantryForTool,
+                    {
+                      userId,
+                      expiringWithinDays:
+                        Number.isFinite(days) && days >= 0 ? days : undefined,
+                    }
+                  );
                   toolResult = {
                     success: true,
-                    message: `Found ${memories.length} memories.`,
-                    memories: memories,
+                    message:
+                      items.length === 0
+                        ? "The pantry is empty."
+                        : `Found ${items.length} pantry items.`,
+                    items,
                   };
+                  break;
                 }
-                break;
-              }
 
-              case "remove_user_memory": {
-                const result = await ctx.runMutation(
-                  internal.memories.removeBySearch,
-                  {
-                    userId,
-                    searchTerm: functionArgs.searchTerm,
+                case "set_cooking_for": {
+                  const names: unknown[] = Array.isArray(functionArgs.names)
+                    ? functionArgs.names
+                    : [];
+                  const result = await ctx.runMutation(
+                    internal.household.setCookingForByName,
+                    {
+                      userId,
+                      conversationId: args.conversationId,
+                      names: names.filter(
+                        (name): name is string => typeof name === "string"
+                      ),
+                      includesUser: functionArgs.include_me !== false,
+                    }
+                  );
+                  toolResult = result;
+                  break;
+                }
+
+                case "present_recipe": {
+                  const result = validateRecipe(functionArgs);
+                  if (!result.success) {
+                    invalidRecipes.push({ data: functionArgs, error: result.error });
+                    toolResult = {
+                      success: false,
+                      error: `Invalid recipe: ${result.error}. Fix these fields and call present_recipe again.`,
+                    };
+                    break;
                   }
-                );
-                toolResult = result;
-                break;
-              }
 
-              case "add_user_memory": {
-                const result = await ctx.runMutation(
-                  internal.memories.addMemoryForTool,
-                  {
-                    userId,
-                    fact: functionArgs.fact,
-                    category: functionArgs.category as MemoryCategory,
-                    sourceConversationId: args.conversationId,
+                  // A corrected or revised recipe replaces earlier attempts at
+                  // it; untitled ones are matched after their repair pass
+                  const title = result.recipe.title.toLowerCase();
+                  invalidRecipes = invalidRecipes.filter(
+                    (r) => sentRecipeTitle(r.data).toLowerCase() !== title
+                  );
+                  const existing = presentedRecipes.findIndex(
+                    (r) => r.title.toLowerCase() === title
+                  );
+                  if (existing >= 0) {
+                    presentedRecipes[existing] = result.recipe;
+                  } else if (presentedRecipes.length >= MAX_RECIPES_PER_MESSAGE) {
+                    toolResult = {
+                      success: false,
+                      error: `A reply can show at most ${MAX_RECIPES_PER_MESSAGE} recipe cards.`,
+                    };
+                    break;
+                  } else {
+                    presentedRecipes.push(result.recipe);
                   }
-                );
-                toolResult = result;
-                break;
-              }
+                  toolResult = {
+                    success: true,
+                    message: `The "${result.recipe.title}" recipe card is shown with your reply. Don't repeat it as JSON.`,
+                  };
+                  break;
+                }
+
+                case "search_recipe_book": {
+                  const savedAfter = functionArgs.saved_after;
+                  const savedBefore = functionArgs.saved_before;
+                  if (
+                    (savedAfter !== undefined && !isPlanDate(savedAfter)) ||
+                    (savedBefore !== undefined && !isPlanDate(savedBefore))
+                  ) {
+                    toolResult = { error: "Dates must be in YYYY-MM-DD format" };
+                    break;
+                  }
+
+                  const recipes = await ctx.runQuery(internal.recipes.searchForTool, {
+                    userId,
+                    query:
+                      typeof functionArgs.query === "string" ? functionArgs.query : undefined,
+                    favoritesOnly: functionArgs.favorites_only === true ? true : undefined,
+                    mealType:
+                      typeof functionArgs.meal_type === "string"
+                        ? functionArgs.meal_type
+                        : undefined,
+                    savedAfter: savedAfter ? Date.parse(savedAfter) : undefined,
+                    // Inclusive of the whole day
+                    savedBefore: savedBefore
+                      ? Date.parse(addDays(savedBefore, 1))
+                      : undefined,
+                  });
+                  toolResult = {
+                    success: true,
+                    message:
+                      recipes.length === 0
+                        ? "No saved recipes match."
+                        : `Found ${recipes.length} saved recipes.`,
+                    recipes,
+                  };
+                  break;
+                }
 
-              case "update_user_memory": {
-                const result = await ctx.runMutation(
-                  internal.memories.updateMemoryForTool,
-                  {
+                case "get_recipe": {
+                  toolResult = await ctx.runQuery(internal.recipes.getForTool, {
                     userId,
-                    searchTerm: functionArgs.searchTerm,
-                    newFact: functionArgs.newFact,
-                    newCategory: functionArgs.newCategory as
-                      | MemoryCategory
-                      | undefined,
+                    recipeId: String(functionArgs.recipe_id ?? ""),
+                  });
+                  break;
+                }
+
+                case "save_recipe_from_conversation": {
+                  toolResult = await ctx.runMutation(
+                    internal.recipes.saveFromConversationForTool,
+                    {
+                      userId,
+                      conversationId: args.conversationId,
+                      title:
+                        typeof functionArgs.title === "string"
+                          ? functionArgs.title
+                          : undefined,
+                    }
+                  );
+                  break;
+                }
+
+                case "update_saved_recipe": {
+                  const ingredients =
+                    functionArgs.ingredients === undefined
+                      ? undefined
+                      : validateIngredients(functionArgs.ingredients);
+                  if (ingredients && !ingredients.success) {
+                    toolResult = {
+                      success: false,
+                      message: `Nothing was changed. ingredients: ${ingredients.error}`,
+                    };
+                    break;
                   }
-                );
-                toolResult = result;
-                break;
-              }
+                  toolResult = await ctx.runMutation(internal.recipes.updateForTool, {
+                    userId,
+                    recipeId: String(functionArgs.recipe_id ?? ""),
+                    title: functionArgs.title,
+                    description: functionArgs.description,
+                    servings: functionArgs.servings,
+                    prepTime: functionArgs.prep_time,
+                    cookTime: functionArgs.cook_time,
+                    ingredients: ingredients?.ingredients,
+                    instructions: functionArgs.instructions,
+                    dietaryTags: functionArgs.dietary_tags,
+                  });
+                  break;
+                }
 
-              default:
-                toolResult = { error: `Unknown function: ${functionName}` };
+                case "toggle_favorite": {
+                  toolResult = await ctx.runMutation(
+                    internal.recipes.toggleFavoriteForTool,
+                    {
+                      userId,
+                      recipeId: String(functionArgs.recipe_id ?? ""),
+                      favorite:
+                        typeof functionArgs.favorite === "boolean"
+                          ? functionArgs.favorite
+                          : undefined,
+                    }
+                  );
+                  break;
+                }
+
+                default:
+                  toolResult = { error: `Unknown function: ${functionName}` };
+              }
+            } catch (error: any) {
+              toolResult = { error: error.message || "Tool execution failed" };
+              // Unparseable recipe arguments still get the repair pass
+              if (functionName === "present_recipe") {
+                invalidRecipes.push({
+                  data: toolCall.arguments,
+                  error: "Arguments were not valid JSON",
+                });
+              }
             }
-          } catch (error: any) {
-            toolResult = { error: error.message || "Tool execution failed" };
+
+            // Add tool result to messages
+            messages.push({
+              role: "tool",
+              toolCallId: toolCall.id,
+              content: JSON.stringify(toolResult),
+            });
           }
 
-          // Add tool result to messages
-          messages.push({
-            role: "tool",
-            tool_call_id: toolCall.id,
-            content: JSON.stringify(toolResult),
+          toolCallsCount++;
+
+          // Continue conversation with tool results
+          turn = await provider.chat({
+            messages,
+            tools: CHAT_TOOLS,
+            maxTokens: CHAT_MAX_TOKENS,
+            onContent,
           });
         }
 
-        toolCallsCount++;
+        // Get final response
+        aiResponse =
+          streamedText.trim() ||
+          (presentedRecipes.length === 1
+            ? `Here's the recipe for ${presentedRecipes[0].title}.`
+            : presentedRecipes.length > 1
+              ? "Here are the recipes."
+              : "I'm sorry, I couldn't generate a response.");
+      } catch (error) {
+        console.error("LLM chat error:", error);
+        // The half-written reply is dropped below, so a retry starts from a
+        // clean history
+        throw error instanceof AppError
+          ? error
+          : createError(
+              "AI_UNAVAILABLE",
+              "The assistant is temporarily unavailable.",
+              true
+            );
+      }
 
-        // Continue conversation with tool results
-        response = await client.chat.completions.create({
-          model: "gpt-4o",
-          max_completion_tokens: 2048,
-          messages,
-          tools: MEMORY_TOOLS,
-          tool_choice: "auto",
+      // Layer 3: Output guardrail
+      if (!checkOutputGuardrail(aiResponse)) {
+        aiResponse =
+          "I'm your cooking assistant! I'd love to help you with recipes, meal planning, or food-related questions. What would you like to cook today?";
+      }
+
+      // Extract conversation title if present (first message only)
+      const { displayText: afterTitleStrip, conversationTitle } = extractConversationTitle(aiResponse);
+
+      // Update conversation title if extracted
+      if (conversationTitle) {
+        await ctx.runMutation(internal.conversations.updateTitleInternal, {
+          id: args.conversationId,
+          title: conversationTitle,
         });
       }
 
-      // Get final response
-      aiResponse =
-        response.choices[0]?.message?.content ||
-        "I'm sorry, I couldn't generate a response.";
-    } catch (error: any) {
-      console.error("OpenAI API error:", error);
-      aiResponse = "I'm having trouble connecting right now. Please try again in a moment.";
-    }
+      // One repair pass for each recipe the model never sent correctly
+      const recipeErrors: string[] = [];
+      for (const invalid of invalidRecipes.slice(0, MAX_RECIPES_PER_MESSAGE)) {
+        const title = sentRecipeTitle(invalid.data);
+        const label = title ? `"${title}"` : "Recipe";
+        try {
+          const repaired = await repairRecipe(provider, invalid.data, invalid.error);
+          if (!repaired.success) {
+            recipeErrors.push(`${label}: ${repaired.error}`);
+            continue;
+          }
+          // An untitled attempt the model later resent correctly is already shown
+          const repairedTitle = repaired.recipe.title.toLowerCase();
+          const shown = presentedRecipes.some((r) => r.title.toLowerCase() === repairedTitle);
+          if (!shown && presentedRecipes.length < MAX_RECIPES_PER_MESSAGE) {
+            presentedRecipes.push(repaired.recipe);
+          }
+        } catch (error) {
+          console.error("Recipe repair failed:", error);
+          recipeErrors.push(`${label}: ${invalid.error} (repair unavailable)`);
+        }
+      }
+      if (recipeErrors.length > 0) {
+        console.warn(
+          `Recipes for ${args.conversationId} not attached: ${recipeErrors.join("; ")}`
+        );
+      }
 
-    // Layer 3: Output guardrail
-    if (!checkOutputGuardrail(aiResponse)) {
-      aiResponse =
-        "I'm your cooking assistant! I'd love to help you with recipes, meal planning, or food-related questions. What would you like to cook today?";
-    }
+      // Check each recipe against the dietary profile (re-read, tool calls may have changed it)
+      const recipes: Array<Infer<typeof messageRecipe>> = [];
+      if (presentedRecipes.length > 0) {
+        const memories = await ctx.runQuery(internal.memories.getMemoriesInternal, {
+          userId,
+          conversationId: args.conversationId,
+        });
+        // Tag who each recipe is safe for (set_cooking_for may have just changed it)
+        const eating = await ctx.runQuery(internal.household.getCookingForInternal, {
+          userId,
+          conversationId: args.conversationId,
+        });
+        const eaters = eating
+          ? [
+              ...(eating.includesUser ? [{ name: "You", facts: memories }] : []),
+              ...eating.members.map((m) => ({
+                memberId: m._id,
+                name: m.name,
+                facts: m.facts,
+              })),
+            ]
+          : [];
 
-    // Extract conversation title if present (first message only)
-    const { displayText: afterTitleStrip, conversationTitle } = extractConversationTitle(aiResponse);
+        for (const recipe of presentedRecipes) {
+          const recipeJson = JSON.stringify(recipe);
+          // The user's own warnings only matter when they're eating it too
+          const dietaryWarnings =
+            !eating || eating.includesUser ? findRecipeConflicts(recipeJson, memories) : [];
+          const memberSafety = eating ? recipeSafetyFor(recipeJson, eaters) : [];
+          recipes.push({
+            recipeJson,
+            dietaryWarnings: dietaryWarnings.length > 0 ? dietaryWarnings : undefined,
+            memberSafety: memberSafety.length > 0 ? memberSafety : undefined,
+          });
+        }
+      }
 
-    // Update conversation title if extracted
-    if (conversationTitle) {
-      await ctx.runMutation(internal.conversations.updateTitleInternal, {
-        id: args.conversationId,
-        title: conversationTitle,
+      // Finalize the streamed message (also clears isStreaming)
+      await ctx.runMutation(internal.messages.finalizeStreamingMessage, {
+        messageId: assistantMessageId,
+        content: afterTitleStrip,
+        recipes: recipes.length > 0 ? recipes : undefined,
+        recipeError: recipeErrors.length > 0 ? recipeErrors.join("\n") : undefined,
       });
+      finalized = true;
+
+      // Queue memory compaction; it runs in the background once the chat goes quiet
+      await ctx.runMutation(internal.memoryCompaction.scheduleCompaction, {
+        conversationId: args.conversationId,
+      }).catch((error) => {
+        // Compaction is not critical - never fail the reply over it
+        console.error("Failed to schedule memory compaction:", error);
+      });
+
+      // Fold the messages that no longer fit into the running summary for next time
+      if (context.overflow.length > 0) {
+        await ctx.scheduler.runAfter(0, internal.ai.updateHistorySummary, {
+          conversationId: args.conversationId,
+          throughCreationTime: context.overflow[context.overflow.length - 1].creationTime,
+        });
+      }
+
+      return { success: true, offTopic: false, toolCallsUsed: toolCallsCount };
+    } finally {
+      if (!finalized) {
+        await ctx.runMutation(internal.messages.discardStreamingMessage, {
+          messageId: assistantMessageId,
+        });
+      }
     }
+  },
+});
 
-    // Extract recipe JSON if present
-    const { displayText, recipeJson } = extractRecipeJson(afterTitleStrip);
+// Messages folded into the summary per run
+const SUMMARY_BATCH_SIZE = 60;
 
-    // Store assistant message
-    await ctx.runMutation(internal.messages.createAssistantMessage, {
+// Internal: Extend a conversation's running summary through the given message
+export const updateHistorySummary = internalAction({
+  args: {
+    conversationId: v.id("conversations"),
+    throughCreationTime: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.runQuery(internal.conversations.getInternal, {
       conversationId: args.conversationId,
-      userId,
-      content: displayText,
-      recipeJson: recipeJson || undefined,
     });
+    if (!conversation) return;
+    const previous = conversation.historySummary;
+    if (previous && previous.throughCreationTime >= args.throughCreationTime) return;
 
-    // Trigger memory compaction in background (don't await)
-    // Fire and forget - Convex will schedule this to run
-    await ctx.runAction(internal.memoryCompaction.maybeRunCompaction, {
+    const messages = await ctx.runQuery(internal.messages.getRangeInternal, {
       conversationId: args.conversationId,
-    }).catch(() => {
-      // Silently ignore failures - compaction is not critical
+      afterCreationTime: previous?.throughCreationTime,
+      throughCreationTime: args.throughCreationTime,
+      limit: SUMMARY_BATCH_SIZE,
     });
+    if (messages.length === 0) return;
+
+    try {
+      const text = await summarizeHistory(
+        getLLMProvider(),
+        previous?.text,
+        messages.map((m) => ({ role: m.role, content: m.content }))
+      );
+      if (!text) return;
 
-    return { success: true, offTopic: false, toolCallsUsed: toolCallsCount };
+      await ctx.runMutation(internal.conversations.setHistorySummaryInternal, {
+        id: args.conversationId,
+        text,
+        throughCreationTime: messages[messages.length - 1]._creationTime,
+      });
+    } catch (error) {
+      // The next overflowing reply schedules another attempt
+      console.error("History summary failed:", error);
+    }
   },
 });
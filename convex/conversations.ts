@@ -1,6 +1,8 @@
 import { v } from "convex/values";
 import { mutation, query, internalQuery, internalMutation } from "./_generated/server";
 import { requireAuth, requireOwnership } from "./lib/auth";
+import { createError } from "./lib/errors";
+import { internal } from "./_generated/api";
 
 export const list = query({
   args: {
@@ -27,7 +29,7 @@ export const get = query({
     const conversation = await ctx.db.get(args.id);
 
     if (!conversation) {
-      throw new Error("Conversation not found");
+      throw createError("NOT_FOUND", "Conversation not found");
     }
 
     requireOwnership(conversation.userId, userId);
@@ -60,7 +62,7 @@ export const archive = mutation({
     const conversation = await ctx.db.get(args.id);
 
     if (!conversation) {
-      throw new Error("Conversation not found");
+      throw createError("NOT_FOUND", "Conversation not found");
     }
 
     requireOwnership(conversation.userId, userId);
@@ -78,7 +80,7 @@ export const updateTitle = mutation({
     const conversation = await ctx.db.get(args.id);
 
     if (!conversation) {
-      throw new Error("Conversation not found");
+      throw createError("NOT_FOUND", "Conversation not found");
     }
 
     requireOwnership(conversation.userId, userId);
@@ -93,7 +95,7 @@ export const remove = mutation({
     const conversation = await ctx.db.get(args.id);
 
     if (!conversation) {
-      throw new Error("Conversation not found");
+      throw createError("NOT_FOUND", "Conversation not found");
     }
 
     requireOwnership(conversation.userId, userId);
@@ -123,6 +125,26 @@ export const remove = mutation({
       await ctx.db.delete(message._id);
     }
 
+    // Drop queued compaction and its run history
+    if (conversation.pendingCompaction) {
+      const job = await ctx.db.system.get(conversation.pendingCompaction.jobId);
+      if (job?.state.kind === "pending") {
+        await ctx.scheduler.cancel(job._id);
+      }
+    }
+    const runs = await ctx.db
+      .query("compactionRuns")
+      .withIndex("by_conversationId", (q) => q.eq("conversationId", args.id))
+      .collect();
+    for (const run of runs) {
+      await ctx.db.delete(run._id);
+    }
+
+    // Memories scoped to this chat go with it
+    await ctx.scheduler.runAfter(0, internal.memories.removeConversationMemories, {
+      conversationId: args.id,
+    });
+
     await ctx.db.delete(args.id);
   },
 });
@@ -140,6 +162,30 @@ export const updateTitleInternal = internalMutation({
   },
 });
 
+// Internal: Store a newer running summary of the chat's older messages
+export const setHistorySummaryInternal = internalMutation({
+  args: {
+    id: v.id("conversations"),
+    text: v.string(),
+    throughCreationTime: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.id);
+    if (!conversation) return;
+    // Two summaries can race; the one covering more wins
+    const current = conversation.historySummary;
+    if (current && current.throughCreationTime >= args.throughCreationTime) return;
+
+    await ctx.db.patch(args.id, {
+      historySummary: {
+        text: args.text,
+        throughCreationTime: args.throughCreationTime,
+        updatedAt: Date.now(),
+      },
+    });
+  },
+});
+
 export const search = query({
   args: {
     searchTerm: v.string(),
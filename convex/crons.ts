@@ -0,0 +1,13 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Temporary memories ("doing Whole30 this month") drop out once they expire
+crons.hourly(
+  "expire temporary memories",
+  { minuteUTC: 0 },
+  internal.memories.expireMemories
+);
+
+export default crons;
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { createUser, setupTest, TestConvex } from "./test.setup";
+
+async function storeBlob(t: TestConvex): Promise<Id<"_storage">> {
+  return await t.run(async (ctx) =>
+    ctx.storage.store(new Blob(["fake image bytes"], { type: "image/png" }))
+  );
+}
+
+async function uploadRecords(t: TestConvex, storageId: Id<"_storage">) {
+  return await t.run(async (ctx) =>
+    ctx.db
+      .query("uploadedFiles")
+      .withIndex("by_storageId", (q) => q.eq("storageId", storageId))
+      .collect()
+  );
+}
+
+describe("registerUpload", () => {
+  it("rejects storage ids that no longer exist", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const storageId = await storeBlob(t);
+    await t.run(async (ctx) => ctx.storage.delete(storageId));
+
+    await expect(
+      as.mutation(api.files.registerUpload, { storageId })
+    ).rejects.toThrow(/VALIDATION_ERROR/);
+  });
+
+  it("is idempotent for the uploading user", async () => {
+    const t = setupTest();
+    const { as, userId } = await createUser(t);
+    const storageId = await storeBlob(t);
+
+    await as.mutation(api.files.registerUpload, { storageId });
+    await as.mutation(api.files.registerUpload, { storageId });
+
+    const records = await uploadRecords(t, storageId);
+    expect(records).toHaveLength(1);
+    expect(records[0].userId).toBe(userId);
+  });
+
+  it("refuses to register another user's upload", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const intruder = await createUser(t, "Intruder");
+    const storageId = await storeBlob(t);
+
+    await owner.as.mutation(api.files.registerUpload, { storageId });
+    await expect(
+      intruder.as.mutation(api.files.registerUpload, { storageId })
+    ).rejects.toThrow(/FORBIDDEN/);
+
+    const records = await uploadRecords(t, storageId);
+    expect(records).toHaveLength(1);
+    expect(records[0].userId).toBe(owner.userId);
+  });
+});
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation } from "./_generated/server";
 import { requireAuth } from "./lib/auth";
+import { createError } from "./lib/errors";
 
 // Generate upload URL for image uploads
 export const generateUploadUrl = mutation({
@@ -22,7 +23,7 @@ export const registerUpload = mutation({
     // Verify storage ID exists
     const url = await ctx.storage.getUrl(args.storageId);
     if (!url) {
-      throw new Error("Invalid storage ID");
+      throw createError("VALIDATION", "Invalid storage ID");
     }
 
     // Check if already registered
@@ -34,7 +35,7 @@ export const registerUpload = mutation({
     if (existing) {
       // Already registered - verify ownership
       if (existing.userId !== userId) {
-        throw new Error("File belongs to another user");
+        throw createError("FORBIDDEN", "File belongs to another user");
       }
       return args.storageId;
     }
@@ -63,7 +64,7 @@ export const registerUpload = mutation({
 
         // Verify the keeper belongs to us, otherwise reject
         if (keeper.userId !== userId) {
-          throw new Error("File belongs to another user");
+          throw createError("FORBIDDEN", "File belongs to another user");
         }
       } else {
         // We're the keeper - delete the duplicates
@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import { createUser, setupTest, TestConvex } from "./test.setup";
+
+const soup = {
+  title: "Tomato Soup",
+  description: "Weeknight soup",
+  ingredients: [{ name: "tomatoes", amount: "6", unit: "" }],
+  instructions: ["Simmer", "Blend"],
+  servings: 4,
+  dietaryTags: [],
+  source: "user_created" as const,
+};
+
+async function createUserWithEmail(t: TestConvex, name: string, email: string) {
+  const user = await createUser(t, name);
+  await t.run(async (ctx) => {
+    await ctx.db.patch(user.userId, { email });
+  });
+  return user;
+}
+
+// Alice owns "The Lees"; Bob has accepted her invite
+async function setupHousehold() {
+  const t = setupTest();
+  const alice = await createUserWithEmail(t, "Alice", "alice@example.com");
+  const bob = await createUserWithEmail(t, "Bob", "bob@example.com");
+
+  await alice.as.mutation(api.groups.create, { name: "The Lees" });
+  await alice.as.mutation(api.groups.invite, { email: " Bob@Example.com " });
+  const [invite] = await bob.as.query(api.groups.listMyInvites, {});
+  await bob.as.mutation(api.groups.acceptInvite, { id: invite._id });
+
+  return { t, alice, bob };
+}
+
+describe("shared households", () => {
+  it("invites by email and lists members", async () => {
+    const { alice, bob } = await setupHousehold();
+
+    const group = await bob.as.query(api.groups.getMyGroup, {});
+    expect(group).toMatchObject({ name: "The Lees", role: "member", invites: [] });
+    expect(group!.members.map((m) => [m.name, m.role])).toEqual([
+      ["Alice", "owner"],
+      ["Bob", "member"],
+    ]);
+    expect(await bob.as.query(api.groups.listMyInvites, {})).toEqual([]);
+
+    // Only owners manage membership
+    await expect(
+      bob.as.mutation(api.groups.invite, { email: "carol@example.com" })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(
+      alice.as.mutation(api.groups.invite, { email: "bob@example.com" })
+    ).rejects.toThrow(/VALIDATION/);
+    await expect(
+      alice.as.mutation(api.groups.invite, { email: "not an email" })
+    ).rejects.toThrow(/VALIDATION/);
+  });
+
+  it("shares the recipe book both ways, including recipes saved before joining", async () => {
+    const t = setupTest();
+    const alice = await createUserWithEmail(t, "Alice", "alice@example.com");
+    const bob = await createUserWithEmail(t, "Bob", "bob@example.com");
+    const bobsSoup = await bob.as.mutation(api.recipes.create, soup);
+
+    await expect(alice.as.query(api.recipes.get, { id: bobsSoup })).rejects.toThrow(
+      /FORBIDDEN/
+    );
+
+    await alice.as.mutation(api.groups.create, { name: "The Lees" });
+    await alice.as.mutation(api.groups.invite, { email: "bob@example.com" });
+    const [invite] = await bob.as.query(api.groups.listMyInvites, {});
+    await bob.as.mutation(api.groups.acceptInvite, { id: invite._id });
+
+    const alicesStew = await alice.as.mutation(api.recipes.create, {
+      ...soup,
+      title: "Lentil Stew",
+    });
+
+    for (const user of [alice, bob]) {
+      const titles = (await user.as.query(api.recipes.list, {})).map((r) => r.title);
+      expect(titles.sort()).toEqual(["Lentil Stew", "Tomato Soup"]);
+    }
+
+    // Members edit shared recipes, but only the creator or an owner deletes
+    await bob.as.mutation(api.recipes.update, { id: alicesStew, servings: 6 });
+    expect((await alice.as.query(api.recipes.get, { id: alicesStew })).servings).toBe(6);
+    await expect(
+      bob.as.mutation(api.recipes.remove, { id: alicesStew })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await alice.as.mutation(api.recipes.remove, { id: bobsSoup });
+    expect(await bob.as.query(api.recipes.list, {})).toHaveLength(1);
+  });
+
+  it("shares meal plans and shopping lists", async () => {
+    const { alice, bob } = await setupHousehold();
+    const stew = await alice.as.mutation(api.recipes.create, soup);
+
+    await bob.as.mutation(api.mealPlans.addEntry, {
+      date: "2026-10-19",
+      slot: "dinner",
+      recipeId: stew,
+    });
+    const planned = await alice.as.query(api.mealPlans.listRange, {
+      startDate: "2026-10-19",
+      endDate: "2026-10-25",
+    });
+    expect(planned.map((e) => e.title)).toEqual(["Tomato Soup"]);
+
+    const listId = await alice.as.mutation(api.shoppingLists.createFromMealPlan, {
+      startDate: "2026-10-19",
+      endDate: "2026-10-25",
+    });
+    const [list] = await bob.as.query(api.shoppingLists.list, {});
+    expect(list._id).toBe(listId);
+    await bob.as.mutation(api.shoppingLists.toggleItem, {
+      id: listId,
+      key: list.items[0].key,
+    });
+  });
+
+  it("members take what they created with them when they leave", async () => {
+    const { alice, bob } = await setupHousehold();
+    await alice.as.mutation(api.recipes.create, { ...soup, title: "Lentil Stew" });
+    const bobsSoup = await bob.as.mutation(api.recipes.create, soup);
+
+    await bob.as.mutation(api.groups.leave, {});
+
+    expect((await bob.as.query(api.recipes.list, {})).map((r) => r.title)).toEqual([
+      "Tomato Soup",
+    ]);
+    expect((await alice.as.query(api.recipes.list, {})).map((r) => r.title)).toEqual([
+      "Lentil Stew",
+    ]);
+    await expect(alice.as.query(api.recipes.get, { id: bobsSoup })).rejects.toThrow(
+      /FORBIDDEN/
+    );
+    expect(await bob.as.query(api.groups.getMyGroup, {})).toBeNull();
+  });
+
+  it("drops plan and list references to recipes the leaver can no longer see", async () => {
+    const { t, alice, bob } = await setupHousehold();
+    const alicesStew = await alice.as.mutation(api.recipes.create, {
+      ...soup,
+      title: "Lentil Stew",
+    });
+    const bobsSoup = await bob.as.mutation(api.recipes.create, soup);
+    await bob.as.mutation(api.mealPlans.addEntry, {
+      date: "2026-10-19",
+      slot: "dinner",
+      recipeId: alicesStew,
+    });
+    await bob.as.mutation(api.mealPlans.addEntry, {
+      date: "2026-10-19",
+      slot: "lunch",
+      recipeId: bobsSoup,
+    });
+    await alice.as.mutation(api.mealPlans.addEntry, {
+      date: "2026-10-20",
+      slot: "dinner",
+      recipeId: bobsSoup,
+    });
+    const bobsList = await bob.as.mutation(api.shoppingLists.createFromMealPlan, {
+      startDate: "2026-10-19",
+      endDate: "2026-10-19",
+    });
+
+    await bob.as.mutation(api.groups.leave, {});
+
+    const plans = await t.run((ctx) => ctx.db.query("mealPlans").collect());
+    const bySlot = (userId: typeof bob.userId, slot: string) =>
+      plans.find((p) => p.userId === userId && p.slot === slot);
+    // Bob keeps his own soup, and the stew as a free-text meal
+    expect(bySlot(bob.userId, "lunch")).toMatchObject({ recipeId: bobsSoup });
+    expect(bySlot(bob.userId, "dinner")).toMatchObject({ title: "Lentil Stew" });
+    expect(bySlot(bob.userId, "dinner")!.recipeId).toBeUndefined();
+    // And Alice's plan no longer points at Bob's soup
+    expect(bySlot(alice.userId, "dinner")!.recipeId).toBeUndefined();
+    expect(bySlot(alice.userId, "dinner")!.title).toBe("Tomato Soup");
+
+    const [list] = await bob.as.query(api.shoppingLists.list, {});
+    expect(list._id).toBe(bobsList);
+    expect(list.recipeIds).toEqual([bobsSoup]);
+    expect(list.items.length).toBeGreaterThan(0);
+  });
+
+  it("keeps at least one owner and removes the group with its last member", async () => {
+    const { t, alice, bob } = await setupHousehold();
+
+    await expect(alice.as.mutation(api.groups.leave, {})).rejects.toThrow(/VALIDATION/);
+    await expect(
+      alice.as.mutation(api.groups.setRole, { userId: alice.userId, role: "member" })
+    ).rejects.toThrow(/VALIDATION/);
+
+    await alice.as.mutation(api.groups.setRole, { userId: bob.userId, role: "owner" });
+    await alice.as.mutation(api.groups.leave, {});
+    expect((await bob.as.query(api.groups.getMyGroup, {}))!.members).toHaveLength(1);
+
+    await bob.as.mutation(api.groups.invite, { email: "carol@example.com" });
+    await bob.as.mutation(api.groups.leave, {});
+    const remaining = await t.run(async (ctx) => ({
+      groups: await ctx.db.query("groups").collect(),
+      invites: await ctx.db.query("groupInvites").collect(),
+    }));
+    expect(remaining).toEqual({ groups: [], invites: [] });
+  });
+
+  it("lets owners remove members and rejects joining a second household", async () => {
+    const { t, alice, bob } = await setupHousehold();
+    const carol = await createUserWithEmail(t, "Carol", "carol@example.com");
+    await carol.as.mutation(api.groups.create, { name: "Carol's" });
+    await carol.as.mutation(api.groups.invite, { email: "bob@example.com" });
+    const [invite] = await bob.as.query(api.groups.listMyInvites, {});
+
+    await expect(
+      bob.as.mutation(api.groups.acceptInvite, { id: invite._id })
+    ).rejects.toThrow(/VALIDATION/);
+    await expect(
+      bob.as.mutation(api.groups.removeMember, { userId: alice.userId })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(
+      carol.as.mutation(api.groups.removeMember, { userId: bob.userId })
+    ).rejects.toThrow(/NOT_FOUND/);
+
+    await alice.as.mutation(api.groups.removeMember, { userId: bob.userId });
+    await bob.as.mutation(api.groups.acceptInvite, { id: invite._id });
+    expect((await bob.as.query(api.groups.getMyGroup, {}))!.name).toBe("Carol's");
+  });
+});
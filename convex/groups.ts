@@ -0,0 +1,448 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getGroupMembership, requireAuth } from "./lib/auth";
+import { createError } from "./lib/errors";
+import {
+  GroupNameSchema,
+  INVITE_TTL_MS,
+  isInviteExpired,
+  MAX_GROUP_MEMBERS,
+  normalizeEmail,
+} from "./lib/groups";
+import { parseOrThrow } from "./lib/validators";
+
+const roleValidator = v.union(v.literal("owner"), v.literal("member"));
+
+async function requireMembership(ctx: QueryCtx, userId: Id<"users">) {
+  const membership = await getGroupMembership(ctx, userId);
+  if (!membership) {
+    throw createError("NOT_FOUND", "You're not in a shared household");
+  }
+  return membership;
+}
+
+async function requireOwner(ctx: QueryCtx, userId: Id<"users">) {
+  const membership = await requireMembership(ctx, userId);
+  if (membership.role !== "owner") {
+    throw createError("FORBIDDEN", "Only household owners can do that");
+  }
+  return membership;
+}
+
+async function requireNoGroup(ctx: QueryCtx, userId: Id<"users">) {
+  if (await getGroupMembership(ctx, userId)) {
+    throw createError("VALIDATION", "Leave your current household first");
+  }
+}
+
+async function getMemberships(ctx: QueryCtx, groupId: Id<"groups">) {
+  return await ctx.db
+    .query("groupMemberships")
+    .withIndex("by_groupId", (q) => q.eq("groupId", groupId))
+    .collect();
+}
+
+async function getUserEmail(ctx: QueryCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  return user?.email ? normalizeEmail(user.email) : null;
+}
+
+// Move everything a user created into a group, or back out of it
+async function setCreatedDataGroup(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups"> | undefined
+) {
+  const recipes = await ctx.db
+    .query("recipes")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+  const lists = await ctx.db
+    .query("shoppingLists")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+  const entries = await ctx.db
+    .query("mealPlans")
+    .withIndex("by_userId_date", (q) => q.eq("userId", userId))
+    .collect();
+
+  for (const row of [...recipes, ...lists, ...entries]) {
+    if (row.groupId !== groupId) {
+      await ctx.db.patch(row._id, { groupId });
+    }
+  }
+}
+
+// Once a member has left, plans and lists on either side can point at
+// recipes that went the other way. Those references are dropped: a planned
+// meal stays as a free-text entry under the recipe's title, and a list keeps
+// the items it already has.
+async function detachOtherSideRecipes(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  groupId: Id<"groups">
+) {
+  const recipes = new Map<Id<"recipes">, Doc<"recipes"> | null>();
+  const getRecipe = async (id: Id<"recipes">) => {
+    if (!recipes.has(id)) recipes.set(id, await ctx.db.get(id));
+    return recipes.get(id)!;
+  };
+  // Deleted recipes are left alone: the plan already flags them as missing
+  const isOtherSide = async (id: Id<"recipes">, leaverSide: boolean) => {
+    const recipe = await getRecipe(id);
+    return recipe !== null && (recipe.userId === userId) !== leaverSide;
+  };
+
+  const sides = [
+    {
+      leaverSide: true,
+      entries: await ctx.db
+        .query("mealPlans")
+        .withIndex("by_userId_date", (q) => q.eq("userId", userId))
+        .collect(),
+      lists: await ctx.db
+        .query("shoppingLists")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect(),
+    },
+    {
+      leaverSide: false,
+      entries: await ctx.db
+        .query("mealPlans")
+        .withIndex("by_groupId_date", (q) => q.eq("groupId", groupId))
+        .collect(),
+      lists: await ctx.db
+        .query("shoppingLists")
+        .withIndex("by_groupId", (q) => q.eq("groupId", groupId))
+        .collect(),
+    },
+  ];
+
+  for (const { leaverSide, entries, lists } of sides) {
+    for (const entry of entries) {
+      if (entry.recipeId && (await isOtherSide(entry.recipeId, leaverSide))) {
+        const recipe = (await getRecipe(entry.recipeId))!;
+        await ctx.db.patch(entry._id, { recipeId: undefined, title: recipe.title });
+      }
+    }
+    for (const list of lists) {
+      const recipeIds: Id<"recipes">[] = [];
+      for (const id of list.recipeIds) {
+        if (!(await isOtherSide(id, leaverSide))) recipeIds.push(id);
+      }
+      if (recipeIds.length !== list.recipeIds.length) {
+        await ctx.db.patch(list._id, { recipeIds });
+      }
+    }
+  }
+}
+
+async function deleteGroup(ctx: MutationCtx, groupId: Id<"groups">) {
+  const invites = await ctx.db
+    .query("groupInvites")
+    .withIndex("by_groupId", (q) => q.eq("groupId", groupId))
+    .collect();
+  for (const invite of invites) {
+    await ctx.db.delete(invite._id);
+  }
+  await ctx.db.delete(groupId);
+}
+
+// Members take the recipes, lists and plans they added with them
+async function removeMembership(ctx: MutationCtx, membership: Doc<"groupMemberships">) {
+  await setCreatedDataGroup(ctx, membership.userId, undefined);
+  await detachOtherSideRecipes(ctx, membership.userId, membership.groupId);
+  await ctx.db.delete(membership._id);
+
+  if ((await getMemberships(ctx, membership.groupId)).length === 0) {
+    await deleteGroup(ctx, membership.groupId);
+  }
+}
+
+// The household the user is in, with members (and invites, for owners)
+export const getMyGroup = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const membership = await getGroupMembership(ctx, userId);
+    if (!membership) return null;
+
+    const group = await ctx.db.get(membership.groupId);
+    if (!group) return null;
+
+    const memberships = await getMemberships(ctx, group._id);
+    const members = await Promise.all(
+      memberships.map(async (m) => {
+        const user = await ctx.db.get(m.userId);
+        return {
+          userId: m.userId,
+          name: user?.name ?? user?.email ?? "Unknown",
+          role: m.role,
+          isYou: m.userId === userId,
+        };
+      })
+    );
+
+    const now = Date.now();
+    const invites =
+      membership.role === "owner"
+        ? (
+            await ctx.db
+              .query("groupInvites")
+              .withIndex("by_groupId", (q) => q.eq("groupId", group._id))
+              .collect()
+          )
+            .filter((invite) => !isInviteExpired(invite, now))
+            .map((invite) => ({ _id: invite._id, email: invite.email }))
+        : [];
+
+    return {
+      _id: group._id,
+      name: group.name,
+      role: membership.role,
+      members: members.sort(
+        (a, b) => Number(b.role === "owner") - Number(a.role === "owner") ||
+          a.name.localeCompare(b.name)
+      ),
+      invites,
+    };
+  },
+});
+
+// Start a household; the user's recipes, lists and plans come along
+export const create = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const name = parseOrThrow(GroupNameSchema, args.name);
+    await requireNoGroup(ctx, userId);
+
+    const now = Date.now();
+    const groupId = await ctx.db.insert("groups", {
+      name,
+      createdBy: userId,
+      createdAt: now,
+    });
+    await ctx.db.insert("groupMemberships", {
+      groupId,
+      userId,
+      role: "owner",
+      joinedAt: now,
+    });
+    await setCreatedDataGroup(ctx, userId, groupId);
+    return groupId;
+  },
+});
+
+export const rename = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const membership = await requireOwner(ctx, userId);
+    await ctx.db.patch(membership.groupId, {
+      name: parseOrThrow(GroupNameSchema, args.name),
+    });
+  },
+});
+
+export const invite = mutation({
+  args: { email: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const membership = await requireOwner(ctx, userId);
+
+    const email = normalizeEmail(args.email);
+    if (!email) {
+      throw createError("VALIDATION", "Enter a valid email address");
+    }
+
+    const now = Date.now();
+    const memberships = await getMemberships(ctx, membership.groupId);
+    const invites = (
+      await ctx.db
+        .query("groupInvites")
+        .withIndex("by_groupId", (q) => q.eq("groupId", membership.groupId))
+        .collect()
+    ).filter((i) => !isInviteExpired(i, now));
+    if (memberships.length + invites.length >= MAX_GROUP_MEMBERS) {
+      throw createError(
+        "VALIDATION",
+        `A household can have at most ${MAX_GROUP_MEMBERS} members`
+      );
+    }
+
+    for (const m of memberships) {
+      if ((await getUserEmail(ctx, m.userId)) === email) {
+        throw createError("VALIDATION", "They're already in your household");
+      }
+    }
+
+    // Re-inviting just extends the existing invite
+    const existing = invites.find((i) => i.email === email);
+    if (existing) {
+      await ctx.db.patch(existing._id, { expiresAt: now + INVITE_TTL_MS });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("groupInvites", {
+      groupId: membership.groupId,
+      email,
+      invitedBy: userId,
+      createdAt: now,
+      expiresAt: now + INVITE_TTL_MS,
+    });
+  },
+});
+
+export const cancelInvite = mutation({
+  args: { id: v.id("groupInvites") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const membership = await requireOwner(ctx, userId);
+    const invite = await ctx.db.get(args.id);
+    if (!invite || invite.groupId !== membership.groupId) {
+      throw createError("NOT_FOUND", "Invite not found");
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Invitations waiting for the signed-in user
+export const listMyInvites = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const email = await getUserEmail(ctx, userId);
+    if (!email) return [];
+
+    const now = Date.now();
+    const invites = await ctx.db
+      .query("groupInvites")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .collect();
+
+    const results = [];
+    for (const invite of invites) {
+      if (isInviteExpired(invite, now)) continue;
+      const group = await ctx.db.get(invite.groupId);
+      if (!group) continue;
+      const inviter = await ctx.db.get(invite.invitedBy);
+      results.push({
+        _id: invite._id,
+        groupName: group.name,
+        invitedBy: inviter?.name ?? inviter?.email ?? "Someone",
+        expiresAt: invite.expiresAt,
+      });
+    }
+    return results;
+  },
+});
+
+async function getMyInvite(ctx: QueryCtx, userId: Id<"users">, id: Id<"groupInvites">) {
+  const invite = await ctx.db.get(id);
+  const email = await getUserEmail(ctx, userId);
+  if (!invite || !email || invite.email !== email) {
+    throw createError("NOT_FOUND", "Invite not found");
+  }
+  return invite;
+}
+
+// Join a household; the user's recipes, lists and plans become shared
+export const acceptInvite = mutation({
+  args: { id: v.id("groupInvites") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const invite = await getMyInvite(ctx, userId, args.id);
+    if (isInviteExpired(invite, Date.now())) {
+      throw createError("VALIDATION", "This invite has expired");
+    }
+    await requireNoGroup(ctx, userId);
+
+    const memberships = await getMemberships(ctx, invite.groupId);
+    if (memberships.length >= MAX_GROUP_MEMBERS) {
+      throw createError("VALIDATION", "This household is full");
+    }
+
+    await ctx.db.insert("groupMemberships", {
+      groupId: invite.groupId,
+      userId,
+      role: "member",
+      joinedAt: Date.now(),
+    });
+    await ctx.db.delete(invite._id);
+    await setCreatedDataGroup(ctx, userId, invite.groupId);
+    return invite.groupId;
+  },
+});
+
+export const declineInvite = mutation({
+  args: { id: v.id("groupInvites") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const invite = await getMyInvite(ctx, userId, args.id);
+    await ctx.db.delete(invite._id);
+  },
+});
+
+export const leave = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const membership = await requireMembership(ctx, userId);
+
+    if (membership.role === "owner") {
+      const memberships = await getMemberships(ctx, membership.groupId);
+      const otherOwners = memberships.filter(
+        (m) => m.role === "owner" && m.userId !== userId
+      );
+      if (otherOwners.length === 0 && memberships.length > 1) {
+        throw createError(
+          "VALIDATION",
+          "Make someone else an owner before leaving"
+        );
+      }
+    }
+
+    await removeMembership(ctx, membership);
+  },
+});
+
+export const removeMember = mutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const own = await requireOwner(ctx, userId);
+    if (args.userId === userId) {
+      throw createError("VALIDATION", "Use Leave to leave the household");
+    }
+
+    const membership = await getGroupMembership(ctx, args.userId);
+    if (!membership || membership.groupId !== own.groupId) {
+      throw createError("NOT_FOUND", "Member not found");
+    }
+    await removeMembership(ctx, membership);
+  },
+});
+
+export const setRole = mutation({
+  args: { userId: v.id("users"), role: roleValidator },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const own = await requireOwner(ctx, userId);
+
+    const membership = await getGroupMembership(ctx, args.userId);
+    if (!membership || membership.groupId !== own.groupId) {
+      throw createError("NOT_FOUND", "Member not found");
+    }
+    if (args.role === "member") {
+      const owners = (await getMemberships(ctx, own.groupId)).filter(
+        (m) => m.role === "owner"
+      );
+      if (owners.length === 1 && owners[0].userId === args.userId) {
+        throw createError("VALIDATION", "A household needs at least one owner");
+      }
+    }
+    await ctx.db.patch(membership._id, { role: args.role });
+  },
+});
@@ -0,0 +1,334 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalQuery,
+  internalMutation,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAccess, requireAuth, requireOwnership } from "./lib/auth";
+import { createError } from "./lib/errors";
+import {
+  matchMemberNames,
+  MAX_HOUSEHOLD_MEMBERS,
+  MemberFact,
+  MemberFactsSchema,
+  MemberNameSchema,
+  recipeSafetyFor,
+} from "./lib/household";
+import { sanitizeProfileText } from "./lib/memorySanitization";
+import { parseOrThrow } from "./lib/validators";
+
+const memberFact = v.object({
+  fact: v.string(),
+  category: v.union(
+    v.literal("allergy"),
+    v.literal("intolerance"),
+    v.literal("restriction"),
+    v.literal("goal"),
+    v.literal("preference")
+  ),
+});
+
+// Names and facts end up in the system prompt, so they get the memory treatment
+function cleanProfileText(text: string): string {
+  const result = sanitizeProfileText(text);
+  if (result.rejectionReason) {
+    throw createError("VALIDATION", result.rejectionReason);
+  }
+  return result.sanitized;
+}
+
+function cleanName(name: string): string {
+  return cleanProfileText(parseOrThrow(MemberNameSchema, name));
+}
+
+function cleanFacts(facts: MemberFact[]): MemberFact[] {
+  return parseOrThrow(MemberFactsSchema, facts).map((f) => ({
+    fact: cleanProfileText(f.fact),
+    category: f.category,
+  }));
+}
+
+async function getMembers(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("householdMembers")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+async function requireUniqueName(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  name: string,
+  exceptId?: Id<"householdMembers">
+) {
+  const members = await getMembers(ctx, userId);
+  if (
+    members.some(
+      (m) => m._id !== exceptId && m.name.toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    throw createError("VALIDATION", `You already have someone called ${name}`);
+  }
+}
+
+async function getOwnMember(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  id: Id<"householdMembers">
+) {
+  const member = await ctx.db.get(id);
+  if (!member || member.userId !== userId) {
+    throw createError("NOT_FOUND", "Household member not found");
+  }
+  return member;
+}
+
+async function getOwnConversation(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  conversationId: Id<"conversations">
+) {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) {
+    throw createError("NOT_FOUND", "Conversation not found");
+  }
+  requireOwnership(conversation.userId, userId);
+  return conversation;
+}
+
+// Members the conversation cooks for, skipping any deleted since
+async function getCookingFor(ctx: QueryCtx, conversation: Doc<"conversations">) {
+  if (!conversation.cookingFor) return null;
+  const members = await Promise.all(
+    conversation.cookingFor.memberIds.map((id) => ctx.db.get(id))
+  );
+  return {
+    includesUser: conversation.cookingFor.includesUser,
+    members: members.filter((m): m is Doc<"householdMembers"> => m !== null),
+  };
+}
+
+async function setCookingFor(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+  memberIds: Id<"householdMembers">[],
+  includesUser: boolean
+) {
+  await ctx.db.patch(conversationId, {
+    cookingFor:
+      memberIds.length > 0 ? { memberIds, includesUser } : undefined,
+  });
+}
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const members = await getMembers(ctx, userId);
+    return members.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const add = mutation({
+  args: {
+    name: v.string(),
+    facts: v.optional(v.array(memberFact)),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const name = cleanName(args.name);
+    const facts = cleanFacts(args.facts ?? []);
+
+    const members = await getMembers(ctx, userId);
+    if (members.length >= MAX_HOUSEHOLD_MEMBERS) {
+      throw createError(
+        "VALIDATION",
+        `A household can have at most ${MAX_HOUSEHOLD_MEMBERS} members`
+      );
+    }
+    await requireUniqueName(ctx, userId, name);
+
+    const now = Date.now();
+    return await ctx.db.insert("householdMembers", {
+      userId,
+      name,
+      facts,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("householdMembers"),
+    name: v.optional(v.string()),
+    facts: v.optional(v.array(memberFact)),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnMember(ctx, userId, args.id);
+
+    const updates: Partial<Doc<"householdMembers">> = { updatedAt: Date.now() };
+    if (args.name !== undefined) {
+      updates.name = cleanName(args.name);
+      await requireUniqueName(ctx, userId, updates.name, args.id);
+    }
+    if (args.facts !== undefined) {
+      updates.facts = cleanFacts(args.facts);
+    }
+    await ctx.db.patch(args.id, updates);
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("householdMembers") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnMember(ctx, userId, args.id);
+    await ctx.db.delete(args.id);
+
+    // Drop them from any chat that was cooking for them
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+    for (const conversation of conversations) {
+      const cookingFor = conversation.cookingFor;
+      if (!cookingFor?.memberIds.includes(args.id)) continue;
+      await setCookingFor(
+        ctx,
+        conversation._id,
+        cookingFor.memberIds.filter((id) => id !== args.id),
+        cookingFor.includesUser
+      );
+    }
+  },
+});
+
+export const getConversationCookingFor = query({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const conversation = await getOwnConversation(ctx, userId, args.conversationId);
+    const cookingFor = await getCookingFor(ctx, conversation);
+    if (!cookingFor || cookingFor.members.length === 0) return null;
+    return {
+      includesUser: cookingFor.includesUser,
+      members: cookingFor.members.map((m) => ({ _id: m._id, name: m.name })),
+    };
+  },
+});
+
+// Pick who a chat is cooking for; no members means just the user again
+export const setConversationCookingFor = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    memberIds: v.array(v.id("householdMembers")),
+    includesUser: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnConversation(ctx, userId, args.conversationId);
+    for (const id of args.memberIds) {
+      await getOwnMember(ctx, userId, id);
+    }
+    await setCookingFor(
+      ctx,
+      args.conversationId,
+      [...new Set(args.memberIds)],
+      args.includesUser
+    );
+  },
+});
+
+// Which household members a saved recipe is safe for
+export const getRecipeSafety = query({
+  args: { recipeId: v.id("recipes") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe) {
+      throw createError("NOT_FOUND", "Recipe not found");
+    }
+    await requireAccess(ctx, recipe, userId);
+
+    const members = await getMembers(ctx, userId);
+    return recipeSafetyFor(
+      JSON.stringify({ ingredients: recipe.ingredients }),
+      members
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((m) => ({ memberId: m._id, name: m.name, facts: m.facts }))
+    );
+  },
+});
+
+// ============================================
+// INTERNAL (for the chat)
+// ============================================
+
+export const getCookingForInternal = internalQuery({
+  args: {
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== args.userId) return null;
+    const cookingFor = await getCookingFor(ctx, conversation);
+    return cookingFor && cookingFor.members.length > 0 ? cookingFor : null;
+  },
+});
+
+// "Cooking for me and Sam tonight" (internal, for tool use)
+export const setCookingForByName = internalMutation({
+  args: {
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    names: v.array(v.string()),
+    includesUser: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== args.userId) {
+      return { success: false, message: "Conversation not found" };
+    }
+
+    const members = await getMembers(ctx, args.userId);
+    const { matched, unknown } = matchMemberNames(members, args.names);
+    if (unknown.length > 0) {
+      const known = members.map((m) => m.name);
+      return {
+        success: false,
+        message: `No household member called ${unknown.join(", ")}. ${
+          known.length > 0
+            ? `Known members: ${known.join(", ")}.`
+            : "The user hasn't added any household members yet."
+        } They can be added under Settings > Household.`,
+      };
+    }
+
+    await setCookingFor(
+      ctx,
+      args.conversationId,
+      matched.map((m) => m._id),
+      args.includesUser
+    );
+
+    if (matched.length === 0) {
+      return { success: true, message: "Cooking for the user only again." };
+    }
+    return {
+      success: true,
+      message: `Now cooking for ${[
+        ...(args.includesUser ? ["the user"] : []),
+        ...matched.map((m) => m.name),
+      ].join(", ")}.`,
+      members: matched.map((m) => ({ name: m.name, facts: m.facts })),
+    };
+  },
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { findDietaryConflicts, findRecipeConflicts } from "./allergenSafety";
+
+const allergy = (fact: string) => ({ fact, category: "allergy" });
+const restriction = (fact: string) => ({ fact, category: "restriction" });
+
+describe("findDietaryConflicts", () => {
+  it("matches derivatives through the synonym dictionary", () => {
+    const conflicts = findDietaryConflicts(
+      ["whey protein", "tahini", "olive oil"],
+      [allergy("User is allergic to dairy"), allergy("User is allergic to sesame")]
+    );
+
+    expect(conflicts).toEqual([
+      { ingredient: "whey protein", allergen: "dairy", fact: "User is allergic to dairy" },
+      { ingredient: "tahini", allergen: "sesame", fact: "User is allergic to sesame" },
+    ]);
+  });
+
+  it("ignores look-alike ingredients", () => {
+    const conflicts = findDietaryConflicts(
+      ["peanut butter", "coconut milk", "eggplant", "nutmeg", "buckwheat"],
+      [
+        allergy("User is allergic to milk"),
+        allergy("User is allergic to eggs"),
+        allergy("User is allergic to tree nuts"),
+        restriction("User is gluten-free"),
+      ]
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it("expands diets into the groups they exclude", () => {
+    const conflicts = findDietaryConflicts(
+      ["chicken stock", "honey", "tofu"],
+      [restriction("User is vegan")]
+    );
+
+    expect(conflicts.map((c) => [c.ingredient, c.allergen])).toEqual([
+      ["chicken stock", "meat"],
+      ["honey", "honey"],
+    ]);
+  });
+
+  it("keeps narrow restrictions narrow", () => {
+    const conflicts = findDietaryConflicts(
+      ["bacon", "chicken thighs"],
+      [restriction("User avoids pork")]
+    );
+
+    expect(conflicts.map((c) => c.ingredient)).toEqual(["bacon"]);
+  });
+
+  it("does not treat a tree nut allergy as a peanut allergy", () => {
+    const conflicts = findDietaryConflicts(
+      ["roasted peanuts", "walnuts"],
+      [allergy("User is allergic to tree nuts")]
+    );
+
+    expect(conflicts.map((c) => c.ingredient)).toEqual(["walnuts"]);
+  });
+
+  it("falls back to the literal allergen for unknown foods", () => {
+    const conflicts = findDietaryConflicts(
+      ["garlic cloves", "onion"],
+      [{ fact: "User is intolerant to garlic", category: "intolerance" }]
+    );
+
+    expect(conflicts).toEqual([
+      {
+        ingredient: "garlic cloves",
+        allergen: "garlic",
+        fact: "User is intolerant to garlic",
+      },
+    ]);
+  });
+
+  it("only considers safety categories", () => {
+    const conflicts = findDietaryConflicts(
+      ["cheddar"],
+      [{ fact: "User dislikes cheese", category: "preference" }]
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+});
+
+describe("findRecipeConflicts", () => {
+  it("checks ingredient names from recipe JSON", () => {
+    const recipeJson = JSON.stringify({
+      title: "Shrimp Scampi",
+      ingredients: [
+        { name: "shrimp", amount: "1", unit: "lb" },
+        { name: "linguine", amount: "8", unit: "oz" },
+      ],
+    });
+
+    const conflicts = findRecipeConflicts(recipeJson, [
+      allergy("User is allergic to shellfish"),
+    ]);
+
+    expect(conflicts.map((c) => c.ingredient)).toEqual(["shrimp"]);
+  });
+
+  it("returns no conflicts for unparseable JSON", () => {
+    expect(findRecipeConflicts("{ nope", [allergy("User is allergic to shellfish")])).toEqual([]);
+  });
+});
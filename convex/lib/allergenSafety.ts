@@ -0,0 +1,294 @@
+// Deterministic allergen check for generated recipes.
+// The system prompt asks the model to respect the dietary profile, but this is
+// the safety net: ingredients are matched against the user's allergy,
+// intolerance and restriction facts using a synonym/derivative dictionary.
+
+interface AllergenGroup {
+  label: string;
+  // Ingredient words that contain this allergen (matched on word boundaries, plurals allowed)
+  terms: string[];
+  // Extra words that only identify the allergen when they appear in a memory fact
+  factTriggers?: string[];
+  // Fact phrases that must not trigger this group (a tree nut allergy says nothing about peanuts)
+  factExclusions?: string[];
+  // Broad groups are only identified by their factTriggers (or a diet), so
+  // "avoids pork" doesn't rule out chicken
+  broad?: boolean;
+  // Phrases that look like a term but are free of the allergen (e.g. "peanut butter" for dairy)
+  safePhrases?: string[];
+}
+
+const ALLERGENS: Record<string, AllergenGroup> = {
+  dairy: {
+    label: "dairy",
+    terms: [
+      "dairy", "milk", "cheese", "butter", "buttermilk", "cream", "whey",
+      "casein", "caseinate", "lactose", "yogurt", "yoghurt", "ghee", "kefir",
+      "custard", "paneer", "mozzarella", "parmesan", "parmigiano", "cheddar",
+      "ricotta", "feta", "brie", "gouda", "mascarpone", "gruyere", "pecorino",
+      "creme fraiche", "half-and-half",
+    ],
+    safePhrases: [
+      "peanut butter", "almond butter", "cashew butter", "nut butter",
+      "sunflower butter", "seed butter", "apple butter", "cocoa butter",
+      "shea butter", "vegan butter", "butter beans", "butter bean",
+      "butter lettuce", "coconut milk", "coconut cream", "almond milk",
+      "oat milk", "soy milk", "rice milk", "cashew milk", "vegan cheese",
+      "cream of tartar", "dairy-free", "non-dairy",
+    ],
+  },
+  egg: {
+    label: "egg",
+    terms: ["egg", "mayonnaise", "mayo", "meringue", "aioli", "albumin", "eggnog"],
+    safePhrases: ["egg-free", "vegan mayo", "vegan mayonnaise"],
+  },
+  peanut: {
+    label: "peanut",
+    terms: ["peanut", "groundnut", "arachis oil", "satay"],
+    factTriggers: ["nut"],
+    factExclusions: ["tree nut"],
+  },
+  treeNut: {
+    label: "tree nut",
+    terms: [
+      "tree nut", "nut", "almond", "cashew", "walnut", "pecan", "pistachio",
+      "hazelnut", "macadamia", "brazil nut", "pine nut", "chestnut",
+      "praline", "marzipan", "frangipane", "nutella", "gianduja",
+    ],
+  },
+  sesame: {
+    label: "sesame",
+    terms: ["sesame", "tahini", "halva", "halvah", "gomasio", "benne", "za'atar", "hummus"],
+  },
+  gluten: {
+    label: "gluten",
+    terms: [
+      "gluten", "wheat", "flour", "bread", "breadcrumb", "panko", "pasta",
+      "spaghetti", "linguine", "fettuccine", "penne", "macaroni", "lasagna",
+      "ravioli", "tortellini", "noodle", "couscous", "semolina", "barley", "rye", "spelt",
+      "farro", "bulgur", "seitan", "malt", "soy sauce", "orzo", "udon",
+      "crouton", "cracker", "pita", "baguette", "brioche", "pastry", "phyllo",
+      "filo", "tortilla", "beer",
+    ],
+    factTriggers: ["celiac", "coeliac"],
+    safePhrases: [
+      "gluten-free", "rice flour", "almond flour", "coconut flour",
+      "corn flour", "cornflour", "chickpea flour", "buckwheat flour",
+      "tapioca flour", "cassava flour", "potato flour", "rice noodle",
+      "rice noodles", "glass noodles", "rice pasta", "corn tortilla",
+      "corn tortillas",
+    ],
+  },
+  soy: {
+    label: "soy",
+    terms: ["soy", "soya", "soybean", "tofu", "tempeh", "edamame", "miso", "tamari"],
+  },
+  fish: {
+    label: "fish",
+    terms: [
+      "fish", "salmon", "tuna", "cod", "anchovy", "anchovies", "sardine",
+      "mackerel", "trout", "halibut", "tilapia", "haddock", "snapper",
+      "swordfish", "catfish", "sea bass", "bonito", "dashi", "worcestershire",
+      "caesar dressing",
+    ],
+    factTriggers: ["seafood"],
+  },
+  shellfish: {
+    label: "shellfish",
+    terms: [
+      "shellfish", "shrimp", "prawn", "crab", "lobster", "crayfish", "crawfish",
+      "langoustine", "scallop", "clam", "mussel", "oyster", "squid",
+      "calamari", "octopus",
+    ],
+    factTriggers: ["seafood"],
+  },
+  meat: {
+    label: "meat",
+    terms: [
+      "meat", "beef", "pork", "bacon", "ham", "lamb", "veal", "venison",
+      "steak", "sausage", "chorizo", "pepperoni", "salami", "prosciutto",
+      "pancetta", "lard", "gelatin", "chicken", "turkey", "duck", "goose",
+      "quail",
+    ],
+    broad: true,
+    factTriggers: ["meat"],
+    factExclusions: ["red meat"],
+    safePhrases: ["vegan sausage", "vegetarian sausage", "plant-based"],
+  },
+  redMeat: {
+    label: "red meat",
+    terms: [
+      "red meat", "beef", "pork", "bacon", "ham", "lamb", "veal", "venison",
+      "steak", "sausage", "chorizo", "pepperoni", "salami", "prosciutto",
+      "pancetta",
+    ],
+    broad: true,
+    factTriggers: ["red meat"],
+  },
+  pork: {
+    label: "pork",
+    terms: [
+      "pork", "bacon", "ham", "lard", "prosciutto", "pancetta", "chorizo",
+      "pepperoni", "salami", "gelatin",
+    ],
+  },
+  honey: {
+    label: "honey",
+    terms: ["honey"],
+  },
+  alcohol: {
+    label: "alcohol",
+    terms: [
+      "alcohol", "wine", "beer", "rum", "vodka", "whiskey", "whisky",
+      "bourbon", "brandy", "cognac", "sherry", "sake", "mirin", "liqueur",
+      "tequila",
+    ],
+    safePhrases: ["wine vinegar", "non-alcoholic"],
+  },
+};
+
+// Diets that exclude whole allergen groups
+const DIETS: Record<string, string[]> = {
+  vegan: ["meat", "fish", "shellfish", "dairy", "egg", "honey"],
+  "plant-based": ["meat", "fish", "shellfish", "dairy", "egg", "honey"],
+  vegetarian: ["meat", "fish", "shellfish"],
+  pescatarian: ["meat"],
+  pescetarian: ["meat"],
+  kosher: ["pork", "shellfish"],
+  halal: ["pork", "alcohol"],
+};
+
+// Categories whose facts describe things the user must not be served
+const SAFETY_CATEGORIES = new Set(["allergy", "intolerance", "restriction"]);
+
+// Free-form allergens the dictionary doesn't know ("allergic to garlic")
+const FREE_FORM_PATTERN =
+  /(?:allergic|allergy|intolerant|intolerance|sensitive|sensitivity)\s+(?:to\s+)?([a-z][a-z\s-]*?)(?=\s+(?:and|or|but)\b|[,.;(]|$)/;
+
+export interface DietaryConflict {
+  ingredient: string;
+  allergen: string;
+  fact: string;
+}
+
+interface SafetyMemory {
+  fact: string;
+  category: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term)}(?:s|es)?\\b`).test(text);
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+// Allergen group keys (and free-form terms) implied by a single memory fact
+function allergensForFact(fact: string): {
+  groups: string[];
+  freeForm: string | null;
+} {
+  const text = normalize(fact);
+  const groups = new Set<string>();
+
+  for (const [key, group] of Object.entries(ALLERGENS)) {
+    let groupText = text;
+    for (const phrase of group.factExclusions ?? []) {
+      groupText = groupText.replace(new RegExp(`${escapeRegExp(phrase)}s?`, "g"), " ");
+    }
+    const triggers = [
+      ...(group.broad ? [] : group.terms),
+      ...(group.factTriggers ?? []),
+    ];
+    if (triggers.some((term) => containsTerm(groupText, term))) {
+      groups.add(key);
+    }
+  }
+
+  for (const [diet, excluded] of Object.entries(DIETS)) {
+    if (containsTerm(text, diet)) {
+      excluded.forEach((key) => groups.add(key));
+    }
+  }
+
+  let freeForm: string | null = null;
+  if (groups.size === 0) {
+    const match = text.match(FREE_FORM_PATTERN);
+    freeForm = match ? match[1].trim() : null;
+  }
+
+  return { groups: [...groups], freeForm };
+}
+
+function ingredientContains(ingredient: string, group: AllergenGroup): boolean {
+  let text = normalize(ingredient);
+  for (const phrase of group.safePhrases ?? []) {
+    text = text.split(phrase).join(" ");
+  }
+  return group.terms.some((term) => containsTerm(text, term));
+}
+
+/**
+ * Match recipe ingredients against the user's allergy, intolerance and
+ * restriction memories. Returns one conflict per ingredient/allergen pair.
+ */
+export function findDietaryConflicts(
+  ingredients: string[],
+  memories: SafetyMemory[]
+): DietaryConflict[] {
+  const conflicts: DietaryConflict[] = [];
+  const seen = new Set<string>();
+
+  for (const memory of memories) {
+    if (!SAFETY_CATEGORIES.has(memory.category)) continue;
+
+    const { groups, freeForm } = allergensForFact(memory.fact);
+
+    for (const ingredient of ingredients) {
+      const matched: string[] = groups
+        .filter((key) => ingredientContains(ingredient, ALLERGENS[key]))
+        .map((key) => ALLERGENS[key].label);
+
+      if (freeForm && containsTerm(normalize(ingredient), freeForm)) {
+        matched.push(freeForm);
+      }
+
+      for (const allergen of matched) {
+        const key = `${ingredient}|${allergen}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        conflicts.push({ ingredient, allergen, fact: memory.fact });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// Parse the ingredient names out of a recipe JSON block and check them
+export function findRecipeConflicts(
+  recipeJson: string,
+  memories: SafetyMemory[]
+): DietaryConflict[] {
+  let ingredients: string[];
+  try {
+    const recipe = JSON.parse(recipeJson);
+    ingredients = Array.isArray(recipe?.ingredients)
+      ? recipe.ingredients
+          .map((i: { name?: unknown }) => (typeof i?.name === "string" ? i.name : ""))
+          .filter(Boolean)
+      : [];
+  } catch {
+    return [];
+  }
+
+  return findDietaryConflicts(ingredients, memories);
+}
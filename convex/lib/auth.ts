@@ -1,11 +1,12 @@
 import { QueryCtx, MutationCtx } from "../_generated/server";
 import { Id } from "../_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { createError } from "./errors";
 
 export async function requireAuth(ctx: QueryCtx | MutationCtx) {
   const userId = await getAuthUserId(ctx);
   if (!userId) {
-    throw new Error("Unauthorized: Please sign in");
+    throw createError("UNAUTHORIZED", "Unauthorized: Please sign in");
   }
   return userId;
 }
@@ -27,7 +28,7 @@ export async function requireUserProfile(ctx: QueryCtx | MutationCtx) {
   const profile = await getUserProfile(ctx, userId);
 
   if (!profile) {
-    throw new Error("Profile not found");
+    throw createError("NOT_FOUND", "Profile not found");
   }
 
   return { userId, profile };
@@ -38,7 +39,73 @@ export function requireOwnership(
   currentUserId: Id<"users">
 ) {
   if (resourceUserId !== currentUserId) {
-    throw new Error("Access denied");
+    throw createError("FORBIDDEN", "Access denied");
+  }
+}
+
+// Whose shared data a user works with: their own, or their household group's
+export interface DataScope {
+  userId: Id<"users">;
+  groupId: Id<"groups"> | null;
+}
+
+// A row owned by its creator and, when shared, by everyone in its group
+export interface SharedResource {
+  userId: Id<"users">;
+  groupId?: Id<"groups">;
+}
+
+export async function getGroupMembership(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">
+) {
+  return await ctx.db
+    .query("groupMemberships")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+export async function getDataScope(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">
+): Promise<DataScope> {
+  const membership = await getGroupMembership(ctx, userId);
+  return { userId, groupId: membership?.groupId ?? null };
+}
+
+// Ownership fields for a new shared row
+export function scopeFields(scope: DataScope) {
+  return { userId: scope.userId, groupId: scope.groupId ?? undefined };
+}
+
+/**
+ * Whether a user may use a shared resource: they created it, or it belongs
+ * to their group. `manage` (deleting, say) is for the creator and group
+ * owners only.
+ */
+export async function canAccess(
+  ctx: QueryCtx | MutationCtx,
+  resource: SharedResource,
+  userId: Id<"users">,
+  options: { manage?: boolean } = {}
+): Promise<boolean> {
+  if (resource.userId === userId) return true;
+  if (!resource.groupId) return false;
+
+  const membership = await getGroupMembership(ctx, userId);
+  if (membership?.groupId !== resource.groupId) return false;
+  return !options.manage || membership.role === "owner";
+}
+
+// Generalizes requireOwnership to shared rows
+export async function requireAccess(
+  ctx: QueryCtx | MutationCtx,
+  resource: SharedResource,
+  userId: Id<"users">,
+  options: { manage?: boolean } = {}
+) {
+  if (!(await canAccess(ctx, resource, userId, options))) {
+    throw createError("FORBIDDEN", "Access denied");
   }
 }
 
@@ -53,10 +120,10 @@ export async function verifyFileOwnership(
     .first();
 
   if (!file) {
-    throw new Error("File not found or not registered");
+    throw createError("NOT_FOUND", "File not found or not registered");
   }
 
   if (file.userId !== userId) {
-    throw new Error("Access denied: file belongs to another user");
+    throw createError("FORBIDDEN", "Access denied: file belongs to another user");
   }
 }
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  assembleContext,
+  CONTEXT_PRIORITY,
+  ContextSection,
+  HistoryMessage,
+  REQUIRED,
+} from "./contextAssembler";
+
+const words = (n: number, word = "tomato") => Array(n).fill(word).join(" ");
+
+const history = (count: number): HistoryMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `message ${i} ${words(20)}`,
+    creationTime: i + 1,
+  }));
+
+const sections: ContextSection[] = [
+  { key: "base", text: words(50, "base"), priority: REQUIRED },
+  { key: "memory:allergy", text: words(30, "peanut"), priority: REQUIRED },
+  { key: "memory:preference", text: words(30, "cilantro"), priority: CONTEXT_PRIORITY.preferences },
+  { key: "memory:restriction", text: words(30, "vegan"), priority: CONTEXT_PRIORITY.dietary },
+];
+
+describe("assembleContext", () => {
+  it("keeps everything when it fits", () => {
+    const result = assembleContext(sections, history(4), 10_000);
+
+    expect(result.history).toHaveLength(4);
+    expect(result.overflow).toEqual([]);
+    expect(result.usage.droppedSections).toEqual([]);
+    expect(result.systemPrompt.split("\n\n")).toHaveLength(4);
+  });
+
+  it("drops the lowest-priority sections and the oldest messages first", () => {
+    const messages = history(12);
+    const result = assembleContext(sections, messages, 300);
+
+    expect(result.usage.droppedSections).toEqual(["memory:preference"]);
+    expect(result.systemPrompt).toContain("peanut");
+    expect(result.systemPrompt).toContain("vegan");
+    // Contiguous from the latest message back, with the rest handed over
+    expect(result.history.at(-1)).toBe(messages[11]);
+    expect([...result.overflow, ...result.history]).toEqual(messages);
+    expect(result.overflow.length).toBeGreaterThan(0);
+    expect(result.usage.total).toBeLessThanOrEqual(300);
+  });
+
+  it("never drops required sections or the latest message", () => {
+    const messages = history(3);
+    const result = assembleContext(sections, messages, 50);
+
+    expect(result.systemPrompt).toContain("peanut");
+    expect(result.history).toEqual([messages[2]]);
+    expect(result.usage).toMatchObject({
+      overBudget: true,
+      droppedSections: ["memory:preference", "memory:restriction"],
+    });
+  });
+});
@@ -0,0 +1,171 @@
+// Fits the chat prompt into a token budget. The system prompt is built from
+// sections and the history from recent messages; when everything doesn't
+// fit, the lowest-priority pieces go first. Required sections (the base
+// prompt, allergies, household restrictions) and the user's latest message
+// are always sent. History is trimmed from the oldest end only, and the
+// trimmed messages are handed back so they can be folded into the
+// conversation's running summary.
+
+import {
+  countMessageTokens,
+  estimateTokens,
+  MESSAGE_OVERHEAD_TOKENS,
+  REPLY_PRIMING_TOKENS,
+  TokenCounter,
+} from "./tokenCount";
+
+export const REQUIRED = Number.POSITIVE_INFINITY;
+
+// Higher keeps longer
+export const CONTEXT_PRIORITY = {
+  required: REQUIRED,
+  dietary: 90,
+  recentHistory: 80,
+  mentionedRecipes: 70,
+  historySummary: 60,
+  kitchenAndGoals: 50,
+  preferences: 40,
+  olderHistory: 30,
+} as const;
+
+export const MEMORY_CATEGORY_PRIORITY = {
+  allergy: CONTEXT_PRIORITY.required,
+  intolerance: CONTEXT_PRIORITY.dietary,
+  restriction: CONTEXT_PRIORITY.dietary,
+  equipment: CONTEXT_PRIORITY.kitchenAndGoals,
+  goal: CONTEXT_PRIORITY.kitchenAndGoals,
+  preference: CONTEXT_PRIORITY.preferences,
+} as const;
+
+// The last few messages outrank most of the system prompt
+export const RECENT_MESSAGE_COUNT = 6;
+
+export interface ContextSection {
+  // Name used in usage logs
+  key: string;
+  text: string;
+  priority: number;
+}
+
+export interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+  creationTime: number;
+}
+
+export interface ContextUsage {
+  budget: number;
+  total: number;
+  system: number;
+  history: number;
+  messagesKept: number;
+  messagesDropped: number;
+  droppedSections: string[];
+  // Required content alone didn't fit; it was sent anyway
+  overBudget: boolean;
+}
+
+export interface AssembledContext {
+  systemPrompt: string;
+  // Oldest first, ending with the latest message
+  history: HistoryMessage[];
+  // Messages trimmed from the start of the history, oldest first
+  overflow: HistoryMessage[];
+  usage: ContextUsage;
+}
+
+type Candidate =
+  | { kind: "section"; index: number; priority: number; tokens: number }
+  | { kind: "message"; index: number; priority: number; tokens: number };
+
+export function assembleContext(
+  sections: ContextSection[],
+  history: HistoryMessage[],
+  budget: number,
+  // The chat model's tokenizer (see tokenCounterFor)
+  countTokens: TokenCounter = estimateTokens
+): AssembledContext {
+  const last = history.length - 1;
+  const keepSection = sections.map((s) => s.priority === REQUIRED);
+  let oldestKept = history.length > 0 ? last : 0;
+
+  let used =
+    MESSAGE_OVERHEAD_TOKENS +
+    REPLY_PRIMING_TOKENS +
+    sections.reduce(
+      (sum, s, i) => (keepSection[i] ? sum + countTokens(s.text) : sum),
+      0
+    ) +
+    (last >= 0 ? countMessageTokens(history[last].content, countTokens) : 0);
+  const overBudget = used > budget;
+
+  const candidates: Candidate[] = [
+    ...sections.flatMap((s, index): Candidate[] =>
+      keepSection[index]
+        ? []
+        : [{ kind: "section", index, priority: s.priority, tokens: countTokens(s.text) }]
+    ),
+    ...history.slice(0, Math.max(last, 0)).map(
+      (m, index): Candidate => ({
+        kind: "message",
+        index,
+        priority:
+          index >= last - RECENT_MESSAGE_COUNT
+            ? CONTEXT_PRIORITY.recentHistory
+            : CONTEXT_PRIORITY.olderHistory,
+        tokens: countMessageTokens(m.content, countTokens),
+      })
+    ),
+  ];
+
+  // Most important first; among messages, newest first
+  candidates.sort(
+    (a, b) =>
+      b.priority - a.priority ||
+      (a.kind === "message" && b.kind === "message" ? b.index - a.index : 0)
+  );
+
+  let historyClosed = false;
+  for (const candidate of candidates) {
+    if (candidate.kind === "message") {
+      // No gaps: once a message is left out, so is everything before it
+      if (historyClosed) continue;
+      if (used + candidate.tokens > budget) {
+        historyClosed = true;
+        continue;
+      }
+      oldestKept = candidate.index;
+    } else {
+      if (used + candidate.tokens > budget) continue;
+      keepSection[candidate.index] = true;
+    }
+    used += candidate.tokens;
+  }
+
+  const systemPrompt = sections
+    .filter((_, i) => keepSection[i])
+    .map((s) => s.text)
+    .join("\n\n");
+  const kept = history.slice(oldestKept);
+  const system = countMessageTokens(systemPrompt, countTokens);
+  const historyTokens = kept.reduce(
+    (sum, m) => sum + countMessageTokens(m.content, countTokens),
+    0
+  );
+
+  return {
+    systemPrompt,
+    history: kept,
+    overflow: history.slice(0, oldestKept),
+    usage: {
+      budget,
+      total: system + historyTokens + REPLY_PRIMING_TOKENS,
+      system,
+      history: historyTokens,
+      messagesKept: kept.length,
+      messagesDropped: oldestKept,
+      droppedSections: sections.filter((_, i) => !keepSection[i]).map((s) => s.key),
+      overBudget,
+    },
+  };
+}
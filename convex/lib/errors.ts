@@ -1,17 +1,8 @@
-export class AppError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public statusCode: number = 400,
-    public retryable: boolean = false
-  ) {
-    super(message);
-    this.name = "AppError";
-  }
-}
+import { ConvexError } from "convex/values";
 
 export const ErrorCodes = {
   UNAUTHORIZED: "UNAUTHORIZED",
+  FORBIDDEN: "FORBIDDEN",
   NOT_FOUND: "NOT_FOUND",
   RATE_LIMIT: "RATE_LIMIT_EXCEEDED",
   VALIDATION: "VALIDATION_ERROR",
@@ -22,6 +13,30 @@ export const ErrorCodes = {
   OFF_TOPIC: "OFF_TOPIC_REQUEST",
 } as const;
 
+export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
+
+// Payload carried to the client on ConvexError.data
+export type AppErrorData = {
+  code: ErrorCode;
+  message: string;
+  statusCode: number;
+  retryable: boolean;
+};
+
+// ConvexError subclass so code/retryable survive the trip to the client
+// (plain Errors are redacted to "Server Error" in production)
+export class AppError extends ConvexError<AppErrorData> {
+  constructor(
+    message: string,
+    public code: ErrorCode,
+    public statusCode: number = 400,
+    public retryable: boolean = false
+  ) {
+    super({ code, message, statusCode, retryable });
+    this.name = "AppError";
+  }
+}
+
 export function createError(
   code: keyof typeof ErrorCodes,
   message: string,
@@ -29,13 +44,30 @@ export function createError(
 ): AppError {
   const statusCodes: Record<string, number> = {
     UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
     NOT_FOUND: 404,
     RATE_LIMIT: 429,
     VALIDATION: 400,
     AI_UNAVAILABLE: 503,
     AI_TIMEOUT: 504,
+    INVALID_IMAGE: 400,
+    DIETARY_CONFLICT: 409,
     OFF_TOPIC: 400,
   };
 
-  return new AppError(message, code, statusCodes[code] || 400, retryable);
+  return new AppError(
+    message,
+    ErrorCodes[code],
+    statusCodes[code] || 400,
+    retryable
+  );
+}
+
+export function isAppErrorData(data: unknown): data is AppErrorData {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as AppErrorData).code === "string" &&
+    typeof (data as AppErrorData).message === "string"
+  );
 }
@@ -0,0 +1,22 @@
+// Shared households ("groups"): a few accounts pooling one recipe book, meal
+// plan and set of shopping lists. Owners manage membership; everyone can add
+// and edit shared data.
+
+import { z } from "zod";
+
+export const MAX_GROUP_MEMBERS = 8;
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const GroupNameSchema = z.string().trim().min(1).max(60);
+
+const EmailSchema = z.string().trim().toLowerCase().email().max(254);
+
+// Invites are matched to accounts by email, case-insensitively
+export function normalizeEmail(email: string): string | null {
+  const result = EmailSchema.safeParse(email);
+  return result.success ? result.data : null;
+}
+
+export function isInviteExpired(invite: { expiresAt: number }, now: number): boolean {
+  return invite.expiresAt <= now;
+}
@@ -0,0 +1,54 @@
+import { LLMProvider } from "./llm";
+import { escapeForPrompt } from "./memorySanitization";
+
+// Older chat turns that no longer fit the prompt are folded into a running
+// summary on the conversation, so long chats keep their thread instead of
+// forgetting everything before a fixed cutoff.
+
+export const MAX_SUMMARY_LENGTH = 2000;
+// Per message, so one pasted essay can't crowd out the rest
+const MAX_MESSAGE_LENGTH = 1500;
+
+const HISTORY_SUMMARY_PROMPT = `You maintain the running summary of a cooking chat between a user and a culinary assistant. Older messages are being dropped from the assistant's view; fold them into the summary so the assistant can keep the thread.
+
+Keep: dishes and recipes discussed (by name), decisions the user made, ingredients they have or want to use, servings, occasions and timing, and open questions. Drop greetings and recipe steps the user didn't comment on. Don't record allergies or diet rules; the assistant has those separately.
+
+Write at most 150 words in the third person ("The user asked for..."). Return JSON only:
+{"summary": "..."}
+
+**Summary so far:**
+{previous_summary}
+
+**Messages to fold in (oldest first):**
+{messages}`;
+
+export async function summarizeHistory(
+  provider: LLMProvider,
+  previousSummary: string | undefined,
+  messages: Array<{ role: "user" | "assistant"; content: string }>
+): Promise<string | null> {
+  if (messages.length === 0) return null;
+
+  const transcript = messages
+    .map(
+      (m) =>
+        `${m.role === "user" ? "User" : "Assistant"}: ${escapeForPrompt(
+          m.content.slice(0, MAX_MESSAGE_LENGTH)
+        )}`
+    )
+    .join("\n\n");
+
+  // Replacer functions, so "$&" in a message stays literal
+  const prompt = HISTORY_SUMMARY_PROMPT.replace(
+    "{previous_summary}",
+    () => previousSummary || "(none yet)"
+  ).replace("{messages}", () => transcript);
+
+  const result = (await provider.extractJson({ prompt, maxTokens: 400 })) as {
+    summary?: unknown;
+  } | null;
+  if (!result || typeof result.summary !== "string") return null;
+
+  const summary = result.summary.trim().slice(0, MAX_SUMMARY_LENGTH);
+  return summary || null;
+}
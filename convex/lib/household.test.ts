@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildHouseholdContext,
+  matchMemberNames,
+  recipeSafetyFor,
+} from "./household";
+
+const members = [{ name: "Sam Lee" }, { name: "Alex" }, { name: "Sammy" }];
+
+describe("matchMemberNames", () => {
+  it("matches full names and first names, ignoring case", () => {
+    const { matched, unknown } = matchMemberNames(members, ["sam", "ALEX", "Sammy"]);
+    expect(matched.map((m) => m.name)).toEqual(["Sam Lee", "Alex", "Sammy"]);
+    expect(unknown).toEqual([]);
+  });
+
+  it("reports names that aren't members and ignores repeats", () => {
+    const { matched, unknown } = matchMemberNames(members, ["Alex", "alex", "Jo"]);
+    expect(matched.map((m) => m.name)).toEqual(["Alex"]);
+    expect(unknown).toEqual(["Jo"]);
+  });
+});
+
+describe("buildHouseholdContext", () => {
+  const sam = {
+    name: "Sam",
+    facts: [
+      { fact: "Allergic to tree nuts", category: "allergy" as const },
+      { fact: "Loves mushrooms", category: "preference" as const },
+    ],
+  };
+  const alex = {
+    name: "Alex",
+    facts: [{ fact: "Vegetarian", category: "restriction" as const }],
+  };
+
+  it("merges everyone's facts by category with names attached", () => {
+    const context = buildHouseholdContext([sam, alex], true);
+    expect(context).toContain("**Cooking For:** Sam, Alex, the user.");
+    expect(context).toContain(
+      "ALLERGIES (CRITICAL - NEVER INCLUDE):\n  - Sam: Allergic to tree nuts"
+    );
+    expect(context).toContain("DIETARY RESTRICTIONS:\n  - Alex: Vegetarian");
+    expect(context.indexOf("ALLERGIES")).toBeLessThan(context.indexOf("PREFERENCES"));
+    expect(context).not.toContain("INTOLERANCES");
+  });
+
+  it("notes when the user isn't eating", () => {
+    expect(buildHouseholdContext([alex], false)).toContain("the user is cooking, not eating");
+    expect(buildHouseholdContext([], true)).toBe("");
+  });
+});
+
+describe("recipeSafetyFor", () => {
+  it("flags each eater the recipe conflicts with", () => {
+    const recipeJson = JSON.stringify({
+      ingredients: [{ name: "walnuts" }, { name: "spinach" }],
+    });
+
+    expect(
+      recipeSafetyFor(recipeJson, [
+        { name: "You", facts: [] },
+        { name: "Sam", facts: [{ fact: "Allergic to tree nuts", category: "allergy" }] },
+        { name: "Alex", facts: [{ fact: "Hates walnuts", category: "preference" }] },
+      ])
+    ).toEqual([
+      { memberId: undefined, name: "You", safe: true, allergens: [] },
+      { memberId: undefined, name: "Sam", safe: false, allergens: ["tree nut"] },
+      { memberId: undefined, name: "Alex", safe: true, allergens: [] },
+    ]);
+  });
+});
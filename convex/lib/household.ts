@@ -0,0 +1,140 @@
+// Household members: the other people a user cooks for ("me and Sam
+// tonight"), each with their own dietary facts. A conversation can be set to
+// cook for any mix of them; the prompt then carries the union of everyone's
+// restrictions and generated recipes are checked per person.
+
+import { z } from "zod";
+import { Id } from "../_generated/dataModel";
+import { findRecipeConflicts } from "./allergenSafety";
+import { escapeForPrompt } from "./memorySanitization";
+
+export const MAX_HOUSEHOLD_MEMBERS = 12;
+export const MAX_MEMBER_FACTS = 30;
+
+// Same categories as the user's own memories, minus kitchen equipment
+export const MEMBER_FACT_CATEGORIES = [
+  "allergy",
+  "intolerance",
+  "restriction",
+  "goal",
+  "preference",
+] as const;
+
+export type MemberFactCategory = (typeof MEMBER_FACT_CATEGORIES)[number];
+
+export interface MemberFact {
+  fact: string;
+  category: MemberFactCategory;
+}
+
+export const MemberNameSchema = z.string().trim().min(1).max(50);
+
+export const MemberFactsSchema = z
+  .array(
+    z.object({
+      fact: z.string().trim().min(1).max(200),
+      category: z.enum(MEMBER_FACT_CATEGORIES),
+    })
+  )
+  .max(MAX_MEMBER_FACTS);
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Resolve names from the chat to members, matching the full name or its
+ * first word ("sam" finds "Sam Lee"), ignoring case.
+ */
+export function matchMemberNames<M extends { name: string }>(
+  members: M[],
+  names: string[]
+): { matched: M[]; unknown: string[] } {
+  const matched: M[] = [];
+  const unknown: string[] = [];
+
+  for (const name of names) {
+    const wanted = normalizeName(name);
+    if (!wanted) continue;
+    const member =
+      members.find((m) => normalizeName(m.name) === wanted) ??
+      members.find((m) => normalizeName(m.name).split(/\s+/)[0] === wanted);
+    if (!member) {
+      unknown.push(name.trim());
+    } else if (!matched.includes(member)) {
+      matched.push(member);
+    }
+  }
+
+  return { matched, unknown };
+}
+
+const CONTEXT_SECTIONS: Array<[MemberFactCategory, string]> = [
+  ["allergy", "ALLERGIES (CRITICAL - NEVER INCLUDE)"],
+  ["intolerance", "INTOLERANCES"],
+  ["restriction", "DIETARY RESTRICTIONS"],
+  ["goal", "DIETARY GOALS"],
+  ["preference", "PREFERENCES"],
+];
+
+/**
+ * Prompt section for a meal shared with household members: who is eating,
+ * then everyone's facts merged by category with the person named on each.
+ */
+export function buildHouseholdContext(
+  members: Array<{ name: string; facts: MemberFact[] }>,
+  includesUser: boolean
+): string {
+  if (members.length === 0) return "";
+
+  const names = members.map((m) => escapeForPrompt(m.name));
+  const eaters = includesUser ? [...names, "the user"] : names;
+  let context = `**Cooking For:** ${eaters.join(", ")}. Every dish must be safe for all of them`;
+  context += includesUser
+    ? ", on top of the user's own profile.\n\n"
+    : " (the user is cooking, not eating, but keep their allergies out of the kitchen too).\n\n";
+
+  for (const [category, heading] of CONTEXT_SECTIONS) {
+    const lines = members.flatMap((member) =>
+      member.facts
+        .filter((f) => f.category === category)
+        .map((f) => `  - ${escapeForPrompt(member.name)}: ${escapeForPrompt(f.fact)}`)
+    );
+    if (lines.length > 0) {
+      context += `${heading}:\n${lines.join("\n")}\n\n`;
+    }
+  }
+
+  return context;
+}
+
+// One person eating the meal; no memberId means the user
+export interface Eater {
+  memberId?: Id<"householdMembers">;
+  name: string;
+  facts: Array<{ fact: string; category: string }>;
+}
+
+export interface MemberSafety {
+  memberId?: Id<"householdMembers">;
+  name: string;
+  safe: boolean;
+  allergens: string[];
+}
+
+/**
+ * Which eaters a recipe is safe for, using the same deterministic allergen
+ * check as the user's own dietary warnings.
+ */
+export function recipeSafetyFor(
+  recipeJson: string,
+  eaters: Eater[]
+): MemberSafety[] {
+  return eaters.map((eater) => {
+    const conflicts = findRecipeConflicts(recipeJson, eater.facts);
+    return {
+      memberId: eater.memberId,
+      name: eater.name,
+      safe: conflicts.length === 0,
+      allergens: [...new Set(conflicts.map((c) => c.allergen))],
+    };
+  });
+}
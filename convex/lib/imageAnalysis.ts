@@ -1,4 +1,5 @@
-import OpenAI from "openai";
+import { LLMProvider } from "./llm";
+import { DetectedPantryItem, parseDetectedItems } from "./pantry";
 
 const IMAGE_ANALYSIS_PROMPT = `You are analyzing a photo of food items or ingredients for a cooking assistant.
 
@@ -11,48 +12,54 @@ Format your response as a clear list, then suggest what could be made with these
 
 If you can't identify something clearly, describe it and ask for clarification (e.g., "I see a container with something red - is that marinara sauce or salsa?").
 
-If the image doesn't show food items, politely let the user know: "I don't see any food items in this photo. Could you share a picture of your ingredients?"`;
+If the image doesn't show food items, politely let the user know: "I don't see any food items in this photo. Could you share a picture of your ingredients?"
+
+At the very end, append every identified item in this exact format so the user can add them to their pantry:
+
+<!-- PANTRY_ITEMS
+[{"name": "red bell pepper", "quantity": "2", "unit": "", "condition": "fresh"},
+ {"name": "chicken breast", "quantity": "1", "unit": "lb", "condition": "frozen"}]
+PANTRY_ITEMS -->
+
+Use an empty string for a quantity or unit you can't estimate. Use an empty list if there are no food items.`;
 
 export interface IngredientAnalysis {
   rawAnalysis: string;
+  // Structured items for the pantry; empty when the model didn't list any
+  items: DetectedPantryItem[];
+}
+
+// Split the hidden PANTRY_ITEMS block from the readable analysis
+export function extractPantryItems(analysis: string): IngredientAnalysis {
+  const match = analysis.match(/<!-- PANTRY_ITEMS\s*([\s\S]*?)\s*PANTRY_ITEMS -->/);
+  if (!match) {
+    return { rawAnalysis: analysis.trim(), items: [] };
+  }
+
+  const rawAnalysis = analysis
+    .replace(/<!-- PANTRY_ITEMS[\s\S]*?PANTRY_ITEMS -->/g, "")
+    .trim();
+  try {
+    return { rawAnalysis, items: parseDetectedItems(JSON.parse(match[1])) };
+  } catch {
+    return { rawAnalysis, items: [] };
+  }
 }
 
 export async function analyzeIngredientImage(
-  client: OpenAI,
+  provider: LLMProvider,
   imageBase64: string,
   mimeType: string = "image/jpeg",
   userContext?: string
 ): Promise<IngredientAnalysis> {
-  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-    {
-      role: "user",
-      content: [
-        {
-          type: "image_url",
-          image_url: {
-            url: `data:${mimeType};base64,${imageBase64}`,
-            detail: "high",
-          },
-        },
-        {
-          type: "text",
-          text: userContext
-            ? `${IMAGE_ANALYSIS_PROMPT}\n\nUser's question: ${userContext}`
-            : IMAGE_ANALYSIS_PROMPT,
-        },
-      ],
-    },
-  ];
-
-  const response = await client.chat.completions.create({
-    model: "gpt-4o",
-    max_completion_tokens: 1024,
-    messages,
+  const analysis = await provider.describeImage({
+    imageBase64,
+    mimeType,
+    prompt: userContext
+      ? `${IMAGE_ANALYSIS_PROMPT}\n\nUser's question: ${userContext}`
+      : IMAGE_ANALYSIS_PROMPT,
+    maxTokens: 1536,
   });
 
-  const rawAnalysis = response.choices[0]?.message?.content || "";
-
-  return {
-    rawAnalysis,
-  };
+  return extractPantryItems(analysis);
 }
@@ -0,0 +1,108 @@
+import {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  JsonExtractionRequest,
+  LLMMessage,
+  LLMModels,
+  LLMProvider,
+  VisionRequest,
+} from "./types";
+
+// One scripted assistant turn. Tool call arguments may be given as an object
+// for readability; they are serialized the way a real model would send them.
+export interface ScriptedChatTurn {
+  content?: string;
+  toolCalls?: Array<{
+    name: string;
+    arguments: Record<string, unknown> | string;
+  }>;
+}
+
+export interface FakeProviderScript {
+  chat?: ScriptedChatTurn[];
+  vision?: string[];
+  json?: unknown[];
+}
+
+export type FakeProviderCall =
+  | { kind: "chat"; request: ChatCompletionRequest }
+  | { kind: "vision"; request: VisionRequest }
+  | { kind: "json"; request: JsonExtractionRequest };
+
+function lastUserMessage(messages: LLMMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === "user") return message.content;
+  }
+  return "";
+}
+
+// Split text into word-sized chunks so callers see a realistic stream
+function chunkText(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/**
+ * Deterministic offline provider. Responses are consumed from the script in
+ * order; once a list runs dry the provider falls back to a fixed reply, so it
+ * also works as a no-network development backend. Every request is recorded
+ * in `calls` for assertions.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly models: LLMModels = { chat: "fake", vision: "fake", extraction: "fake" };
+  readonly calls: FakeProviderCall[] = [];
+  private chatTurns: ScriptedChatTurn[];
+  private visionResponses: string[];
+  private jsonResponses: unknown[];
+  private toolCallCounter = 0;
+
+  constructor(script: FakeProviderScript = {}) {
+    this.chatTurns = [...(script.chat ?? [])];
+    this.visionResponses = [...(script.vision ?? [])];
+    this.jsonResponses = [...(script.json ?? [])];
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    this.calls.push({
+      kind: "chat",
+      request: { ...request, messages: [...request.messages] },
+    });
+
+    const turn = this.chatTurns.shift() ?? {
+      content: `You said: "${lastUserMessage(request.messages)}". This is a scripted reply from the offline assistant.`,
+    };
+    const content = turn.content ?? "";
+
+    if (request.onContent) {
+      for (const chunk of chunkText(content)) {
+        await request.onContent(chunk);
+      }
+    }
+
+    return {
+      content,
+      toolCalls: (turn.toolCalls ?? []).map((toolCall) => ({
+        id: `call_${++this.toolCallCounter}`,
+        name: toolCall.name,
+        arguments:
+          typeof toolCall.arguments === "string"
+            ? toolCall.arguments
+            : JSON.stringify(toolCall.arguments),
+      })),
+    };
+  }
+
+  async describeImage(request: VisionRequest): Promise<string> {
+    this.calls.push({ kind: "vision", request });
+    return (
+      this.visionResponses.shift() ??
+      "I can see a few fresh ingredients on the counter."
+    );
+  }
+
+  async extractJson(request: JsonExtractionRequest): Promise<unknown | null> {
+    this.calls.push({ kind: "json", request });
+    return this.jsonResponses.length > 0 ? this.jsonResponses.shift() : null;
+  }
+}
@@ -0,0 +1,87 @@
+import { createError } from "../errors";
+import { FakeLLMProvider, FakeProviderScript } from "./fake";
+import { OpenAIProvider } from "./openai";
+import { LLMProvider } from "./types";
+
+export * from "./types";
+export { FakeLLMProvider } from "./fake";
+export type { FakeProviderScript, ScriptedChatTurn } from "./fake";
+export { OpenAIProvider } from "./openai";
+
+// Test hook: when set, every caller gets this provider instead of the env-configured one
+let providerOverride: LLMProvider | null = null;
+
+export function setLLMProviderForTesting(provider: LLMProvider | null) {
+  providerOverride = provider;
+}
+
+function parseFakeScript(raw: string | undefined): FakeProviderScript {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as FakeProviderScript;
+  } catch {
+    throw createError("VALIDATION", "LLM_FAKE_SCRIPT is not valid JSON");
+  }
+}
+
+/**
+ * Provider selected by environment (set in the Convex dashboard):
+ *
+ *   LLM_PROVIDER          "openai" (default) | "openai-compatible" | "fake"
+ *   LLM_BASE_URL          required for "openai-compatible", e.g. http://localhost:11434/v1
+ *   LLM_API_KEY           key for "openai-compatible" servers that need one
+ *   LLM_CHAT_MODEL        chat/tool model (required for "openai-compatible")
+ *   LLM_VISION_MODEL      image analysis model (defaults to the chat model)
+ *   LLM_EXTRACTION_MODEL  JSON extraction model (defaults to the chat model)
+ *   LLM_FAKE_SCRIPT       optional JSON FakeProviderScript for "fake"
+ *   LLM_CONTEXT_WINDOW    context window in tokens, for models lib/tokenCount
+ *                         doesn't know (local models default to 8192)
+ *
+ * "openai" uses OPENAI_API_KEY and defaults to gpt-4o / gpt-4o-mini.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (providerOverride) return providerOverride;
+
+  const kind = process.env.LLM_PROVIDER ?? "openai";
+
+  switch (kind) {
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY!,
+        models: {
+          chat: process.env.LLM_CHAT_MODEL ?? "gpt-4o",
+          vision: process.env.LLM_VISION_MODEL ?? "gpt-4o",
+          extraction: process.env.LLM_EXTRACTION_MODEL ?? "gpt-4o-mini",
+        },
+      });
+
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      const chatModel = process.env.LLM_CHAT_MODEL;
+      if (!baseURL || !chatModel) {
+        throw createError(
+          "AI_UNAVAILABLE",
+          "LLM_BASE_URL and LLM_CHAT_MODEL must be set for the openai-compatible provider"
+        );
+      }
+      return new OpenAIProvider({
+        name: "openai-compatible",
+        // The SDK refuses an empty key; local servers ignore it
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        baseURL,
+        useLegacyMaxTokens: true,
+        models: {
+          chat: chatModel,
+          vision: process.env.LLM_VISION_MODEL ?? chatModel,
+          extraction: process.env.LLM_EXTRACTION_MODEL ?? chatModel,
+        },
+      });
+    }
+
+    case "fake":
+      return new FakeLLMProvider(parseFakeScript(process.env.LLM_FAKE_SCRIPT));
+
+    default:
+      throw createError("AI_UNAVAILABLE", `Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
@@ -0,0 +1,203 @@
+import OpenAI from "openai";
+import { AppError, createError } from "../errors";
+import {
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  JsonExtractionRequest,
+  LLMMessage,
+  LLMModels,
+  LLMProvider,
+  LLMToolCall,
+  LLMToolDefinition,
+  VisionRequest,
+  parseJsonResponse,
+} from "./types";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  models: LLMModels;
+  // Set for OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...)
+  baseURL?: string;
+  // Local servers only understand the legacy max_tokens field
+  useLegacyMaxTokens?: boolean;
+  name?: string;
+}
+
+function toOpenAIMessage(
+  message: LLMMessage
+): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        ...(message.toolCalls && message.toolCalls.length > 0
+          ? {
+              tool_calls: message.toolCalls.map((toolCall) => ({
+                id: toolCall.id,
+                type: "function" as const,
+                function: {
+                  name: toolCall.name,
+                  arguments: toolCall.arguments,
+                },
+              })),
+            }
+          : {}),
+      };
+    case "tool":
+      return {
+        role: "tool",
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+    default:
+      return message;
+  }
+}
+
+function toOpenAITool(tool: LLMToolDefinition): OpenAI.Chat.ChatCompletionTool {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  };
+}
+
+// Normalize SDK failures into retryable AppErrors
+function toProviderError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  console.error("LLM provider error:", error);
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return createError(
+      "AI_TIMEOUT",
+      "The assistant took too long to respond.",
+      true
+    );
+  }
+  return createError(
+    "AI_UNAVAILABLE",
+    "The assistant is temporarily unavailable.",
+    true
+  );
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(private options: OpenAIProviderOptions) {
+    this.name = options.name ?? "openai";
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  get models(): LLMModels {
+    return this.options.models;
+  }
+
+  private tokenLimit(maxTokens?: number) {
+    if (maxTokens === undefined) return {};
+    return this.options.useLegacyMaxTokens
+      ? { max_tokens: maxTokens }
+      : { max_completion_tokens: maxTokens };
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const params: OpenAI.Chat.ChatCompletionCreateParamsStreaming = {
+      model: this.options.models.chat,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: request.temperature,
+      ...this.tokenLimit(request.maxTokens),
+      stream: true,
+    };
+    if (request.tools && request.tools.length > 0) {
+      params.tools = request.tools.map(toOpenAITool);
+      params.tool_choice = "auto";
+    }
+
+    try {
+      const stream = await this.client.chat.completions.create(params);
+
+      let content = "";
+      const toolCalls: LLMToolCall[] = [];
+
+      // Tool calls arrive as fragments keyed by index; reassemble them
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          content += delta.content;
+          await request.onContent?.(delta.content);
+        }
+
+        for (const fragment of delta.tool_calls ?? []) {
+          const toolCall = (toolCalls[fragment.index] ??= {
+            id: "",
+            name: "",
+            arguments: "",
+          });
+          if (fragment.id) toolCall.id = fragment.id;
+          if (fragment.function?.name) toolCall.name += fragment.function.name;
+          if (fragment.function?.arguments) {
+            toolCall.arguments += fragment.function.arguments;
+          }
+        }
+      }
+
+      return { content, toolCalls: toolCalls.filter(Boolean) };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async describeImage(request: VisionRequest): Promise<string> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.options.models.vision,
+        ...this.tokenLimit(request.maxTokens),
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "image_url",
+                image_url: {
+                  url: `data:${request.mimeType};base64,${request.imageBase64}`,
+                  detail: "high",
+                },
+              },
+              { type: "text", text: request.prompt },
+            ],
+          },
+        ],
+      });
+
+      return response.choices[0]?.message?.content || "";
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async extractJson(request: JsonExtractionRequest): Promise<unknown | null> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.options.models.extraction,
+        ...this.tokenLimit(request.maxTokens),
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [{ role: "user", content: request.prompt }],
+      });
+
+      return parseJsonResponse(response.choices[0]?.message?.content || "");
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+// Provider-neutral types for the LLM layer. Messages and tool calls follow the
+// OpenAI chat shape closely, since every supported backend speaks it.
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // Raw JSON string exactly as produced by the model
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the tool arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatCompletionRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  maxTokens?: number;
+  temperature?: number;
+  // Called with each text delta as it arrives; providers that cannot stream
+  // call it once with the full text
+  onContent?: (delta: string) => Promise<void>;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+export interface VisionRequest {
+  imageBase64: string;
+  mimeType: string;
+  prompt: string;
+  maxTokens?: number;
+}
+
+export interface JsonExtractionRequest {
+  prompt: string;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Models in use, for sizing prompts to their context windows
+  readonly models: LLMModels;
+  // Chat completion with optional function calling
+  chat(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  // Describe an image in free text
+  describeImage(request: VisionRequest): Promise<string>;
+  // Run a prompt that asks for a JSON object; null when no JSON could be parsed
+  extractJson(request: JsonExtractionRequest): Promise<unknown | null>;
+}
+
+// Model names per capability
+export interface LLMModels {
+  chat: string;
+  vision: string;
+  extraction: string;
+}
+
+// Pull a JSON object out of model text, tolerating ```json fences and prose
+export function parseJsonResponse(text: string): unknown | null {
+  const jsonMatch =
+    text.match(/```json\s*([\s\S]*?)\s*```/) || text.match(/\{[\s\S]*\}/);
+
+  if (!jsonMatch) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(jsonMatch[1] || jsonMatch[0]);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  daysBetween,
+  isPlanDate,
+  startOfWeek,
+  toLocalPlanDate,
+  validatePlanRange,
+  weekdayName,
+} from "./mealPlanning";
+
+describe("mealPlanning", () => {
+  it("validates calendar dates", () => {
+    expect(isPlanDate("2025-03-06")).toBe(true);
+    expect(isPlanDate("2025-02-30")).toBe(false);
+    expect(isPlanDate("2025-3-6")).toBe(false);
+    expect(isPlanDate("thursday")).toBe(false);
+  });
+
+  it("does date arithmetic across month and year boundaries", () => {
+    expect(addDays("2025-02-27", 3)).toBe("2025-03-02");
+    expect(addDays("2025-01-01", -1)).toBe("2024-12-31");
+    expect(daysBetween("2025-03-01", "2025-03-31")).toBe(30);
+  });
+
+  it("starts weeks on Monday", () => {
+    expect(startOfWeek("2025-03-06")).toBe("2025-03-03"); // Thursday
+    expect(startOfWeek("2025-03-09")).toBe("2025-03-03"); // Sunday
+    expect(startOfWeek("2025-03-03")).toBe("2025-03-03");
+    expect(weekdayName("2025-03-06")).toBe("Thursday");
+  });
+
+  it("formats local dates", () => {
+    expect(toLocalPlanDate(new Date(2025, 0, 5, 23, 30))).toBe("2025-01-05");
+  });
+
+  it("rejects invalid ranges", () => {
+    expect(() => validatePlanRange("2025-03-03", "2025-03-09")).not.toThrow();
+    expect(() => validatePlanRange("2025-03-09", "2025-03-03")).toThrow(/VALIDATION_ERROR/);
+    expect(() => validatePlanRange("2025-03-01", "2025-04-01")).toThrow(/VALIDATION_ERROR/);
+    expect(() => validatePlanRange("bad", "2025-04-01")).toThrow(/VALIDATION_ERROR/);
+  });
+});
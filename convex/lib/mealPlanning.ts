@@ -0,0 +1,116 @@
+import type { QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+import type { DataScope } from "./auth";
+import { createError } from "./errors";
+
+// Meal plan dates are calendar days ("YYYY-MM-DD") in the user's local time,
+// so they never shift when viewed from a different timezone. All arithmetic
+// here works on those strings via UTC to avoid DST surprises.
+
+export const MEAL_SLOTS = ["breakfast", "lunch", "dinner", "snack"] as const;
+
+export type MealSlot = (typeof MEAL_SLOTS)[number];
+
+// Longest range a single query or shopping list may cover
+export const MAX_PLAN_RANGE_DAYS = 31;
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isPlanDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = parseDate(date);
+  return !isNaN(parsed.getTime()) && formatDate(parsed) === date;
+}
+
+export function addDays(date: string, days: number): string {
+  const parsed = parseDate(date);
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return formatDate(parsed);
+}
+
+// Number of days from start to end (end - start)
+export function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (parseDate(end).getTime() - parseDate(start).getTime()) / 86400000
+  );
+}
+
+// Monday of the week containing `date`
+export function startOfWeek(date: string): string {
+  const weekday = parseDate(date).getUTCDay();
+  return addDays(date, weekday === 0 ? -6 : 1 - weekday);
+}
+
+export function weekdayName(date: string): string {
+  return WEEKDAYS[parseDate(date).getUTCDay()];
+}
+
+// Calendar date of a Date object in the runtime's local timezone (client side)
+export function toLocalPlanDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function validatePlanRange(startDate: string, endDate: string) {
+  if (!isPlanDate(startDate) || !isPlanDate(endDate)) {
+    throw createError("VALIDATION", "Dates must be in YYYY-MM-DD format");
+  }
+  const span = daysBetween(startDate, endDate);
+  if (span < 0) {
+    throw createError("VALIDATION", "End date must not be before start date");
+  }
+  if (span >= MAX_PLAN_RANGE_DAYS) {
+    throw createError(
+      "VALIDATION",
+      `A meal plan range can cover at most ${MAX_PLAN_RANGE_DAYS} days`
+    );
+  }
+}
+
+// Entries in [startDate, endDate], in date then slot order; a shared
+// household plans together, so its entries come from the whole group
+export async function getPlanEntries(
+  ctx: QueryCtx,
+  scope: DataScope,
+  startDate: string,
+  endDate: string
+): Promise<Doc<"mealPlans">[]> {
+  const { userId, groupId } = scope;
+  const entries = groupId
+    ? await ctx.db
+        .query("mealPlans")
+        .withIndex("by_groupId_date", (q) =>
+          q.eq("groupId", groupId).gte("date", startDate).lte("date", endDate)
+        )
+        .collect()
+    : await ctx.db
+        .query("mealPlans")
+        .withIndex("by_userId_date", (q) =>
+          q.eq("userId", userId).gte("date", startDate).lte("date", endDate)
+        )
+        .collect();
+
+  return entries.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot) ||
+      a.createdAt - b.createdAt
+  );
+}
@@ -1,4 +1,5 @@
-import OpenAI from "openai";
+import { LLMProvider } from "./llm";
+import { factTokens } from "./memoryTombstones";
 
 // Enhanced extraction prompt with culinary-specific patterns
 const MEMORY_COMPACTION_PROMPT = `You are a memory extraction system for a culinary assistant. Analyze these chat histories and extract ONLY meaningful user dietary information worth remembering long-term.
@@ -28,13 +29,16 @@ const MEMORY_COMPACTION_PROMPT = `You are a memory extraction system for a culin
 - Deduplicate: If same fact appears multiple times, store once
 - ONLY extract HIGH-CONFIDENCE facts - clear, explicit statements
 - Look for phrases like: "I'm allergic to", "I can't eat", "I don't have a", "I always", "I never"
+- Temporary facts: if the user says it only lasts a while ("this month", "this week", "tonight"), add "expiresInDays" with the number of days it lasts (e.g. 30, 7, 0.5)
+- Facts that only matter for the current chat ("I'm cooking for my in-laws"): add "conversationOnly": true
 
 **Output Format (JSON only, no explanation):**
 \`\`\`json
 {
   "memories": [
     {"fact": "User is allergic to tree nuts", "category": "allergy", "confidence": "high"},
-    {"fact": "User is vegan", "category": "restriction", "confidence": "high"}
+    {"fact": "User is vegan", "category": "restriction", "confidence": "high"},
+    {"fact": "User is doing Whole30", "category": "restriction", "confidence": "high", "expiresInDays": 30}
   ]
 }
 \`\`\`
@@ -45,7 +49,10 @@ If no new facts to extract, return: {"memories": []}
 {chat_histories}
 
 **Existing memories (avoid duplicates):**
-{existing_memories}`;
+{existing_memories}
+
+**Facts the user asked to forget (NEVER extract these or restatements of them, even if the chat mentions them):**
+{suppressed_memories}`;
 
 interface Memory {
   fact: string;
@@ -57,16 +64,19 @@ interface Memory {
     | "goal"
     | "equipment";
   confidence: "high";
+  expiresInDays?: number;
+  conversationOnly?: boolean;
 }
 
-interface CompactionResult {
+export interface CompactionResult {
   memories: Memory[];
 }
 
 export async function compactMemories(
-  client: OpenAI,
+  provider: LLMProvider,
   chats: Array<{ role: "user" | "assistant"; content: string }>,
   existingMemories: string[],
+  suppressedFacts: string[] = [],
   batchSize: number = 30
 ): Promise<CompactionResult> {
   // Format chat history
@@ -80,39 +90,60 @@ export async function compactMemories(
       ? existingMemories.map((m) => `- ${m}`).join("\n")
       : "None yet";
 
-  const response = await client.chat.completions.create({
-    model: "gpt-4o-mini",
-    max_completion_tokens: 2048,
-    temperature: 0,
-    messages: [
-      {
-        role: "user",
-        content: MEMORY_COMPACTION_PROMPT.replace(
-          "{chat_histories}",
-          formatted
-        ).replace("{existing_memories}", existingFormatted),
-      },
-    ],
-  });
-
-  // Parse JSON from response
-  const text = response.choices[0]?.message?.content || "";
-  const jsonMatch =
-    text.match(/```json\s*([\s\S]*?)\s*```/) || text.match(/\{[\s\S]*\}/);
-
-  if (!jsonMatch) {
+  const suppressedFormatted =
+    suppressedFacts.length > 0
+      ? suppressedFacts.map((m) => `- ${m}`).join("\n")
+      : "None";
+
+  const parsed = (await provider.extractJson({
+    prompt: MEMORY_COMPACTION_PROMPT.replace("{chat_histories}", formatted)
+      .replace("{existing_memories}", existingFormatted)
+      .replace("{suppressed_memories}", suppressedFormatted),
+    maxTokens: 2048,
+  })) as CompactionResult | null;
+
+  if (!parsed || !Array.isArray(parsed.memories)) {
     return { memories: [] };
   }
 
-  try {
-    const jsonStr = jsonMatch[1] || jsonMatch[0];
-    const parsed = JSON.parse(jsonStr) as CompactionResult;
-
-    // Filter to only high-confidence memories
-    parsed.memories = parsed.memories.filter((m) => m.confidence === "high");
+  // Filter to only high-confidence memories
+  return {
+    memories: parsed.memories.filter((m) => m.confidence === "high"),
+  };
+}
 
-    return parsed;
-  } catch {
-    return { memories: [] };
+const EXCERPT_LENGTH = 200;
+
+/**
+ * Pick the user message a fact most likely came from (most shared content
+ * words), so reviewers can see why it was extracted. Null when no user
+ * message shares a word with the fact.
+ */
+export function findEvidence<M extends { role: "user" | "assistant"; content: string }>(
+  fact: string,
+  messages: M[]
+): { message: M; excerpt: string } | null {
+  const tokens = factTokens(fact).filter((t) => t !== "not");
+  let best: M | null = null;
+  let bestScore = 0;
+
+  for (const message of messages) {
+    if (message.role !== "user") continue;
+    const words = new Set(factTokens(message.content));
+    const score = tokens.filter((t) => words.has(t)).length;
+    if (score > bestScore) {
+      best = message;
+      bestScore = score;
+    }
   }
+
+  if (!best) return null;
+  const content = best.content.trim();
+  return {
+    message: best,
+    excerpt:
+      content.length > EXCERPT_LENGTH
+        ? `${content.slice(0, EXCERPT_LENGTH - 1)}…`
+        : content,
+  };
 }
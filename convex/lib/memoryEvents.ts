@@ -0,0 +1,64 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+export type MemoryActor = "user" | "chat_tool" | "compaction" | "system";
+
+// Who is changing memories, and why; shared by every event one operation writes
+export interface MemoryChange {
+  actor: MemoryActor;
+  groupId: string;
+  reason?: string;
+  conversationId?: Id<"conversations">;
+  undoesGroupId?: string;
+}
+
+export function newMemoryChange(
+  actor: MemoryActor,
+  details: Omit<MemoryChange, "actor" | "groupId"> = {}
+): MemoryChange {
+  return { actor, groupId: crypto.randomUUID(), ...details };
+}
+
+export type MemorySnapshot = Pick<
+  Doc<"userMemories">,
+  "fact" | "category" | "status" | "expiresAt" | "scopeConversationId" | "sourceConversationId"
+>;
+
+export function snapshotOf(memory: MemorySnapshot): MemorySnapshot {
+  return {
+    fact: memory.fact,
+    category: memory.category,
+    status: memory.status,
+    expiresAt: memory.expiresAt,
+    scopeConversationId: memory.scopeConversationId,
+    sourceConversationId: memory.sourceConversationId,
+  };
+}
+
+export async function recordMemoryEvent(
+  ctx: MutationCtx,
+  event: {
+    userId: Id<"users">;
+    memoryId: Id<"userMemories">;
+    action: "added" | "updated" | "deleted";
+    before?: MemorySnapshot;
+    after?: MemorySnapshot;
+    // Overrides the change's reason for this one event
+    reason?: string;
+  },
+  change: MemoryChange
+) {
+  await ctx.db.insert("memoryEvents", {
+    userId: event.userId,
+    memoryId: event.memoryId,
+    groupId: change.groupId,
+    action: event.action,
+    actor: change.actor,
+    reason: event.reason ?? change.reason,
+    before: event.before ? snapshotOf(event.before) : undefined,
+    after: event.after ? snapshotOf(event.after) : undefined,
+    sourceConversationId: change.conversationId,
+    undoesGroupId: change.undoesGroupId,
+    createdAt: Date.now(),
+  });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { Id } from "../_generated/dataModel";
+import { appliesTo, expiryFromDays, isExpired, MAX_EXPIRY_DAYS } from "./memoryLifetime";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+describe("expiryFromDays", () => {
+  it("supports fractional days", () => {
+    expect(expiryFromDays(0.5, NOW)).toBe(NOW + DAY_MS / 2);
+  });
+
+  it("caps long durations", () => {
+    expect(expiryFromDays(10_000, NOW)).toBe(NOW + MAX_EXPIRY_DAYS * DAY_MS);
+  });
+
+  it("ignores missing or invalid durations", () => {
+    expect(expiryFromDays(undefined, NOW)).toBeUndefined();
+    expect(expiryFromDays(0, NOW)).toBeUndefined();
+    expect(expiryFromDays(Number.NaN, NOW)).toBeUndefined();
+  });
+});
+
+describe("appliesTo", () => {
+  const chat = "chat1" as Id<"conversations">;
+  const otherChat = "chat2" as Id<"conversations">;
+
+  it("drops expired memories", () => {
+    expect(isExpired({ expiresAt: NOW }, NOW)).toBe(true);
+    expect(appliesTo({ expiresAt: NOW + 1 }, undefined, NOW)).toBe(true);
+    expect(appliesTo({ expiresAt: NOW - 1 }, chat, NOW)).toBe(false);
+  });
+
+  it("limits scoped memories to their conversation", () => {
+    expect(appliesTo({ scopeConversationId: chat }, chat, NOW)).toBe(true);
+    expect(appliesTo({ scopeConversationId: chat }, otherChat, NOW)).toBe(false);
+    expect(appliesTo({ scopeConversationId: chat }, undefined, NOW)).toBe(false);
+    expect(appliesTo({}, otherChat, NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+// Temporary and conversation-scoped memories ("I'm doing Whole30 this month",
+// "I'm cooking for my in-laws tonight").
+
+import { Id } from "../_generated/dataModel";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anything meant to last longer than this should just be a permanent memory
+export const MAX_EXPIRY_DAYS = 365;
+
+/**
+ * Expiry timestamp for a memory that should last `days` (fractions allowed,
+ * e.g. 0.5 for "tonight"). Undefined for missing or non-positive input.
+ */
+export function expiryFromDays(
+  days: number | undefined,
+  now: number
+): number | undefined {
+  if (typeof days !== "number" || !Number.isFinite(days) || days <= 0) {
+    return undefined;
+  }
+  return now + Math.min(days, MAX_EXPIRY_DAYS) * DAY_MS;
+}
+
+interface MemoryLifetime {
+  expiresAt?: number;
+  scopeConversationId?: Id<"conversations">;
+}
+
+export function isExpired(memory: MemoryLifetime, now: number): boolean {
+  return memory.expiresAt !== undefined && memory.expiresAt <= now;
+}
+
+/**
+ * Whether a memory applies to a chat: unexpired, and either global or scoped
+ * to that conversation. Without a conversation only global memories apply.
+ */
+export function appliesTo(
+  memory: MemoryLifetime,
+  conversationId: Id<"conversations"> | undefined,
+  now: number
+): boolean {
+  if (isExpired(memory, now)) return false;
+  return (
+    memory.scopeConversationId === undefined ||
+    memory.scopeConversationId === conversationId
+  );
+}
+
+// Temporary facts sit on top of permanent ones instead of replacing them
+export function isTemporary(memory: MemoryLifetime): boolean {
+  return (
+    memory.expiresAt !== undefined || memory.scopeConversationId !== undefined
+  );
+}
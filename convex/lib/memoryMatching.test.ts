@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { Id } from "../_generated/dataModel";
+import {
+  CONFIRMATION_TTL_MS,
+  isConfirmedByUser,
+  matchMemories,
+  PendingMemoryConfirmation,
+} from "./memoryMatching";
+
+const memories = [
+  { fact: "User is allergic to peanuts" },
+  { fact: "User loves peanut butter cookies" },
+  { fact: "User has a wok" },
+];
+
+describe("matchMemories", () => {
+  it("prefers facts containing the term verbatim", () => {
+    expect(matchMemories(memories, "Peanut").map((m) => m.fact)).toEqual([
+      "User is allergic to peanuts",
+      "User loves peanut butter cookies",
+    ]);
+  });
+
+  it("falls back to content words in any order", () => {
+    expect(matchMemories(memories, "peanut allergy").map((m) => m.fact)).toEqual([
+      "User is allergic to peanuts",
+    ]);
+  });
+
+  it("never matches on filler alone", () => {
+    expect(matchMemories(memories, "user")).toEqual([]);
+    expect(matchMemories(memories, "  ")).toEqual([]);
+  });
+});
+
+describe("isConfirmedByUser", () => {
+  const memoryId = "memory1" as Id<"userMemories">;
+  const askedIn = "message1" as Id<"messages">;
+  const nextMessage = "message2" as Id<"messages">;
+  const pending: PendingMemoryConfirmation = {
+    action: "remove",
+    memoryIds: [memoryId],
+    requestedByMessageId: askedIn,
+    requestedAt: 1_000,
+  };
+
+  it("accepts an answer from a later message", () => {
+    expect(isConfirmedByUser(pending, "remove", memoryId, nextMessage, 2_000)).toBe(true);
+  });
+
+  it("rejects a confirmation in the message that raised the question", () => {
+    expect(isConfirmedByUser(pending, "remove", memoryId, askedIn, 2_000)).toBe(false);
+  });
+
+  it("rejects other memories, other actions and stale questions", () => {
+    const other = "memory2" as Id<"userMemories">;
+    expect(isConfirmedByUser(pending, "remove", other, nextMessage, 2_000)).toBe(false);
+    expect(isConfirmedByUser(pending, "update", memoryId, nextMessage, 2_000)).toBe(false);
+    expect(
+      isConfirmedByUser(pending, "remove", memoryId, nextMessage, 1_000 + CONFIRMATION_TTL_MS)
+    ).toBe(false);
+    expect(isConfirmedByUser(undefined, "remove", memoryId, nextMessage, 2_000)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+// Resolving the chat tools' free-text references ("forget the nut thing") to
+// specific memories, and the confirmation step destructive changes go through.
+//
+// A tool call that matches several memories returns them as candidates
+// instead of acting; the model asks the user which one and calls again with
+// its ID. Removing an allergy always needs the user's explicit "yes" first.
+
+import { Id } from "../_generated/dataModel";
+import { factTokens } from "./memoryTombstones";
+
+/**
+ * Memories a search term refers to: facts containing the term verbatim, or
+ * failing that, facts containing all of its content words ("peanut allergy"
+ * finds "User is allergic to peanuts"). Filler like "user" never matches.
+ */
+export function matchMemories<M extends { fact: string }>(
+  memories: M[],
+  searchTerm: string
+): M[] {
+  const term = searchTerm.trim().toLowerCase();
+  const searchTokens = factTokens(term).filter((token) => token !== "not");
+  if (!term || searchTokens.length === 0) return [];
+
+  const verbatim = memories.filter((m) => m.fact.toLowerCase().includes(term));
+  if (verbatim.length > 0) return verbatim;
+
+  return memories.filter((m) => {
+    const tokens = new Set(factTokens(m.fact));
+    return searchTokens.every((token) => tokens.has(token));
+  });
+}
+
+export type MemoryToolAction = "remove" | "update";
+
+// What the assistant asked the user to confirm, stored on the conversation
+export interface PendingMemoryConfirmation {
+  action: MemoryToolAction;
+  memoryIds: Id<"userMemories">[];
+  requestedByMessageId: Id<"messages">;
+  requestedAt: number;
+}
+
+// Unanswered questions stop counting once the chat has moved on
+export const CONFIRMATION_TTL_MS = 30 * 60 * 1000;
+
+export function isPendingConfirmationLive(
+  pending: PendingMemoryConfirmation | undefined,
+  now: number
+): pending is PendingMemoryConfirmation {
+  return pending !== undefined && now - pending.requestedAt < CONFIRMATION_TTL_MS;
+}
+
+/**
+ * Whether `memoryId` was offered to the user for this action on an earlier
+ * turn. The answer has to come in a later user message, so the model can't
+ * ask and confirm in the same breath.
+ */
+export function isConfirmedByUser(
+  pending: PendingMemoryConfirmation | undefined,
+  action: MemoryToolAction,
+  memoryId: Id<"userMemories">,
+  currentMessageId: Id<"messages"> | undefined,
+  now: number
+): boolean {
+  if (!isPendingConfirmationLive(pending, now)) return false;
+  return (
+    pending.action === action &&
+    pending.memoryIds.includes(memoryId) &&
+    currentMessageId !== undefined &&
+    pending.requestedByMessageId !== currentMessageId
+  );
+}
@@ -21,15 +21,15 @@ const INJECTION_PATTERNS = [
 const STRUCTURAL_CHARS = /[<>{}[\]`\\]/g;
 const MAX_FACT_LENGTH = 200;
 
-export function sanitizeMemoryFact(
-  fact: string,
-  _category: string
-): {
+interface SanitizeResult {
   sanitized: string;
   wasModified: boolean;
   rejectionReason?: string;
-} {
-  let sanitized = fact.trim();
+}
+
+// Strip prompt structure from free text that ends up in the system prompt
+export function sanitizeProfileText(text: string): SanitizeResult {
+  let sanitized = text.trim();
   let wasModified = false;
 
   // Length check
@@ -61,13 +61,21 @@ export function sanitizeMemoryFact(
   sanitized = sanitized.replace(/\s+/g, " ").trim();
   if (sanitized !== beforeWhitespace) wasModified = true;
 
+  return { sanitized, wasModified };
+}
+
+export function sanitizeMemoryFact(
+  fact: string,
+  _category: string
+): SanitizeResult {
+  const result = sanitizeProfileText(fact);
+  if (result.rejectionReason) return result;
+
   // Ensure "User" prefix
-  if (!sanitized.toLowerCase().startsWith("user ")) {
-    sanitized = `User ${sanitized}`;
-    wasModified = true;
+  if (!result.sanitized.toLowerCase().startsWith("user ")) {
+    return { sanitized: `User ${result.sanitized}`, wasModified: true };
   }
-
-  return { sanitized, wasModified };
+  return result;
 }
 
 export function escapeForPrompt(fact: string): string {
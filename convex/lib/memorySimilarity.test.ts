@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { compareFacts, findContradiction, reconcileFact } from "./memorySimilarity";
+
+describe("compareFacts", () => {
+  it("treats rephrasings as the same fact", () => {
+    expect(compareFacts("User follows a vegan diet", "User is vegan")).toBe("same");
+    expect(compareFacts("User hates olives", "User doesn't like olives")).toBe("same");
+  });
+
+  it("distinguishes narrower and more detailed facts", () => {
+    expect(compareFacts("User is vegan", "User is vegan and gluten-free")).toBe("covered");
+    expect(compareFacts("User has a carbon steel wok", "User has a wok")).toBe("extends");
+  });
+
+  it("never equates a fact with its negation", () => {
+    expect(compareFacts("User has an oven", "User doesn't have an oven")).toBe("different");
+  });
+});
+
+describe("findContradiction", () => {
+  it("detects reversals", () => {
+    expect(
+      findContradiction(
+        { fact: "User doesn't have an oven", category: "equipment" },
+        { fact: "User has an oven", category: "equipment" }
+      )?.kind
+    ).toBe("reversal");
+  });
+
+  it("detects foods a diet rules out, in either order", () => {
+    const vegan = { fact: "User is vegan", category: "restriction" as const };
+    const steak = { fact: "User loves steak", category: "preference" as const };
+    expect(findContradiction(steak, vegan)?.kind).toBe("diet");
+    expect(findContradiction(vegan, steak)?.kind).toBe("diet");
+  });
+
+  it("detects liking a food the user is allergic to", () => {
+    expect(
+      findContradiction(
+        { fact: "User loves peanut butter", category: "preference" },
+        { fact: "User is allergic to peanuts", category: "allergy" }
+      )?.kind
+    ).toBe("allergen");
+  });
+
+  it("ignores unrelated facts", () => {
+    expect(
+      findContradiction(
+        { fact: "User loves tofu", category: "preference" },
+        { fact: "User is vegan", category: "restriction" }
+      )
+    ).toBeNull();
+  });
+});
+
+describe("reconcileFact", () => {
+  const existing = [
+    { fact: "User likes cilantro", category: "preference" as const },
+    { fact: "User has a wok", category: "equipment" as const },
+    { fact: "User is allergic to shellfish", category: "allergy" as const },
+  ];
+
+  it("reports restatements as duplicates", () => {
+    expect(reconcileFact("User loves cilantro", "preference", existing).duplicate).toBe(
+      existing[0]
+    );
+  });
+
+  it("supersedes reversed preferences and merges more detailed facts", () => {
+    expect(reconcileFact("User hates cilantro", "preference", existing).supersedes).toEqual([
+      existing[0],
+    ]);
+    expect(reconcileFact("User has a large wok", "equipment", existing).merges).toEqual([
+      existing[1],
+    ]);
+  });
+
+  it("never supersedes safety facts automatically", () => {
+    const plan = reconcileFact("User isn't allergic to shellfish", "allergy", existing);
+    expect(plan.supersedes).toEqual([]);
+    expect(plan.conflicts.map((c) => c.memory)).toEqual([existing[2]]);
+  });
+});
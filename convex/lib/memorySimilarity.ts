@@ -0,0 +1,222 @@
+// Lexical near-duplicate and contradiction detection for memory facts.
+//
+// Facts are compared as sets of content words (see factTokens), with filler
+// words dropped and sentiment verbs folded together, so "User is vegan" and
+// "User follows a vegan diet" compare equal and "User hates cilantro" reads as
+// the reversal of "User loves cilantro".
+
+import { factTokens } from "./memoryTombstones";
+
+export type MemoryCategory =
+  | "allergy"
+  | "intolerance"
+  | "restriction"
+  | "preference"
+  | "goal"
+  | "equipment";
+
+export interface MemoryLike {
+  fact: string;
+  category: MemoryCategory;
+}
+
+// Categories where a wrong fact can hurt: never changed without the user
+export const SAFETY_CATEGORIES: ReadonlySet<MemoryCategory> = new Set([
+  "allergy",
+  "intolerance",
+  "restriction",
+]);
+
+const FILLER = new Set([
+  "follow", "diet", "eat", "food", "strict", "strictly", "currently", "now",
+  "generally", "usually", "also", "always", "lot", "much", "own",
+]);
+const LIKES = new Set(["like", "love", "enjoy", "fan", "favorite", "favourite"]);
+const DISLIKES = new Set(["dislike", "hate", "detest"]);
+
+export function memoryTokens(fact: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const token of factTokens(fact)) {
+    if (FILLER.has(token)) continue;
+    if (LIKES.has(token)) {
+      tokens.add("like");
+    } else if (DISLIKES.has(token)) {
+      tokens.add("like");
+      tokens.add("not");
+    } else {
+      tokens.add(token);
+    }
+  }
+  return tokens;
+}
+
+const isSubset = (a: Set<string>, b: Set<string>) =>
+  [...a].every((token) => b.has(token));
+
+/**
+ * How a new fact relates to an existing one in the same category:
+ * "same" (restatement), "covered" (the existing fact already says more),
+ * "extends" (the new fact adds detail) or "different".
+ */
+export function compareFacts(
+  newFact: string,
+  existingFact: string
+): "same" | "covered" | "extends" | "different" {
+  const a = memoryTokens(newFact);
+  const b = memoryTokens(existingFact);
+  if (a.size === 0 || b.size === 0) return "different";
+  if (a.has("not") !== b.has("not")) return "different";
+
+  const aInB = isSubset(a, b);
+  const bInA = isSubset(b, a);
+  if (aInB && bInA) return "same";
+  if (aInB) return "covered";
+  if (bInA) return "extends";
+  return "different";
+}
+
+// Foods each diet rules out (token forms, after stemming)
+const MEAT = [
+  "meat", "steak", "beef", "pork", "bacon", "ham", "chicken", "turkey", "lamb",
+  "sausage", "veal", "duck", "burger", "prosciutto", "salami",
+];
+const SEAFOOD = [
+  "fish", "salmon", "tuna", "shrimp", "prawn", "shellfish", "seafood", "cod",
+  "crab", "lobster", "anchovy", "sushi",
+];
+const ANIMAL_PRODUCTS = [
+  "cheese", "milk", "butter", "cream", "yogurt", "egg", "honey", "dairy",
+];
+const DIET_EXCLUSIONS: Record<string, string[]> = {
+  vegan: [...MEAT, ...SEAFOOD, ...ANIMAL_PRODUCTS],
+  vegetarian: [...MEAT, ...SEAFOOD],
+  pescatarian: MEAT,
+  halal: ["pork", "bacon", "ham", "prosciutto"],
+  kosher: ["pork", "bacon", "ham", "prosciutto", "shellfish", "shrimp", "lobster", "crab"],
+};
+
+// Words in an allergy/intolerance fact that aren't the food itself
+const NON_FOOD = new Set([
+  "allerg", "intoleran", "severe", "mild", "sensitive", "sensitivity",
+  "reaction", "like",
+]);
+
+function dietConflict(restriction: MemoryLike, other: MemoryLike): string | null {
+  if (restriction.category !== "restriction") return null;
+  if (other.category !== "preference" && other.category !== "goal") return null;
+
+  const r = memoryTokens(restriction.fact);
+  const o = memoryTokens(other.fact);
+  if (r.has("not") || o.has("not")) return null;
+
+  for (const [diet, excluded] of Object.entries(DIET_EXCLUSIONS)) {
+    if (!r.has(diet)) continue;
+    const food = excluded.find((item) => o.has(item));
+    if (food) {
+      return `"${other.fact}" includes ${food}, which doesn't fit "${restriction.fact}"`;
+    }
+  }
+  return null;
+}
+
+function allergenConflict(allergy: MemoryLike, other: MemoryLike): string | null {
+  if (allergy.category !== "allergy" && allergy.category !== "intolerance") return null;
+  if (other.category !== "preference" && other.category !== "goal") return null;
+
+  const a = memoryTokens(allergy.fact);
+  const o = memoryTokens(other.fact);
+  if (a.has("not") || o.has("not")) return null;
+
+  const food = [...a].find((token) => !NON_FOOD.has(token) && o.has(token));
+  return food
+    ? `"${other.fact}" mentions ${food}, which conflicts with "${allergy.fact}"`
+    : null;
+}
+
+/**
+ * Why two facts can't both be true, or null. "reversal" means one negates
+ * the other ("User has an oven" / "User doesn't have an oven").
+ */
+export function findContradiction(
+  newMemory: MemoryLike,
+  existing: MemoryLike
+): { kind: "reversal" | "diet" | "allergen"; reason: string } | null {
+  const a = memoryTokens(newMemory.fact);
+  const b = memoryTokens(existing.fact);
+  if (a.has("not") !== b.has("not")) {
+    const strip = (s: Set<string>) => [...s].filter((t) => t !== "not").sort().join(" ");
+    if (strip(a) && strip(a) === strip(b)) {
+      return {
+        kind: "reversal",
+        reason: `"${newMemory.fact}" reverses "${existing.fact}"`,
+      };
+    }
+  }
+
+  const diet = dietConflict(newMemory, existing) ?? dietConflict(existing, newMemory);
+  if (diet) return { kind: "diet", reason: diet };
+
+  const allergen =
+    allergenConflict(newMemory, existing) ?? allergenConflict(existing, newMemory);
+  if (allergen) return { kind: "allergen", reason: allergen };
+
+  return null;
+}
+
+export interface ReconcilePlan<M> {
+  // An existing fact that already says this; nothing new to store
+  duplicate: M | null;
+  // Existing facts the new one restates with more detail (replace them)
+  merges: M[];
+  // Older facts the new one reverses; safe to replace automatically
+  supersedes: M[];
+  // Contradictions the user has to settle
+  conflicts: Array<{ memory: M; reason: string }>;
+}
+
+/**
+ * Decide how a new fact fits with the user's existing memories. Reversals
+ * only supersede automatically outside the safety categories; everything
+ * else contradictory is surfaced as a conflict.
+ */
+export function reconcileFact<M extends MemoryLike>(
+  fact: string,
+  category: MemoryCategory,
+  existing: M[]
+): ReconcilePlan<M> {
+  const plan: ReconcilePlan<M> = {
+    duplicate: null,
+    merges: [],
+    supersedes: [],
+    conflicts: [],
+  };
+  const candidate = { fact, category };
+
+  for (const memory of existing) {
+    if (memory.category === category) {
+      const relation = compareFacts(fact, memory.fact);
+      if (relation === "same" || relation === "covered") {
+        return { duplicate: memory, merges: [], supersedes: [], conflicts: [] };
+      }
+      if (relation === "extends") {
+        plan.merges.push(memory);
+        continue;
+      }
+    }
+
+    const contradiction = findContradiction(candidate, memory);
+    if (!contradiction) continue;
+
+    if (
+      contradiction.kind === "reversal" &&
+      !SAFETY_CATEGORIES.has(category) &&
+      !SAFETY_CATEGORIES.has(memory.category)
+    ) {
+      plan.supersedes.push(memory);
+    } else {
+      plan.conflicts.push({ memory, reason: contradiction.reason });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  factSignature,
+  isSuppressed,
+  matchesTombstone,
+} from "./memoryTombstones";
+
+describe("factSignature", () => {
+  it("reduces different phrasings of a fact to the same signature", () => {
+    expect(factSignature("User has a peanut allergy")).toBe("allerg peanut");
+    expect(factSignature("User is allergic to peanuts")).toBe("allerg peanut");
+  });
+
+  it("keeps negation as its own token", () => {
+    expect(factSignature("User doesn't eat pork")).toBe("eat not pork");
+  });
+});
+
+describe("matchesTombstone", () => {
+  const peanut = factSignature("User is allergic to peanuts");
+
+  it("matches restatements with a few extra words", () => {
+    expect(matchesTombstone("User has a severe peanut allergy", peanut)).toBe(true);
+  });
+
+  it("does not match when negation differs", () => {
+    const eatsPork = factSignature("User eats pork");
+    expect(matchesTombstone("User never eats pork", eatsPork)).toBe(false);
+  });
+
+  it("does not match a different or much longer fact", () => {
+    expect(matchesTombstone("User is allergic to tree nuts", peanut)).toBe(false);
+    expect(
+      matchesTombstone(
+        "User's peanut allergy was outgrown after oral immunotherapy treatment",
+        peanut
+      )
+    ).toBe(false);
+  });
+
+  it("never matches an empty signature", () => {
+    expect(matchesTombstone("User is vegan", "")).toBe(false);
+  });
+});
+
+describe("isSuppressed", () => {
+  it("checks the fact against every tombstone", () => {
+    const tombstones = [
+      { signature: factSignature("User likes cilantro") },
+      { signature: factSignature("User is vegan") },
+    ];
+    expect(isSuppressed("User is a vegan", tombstones)).toBe(true);
+    expect(isSuppressed("User likes basil", tombstones)).toBe(false);
+  });
+});
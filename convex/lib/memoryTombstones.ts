@@ -0,0 +1,76 @@
+// Memory tombstones: facts the user deleted or replaced, kept so compaction
+// doesn't extract them again from the same conversation history.
+//
+// Matching is deterministic and phrasing-tolerant: facts are reduced to a set
+// of content words ("User has a peanut allergy" and "User is allergic to
+// peanuts" both become {allerg, peanut}), with negation kept as its own token.
+
+const STOPWORDS = new Set([
+  "user", "users", "i", "im", "am", "is", "are", "was", "be", "been", "has",
+  "have", "had", "a", "an", "the", "to", "of", "and", "or", "with", "for",
+  "in", "on", "at", "their", "they", "theyre", "my", "me", "very", "really",
+  "that", "this", "it", "its", "s",
+]);
+
+const NEGATIONS = new Set([
+  "not", "no", "never", "doesnt", "dont", "isnt", "cant", "cannot", "wont",
+  "without",
+]);
+
+// Word endings folded together so "allergic"/"allergy" and "likes"/"like" match
+function stem(word: string): string {
+  if (/^allerg/.test(word)) return "allerg";
+  if (/^intoleran/.test(word)) return "intoleran";
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && /(?:ches|shes|xes|oes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+export function factTokens(fact: string): string[] {
+  const tokens = new Set<string>();
+  const words = fact
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  for (const word of words) {
+    if (NEGATIONS.has(word)) tokens.add("not");
+    else if (!STOPWORDS.has(word)) tokens.add(stem(word));
+  }
+  return [...tokens].sort();
+}
+
+// Canonical key stored on the tombstone to dedupe equivalent phrasings
+export function factSignature(fact: string): string {
+  return factTokens(fact).join(" ");
+}
+
+// Extra words a candidate may carry and still count as the suppressed fact
+// ("severe peanut allergy" vs "peanut allergy")
+const MAX_EXTRA_TOKENS = 2;
+
+/**
+ * True when `fact` restates a tombstoned fact: it contains every content word
+ * of the tombstone, agrees on negation, and adds little else.
+ */
+export function matchesTombstone(fact: string, tombstoneSignature: string): boolean {
+  const suppressed = tombstoneSignature.split(" ").filter(Boolean);
+  if (suppressed.length === 0) return false;
+
+  const candidate = new Set(factTokens(fact));
+  if (candidate.has("not") !== suppressed.includes("not")) return false;
+
+  return (
+    suppressed.every((token) => candidate.has(token)) &&
+    candidate.size - suppressed.length <= MAX_EXTRA_TOKENS
+  );
+}
+
+export function isSuppressed(
+  fact: string,
+  tombstones: Array<{ signature: string }>
+): boolean {
+  return tombstones.some((tombstone) => matchesTombstone(fact, tombstone.signature));
+}
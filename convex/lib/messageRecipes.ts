@@ -0,0 +1,34 @@
+import { Infer } from "convex/values";
+import { Doc } from "../_generated/dataModel";
+import { messageRecipe } from "../schema";
+
+export type MessageRecipe = Infer<typeof messageRecipe>;
+
+/**
+ * A message's recipe cards, in order. Messages that
+ * migrations.moveMessageRecipes hasn't reached yet still keep their one
+ * recipe in the legacy top-level fields, so read those when `recipes` is empty.
+ */
+export function recipesOf(message: Doc<"messages">): MessageRecipe[] {
+  if (message.recipes && message.recipes.length > 0) return message.recipes;
+  if (!message.recipeJson) return [];
+  return [
+    {
+      recipeJson: message.recipeJson,
+      linkedRecipeId: message.linkedRecipeId,
+      dietaryWarnings: message.dietaryWarnings,
+      memberSafety: message.memberSafety,
+    },
+  ];
+}
+
+// Patch storing a message's cards, clearing the legacy fields they replace
+export function recipesPatch(recipes: MessageRecipe[]) {
+  return {
+    recipes,
+    recipeJson: undefined,
+    linkedRecipeId: undefined,
+    dietaryWarnings: undefined,
+    memberSafety: undefined,
+  };
+}
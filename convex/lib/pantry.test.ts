@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { extractPantryItems } from "./imageAnalysis";
+import {
+  combinePantryQuantities,
+  estimateExpiry,
+  parseDetectedItems,
+} from "./pantry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 2, 3);
+
+describe("parseDetectedItems", () => {
+  it("keeps valid items and fills in missing fields", () => {
+    expect(
+      parseDetectedItems([
+        { name: "eggs", quantity: 6, unit: null, condition: "fresh" },
+        { name: "spinach" },
+        { quantity: "2" },
+        "tomato",
+      ])
+    ).toEqual([
+      { name: "eggs", quantity: "6", unit: "", condition: "fresh" },
+      { name: "spinach", quantity: "", unit: "", condition: "" },
+    ]);
+  });
+
+  it("accepts an { items } wrapper", () => {
+    expect(parseDetectedItems({ items: [{ name: "milk" }] })).toHaveLength(1);
+    expect(parseDetectedItems("nothing")).toEqual([]);
+  });
+});
+
+describe("extractPantryItems", () => {
+  it("splits the hidden item block from the readable analysis", () => {
+    const analysis = `I can see eggs and spinach.
+<!-- PANTRY_ITEMS
+[{"name": "eggs", "quantity": "6", "unit": "", "condition": "fresh"}]
+PANTRY_ITEMS -->`;
+    expect(extractPantryItems(analysis)).toEqual({
+      rawAnalysis: "I can see eggs and spinach.",
+      items: [{ name: "eggs", quantity: "6", unit: "", condition: "fresh" }],
+    });
+  });
+
+  it("returns no items when the block is missing or malformed", () => {
+    expect(extractPantryItems("Just a description").items).toEqual([]);
+    const broken = extractPantryItems("Eggs\n<!-- PANTRY_ITEMS [{ PANTRY_ITEMS -->");
+    expect(broken).toEqual({ rawAnalysis: "Eggs", items: [] });
+  });
+});
+
+describe("estimateExpiry", () => {
+  it("uses per-ingredient shelf life", () => {
+    expect(estimateExpiry("Chicken breast", "fresh", NOW)).toBe(NOW + 3 * DAY_MS);
+    expect(estimateExpiry("ground beef", "", NOW)).toBe(NOW + 2 * DAY_MS);
+    expect(estimateExpiry("Basmati rice", "", NOW)).toBe(NOW + 365 * DAY_MS);
+    expect(estimateExpiry("mystery jar", "", NOW)).toBeUndefined();
+  });
+
+  it("adjusts for condition", () => {
+    expect(estimateExpiry("chicken breast", "frozen", NOW)).toBe(NOW + 90 * DAY_MS);
+    expect(estimateExpiry("curry", "leftover", NOW)).toBe(NOW + 4 * DAY_MS);
+    expect(estimateExpiry("spinach", "wilting", NOW)).toBe(NOW + 2 * DAY_MS);
+  });
+});
+
+describe("combinePantryQuantities", () => {
+  it("adds plain quantities in the same unit", () => {
+    expect(
+      combinePantryQuantities({ quantity: "2", unit: "" }, { quantity: "6", unit: "" })
+    ).toBe("8");
+    expect(
+      combinePantryQuantities({ quantity: "1/2", unit: "cup" }, { quantity: "1", unit: "Cup" })
+    ).toBe("1 1/2");
+  });
+
+  it("refuses mismatched units and unparseable amounts", () => {
+    expect(
+      combinePantryQuantities({ quantity: "1", unit: "lb" }, { quantity: "200", unit: "g" })
+    ).toBeNull();
+    expect(
+      combinePantryQuantities({ quantity: "a few", unit: "" }, { quantity: "2", unit: "" })
+    ).toBeNull();
+    expect(
+      combinePantryQuantities({ quantity: "2-3", unit: "" }, { quantity: "2", unit: "" })
+    ).toBeNull();
+  });
+});
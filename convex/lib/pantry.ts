@@ -0,0 +1,102 @@
+// Pantry inventory helpers: validate items detected in photos, estimate when
+// they expire and merge repeat additions of the same ingredient.
+import { z } from "zod";
+import { formatQuantity, parseQuantity } from "./recipeScaling";
+
+export const MAX_PANTRY_ITEMS = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Models send null or numbers for fields they can't or don't quote
+const optionalText = (max: number) =>
+  z.preprocess(
+    (value) => (value == null ? "" : typeof value === "number" ? String(value) : value),
+    z.string().trim().max(max)
+  );
+
+export const DetectedPantryItemSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  quantity: optionalText(50),
+  unit: optionalText(30),
+  condition: optionalText(50),
+});
+
+export type DetectedPantryItem = z.infer<typeof DetectedPantryItemSchema>;
+
+/**
+ * Validate the item list a vision model returned. Invalid entries are dropped
+ * rather than failing the whole list.
+ */
+export function parseDetectedItems(raw: unknown): DetectedPantryItem[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === "object" && Array.isArray((raw as { items?: unknown }).items)
+      ? (raw as { items: unknown[] }).items
+      : [];
+
+  const items: DetectedPantryItem[] = [];
+  for (const entry of list.slice(0, 50)) {
+    const parsed = DetectedPantryItemSchema.safeParse(entry);
+    if (parsed.success) items.push(parsed.data);
+  }
+  return items;
+}
+
+// Rough fridge/pantry shelf life in days, most specific keyword first
+const SHELF_LIFE_DAYS: Array<[string[], number]> = [
+  [["ground beef", "ground turkey", "ground pork", "ground meat", "fish", "salmon", "shrimp", "scallop", "crab"], 2],
+  [["chicken", "turkey", "pork", "beef", "steak", "lamb", "sausage", "tofu"], 3],
+  [["berry", "berries", "spinach", "lettuce", "herb", "basil", "cilantro", "parsley", "mushroom", "avocado", "banana"], 5],
+  [["milk", "cream", "yogurt", "bread", "tomato", "cucumber", "zucchini", "pepper", "broccoli"], 7],
+  [["cheese", "egg", "carrot", "celery", "cabbage", "lemon", "lime", "orange", "apple", "butter"], 21],
+  [["potato", "onion", "garlic", "squash"], 30],
+  [["rice", "pasta", "flour", "sugar", "oil", "vinegar", "canned", "bean", "lentil", "oat", "spice", "salt", "honey"], 365],
+];
+
+// Days a cooked leftover keeps in the fridge
+const LEFTOVER_DAYS = 4;
+
+/**
+ * Best-guess expiry timestamp for a pantry item, or undefined when the item
+ * is unknown. Frozen food keeps for months; leftovers for a few days; items
+ * noted as wilting or overripe should be used right away.
+ */
+export function estimateExpiry(
+  name: string,
+  condition: string,
+  now: number
+): number | undefined {
+  const lowerCondition = condition.toLowerCase();
+  if (/frozen/.test(lowerCondition)) return now + 90 * DAY_MS;
+  if (/leftover|cooked/.test(lowerCondition)) return now + LEFTOVER_DAYS * DAY_MS;
+
+  const lowerName = name.toLowerCase();
+  const match = SHELF_LIFE_DAYS.find(([keywords]) =>
+    keywords.some((keyword) => new RegExp(`\\b${keyword}`).test(lowerName))
+  );
+  if (!match) return undefined;
+
+  let days = match[1];
+  if (/wilt|overripe|bruised|soft|opened/.test(lowerCondition)) {
+    days = Math.min(days, 2);
+  }
+  return now + days * DAY_MS;
+}
+
+/**
+ * Add two quantities of the same ingredient when both are plain numbers in
+ * the same unit ("2" eggs + "6" eggs = "8"). Returns null when they can't be
+ * combined, so the caller keeps them as separate rows.
+ */
+export function combinePantryQuantities(
+  existing: { quantity: string; unit: string },
+  added: { quantity: string; unit: string }
+): string | null {
+  if (existing.unit.trim().toLowerCase() !== added.unit.trim().toLowerCase()) {
+    return null;
+  }
+  const a = parseQuantity(existing.quantity);
+  const b = parseQuantity(added.quantity);
+  if (!a || !b || a.max !== undefined || b.max !== undefined) return null;
+  return formatQuantity({ min: a.min + b.min }, existing.unit);
+}
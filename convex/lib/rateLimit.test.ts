@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { quotaAt } from "./rateLimit";
+
+const day = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+describe("quotaAt", () => {
+  const recorded = { limit: 50, used: 50, resetsAt: day("2026-03-02") };
+
+  it("counts recorded requests until the reset", () => {
+    expect(quotaAt(recorded, day("2026-03-02") - 1)).toEqual({
+      ...recorded,
+      remaining: 0,
+    });
+  });
+
+  it("starts a fresh day once the reset has passed", () => {
+    expect(quotaAt(recorded, day("2026-03-03") + 5_000)).toEqual({
+      limit: 50,
+      used: 0,
+      remaining: 50,
+      resetsAt: day("2026-03-04"),
+    });
+  });
+});
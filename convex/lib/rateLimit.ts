@@ -0,0 +1,110 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { createError } from "./errors";
+
+// Requests allowed per calendar day (UTC) for each subscription tier
+export const DAILY_REQUEST_LIMITS = {
+  free: 50,
+  premium: 1000,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A message with a photo also pays for analyzing it
+export const IMAGE_MESSAGE_COST = 2;
+
+export function messageCost(hasImage: boolean): number {
+  return hasImage ? IMAGE_MESSAGE_COST : 1;
+}
+
+export function startOfUtcDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate()
+  );
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: number;
+}
+
+// The quota as last recorded on the profile: `used` counts until `resetsAt`.
+// It doesn't read the clock, so a reactive query can return it and leave the
+// rollover to the client.
+export type RecordedQuota = Omit<QuotaStatus, "remaining">;
+
+export function recordedQuota(profile: Doc<"userProfiles">): RecordedQuota {
+  return {
+    limit: DAILY_REQUEST_LIMITS[profile.subscriptionTier],
+    used: profile.dailyRequestCount,
+    resetsAt: startOfUtcDay(profile.lastRequestReset) + DAY_MS,
+  };
+}
+
+// Quota as of `now`. A count recorded on an earlier day is stale and
+// treated as zero.
+export function quotaAt(recorded: RecordedQuota, now: number): QuotaStatus {
+  const { limit } = recorded;
+  if (now >= recorded.resetsAt) {
+    return { limit, used: 0, remaining: limit, resetsAt: startOfUtcDay(now) + DAY_MS };
+  }
+  return {
+    ...recorded,
+    remaining: Math.max(limit - recorded.used, 0),
+  };
+}
+
+// Quota for the current UTC day
+export function getQuotaStatus(
+  profile: Doc<"userProfiles">,
+  now: number = Date.now()
+): QuotaStatus {
+  return quotaAt(recordedQuota(profile), now);
+}
+
+// Count `cost` requests against today's quota. Runs inside a mutation, so the
+// read-check-write is atomic and concurrent calls cannot overshoot the limit.
+export async function tryConsumeQuota(
+  ctx: MutationCtx,
+  profile: Doc<"userProfiles">,
+  cost: number = 1
+): Promise<{ allowed: boolean; remaining: number; resetsAt: number }> {
+  const now = Date.now();
+  const status = getQuotaStatus(profile, now);
+
+  if (status.remaining < cost) {
+    return { allowed: false, remaining: status.remaining, resetsAt: status.resetsAt };
+  }
+
+  await ctx.db.patch(profile._id, {
+    dailyRequestCount: status.used + cost,
+    lastRequestReset: startOfUtcDay(now),
+  });
+
+  return {
+    allowed: true,
+    remaining: status.remaining - cost,
+    resetsAt: status.resetsAt,
+  };
+}
+
+// Same as tryConsumeQuota, but rejects with a RATE_LIMIT AppError
+export async function consumeQuotaOrThrow(
+  ctx: MutationCtx,
+  profile: Doc<"userProfiles">,
+  cost: number = 1
+) {
+  const result = await tryConsumeQuota(ctx, profile, cost);
+  if (!result.allowed) {
+    throw createError(
+      "RATE_LIMIT",
+      `Daily limit of ${DAILY_REQUEST_LIMITS[profile.subscriptionTier]} requests reached. Your quota resets at midnight UTC.`
+    );
+  }
+  return result;
+}
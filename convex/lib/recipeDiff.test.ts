@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { diffRecipes, findSavedVersion } from "./recipeDiff";
+
+const chili = {
+  title: "Beef Chili",
+  servings: 4,
+  ingredients: [
+    { name: "ground beef", amount: "1", unit: "lb" },
+    { name: "kidney beans", amount: "1", unit: "can" },
+    { name: "onion", amount: "1", unit: "", preparation: "diced" },
+  ],
+  instructions: ["Brown the beef", "Add the onion", "Simmer with the beans"],
+};
+
+describe("diffRecipes", () => {
+  it("reports changed, added and removed ingredients by name", () => {
+    const diff = diffRecipes(chili, {
+      ...chili,
+      ingredients: [
+        { name: "Ground beef", amount: "2", unit: "lb" },
+        { name: "onion", amount: "1", unit: "", preparation: "diced" },
+        { name: "chipotle", amount: "1", unit: "tbsp" },
+      ],
+    });
+
+    expect(diff.ingredients).toEqual([
+      { kind: "changed", text: "2 lb Ground beef", previous: "1 lb ground beef" },
+      { kind: "same", text: "1 onion, diced" },
+      { kind: "added", text: "1 tbsp chipotle" },
+      { kind: "removed", text: "1 can kidney beans" },
+    ]);
+    expect(diff.changed).toBe(true);
+  });
+
+  it("keeps unchanged steps in place around an inserted one", () => {
+    const diff = diffRecipes(chili, {
+      ...chili,
+      instructions: ["Brown the beef", "Toast the spices", "Add the onion", "Simmer"],
+    });
+
+    expect(diff.instructions).toEqual([
+      { kind: "same", text: "Brown the beef" },
+      { kind: "added", text: "Toast the spices" },
+      { kind: "same", text: "Add the onion" },
+      { kind: "added", text: "Simmer" },
+      { kind: "removed", text: "Simmer with the beans" },
+    ]);
+  });
+
+  it("flags title and servings changes, and nothing for an identical recipe", () => {
+    expect(diffRecipes(chili, { ...chili, title: "Turkey Chili", servings: 8 })).toMatchObject({
+      title: { before: "Beef Chili", after: "Turkey Chili" },
+      servings: { before: 4, after: 8 },
+    });
+    expect(diffRecipes(chili, { ...chili }).changed).toBe(false);
+  });
+});
+
+describe("findSavedVersion", () => {
+  const salad = {
+    ...chili,
+    title: "Greek Salad",
+    ingredients: [{ name: "feta", amount: "100", unit: "g" }],
+  };
+
+  it("prefers a saved recipe with the same title", () => {
+    const saved = [salad, { ...chili, ingredients: [] }];
+    expect(findSavedVersion(chili, saved, "message")).toBe(saved[1]);
+  });
+
+  it("falls back to the saved recipe sharing most ingredients", () => {
+    const renamed = { ...chili, title: "Smoky Chili" };
+    expect(findSavedVersion(renamed, [salad, chili], "message")).toBe(chili);
+    expect(findSavedVersion(renamed, [salad], "message")).toBeNull();
+  });
+
+  it("skips recipes saved from the card's own message", () => {
+    const sibling = { ...chili, sourceMessageId: "message" };
+    const earlier = { ...chili, title: "Smoky Chili", sourceMessageId: "earlier" };
+    expect(findSavedVersion(chili, [sibling], "message")).toBeNull();
+    expect(findSavedVersion(chili, [sibling, earlier], "message")).toBe(earlier);
+  });
+});
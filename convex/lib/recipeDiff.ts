@@ -0,0 +1,163 @@
+// Comparing a recipe from a chat follow-up with the copy already saved from
+// the same conversation, so the card can offer to update that copy instead
+// of filling the recipe book with near-duplicates.
+
+export interface DiffableRecipe {
+  title: string;
+  servings: number;
+  ingredients: Array<{ name: string; amount: string; unit: string; preparation?: string }>;
+  instructions: string[];
+}
+
+export type DiffLine =
+  | { kind: "same" | "added" | "removed"; text: string }
+  | { kind: "changed"; text: string; previous: string };
+
+export interface RecipeDiff {
+  title?: { before: string; after: string };
+  servings?: { before: number; after: number };
+  ingredients: DiffLine[];
+  instructions: DiffLine[];
+  // Whether anything differs at all
+  changed: boolean;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, " ");
+
+export function formatIngredient(ingredient: DiffableRecipe["ingredients"][number]): string {
+  const name = ingredient.preparation
+    ? `${ingredient.name}, ${ingredient.preparation}`
+    : ingredient.name;
+  if (ingredient.amount === "to taste") return `${name}, to taste`;
+  return [ingredient.amount, ingredient.unit, name].filter(Boolean).join(" ");
+}
+
+// Ingredients are matched by name, so "2 cloves garlic" -> "4 cloves garlic"
+// reads as a change rather than a removal plus an addition
+function diffIngredients(
+  before: DiffableRecipe["ingredients"],
+  after: DiffableRecipe["ingredients"]
+): DiffLine[] {
+  const previous = new Map(before.map((i) => [normalize(i.name), i]));
+  const lines: DiffLine[] = [];
+
+  for (const ingredient of after) {
+    const text = formatIngredient(ingredient);
+    const match = previous.get(normalize(ingredient.name));
+    if (!match) {
+      lines.push({ kind: "added", text });
+      continue;
+    }
+    previous.delete(normalize(ingredient.name));
+    const previousText = formatIngredient(match);
+    lines.push(
+      normalize(previousText) === normalize(text)
+        ? { kind: "same", text }
+        : { kind: "changed", text, previous: previousText }
+    );
+  }
+  for (const removed of previous.values()) {
+    lines.push({ kind: "removed", text: formatIngredient(removed) });
+  }
+  return lines;
+}
+
+// Steps are diffed in order (longest common subsequence), since rewording or
+// inserting one step shouldn't mark every later step as changed
+function diffSteps(before: string[], after: string[]): DiffLine[] {
+  const a = before.map(normalize);
+  const b = after.map(normalize);
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: "same", text: after[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      lines.push({ kind: "added", text: after[j] });
+      j++;
+    } else {
+      lines.push({ kind: "removed", text: before[i] });
+      i++;
+    }
+  }
+  return lines;
+}
+
+export function diffRecipes(before: DiffableRecipe, after: DiffableRecipe): RecipeDiff {
+  const ingredients = diffIngredients(before.ingredients, after.ingredients);
+  const instructions = diffSteps(before.instructions, after.instructions);
+  const title =
+    before.title.trim() !== after.title.trim()
+      ? { before: before.title, after: after.title }
+      : undefined;
+  const servings =
+    before.servings !== after.servings
+      ? { before: before.servings, after: after.servings }
+      : undefined;
+
+  return {
+    title,
+    servings,
+    ingredients,
+    instructions,
+    changed:
+      !!title ||
+      !!servings ||
+      [...ingredients, ...instructions].some((line) => line.kind !== "same"),
+  };
+}
+
+// Share of ingredient names two recipes have in common (Jaccard)
+function ingredientOverlap(a: DiffableRecipe, b: DiffableRecipe): number {
+  const first = new Set(a.ingredients.map((i) => normalize(i.name)));
+  const second = new Set(b.ingredients.map((i) => normalize(i.name)));
+  const shared = [...first].filter((name) => second.has(name)).length;
+  const total = new Set([...first, ...second]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+// Below this, a saved recipe is a different dish, not an earlier version
+const MIN_INGREDIENT_OVERLAP = 0.5;
+
+/**
+ * The saved recipe a chat card most likely revises: one with the same title,
+ * or else the one sharing the most ingredients, if enough of them. Saved
+ * recipes are assumed to come from the same conversation; those saved from
+ * the card's own message are other options in that reply, not earlier
+ * versions, so they're skipped.
+ */
+export function findSavedVersion<R extends DiffableRecipe & { sourceMessageId?: string }>(
+  card: DiffableRecipe,
+  saved: R[],
+  messageId: string
+): R | null {
+  const earlier = saved.filter((recipe) => recipe.sourceMessageId !== messageId);
+  const title = normalize(card.title);
+  const sameTitle = earlier.find((recipe) => normalize(recipe.title) === title);
+  if (sameTitle) return sameTitle;
+
+  let best: R | null = null;
+  let bestOverlap = 0;
+  for (const recipe of earlier) {
+    const overlap = ingredientOverlap(card, recipe);
+    if (overlap >= MIN_INGREDIENT_OVERLAP && overlap > bestOverlap) {
+      best = recipe;
+      bestOverlap = overlap;
+    }
+  }
+  return best;
+}
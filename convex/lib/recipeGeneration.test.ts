@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { FakeLLMProvider } from "./llm";
+import {
+  extractConversationTitle,
+  getStreamingDisplayText,
+  recipeFromJson,
+  repairRecipe,
+  validateRecipe,
+} from "./recipeGeneration";
+
+const recipe = {
+  title: "Lentil Soup",
+  description: "Hearty and simple",
+  ingredients: [{ name: "lentils", amount: "1", unit: "cup" }],
+  instructions: ["Simmer everything"],
+  servings: 4,
+};
+
+describe("extractConversationTitle", () => {
+  it("strips the title comment", () => {
+    const { displayText, conversationTitle } = extractConversationTitle(
+      "Sure thing!\n<!-- CONV_TITLE: Quick Weeknight Pasta -->"
+    );
+    expect(displayText).toBe("Sure thing!");
+    expect(conversationTitle).toBe("Quick Weeknight Pasta");
+  });
+
+  it("ignores an empty title", () => {
+    const response = "Hello <!-- CONV_TITLE:   -->";
+    expect(extractConversationTitle(response)).toEqual({
+      displayText: response,
+      conversationTitle: null,
+    });
+  });
+
+  it("caps titles at 100 characters", () => {
+    const { conversationTitle } = extractConversationTitle(
+      `<!-- CONV_TITLE: ${"x".repeat(150)} -->`
+    );
+    expect(conversationTitle).toHaveLength(100);
+  });
+});
+
+describe("getStreamingDisplayText", () => {
+  it("hides everything from the first hidden block onward", () => {
+    expect(
+      getStreamingDisplayText("Enjoy!\n<!-- CONV_TITLE: Lentil So")
+    ).toBe("Enjoy!\n");
+  });
+
+  it("holds back a partially received marker", () => {
+    expect(getStreamingDisplayText("Enjoy! <!")).toBe("Enjoy! ");
+    expect(getStreamingDisplayText("Enjoy! <!-")).toBe("Enjoy! ");
+  });
+
+  it("passes plain text through", () => {
+    expect(getStreamingDisplayText("Chop the onions")).toBe("Chop the onions");
+  });
+});
+
+describe("validateRecipe", () => {
+  it("coerces loose model output into a saveable recipe", () => {
+    const result = validateRecipe({
+      ...recipe,
+      ingredients: [{ name: " lentils ", amount: 1, unit: "cup" }],
+      cookTime: 29.5,
+      mealType: "Dinner",
+    });
+    expect(result).toEqual({
+      success: true,
+      recipe: {
+        ...recipe,
+        ingredients: [{ name: "lentils", amount: "1", unit: "cup" }],
+        cookTime: 30,
+        dietaryTags: [],
+      },
+    });
+  });
+
+  it("names the fields that are wrong", () => {
+    expect(
+      validateRecipe({ ...recipe, instructions: [], servings: "four" })
+    ).toEqual({
+      success: false,
+      error: expect.stringMatching(/^instructions: .+; servings: .+/),
+    });
+    expect(validateRecipe("Lentil Soup")).toMatchObject({ success: false });
+  });
+});
+
+describe("repairRecipe", () => {
+  it("validates the extraction model's correction", async () => {
+    const provider = new FakeLLMProvider({ json: [recipe] });
+
+    const result = await repairRecipe(
+      provider,
+      { ...recipe, servings: "4 people" },
+      "servings: Expected number, received string"
+    );
+
+    expect(result).toMatchObject({ success: true, recipe: { servings: 4 } });
+    const [call] = provider.calls;
+    expect(call.kind === "json" && call.request.prompt).toContain('"servings": "4 people"');
+  });
+
+  it("keeps the original problem when the recipe can't be fixed", async () => {
+    const provider = new FakeLLMProvider({ json: [{ unfixable: "no steps given" }] });
+
+    expect(await repairRecipe(provider, { title: "Soup" }, "instructions: Required")).toEqual({
+      success: false,
+      error: "instructions: Required (no steps given)",
+    });
+  });
+});
+
+describe("recipeFromJson", () => {
+  it("returns null for incomplete or malformed recipes", () => {
+    expect(recipeFromJson(JSON.stringify({ title: "Lentil Soup" }))).toBeNull();
+    expect(recipeFromJson("{not json")).toBeNull();
+  });
+});
@@ -1,68 +1,225 @@
-// System prompt that requests structured recipe output
-export const RECIPE_GENERATION_PROMPT = `## CRITICAL: Recipe JSON Block Requirement
-EVERY TIME you provide a recipe with ingredients and instructions, you MUST append a hidden JSON block at the very end. This is NOT optional — without it, users cannot save the recipe. If your response contains a list of ingredients AND cooking steps, you MUST include the block.
+import { z } from "zod";
+import { LLMProvider } from "./llm";
+import { IngredientSchema, MAX_INGREDIENTS, RecipeInputSchema } from "./validators";
+
+// Longest recipe JSON shown to the repair pass
+const MAX_REPAIR_INPUT_LENGTH = 8000;
+
+// System prompt that asks for recipes through the present_recipe tool
+export const RECIPE_GENERATION_PROMPT = `## CRITICAL: Present Every Recipe
+EVERY TIME your reply contains a recipe with ingredients and instructions, you MUST also call the present_recipe tool with it. This is NOT optional — the tool call is what shows the recipe card the user can save. If your response contains a list of ingredients AND cooking steps, you MUST call it.
 
 Format your response as:
 1. A friendly, conversational explanation of the recipe
 2. Clear instructions the user can follow
-3. MANDATORY: At the very end, append the recipe data in this exact format:
-
-<!-- RECIPE_JSON
-{
-  "title": "Recipe Name",
-  "description": "Brief description",
-  "ingredients": [
-    {"name": "ingredient", "amount": "1", "unit": "cup", "preparation": "diced"},
-    {"name": "optional topping", "amount": "1/2", "unit": "cup", "optional": true}
-  ],
-  "instructions": ["Step 1", "Step 2"],
-  "prepTime": 15,
-  "cookTime": 30,
-  "servings": 4,
-  "dietaryTags": ["vegetarian", "gluten-free"],
-  "mealType": "Main Dish",
-  "proteinType": "Chicken"
-}
-RECIPE_JSON -->
+3. MANDATORY: A present_recipe call with the same recipe, in the same turn. When you offer several recipes (e.g. "three weeknight options"), call present_recipe once for each
 
-This hidden block lets users save the recipe. You MUST include it whenever your response contains a recipe with ingredients and instructions. Only skip it for partial suggestions, general tips, or discussions without a full recipe.
+Never write the recipe out as JSON in your reply. Only skip the call for partial suggestions, general tips, or discussions without a full recipe. If the tool reports a problem, fix the fields it names and call it again.
 
 Rules:
 - prepTime and cookTime are in minutes
 - dietaryTags reflect actual dietary properties
 - Instructions should be clear, actionable steps
 - Amounts should be practical measurements (e.g., "1", "2", "1/2"). For "to taste" ingredients, use amount: "to taste", unit: "", and keep the name clean (e.g., {"name": "salt", "amount": "to taste", "unit": ""})
-- Each ingredient object has fields: "name", "amount", "unit", optionally "preparation" (e.g., "diced", "sliced", "minced"), and optionally "optional": true for substitute/optional ingredients. Do NOT put "(optional)" in ingredient names — use the "optional" boolean field instead
-- mealType MUST be one of: "Main Dish", "Side Dish", "Appetizer", "Dessert", "Snack", "Soup", "Salad", "Breakfast", "Beverage"
+- Use "preparation" for cuts like "diced", "sliced" or "minced", and "optional": true for substitute/optional ingredients. Do NOT put "(optional)" in ingredient names — use the "optional" field instead
 - proteinType should be a short, descriptive string for the primary protein in the recipe (e.g., "Chicken", "Salmon", "Lentils", "Tofu", "Mushrooms", "Chickpeas", "None"). Use whatever best describes the recipe — not limited to a fixed list
 - For recipes with multiple proteins, use the primary one`;
 
-// Parse recipe JSON from AI response
-export function extractRecipeJson(aiResponse: string): {
-  displayText: string;
-  recipeJson: string | null;
-} {
-  const recipeMatch = aiResponse.match(
-    /<!-- RECIPE_JSON\s*([\s\S]*?)\s*RECIPE_JSON -->/
-  );
+// Recipe cards one assistant reply can carry
+export const MAX_RECIPES_PER_MESSAGE = 5;
 
-  if (recipeMatch) {
-    const displayText = aiResponse
-      .replace(/<!-- RECIPE_JSON[\s\S]*?RECIPE_JSON -->/g, "")
-      .trim();
-    try {
-      // Validate it's proper JSON
-      JSON.parse(recipeMatch[1]);
-      return {
-        displayText,
-        recipeJson: recipeMatch[1].trim(),
-      };
-    } catch {
-      return { displayText: aiResponse, recipeJson: null };
-    }
+export const MEAL_TYPES = [
+  "Main Dish",
+  "Side Dish",
+  "Appetizer",
+  "Dessert",
+  "Snack",
+  "Soup",
+  "Salad",
+  "Breakfast",
+  "Beverage",
+] as const;
+
+export type MealType = (typeof MEAL_TYPES)[number];
+
+// JSON schema of a recipe, for the present_recipe tool. Mirrors
+// RecipeInputSchema, which the arguments are validated against.
+export const RECIPE_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    description: { type: "string", description: "One or two sentences" },
+    ingredients: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          amount: { type: "string", description: 'e.g. "1", "1/2", "to taste"' },
+          unit: { type: "string", description: 'e.g. "cup", or "" for none' },
+          preparation: { type: "string", description: 'e.g. "diced"' },
+          optional: { type: "boolean" },
+        },
+        required: ["name", "amount", "unit"],
+      },
+    },
+    instructions: { type: "array", items: { type: "string" } },
+    servings: { type: "integer" },
+    prepTime: { type: "integer", description: "Minutes" },
+    cookTime: { type: "integer", description: "Minutes" },
+    dietaryTags: { type: "array", items: { type: "string" } },
+    mealType: { type: "string", enum: [...MEAL_TYPES] },
+    proteinType: { type: "string" },
+  },
+  required: ["title", "description", "ingredients", "instructions", "servings"],
+};
+
+// Model output often comes close to RecipeInputSchema without matching it:
+// numeric amounts, fractional minutes, an unknown meal type, blank optional
+// fields. These schemas coerce those before applying the same limits.
+const optionalText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value : undefined;
+
+const asText = (value: unknown) => String(value ?? "");
+
+const minutes = z.preprocess(
+  (value) => (typeof value === "number" ? Math.round(value) : undefined),
+  RecipeInputSchema.shape.prepTime
+);
+
+export const GeneratedIngredientSchema = z.object({
+  name: z.preprocess((value) => asText(value).trim(), IngredientSchema.shape.name),
+  amount: z.preprocess(asText, IngredientSchema.shape.amount),
+  unit: z.preprocess(asText, IngredientSchema.shape.unit),
+  preparation: z.preprocess(optionalText, IngredientSchema.shape.preparation),
+  optional: z.preprocess(
+    (value) => (value === true ? true : undefined),
+    IngredientSchema.shape.optional
+  ),
+});
+
+const GeneratedIngredientsSchema = z
+  .array(GeneratedIngredientSchema)
+  .min(1)
+  .max(MAX_INGREDIENTS);
+
+const GeneratedRecipeSchema = RecipeInputSchema.extend({
+  title: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim() : value),
+    RecipeInputSchema.shape.title
+  ),
+  description: z.preprocess(
+    (value) => (typeof value === "string" ? value : ""),
+    RecipeInputSchema.shape.description
+  ),
+  ingredients: GeneratedIngredientsSchema,
+  prepTime: minutes,
+  cookTime: minutes,
+  dietaryTags: z.preprocess(
+    (value) => (Array.isArray(value) ? value : []),
+    RecipeInputSchema.shape.dietaryTags.unwrap()
+  ),
+  mealType: z.preprocess(
+    (value) => ((MEAL_TYPES as readonly unknown[]).includes(value) ? value : undefined),
+    z.enum(MEAL_TYPES).optional()
+  ),
+  proteinType: z.preprocess(optionalText, RecipeInputSchema.shape.proteinType),
+});
+
+export type GeneratedRecipe = z.output<typeof GeneratedRecipeSchema>;
+export type GeneratedIngredient = z.output<typeof GeneratedIngredientSchema>;
+
+// The first few problems, the way parseOrThrow reports them, so the model can
+// fix them
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    )
+    .join("; ");
+}
+
+/**
+ * Validate model output against RecipeInputSchema, after coercing the loose
+ * values models commonly produce.
+ */
+export function validateRecipe(
+  data: unknown
+): { success: true; recipe: GeneratedRecipe } | { success: false; error: string } {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { success: false, error: "Expected a recipe object" };
   }
 
-  return { displayText: aiResponse, recipeJson: null };
+  const result = GeneratedRecipeSchema.safeParse(data);
+  return result.success
+    ? { success: true, recipe: result.data }
+    : { success: false, error: describeIssues(result.error) };
+}
+
+// Same, for an ingredient list on its own (a tool editing a saved recipe)
+export function validateIngredients(
+  data: unknown
+):
+  | { success: true; ingredients: GeneratedIngredient[] }
+  | { success: false; error: string } {
+  const result = GeneratedIngredientsSchema.safeParse(data);
+  return result.success
+    ? { success: true, ingredients: result.data }
+    : { success: false, error: describeIssues(result.error) };
+}
+
+/**
+ * A message's stored recipeJson in the shape saved recipes use, or null when
+ * it doesn't hold a complete recipe.
+ */
+export function recipeFromJson(recipeJson: string): GeneratedRecipe | null {
+  try {
+    const result = validateRecipe(JSON.parse(recipeJson));
+    return result.success ? result.recipe : null;
+  } catch {
+    return null;
+  }
+}
+
+const RECIPE_REPAIR_PROMPT = `A cooking assistant tried to attach this recipe to its reply, but it failed validation.
+
+**Problem:** {error}
+
+**Recipe as sent:**
+{recipe}
+
+Return the corrected recipe as JSON only, keeping everything that was valid. Fields: title, description, ingredients (each {"name", "amount", "unit"} with optional "preparation" and "optional"), instructions (list of steps), servings (whole number), prepTime and cookTime (whole minutes, optional), dietaryTags, mealType (one of ${MEAL_TYPES.map((m) => `"${m}"`).join(", ")}), proteinType. If the recipe is too incomplete to fix, return {"unfixable": "<why>"}.`;
+
+/**
+ * One repair pass for a recipe that failed validation: show the extraction
+ * model what was sent and what was wrong, then validate its correction.
+ */
+export async function repairRecipe(
+  provider: LLMProvider,
+  data: unknown,
+  error: string
+): Promise<ReturnType<typeof validateRecipe>> {
+  const sent = typeof data === "string" ? data : JSON.stringify(data, null, 2);
+  // Replacer functions, so "$&" in the recipe stays literal
+  const prompt = RECIPE_REPAIR_PROMPT.replace("{error}", () => error).replace(
+    "{recipe}",
+    () => sent.slice(0, MAX_REPAIR_INPUT_LENGTH)
+  );
+
+  const repaired = (await provider.extractJson({ prompt, maxTokens: 1500 })) as {
+    unfixable?: unknown;
+  } | null;
+  if (!repaired) {
+    return { success: false, error: `${error} (repair returned no JSON)` };
+  }
+  if (typeof repaired.unfixable === "string") {
+    return { success: false, error: `${error} (${repaired.unfixable})` };
+  }
+  const result = validateRecipe(repaired);
+  return result.success
+    ? result
+    : { success: false, error: `${error} (still invalid after repair: ${result.error})` };
 }
 
 // Parse conversation title from AI response
@@ -87,3 +244,14 @@ export function extractConversationTitle(aiResponse: string): {
 
   return { displayText: aiResponse, conversationTitle: null };
 }
+
+// Visible portion of a reply that is still streaming. The hidden CONV_TITLE
+// block always comes last, so everything from the first comment marker
+// onward is withheld, including a partially received marker.
+export function getStreamingDisplayText(partialResponse: string): string {
+  const markerIndex = partialResponse.indexOf("<!--");
+  const visible =
+    markerIndex >= 0 ? partialResponse.slice(0, markerIndex) : partialResponse;
+
+  return visible.replace(/<!?-?$/, "");
+}
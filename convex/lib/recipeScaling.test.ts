@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertIngredient,
+  parseQuantity,
+  scaleRecipe,
+} from "./recipeScaling";
+
+const ingredient = (amount: string, unit: string, name = "water") => ({
+  name,
+  amount,
+  unit,
+});
+
+describe("parseQuantity", () => {
+  it.each([
+    ["2", { min: 2 }],
+    ["1.5", { min: 1.5 }],
+    ["1/2", { min: 0.5 }],
+    ["1 1/2", { min: 1.5 }],
+    ["1½", { min: 1.5 }],
+    ["¾", { min: 0.75 }],
+    ["2-3", { min: 2, max: 3 }],
+    ["2 to 3", { min: 2, max: 3 }],
+    ["1/2 – 1", { min: 0.5, max: 1 }],
+    ["about 4", { min: 4 }],
+  ])("parses %s", (amount, expected) => {
+    expect(parseQuantity(amount)).toEqual(expected);
+  });
+
+  it.each(["to taste", "a pinch", "", "1/0"])("rejects %j", (amount) => {
+    expect(parseQuantity(amount)).toBeNull();
+  });
+});
+
+describe("convertIngredient", () => {
+  it("scales counts with readable fractions", () => {
+    expect(convertIngredient(ingredient("1", "", "egg"), { factor: 1.5 })).toMatchObject({
+      amount: "1 1/2",
+      unit: "",
+    });
+    expect(convertIngredient(ingredient("2", "cloves", "garlic"), { factor: 3 })).toMatchObject({
+      amount: "6",
+      unit: "cloves",
+    });
+  });
+
+  it("moves to a more readable unit after scaling", () => {
+    expect(convertIngredient(ingredient("3", "tbsp"), { factor: 4 })).toMatchObject({
+      amount: "3/4",
+      unit: "cup",
+    });
+    expect(convertIngredient(ingredient("1", "tsp"), { factor: 3 })).toMatchObject({
+      amount: "1",
+      unit: "tbsp",
+    });
+    expect(convertIngredient(ingredient("12", "oz", "beef"), { factor: 2 })).toMatchObject({
+      amount: "1 1/2",
+      unit: "lb",
+    });
+  });
+
+  it("scales ranges", () => {
+    expect(convertIngredient(ingredient("1-2", "cups"), { factor: 2 })).toMatchObject({
+      amount: "2-4",
+      unit: "cups",
+    });
+  });
+
+  it("leaves unquantified ingredients alone", () => {
+    const salt = ingredient("to taste", "", "salt");
+    expect(convertIngredient(salt, { factor: 2, system: "metric" })).toBe(salt);
+  });
+
+  it("converts liquids by volume and staples by weight in metric", () => {
+    expect(convertIngredient(ingredient("2", "cups", "milk"), { system: "metric" })).toMatchObject({
+      amount: "475",
+      unit: "ml",
+    });
+    expect(
+      convertIngredient(ingredient("2", "cups", "all-purpose flour"), { system: "metric" })
+    ).toMatchObject({ amount: "250", unit: "g" });
+    expect(convertIngredient(ingredient("1", "lb", "chicken"), { system: "metric" })).toMatchObject({
+      amount: "455",
+      unit: "g",
+    });
+  });
+
+  it("keeps measuring spoons in metric", () => {
+    expect(
+      convertIngredient(ingredient("1", "tbsp", "sugar"), { system: "metric" })
+    ).toMatchObject({ amount: "1", unit: "tbsp" });
+  });
+
+  it("converts weighed staples to cups in imperial", () => {
+    expect(
+      convertIngredient(ingredient("500", "g", "flour"), { system: "imperial" })
+    ).toMatchObject({ amount: "4", unit: "cups" });
+    expect(
+      convertIngredient(ingredient("200", "g", "chicken breast"), { system: "imperial" })
+    ).toMatchObject({ amount: "7", unit: "oz" });
+    expect(convertIngredient(ingredient("1.5", "l", "stock"), { system: "imperial" })).toMatchObject({
+      amount: "6 1/3",
+      unit: "cups",
+    });
+  });
+});
+
+describe("scaleRecipe", () => {
+  it("scales every ingredient to the target servings", () => {
+    const recipe = {
+      title: "Pancakes",
+      servings: 4,
+      ingredients: [
+        ingredient("1 1/2", "cups", "flour"),
+        ingredient("2", "", "eggs"),
+        ingredient("to taste", "", "salt"),
+      ],
+    };
+
+    const scaled = scaleRecipe(recipe, 6);
+
+    expect(scaled.title).toBe("Pancakes");
+    expect(scaled.servings).toBe(6);
+    expect(scaled.ingredients.map((i) => `${i.amount} ${i.unit}`.trim())).toEqual([
+      "2 1/4 cups",
+      "3",
+      "to taste",
+    ]);
+  });
+});
@@ -0,0 +1,370 @@
+// Recipe scaling and unit conversion.
+// Pure functions shared by the backend and the recipe UI: ingredient amounts
+// are free strings ("1 1/2", "2-3", "½"), so everything goes through
+// parseQuantity first and anything unparseable ("to taste") is left alone.
+
+export type UnitSystem = "original" | "metric" | "imperial";
+
+export interface RecipeIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+  preparation?: string;
+  optional?: boolean;
+}
+
+export interface ParsedQuantity {
+  min: number;
+  max?: number;
+}
+
+type Dimension = "volume" | "weight";
+type System = "metric" | "us" | "spoon";
+
+interface UnitDefinition {
+  dimension: Dimension;
+  system: System;
+  // Size of one unit in millilitres (volume) or grams (weight)
+  toBase: number;
+  aliases: string[];
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  tsp: { dimension: "volume", system: "spoon", toBase: 4.92892, aliases: ["tsp", "tsps", "teaspoon", "teaspoons"] },
+  tbsp: { dimension: "volume", system: "spoon", toBase: 14.7868, aliases: ["tbsp", "tbsps", "tbs", "tbl", "tablespoon", "tablespoons"] },
+  cup: { dimension: "volume", system: "us", toBase: 236.588, aliases: ["cup", "cups", "c"] },
+  "fl oz": { dimension: "volume", system: "us", toBase: 29.5735, aliases: ["fl oz", "fl. oz", "fl. oz.", "fluid ounce", "fluid ounces"] },
+  pint: { dimension: "volume", system: "us", toBase: 473.176, aliases: ["pint", "pints", "pt"] },
+  quart: { dimension: "volume", system: "us", toBase: 946.353, aliases: ["quart", "quarts", "qt"] },
+  gallon: { dimension: "volume", system: "us", toBase: 3785.41, aliases: ["gallon", "gallons", "gal"] },
+  ml: { dimension: "volume", system: "metric", toBase: 1, aliases: ["ml", "milliliter", "milliliters", "millilitre", "millilitres"] },
+  L: { dimension: "volume", system: "metric", toBase: 1000, aliases: ["l", "liter", "liters", "litre", "litres"] },
+  oz: { dimension: "weight", system: "us", toBase: 28.3495, aliases: ["oz", "ounce", "ounces"] },
+  lb: { dimension: "weight", system: "us", toBase: 453.592, aliases: ["lb", "lbs", "pound", "pounds"] },
+  g: { dimension: "weight", system: "metric", toBase: 1, aliases: ["g", "gr", "gram", "grams"] },
+  kg: { dimension: "weight", system: "metric", toBase: 1000, aliases: ["kg", "kilogram", "kilograms"] },
+};
+
+const UNIT_BY_ALIAS = new Map<string, string>(
+  Object.entries(UNITS).flatMap(([key, unit]) =>
+    unit.aliases.map((alias) => [alias, key] as [string, string])
+  )
+);
+
+interface Density {
+  // Grams per millilitre
+  gramsPerMl: number;
+  // Metric kitchens weigh this rather than measuring it by volume
+  weighInMetric: boolean;
+}
+
+// Common staples, most specific names first
+const DENSITIES: Array<[string, Density]> = [
+  ["peanut butter", { gramsPerMl: 1.1, weighInMetric: true }],
+  ["almond flour", { gramsPerMl: 0.41, weighInMetric: true }],
+  ["whole wheat flour", { gramsPerMl: 0.51, weighInMetric: true }],
+  ["bread flour", { gramsPerMl: 0.54, weighInMetric: true }],
+  ["flour", { gramsPerMl: 0.53, weighInMetric: true }],
+  ["cornstarch", { gramsPerMl: 0.54, weighInMetric: true }],
+  ["cocoa powder", { gramsPerMl: 0.42, weighInMetric: true }],
+  ["brown sugar", { gramsPerMl: 0.93, weighInMetric: true }],
+  ["powdered sugar", { gramsPerMl: 0.51, weighInMetric: true }],
+  ["icing sugar", { gramsPerMl: 0.51, weighInMetric: true }],
+  ["sugar", { gramsPerMl: 0.85, weighInMetric: true }],
+  ["butter", { gramsPerMl: 0.96, weighInMetric: true }],
+  ["chocolate chips", { gramsPerMl: 0.72, weighInMetric: true }],
+  ["parmesan", { gramsPerMl: 0.42, weighInMetric: true }],
+  ["rolled oats", { gramsPerMl: 0.38, weighInMetric: true }],
+  ["oats", { gramsPerMl: 0.38, weighInMetric: true }],
+  ["rice", { gramsPerMl: 0.79, weighInMetric: true }],
+  ["honey", { gramsPerMl: 1.42, weighInMetric: false }],
+  ["maple syrup", { gramsPerMl: 1.32, weighInMetric: false }],
+  ["salt", { gramsPerMl: 1.22, weighInMetric: false }],
+  ["oil", { gramsPerMl: 0.92, weighInMetric: false }],
+  ["milk", { gramsPerMl: 1.03, weighInMetric: false }],
+  ["yogurt", { gramsPerMl: 1.04, weighInMetric: false }],
+  ["cream", { gramsPerMl: 1.0, weighInMetric: false }],
+  ["water", { gramsPerMl: 1.0, weighInMetric: false }],
+  ["stock", { gramsPerMl: 1.0, weighInMetric: false }],
+  ["broth", { gramsPerMl: 1.0, weighInMetric: false }],
+];
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": "1/2", "⅓": "1/3", "⅔": "2/3", "¼": "1/4", "¾": "3/4",
+  "⅕": "1/5", "⅖": "2/5", "⅗": "3/5", "⅘": "4/5", "⅙": "1/6",
+  "⅚": "5/6", "⅛": "1/8", "⅜": "3/8", "⅝": "5/8", "⅞": "7/8",
+};
+
+// Fractions a cook can actually measure
+const NICE_FRACTIONS: Array<[number, string]> = [
+  [0, ""], [1 / 8, "1/8"], [1 / 4, "1/4"], [1 / 3, "1/3"], [3 / 8, "3/8"],
+  [1 / 2, "1/2"], [5 / 8, "5/8"], [2 / 3, "2/3"], [3 / 4, "3/4"],
+  [7 / 8, "7/8"], [1, ""],
+];
+
+const QUARTER_CUP_ML = 59.147;
+// Slack so floating point doesn't keep 3 tsp from becoming 1 tbsp
+const UNIT_TOLERANCE = 0.995;
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim();
+  let match = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (match) {
+    const denominator = Number(match[3]);
+    return denominator ? Number(match[1]) + Number(match[2]) / denominator : null;
+  }
+  match = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (match) {
+    const denominator = Number(match[2]);
+    return denominator ? Number(match[1]) / denominator : null;
+  }
+  return /^\d*\.?\d+$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+/**
+ * Parse a free-text amount: whole numbers, decimals, fractions, mixed numbers,
+ * unicode fractions and ranges ("1-2", "2 to 3"). Returns null for anything
+ * that isn't a quantity, e.g. "to taste" or "a pinch".
+ */
+export function parseQuantity(amount: string): ParsedQuantity | null {
+  let text = amount.trim().toLowerCase();
+  if (!text) return null;
+
+  for (const [glyph, fraction] of Object.entries(UNICODE_FRACTIONS)) {
+    text = text.replace(new RegExp(`(\\d)${glyph}`, "g"), `$1 ${fraction}`);
+    text = text.split(glyph).join(fraction);
+  }
+  text = text
+    .replace(/^(?:about|approx\.?|approximately|~)\s*/, "")
+    .replace(/\s*(?:–|—|\bto\b)\s*/g, "-")
+    .replace(/\s*-\s*/g, "-");
+
+  const parts = text.split("-");
+  if (parts.length === 1) {
+    const value = parseNumber(parts[0]);
+    return value === null ? null : { min: value };
+  }
+  if (parts.length === 2) {
+    const min = parseNumber(parts[0]);
+    const max = parseNumber(parts[1]);
+    if (min === null || max === null) return null;
+    return min === max ? { min } : { min, max };
+  }
+  return null;
+}
+
+// Whole number plus the nearest measurable fraction ("1 1/2")
+function formatFraction(value: number): string {
+  if (value >= 10) return String(Math.round(value));
+
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+  let [best, label] = NICE_FRACTIONS[0];
+  for (const [fraction, fractionLabel] of NICE_FRACTIONS) {
+    if (Math.abs(remainder - fraction) < Math.abs(remainder - best)) {
+      best = fraction;
+      label = fractionLabel;
+    }
+  }
+  if (best === 1) whole += 1;
+
+  // Never round a real amount down to nothing
+  if (whole === 0 && !label) return "1/8";
+  if (whole === 0) return label;
+  return label ? `${whole} ${label}` : String(whole);
+}
+
+function formatDecimal(value: number, unit: string): string {
+  if (unit === "kg" || unit === "L") {
+    return String(Math.round(value * 100) / 100);
+  }
+  if (value >= 100) return String(Math.round(value / 5) * 5);
+  if (value >= 10) return String(Math.round(value));
+  return String(Math.max(Math.round(value * 10) / 10, 0.1));
+}
+
+export function formatQuantity(quantity: ParsedQuantity, unit = ""): string {
+  const metric = UNITS[unit]?.system === "metric";
+  const format = (value: number) =>
+    metric ? formatDecimal(value, unit) : formatFraction(value);
+
+  if (quantity.max === undefined) return format(quantity.min);
+  const min = format(quantity.min);
+  const max = format(quantity.max);
+  return min === max ? min : `${min}-${max}`;
+}
+
+function normalizeUnit(unit: string): string | null {
+  const key = unit.trim().toLowerCase().replace(/\.$/, "");
+  return UNIT_BY_ALIAS.get(key) ?? null;
+}
+
+function densityFor(name: string): Density | null {
+  const lower = name.toLowerCase();
+  for (const [staple, density] of DENSITIES) {
+    if (new RegExp(`\\b${staple}s?\\b`).test(lower)) return density;
+  }
+  return null;
+}
+
+// Most readable unit for an amount already expressed in ml or g
+function pickUnit(base: number, dimension: Dimension, system: "metric" | "us"): string {
+  if (dimension === "weight") {
+    if (system === "metric") return base >= 1000 ? "kg" : "g";
+    return base >= UNITS.lb.toBase * UNIT_TOLERANCE ? "lb" : "oz";
+  }
+  // Spoons are used in both systems for small amounts
+  if (base < UNITS.tbsp.toBase * UNIT_TOLERANCE) return "tsp";
+  if (base < QUARTER_CUP_ML * UNIT_TOLERANCE) return "tbsp";
+  if (system === "metric") return base >= 1000 ? "L" : "ml";
+  return "cup";
+}
+
+function displayUnit(unit: string, amount: string): string {
+  if (unit !== "cup") return unit;
+  const parsed = parseQuantity(amount);
+  return parsed && (parsed.max ?? parsed.min) > 1 ? "cups" : unit;
+}
+
+/**
+ * Scale an ingredient by `factor` and express it in the requested unit
+ * system. Count units ("2 cloves") are only scaled. With the "original"
+ * system an ingredient stays in its own system but may move to a more
+ * readable unit after scaling (12 tbsp becomes 3/4 cup).
+ */
+export function convertIngredient<T extends RecipeIngredient>(
+  ingredient: T,
+  options: { factor?: number; system?: UnitSystem } = {}
+): T {
+  const factor = options.factor ?? 1;
+  const system = options.system ?? "original";
+
+  const quantity = parseQuantity(ingredient.amount);
+  if (!quantity) return ingredient;
+
+  const scaled: ParsedQuantity = {
+    min: quantity.min * factor,
+    ...(quantity.max !== undefined && { max: quantity.max * factor }),
+  };
+
+  const unitKey = normalizeUnit(ingredient.unit);
+  if (!unitKey) {
+    if (factor === 1) return ingredient;
+    return { ...ingredient, amount: formatQuantity(scaled) };
+  }
+
+  const source = UNITS[unitKey];
+  if (factor === 1 && system === "original") return ingredient;
+
+  const targetSystem: "metric" | "us" =
+    system === "metric"
+      ? "metric"
+      : system === "imperial"
+        ? "us"
+        : source.system === "metric"
+          ? "metric"
+          : "us";
+
+  let dimension = source.dimension;
+  let base: ParsedQuantity = {
+    min: scaled.min * source.toBase,
+    ...(scaled.max !== undefined && { max: scaled.max * source.toBase }),
+  };
+
+  // Ingredient-aware volume <-> weight: metric cooks weigh flour, US cooks measure it in cups
+  const density = densityFor(ingredient.name);
+  if (density && system !== "original") {
+    const largest = base.max ?? base.min;
+    if (
+      system === "metric" &&
+      dimension === "volume" &&
+      density.weighInMetric &&
+      largest >= QUARTER_CUP_ML
+    ) {
+      dimension = "weight";
+      base = mapQuantity(base, (ml) => ml * density.gramsPerMl);
+    } else if (system === "imperial" && dimension === "weight" && density.weighInMetric) {
+      dimension = "volume";
+      base = mapQuantity(base, (grams) => grams / density.gramsPerMl);
+    }
+  }
+
+  const unit = pickUnit(base.min, dimension, targetSystem);
+  const converted = mapQuantity(base, (value) => value / UNITS[unit].toBase);
+
+  const amount = formatQuantity(converted, unit);
+  return { ...ingredient, amount, unit: displayUnit(unit, amount) };
+}
+
+function mapQuantity(
+  quantity: ParsedQuantity,
+  fn: (value: number) => number
+): ParsedQuantity {
+  return {
+    min: fn(quantity.min),
+    ...(quantity.max !== undefined && { max: fn(quantity.max) }),
+  };
+}
+
+// Scale a whole recipe to a target serving count and unit system
+export function scaleRecipe<
+  T extends { servings: number; ingredients: RecipeIngredient[] },
+>(recipe: T, targetServings: number, system: UnitSystem = "original"): T {
+  const factor = recipe.servings > 0 ? targetServings / recipe.servings : 1;
+  return {
+    ...recipe,
+    servings: targetServings,
+    ingredients: recipe.ingredients.map((ingredient) =>
+      convertIngredient(ingredient, { factor, system })
+    ),
+  };
+}
+
+/**
+ * Add up amounts of the same ingredient, e.g. from several recipes. Volumes
+ * and weights are summed across units; count units are summed when the unit
+ * matches; anything unparseable ("to taste") is kept once as written. Returns
+ * one display string per incompatible group ("1 1/4 cups", "3 cloves").
+ */
+export function sumQuantities(entries: Array<{ amount: string; unit: string }>): string[] {
+  const measured = new Map<Dimension, { base: number; metricOnly: boolean }>();
+  const counted = new Map<string, { total: number; unit: string }>();
+  const unparsed = new Set<string>();
+
+  for (const entry of entries) {
+    const quantity = parseQuantity(entry.amount);
+    if (!quantity) {
+      const text = `${entry.amount} ${entry.unit}`.trim();
+      if (text) unparsed.add(text);
+      continue;
+    }
+    // Ranges are shopped for at their upper bound
+    const value = quantity.max ?? quantity.min;
+
+    const unitKey = normalizeUnit(entry.unit);
+    if (unitKey) {
+      const unit = UNITS[unitKey];
+      const current = measured.get(unit.dimension) ?? { base: 0, metricOnly: true };
+      measured.set(unit.dimension, {
+        base: current.base + value * unit.toBase,
+        metricOnly: current.metricOnly && unit.system === "metric",
+      });
+      continue;
+    }
+
+    const countKey = entry.unit.trim().toLowerCase().replace(/s$/, "");
+    const current = counted.get(countKey) ?? { total: 0, unit: entry.unit.trim() };
+    counted.set(countKey, { ...current, total: current.total + value });
+  }
+
+  const parts: string[] = [];
+  for (const [dimension, { base, metricOnly }] of measured) {
+    const unit = pickUnit(base, dimension, metricOnly ? "metric" : "us");
+    const amount = formatQuantity({ min: base / UNITS[unit].toBase }, unit);
+    parts.push(`${amount} ${displayUnit(unit, amount)}`);
+  }
+  for (const { total, unit } of counted.values()) {
+    parts.push(`${formatQuantity({ min: total })} ${unit}`.trim());
+  }
+  return [...parts, ...unparsed];
+}
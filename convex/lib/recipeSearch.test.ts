@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { rankRecipes, searchTerms, SearchableRecipe } from "./recipeSearch";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function recipe(overrides: Partial<SearchableRecipe> & { title: string }): SearchableRecipe {
+  return {
+    description: "",
+    ingredients: [],
+    dietaryTags: [],
+    isFavorite: false,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe("searchTerms", () => {
+  it("drops words about the request and singularizes the rest", () => {
+    expect(searchTerms("that lentil thing I saved last month")).toEqual(["lentil"]);
+    expect(searchTerms("Chickpeas & spinach")).toEqual(["chickpea", "spinach"]);
+  });
+});
+
+describe("rankRecipes", () => {
+  const soup = recipe({
+    title: "Red Lentil Soup",
+    ingredients: [{ name: "red lentils" }],
+    mealType: "Soup",
+    createdAt: 10 * DAY,
+  });
+  const curry = recipe({
+    title: "Chickpea Curry",
+    description: "Goes well with lentil dal",
+    isFavorite: true,
+    createdAt: 20 * DAY,
+  });
+  const salad = recipe({
+    title: "Greek Salad",
+    ingredients: [{ name: "feta" }],
+    createdAt: 30 * DAY,
+  });
+
+  it("ranks title matches above description matches and drops non-matches", () => {
+    expect(rankRecipes([curry, salad, soup], { query: "lentils" })).toEqual([soup, curry]);
+  });
+
+  it("lists newest first without a query", () => {
+    expect(rankRecipes([soup, salad, curry], {})).toEqual([salad, curry, soup]);
+  });
+
+  it("filters by favorites, meal type and saved date", () => {
+    expect(rankRecipes([soup, curry, salad], { favoritesOnly: true })).toEqual([curry]);
+    expect(rankRecipes([soup, curry, salad], { mealType: "soup" })).toEqual([soup]);
+    expect(
+      rankRecipes([soup, curry, salad], { savedAfter: 10 * DAY, savedBefore: 30 * DAY })
+    ).toEqual([curry, soup]);
+  });
+});
@@ -0,0 +1,84 @@
+// Recipe book search for the chat assistant: loose keyword matching over the
+// fields people remember a recipe by ("that lentil thing"), plus the filters
+// the model can fill in from the request ("my favorites", "last month").
+
+export interface SearchableRecipe {
+  title: string;
+  description: string;
+  ingredients: Array<{ name: string }>;
+  dietaryTags: string[];
+  mealType?: string;
+  proteinType?: string;
+  isFavorite: boolean;
+  createdAt: number;
+}
+
+export interface RecipeSearchOptions {
+  query?: string;
+  favoritesOnly?: boolean;
+  mealType?: string;
+  // Saved at or after / before these timestamps
+  savedAfter?: number;
+  savedBefore?: number;
+}
+
+// Words that describe the request rather than the recipe
+const FILLER_WORDS = new Set([
+  "the", "and", "that", "this", "thing", "stuff", "with", "for", "from",
+  "recipe", "recipes", "dish", "one", "some", "saved", "made", "my", "what",
+  "was", "last", "week", "month",
+]);
+
+export function searchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3 && !FILLER_WORDS.has(word))
+    // "lentils" should find "lentil soup"
+    .map((word) => (word.length > 4 && word.endsWith("s") ? word.slice(0, -1) : word));
+  return [...new Set(terms)];
+}
+
+function scoreRecipe(recipe: SearchableRecipe, terms: string[]): number {
+  const title = recipe.title.toLowerCase();
+  const description = recipe.description.toLowerCase();
+  const ingredients = recipe.ingredients.map((i) => i.name.toLowerCase());
+  const labels = [...recipe.dietaryTags, recipe.mealType ?? "", recipe.proteinType ?? ""].map(
+    (label) => label.toLowerCase()
+  );
+
+  let score = 0;
+  for (const term of terms) {
+    if (title.includes(term)) score += 3;
+    if (ingredients.some((name) => name.includes(term))) score += 2;
+    if (labels.some((label) => label.includes(term))) score += 2;
+    if (description.includes(term)) score += 1;
+  }
+  return score;
+}
+
+// Matching recipes, best first; newest first when there's nothing to rank by
+export function rankRecipes<R extends SearchableRecipe>(
+  recipes: R[],
+  options: RecipeSearchOptions
+): R[] {
+  const mealType = options.mealType?.toLowerCase();
+  const filtered = recipes.filter(
+    (r) =>
+      (!options.favoritesOnly || r.isFavorite) &&
+      (!mealType || r.mealType?.toLowerCase() === mealType) &&
+      (options.savedAfter === undefined || r.createdAt >= options.savedAfter) &&
+      (options.savedBefore === undefined || r.createdAt < options.savedBefore)
+  );
+
+  const terms = searchTerms(options.query ?? "");
+  if (terms.length === 0) {
+    return filtered.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  return filtered
+    .map((recipe) => ({ recipe, score: scoreRecipe(recipe, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.recipe.createdAt - a.recipe.createdAt)
+    .map(({ recipe }) => recipe);
+}
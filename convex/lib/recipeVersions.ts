@@ -0,0 +1,122 @@
+import { Infer } from "convex/values";
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { recipeContent } from "../schema";
+
+export type RecipeContent = Infer<typeof recipeContent>;
+
+// Who wrote a revision's content, and how it came about
+export interface RecipeRevision {
+  author: Doc<"recipeVersions">["author"];
+  userId: Id<"users">;
+  change: Doc<"recipeVersions">["change"];
+  restoredFromVersion?: number;
+  sourceMessageId?: Id<"messages">;
+}
+
+// Oldest versions beyond this are dropped (the first one is always kept)
+export const MAX_RECIPE_VERSIONS = 50;
+
+export function snapshotRecipe(recipe: RecipeContent): RecipeContent {
+  return {
+    title: recipe.title,
+    description: recipe.description,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    servings: recipe.servings,
+    dietaryTags: recipe.dietaryTags,
+    mealType: recipe.mealType,
+    proteinType: recipe.proteinType,
+  };
+}
+
+export async function latestRecipeVersion(ctx: QueryCtx, recipeId: Id<"recipes">) {
+  return await ctx.db
+    .query("recipeVersions")
+    .withIndex("by_recipeId_version", (q) => q.eq("recipeId", recipeId))
+    .order("desc")
+    .first();
+}
+
+/**
+ * Record the recipe's current content as its next version. Recipes saved
+ * before versioning have no history, so their first revision also records
+ * what they looked like until then as version 1.
+ */
+export async function recordRecipeVersion(
+  ctx: MutationCtx,
+  recipe: Doc<"recipes">,
+  revision: RecipeRevision
+) {
+  const latest = await latestRecipeVersion(ctx, recipe._id);
+  await ctx.db.insert("recipeVersions", {
+    recipeId: recipe._id,
+    version: (latest?.version ?? 0) + 1,
+    content: snapshotRecipe(recipe),
+    ...revision,
+    createdAt: Date.now(),
+  });
+  await pruneRecipeVersions(ctx, recipe._id);
+}
+
+// Same JSON for equal values regardless of key order or undefined fields
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) =>
+    inner && typeof inner === "object" && !Array.isArray(inner)
+      ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+      : inner
+  );
+}
+
+function sameRecipeContent(a: RecipeContent, b: RecipeContent): boolean {
+  return canonicalJson(snapshotRecipe(a)) === canonicalJson(snapshotRecipe(b));
+}
+
+/**
+ * Apply a content patch to a recipe, keeping its history. A patch that
+ * leaves the content as it was is skipped, so the history only lists real
+ * changes.
+ */
+export async function reviseRecipe(
+  ctx: MutationCtx,
+  recipe: Doc<"recipes">,
+  patch: Partial<Doc<"recipes">>,
+  revision: RecipeRevision
+) {
+  if (sameRecipeContent(recipe, { ...recipe, ...patch })) return;
+
+  if (!(await latestRecipeVersion(ctx, recipe._id))) {
+    await recordRecipeVersion(ctx, recipe, {
+      author: recipe.source === "user_created" ? "user" : "ai",
+      userId: recipe.userId,
+      change: "created",
+    });
+  }
+  await ctx.db.patch(recipe._id, patch);
+  const revised = (await ctx.db.get(recipe._id))!;
+  await recordRecipeVersion(ctx, revised, revision);
+}
+
+async function pruneRecipeVersions(ctx: MutationCtx, recipeId: Id<"recipes">) {
+  const versions = await ctx.db
+    .query("recipeVersions")
+    .withIndex("by_recipeId_version", (q) => q.eq("recipeId", recipeId))
+    .order("desc")
+    .take(MAX_RECIPE_VERSIONS + 10);
+  // Keep version 1 so the history still shows where the recipe started
+  for (const version of versions.slice(MAX_RECIPE_VERSIONS)) {
+    if (version.version !== 1) await ctx.db.delete(version._id);
+  }
+}
+
+export async function deleteRecipeVersions(ctx: MutationCtx, recipeId: Id<"recipes">) {
+  const versions = await ctx.db
+    .query("recipeVersions")
+    .withIndex("by_recipeId_version", (q) => q.eq("recipeId", recipeId))
+    .collect();
+  for (const version of versions) {
+    await ctx.db.delete(version._id);
+  }
+}
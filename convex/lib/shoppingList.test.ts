@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  aisleFor,
+  buildShoppingListItems,
+  normalizeIngredientName,
+} from "./shoppingList";
+
+describe("normalizeIngredientName", () => {
+  it("merges plurals, descriptors and notes", () => {
+    expect(normalizeIngredientName("Fresh Tomatoes")).toBe("tomato");
+    expect(normalizeIngredientName("large eggs (room temperature)")).toBe("egg");
+    expect(normalizeIngredientName("blueberries")).toBe("blueberry");
+    expect(normalizeIngredientName("couscous")).toBe("couscous");
+  });
+});
+
+describe("aisleFor", () => {
+  it.each([
+    ["yellow onion", "Produce"],
+    ["bell peppers", "Produce"],
+    ["chicken thighs", "Meat & Seafood"],
+    ["peanut butter", "Pantry"],
+    ["unsalted butter", "Dairy & Eggs"],
+    ["green beans", "Produce"],
+    ["black pepper", "Spices & Seasonings"],
+    ["chicken broth", "Pantry"],
+    ["frozen peas", "Frozen"],
+    ["saffron threads", "Other"],
+  ])("puts %s in %s", (name, aisle) => {
+    expect(aisleFor(name)).toBe(aisle);
+  });
+});
+
+describe("buildShoppingListItems", () => {
+  it("merges ingredients across recipes and sums compatible units", () => {
+    const items = buildShoppingListItems([
+      [
+        { name: "flour", amount: "1", unit: "cup" },
+        { name: "garlic", amount: "2", unit: "cloves" },
+        { name: "salt", amount: "to taste", unit: "" },
+      ],
+      [
+        { name: "Flour", amount: "2", unit: "tbsp" },
+        { name: "garlic", amount: "1", unit: "clove" },
+        { name: "garlic", amount: "1", unit: "tsp" },
+        { name: "salt", amount: "1", unit: "tsp" },
+      ],
+    ]);
+
+    const byKey = Object.fromEntries(items.map((item) => [item.key, item]));
+    expect(byKey.flour.quantity).toBe("1 1/8 cups");
+    expect(byKey.garlic.quantity).toBe("1 tsp + 3 cloves");
+    expect(byKey.salt.quantity).toBe("1 tsp + to taste");
+    expect(byKey.salt.isStaple).toBe(true);
+    expect(byKey.garlic.isStaple).toBe(false);
+  });
+
+  it("sorts items by aisle", () => {
+    const items = buildShoppingListItems([
+      [
+        { name: "salt", amount: "1", unit: "tsp" },
+        { name: "milk", amount: "1", unit: "cup" },
+        { name: "onion", amount: "1", unit: "" },
+      ],
+    ]);
+
+    expect(items.map((item) => item.aisle)).toEqual([
+      "Produce",
+      "Dairy & Eggs",
+      "Spices & Seasonings",
+    ]);
+  });
+});
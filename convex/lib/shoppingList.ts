@@ -0,0 +1,169 @@
+// Shopping list generation: merge ingredients across recipes, sum compatible
+// quantities and sort everything into store aisles.
+import { RecipeIngredient, sumQuantities } from "./recipeScaling";
+
+export const AISLES = [
+  "Produce",
+  "Meat & Seafood",
+  "Dairy & Eggs",
+  "Bakery",
+  "Pantry",
+  "Spices & Seasonings",
+  "Frozen",
+  "Beverages",
+  "Other",
+] as const;
+
+export type Aisle = (typeof AISLES)[number];
+
+// Checked in order, so more specific keywords come first ("peanut butter" before
+// "butter"). Keywords are singular; names are normalized before matching.
+const AISLE_KEYWORDS: Array<[Aisle, string[]]> = [
+  ["Frozen", ["frozen", "ice cream"]],
+  ["Produce", [
+    "green bean", "bell pepper", "jalapeno", "chili pepper", "poblano",
+    "lemon juice", "lime juice",
+  ]],
+  ["Pantry", [
+    "peanut butter", "almond butter", "coconut milk", "tomato paste",
+    "tomato sauce", "canned", "broth", "stock", "flour", "sugar", "rice",
+    "pasta", "spaghetti", "noodle", "oat", "quinoa", "lentil", "bean",
+    "chickpea", "oil", "vinegar", "soy sauce", "honey", "maple syrup",
+    "baking soda", "baking powder", "yeast", "cornstarch", "cocoa",
+    "chocolate", "nut", "almond", "walnut", "pecan", "cashew", "peanut",
+    "breadcrumb", "panko", "mustard", "ketchup", "mayonnaise", "sauce",
+    "vanilla", "raisin",
+  ]],
+  ["Spices & Seasonings", [
+    "salt", "pepper flake", "pepper", "peppercorn", "cumin",
+    "paprika", "oregano", "thyme", "cinnamon", "nutmeg", "turmeric",
+    "chili powder", "curry powder", "garlic powder", "onion powder",
+    "bay leaf", "cayenne", "seasoning", "spice", "ground clove",
+  ]],
+  ["Dairy & Eggs", [
+    "milk", "butter", "cheese", "cream", "yogurt", "egg", "parmesan",
+    "mozzarella", "cheddar", "feta", "ricotta", "ghee",
+  ]],
+  ["Meat & Seafood", [
+    "chicken", "beef", "pork", "bacon", "sausage", "turkey", "lamb", "ham",
+    "steak", "ground meat", "salmon", "tuna", "cod", "shrimp", "prawn",
+    "fish", "crab", "scallop", "tofu", "tempeh",
+  ]],
+  ["Bakery", ["bread", "bun", "tortilla", "pita", "baguette", "roll", "naan", "croissant"]],
+  ["Beverages", ["wine", "beer", "juice", "coffee", "tea", "soda"]],
+  ["Produce", [
+    "onion", "garlic", "tomato", "potato", "carrot", "celery",
+    "lettuce", "spinach", "kale", "cabbage", "broccoli", "cauliflower",
+    "zucchini", "squash", "cucumber", "mushroom", "avocado", "lemon", "lime",
+    "orange", "apple", "banana", "berry", "ginger", "herb", "basil",
+    "parsley", "cilantro", "mint", "dill", "rosemary", "scallion", "shallot",
+    "leek", "corn", "pea", "fruit", "vegetable", "green",
+  ]],
+];
+
+// Things most kitchens already have; the list can hide these
+const PANTRY_STAPLES = [
+  "salt", "black pepper", "pepper", "water", "olive oil", "vegetable oil",
+  "oil", "sugar", "flour", "all-purpose flour", "baking soda",
+  "baking powder", "ice",
+];
+
+// Words that don't change what you buy
+const DESCRIPTORS = /\b(?:fresh|freshly|large|small|medium|ripe|organic|extra|boneless|skinless|whole|raw)\b/g;
+
+export interface ShoppingListItem {
+  key: string;
+  name: string;
+  quantity: string;
+  aisle: string;
+  checked: boolean;
+  isStaple: boolean;
+  isManual: boolean;
+}
+
+function singularize(word: string): string {
+  if (/(?:ss|us)$/.test(word)) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+// Canonical form used to merge "Tomatoes" with "fresh tomato"
+export function normalizeIngredientName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .replace(DESCRIPTORS, " ")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const words = cleaned.split(" ");
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(" ");
+}
+
+function matchesKeyword(name: string, keyword: string): boolean {
+  return new RegExp(`\\b${keyword}\\b`).test(name);
+}
+
+export function aisleFor(name: string): Aisle {
+  const normalized = normalizeIngredientName(name);
+  for (const [aisle, keywords] of AISLE_KEYWORDS) {
+    if (keywords.some((keyword) => matchesKeyword(normalized, keyword))) {
+      return aisle;
+    }
+  }
+  return "Other";
+}
+
+export function isPantryStaple(name: string): boolean {
+  return PANTRY_STAPLES.includes(normalizeIngredientName(name));
+}
+
+/**
+ * Build shopping list items from the ingredients of one or more recipes.
+ * Duplicates (by normalized name) are merged and their quantities summed
+ * where the units are compatible. Items come back sorted by aisle, then name.
+ */
+export function buildShoppingListItems(
+  ingredientLists: RecipeIngredient[][]
+): ShoppingListItem[] {
+  const groups = new Map<string, { name: string; entries: RecipeIngredient[] }>();
+
+  for (const ingredients of ingredientLists) {
+    for (const ingredient of ingredients) {
+      const key = normalizeIngredientName(ingredient.name);
+      if (!key) continue;
+      const group = groups.get(key) ?? { name: ingredient.name.trim(), entries: [] };
+      group.entries.push(ingredient);
+      groups.set(key, group);
+    }
+  }
+
+  const items = [...groups.entries()].map(([key, group]) => ({
+    key,
+    name: group.name,
+    quantity: sumQuantities(group.entries).join(" + "),
+    aisle: aisleFor(group.name),
+    checked: false,
+    isStaple: isPantryStaple(group.name),
+    isManual: false,
+  }));
+
+  return sortShoppingListItems(items);
+}
+
+export function sortShoppingListItems<T extends { aisle: string; name: string }>(
+  items: T[]
+): T[] {
+  const aisleIndex = (aisle: string) => {
+    const index = AISLES.indexOf(aisle as Aisle);
+    return index === -1 ? AISLES.length : index;
+  };
+  return [...items].sort(
+    (a, b) =>
+      aisleIndex(a.aisle) - aisleIndex(b.aisle) ||
+      a.name.localeCompare(b.name)
+  );
+}
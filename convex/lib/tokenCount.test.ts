@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  contextWindowFor,
+  estimateTokens,
+  promptBudgetFor,
+  tokenCounterFor,
+} from "./tokenCount";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("tokenCounterFor", () => {
+  // Reference counts from OpenAI's tiktoken
+  it("counts with the model's own tokenizer", () => {
+    const gpt4 = tokenCounterFor("gpt-4-0613");
+    const gpt4o = tokenCounterFor("gpt-4o-mini");
+
+    expect(gpt4("tiktoken is great!")).toBe(6);
+    expect(gpt4o("tiktoken is great!")).toBe(6);
+    expect(gpt4("寿司を作る")).toBe(6);
+    expect(gpt4o("寿司を作る")).toBe(5);
+    expect(gpt4("Worcestershire sauce, 1 1/2 cups")).toBe(13);
+    expect(gpt4o("Worcestershire sauce, 1 1/2 cups")).toBe(12);
+    expect(gpt4o("")).toBe(0);
+  });
+
+  it("treats special-token text in chat as plain text", () => {
+    expect(tokenCounterFor("gpt-4o")("<|endoftext|>")).toBeGreaterThan(1);
+  });
+
+  it("falls back to an estimate for unknown local models", () => {
+    expect(tokenCounterFor("llama3.1:8b")).toBe(estimateTokens);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts common words as one token and long ones as several", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("Preheat the oven")).toBe(3);
+    expect(estimateTokens("Worcestershire")).toBeGreaterThan(2);
+    expect(estimateTokens("1500 g")).toBe(3);
+    expect(estimateTokens("寿司を作る")).toBe(5);
+  });
+});
+
+describe("promptBudgetFor", () => {
+  it("sizes budgets per model and caps large windows", () => {
+    expect(contextWindowFor("gpt-4o-mini")).toBe(128_000);
+    expect(contextWindowFor("gpt-4-0613")).toBe(8_192);
+    expect(contextWindowFor("llama3.1:8b")).toBe(8_192);
+    expect(promptBudgetFor("gpt-4", 3_000)).toBe(5_192);
+    expect(promptBudgetFor("gpt-4o", 3_000)).toBe(16_000);
+  });
+
+  it("honors a configured context window", () => {
+    vi.stubEnv("LLM_CONTEXT_WINDOW", "32768");
+    expect(contextWindowFor("llama3.1:8b")).toBe(32_768);
+  });
+});
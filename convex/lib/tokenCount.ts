@@ -0,0 +1,135 @@
+// Token counting for prompt budgeting. OpenAI models are counted with their
+// own BPE tokenizer (o200k_base for the GPT-4o generation, cl100k_base for
+// GPT-4 and 3.5). Local models behind the openai-compatible provider use
+// vocabularies we don't have, so their text is estimated instead: split the
+// way the GPT-4 family pre-splits it, then each piece costed from its
+// length. The estimate stays within a few percent for English prose and
+// errs high elsewhere, which is the safe direction for a budget.
+
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+
+export type TokenCounter = (text: string) => number;
+
+const PIECE_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+/gu;
+
+const ASCII_LETTER = /[A-Za-z]/;
+
+function pieceTokens(piece: string): number {
+  const word = piece.trimStart();
+  if (word === "") return 1; // whitespace run
+
+  if (/\p{L}/u.test(word)) {
+    let ascii = 0;
+    let other = 0;
+    for (const char of word) {
+      if (ASCII_LETTER.test(char)) ascii++;
+      else other++;
+    }
+    // Common words up to ~7 letters are in the vocabulary whole
+    const asciiTokens = ascii === 0 ? 0 : ascii <= 7 ? 1 : Math.ceil(ascii / 4);
+    return Math.max(1, asciiTokens + other);
+  }
+
+  // Digits come pre-split into groups of three; symbols pair up
+  if (/^\p{N}+$/u.test(word)) return 1;
+  return Math.ceil(word.length / 2);
+}
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  let tokens = 0;
+  for (const piece of text.match(PIECE_PATTERN) ?? []) {
+    tokens += pieceTokens(piece);
+  }
+  return tokens;
+}
+
+const ENCODINGS = { cl100k_base, o200k_base };
+type Encoding = keyof typeof ENCODINGS;
+
+// Tokenizers by model name prefix; longest matching prefix wins
+const MODEL_ENCODINGS: Record<string, Encoding> = {
+  "gpt-4o": "o200k_base",
+  "gpt-4.1": "o200k_base",
+  "gpt-5": "o200k_base",
+  o1: "o200k_base",
+  o3: "o200k_base",
+  o4: "o200k_base",
+  "gpt-4": "cl100k_base",
+  "gpt-3.5-turbo": "cl100k_base",
+};
+
+// Loading a vocabulary takes the better part of a second, so each is built
+// on first use and then reused
+const tokenizers = new Map<Encoding, Tiktoken>();
+
+function longestPrefixMatch<T>(table: Record<string, T>, model: string): T | undefined {
+  const prefix = Object.keys(table)
+    .filter((p) => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : table[prefix];
+}
+
+export function tokenCounterFor(model: string): TokenCounter {
+  const encoding = longestPrefixMatch(MODEL_ENCODINGS, model);
+  if (!encoding) return estimateTokens;
+
+  return (text) => {
+    if (!text) return 0;
+    let tokenizer = tokenizers.get(encoding);
+    if (!tokenizer) {
+      tokenizer = new Tiktoken(ENCODINGS[encoding]);
+      tokenizers.set(encoding, tokenizer);
+    }
+    // Chat text is never meant to contain special tokens; count them as text
+    return tokenizer.encode(text, [], []).length;
+  };
+}
+
+// Chat formatting adds a few tokens around every message
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+// ...and a few more to prime the reply
+export const REPLY_PRIMING_TOKENS = 3;
+
+export function countMessageTokens(
+  content: string,
+  countTokens: TokenCounter = estimateTokens
+): number {
+  return countTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// Context windows by model name prefix; longest matching prefix wins
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128_000,
+  "gpt-4.1": 1_000_000,
+  "gpt-4-turbo": 128_000,
+  "gpt-4": 8_192,
+  "gpt-3.5-turbo": 16_385,
+};
+
+// Local models behind the openai-compatible provider are often run at 8k
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+// Large windows are a ceiling, not a target: every prompt token is paid for
+// on every turn, so chat context is capped well below them
+export const MAX_PROMPT_TOKENS = 16_000;
+
+export function contextWindowFor(model: string): number {
+  const configured = Number(process.env.LLM_CONTEXT_WINDOW);
+  if (Number.isInteger(configured) && configured > 0) return configured;
+
+  return longestPrefixMatch(MODEL_CONTEXT_WINDOWS, model) ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens available for the prompt (system prompt plus history) on a model,
+ * after setting aside `reservedTokens` for the reply, tool definitions and
+ * tool results.
+ */
+export function promptBudgetFor(model: string, reservedTokens: number): number {
+  const window = contextWindowFor(model);
+  return Math.max(0, Math.min(window - reservedTokens, MAX_PROMPT_TOKENS));
+}
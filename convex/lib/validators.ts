@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { createError } from "./errors";
 
 export const MAX_PROMPT_LENGTH = 10000;
 export const MAX_TITLE_LENGTH = 200;
@@ -17,28 +18,45 @@ const FORBIDDEN_PATTERNS = [
 
 export function validatePrompt(prompt: string): string {
   if (!prompt || typeof prompt !== "string") {
-    throw new Error("Prompt is required");
+    throw createError("VALIDATION", "Prompt is required");
   }
 
   const trimmed = prompt.trim();
 
   if (trimmed.length === 0) {
-    throw new Error("Prompt cannot be empty");
+    throw createError("VALIDATION", "Prompt cannot be empty");
   }
 
   if (trimmed.length > MAX_PROMPT_LENGTH) {
-    throw new Error(`Prompt must be under ${MAX_PROMPT_LENGTH} characters`);
+    throw createError(
+      "VALIDATION",
+      `Prompt must be under ${MAX_PROMPT_LENGTH} characters`
+    );
   }
 
   for (const pattern of FORBIDDEN_PATTERNS) {
     if (pattern.test(trimmed)) {
-      throw new Error("Invalid prompt content");
+      throw createError("VALIDATION", "Invalid prompt content");
     }
   }
 
   return trimmed;
 }
 
+// Parse with a zod schema, surfacing the first issue as a VALIDATION AppError
+export function parseOrThrow<S extends z.ZodTypeAny>(
+  schema: S,
+  data: unknown
+): z.output<S> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    throw createError("VALIDATION", `${field}${issue.message}`);
+  }
+  return result.data;
+}
+
 // Zod schemas for complex validation
 export const IngredientSchema = z.object({
   name: z.string().min(1).max(100),
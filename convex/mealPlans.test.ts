@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { api, internal } from "./_generated/api";
+import { createUser, setupTest } from "./test.setup";
+
+const recipe = (title: string, ingredients: Array<[string, string, string]>) => ({
+  title,
+  description: "",
+  ingredients: ingredients.map(([amount, unit, name]) => ({ name, amount, unit })),
+  instructions: ["Cook"],
+  servings: 2,
+  dietaryTags: [],
+  source: "user_created" as const,
+});
+
+const WEEK = { startDate: "2025-03-03", endDate: "2025-03-09" };
+
+describe("mealPlans", () => {
+  it("adds, moves and removes entries", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const tacos = await as.mutation(api.recipes.create, recipe("Tacos", [["1", "lb", "beef"]]));
+
+    const id = await as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-06",
+      slot: "dinner",
+      recipeId: tacos,
+    });
+    await as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-04",
+      slot: "lunch",
+      title: "Leftovers",
+    });
+
+    let entries = await as.query(api.mealPlans.listRange, WEEK);
+    expect(entries.map((e) => [e.date, e.slot, e.title])).toEqual([
+      ["2025-03-04", "lunch", "Leftovers"],
+      ["2025-03-06", "dinner", "Tacos"],
+    ]);
+
+    await as.mutation(api.mealPlans.moveEntry, { id, date: "2025-03-07", slot: "dinner" });
+    entries = await as.query(api.mealPlans.listRange, WEEK);
+    expect(entries.find((e) => e._id === id)?.date).toBe("2025-03-07");
+
+    await as.mutation(api.mealPlans.removeEntry, { id });
+    entries = await as.query(api.mealPlans.listRange, WEEK);
+    expect(entries).toHaveLength(1);
+  });
+
+  it("flags entries whose recipe was deleted", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const tacos = await as.mutation(api.recipes.create, recipe("Tacos", [["1", "lb", "beef"]]));
+    await as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-06",
+      slot: "dinner",
+      recipeId: tacos,
+    });
+    await as.mutation(api.recipes.remove, { id: tacos });
+
+    const [entry] = await as.query(api.mealPlans.listRange, WEEK);
+    expect(entry).toMatchObject({ title: "Tacos", recipeMissing: true });
+  });
+
+  it("validates dates and meal names", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+
+    await expect(
+      as.mutation(api.mealPlans.addEntry, { date: "Thursday", slot: "dinner", title: "Pizza" })
+    ).rejects.toThrow(/VALIDATION_ERROR/);
+    await expect(
+      as.mutation(api.mealPlans.addEntry, { date: "2025-03-06", slot: "dinner", title: "  " })
+    ).rejects.toThrow(/VALIDATION_ERROR/);
+  });
+
+  it("keeps plans private to their owner", async () => {
+    const t = setupTest();
+    const alice = await createUser(t, "Alice");
+    const bob = await createUser(t, "Bob");
+    const tacos = await alice.as.mutation(
+      api.recipes.create,
+      recipe("Tacos", [["1", "lb", "beef"]])
+    );
+    const id = await alice.as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-06",
+      slot: "dinner",
+      title: "Pizza",
+    });
+
+    await expect(
+      bob.as.mutation(api.mealPlans.addEntry, {
+        date: "2025-03-06",
+        slot: "dinner",
+        recipeId: tacos,
+      })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(bob.as.mutation(api.mealPlans.removeEntry, { id })).rejects.toThrow(
+      /FORBIDDEN/
+    );
+    expect(await bob.as.query(api.mealPlans.listRange, WEEK)).toEqual([]);
+  });
+
+  it("summarizes a slot for the chat tool", async () => {
+    const t = setupTest();
+    const { userId, as } = await createUser(t);
+    const tacos = await as.mutation(api.recipes.create, recipe("Tacos", [["1", "lb", "beef"]]));
+    await as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-06",
+      slot: "dinner",
+      recipeId: tacos,
+      servings: 4,
+    });
+    await as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-06",
+      slot: "lunch",
+      title: "Salad",
+    });
+
+    const plan = await t.query(internal.mealPlans.getPlanForTool, {
+      userId,
+      startDate: "2025-03-06",
+      endDate: "2025-03-06",
+      slot: "dinner",
+    });
+    expect(plan).toEqual([
+      {
+        date: "2025-03-06",
+        weekday: "Thursday",
+        slot: "dinner",
+        title: "Tacos",
+        servings: 4,
+        recipe: {
+          description: "",
+          prepTime: undefined,
+          cookTime: undefined,
+          ingredients: ["beef"],
+        },
+      },
+    ]);
+  });
+
+  it("builds a shopping list from the week's planned recipes", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const tacos = await as.mutation(
+      api.recipes.create,
+      recipe("Tacos", [["1", "lb", "beef"], ["1", "", "onion"]])
+    );
+    const soup = await as.mutation(api.recipes.create, recipe("Soup", [["2", "", "onions"]]));
+
+    await as.mutation(api.mealPlans.addEntry, {
+      date: "2025-03-04",
+      slot: "dinner",
+      recipeId: tacos,
+      servings: 4,
+    });
+    await as.mutation(api.mealPlans.addEntry, { date: "2025-03-05", slot: "lunch", recipeId: soup });
+    await as.mutation(api.mealPlans.addEntry, { date: "2025-03-06", slot: "dinner", title: "Pizza night" });
+    // Outside the week
+    await as.mutation(api.mealPlans.addEntry, { date: "2025-03-10", slot: "dinner", recipeId: soup });
+
+    const id = await as.mutation(api.shoppingLists.createFromMealPlan, WEEK);
+    const list = await as.query(api.shoppingLists.get, { id });
+
+    expect(list.name).toBe("Meal plan 2025-03-03 to 2025-03-09");
+    expect(list.recipeIds).toEqual([tacos, soup]);
+    expect(list.items.map((i) => [i.name, i.quantity])).toEqual([
+      ["onion", "4"],
+      ["beef", "2 lb"],
+    ]);
+  });
+
+  it("refuses a shopping list when nothing with a recipe is planned", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    await as.mutation(api.mealPlans.addEntry, { date: "2025-03-06", slot: "dinner", title: "Takeout" });
+
+    await expect(
+      as.mutation(api.shoppingLists.createFromMealPlan, WEEK)
+    ).rejects.toThrow(/VALIDATION_ERROR/);
+  });
+});
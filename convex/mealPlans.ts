@@ -0,0 +1,199 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalQuery,
+  QueryCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  DataScope,
+  getDataScope,
+  requireAccess,
+  requireAuth,
+  scopeFields,
+} from "./lib/auth";
+import { createError } from "./lib/errors";
+import {
+  getPlanEntries,
+  isPlanDate,
+  validatePlanRange,
+  weekdayName,
+} from "./lib/mealPlanning";
+
+const slotValidator = v.union(
+  v.literal("breakfast"),
+  v.literal("lunch"),
+  v.literal("dinner"),
+  v.literal("snack")
+);
+
+const MAX_ENTRIES_PER_SLOT = 5;
+
+async function countSlotEntries(
+  ctx: QueryCtx,
+  scope: DataScope,
+  date: string,
+  slot: Doc<"mealPlans">["slot"]
+) {
+  const entries = await getPlanEntries(ctx, scope, date, date);
+  return entries.filter((e) => e.slot === slot).length;
+}
+
+export const listRange = query({
+  args: {
+    startDate: v.string(),
+    endDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    validatePlanRange(args.startDate, args.endDate);
+
+    const scope = await getDataScope(ctx, userId);
+    const entries = await getPlanEntries(ctx, scope, args.startDate, args.endDate);
+
+    // Show the recipe's current title; flag entries whose recipe was deleted
+    return await Promise.all(
+      entries.map(async (entry) => {
+        if (!entry.recipeId) return { ...entry, recipeMissing: false };
+        const recipe = await ctx.db.get(entry.recipeId);
+        return {
+          ...entry,
+          title: recipe?.title ?? entry.title,
+          recipeMissing: !recipe,
+        };
+      })
+    );
+  },
+});
+
+export const addEntry = mutation({
+  args: {
+    date: v.string(),
+    slot: slotValidator,
+    recipeId: v.optional(v.id("recipes")),
+    title: v.optional(v.string()),
+    servings: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    if (!isPlanDate(args.date)) {
+      throw createError("VALIDATION", "Date must be in YYYY-MM-DD format");
+    }
+    if (
+      args.servings !== undefined &&
+      (!Number.isInteger(args.servings) || args.servings < 1 || args.servings > 100)
+    ) {
+      throw createError("VALIDATION", "Servings must be between 1 and 100");
+    }
+
+    let title = args.title?.trim() ?? "";
+    if (args.recipeId) {
+      const recipe = await ctx.db.get(args.recipeId);
+      if (!recipe) {
+        throw createError("NOT_FOUND", "Recipe not found");
+      }
+      await requireAccess(ctx, recipe, userId);
+      title = recipe.title;
+    }
+    if (!title || title.length > 200) {
+      throw createError("VALIDATION", "Meal name must be 1-200 characters");
+    }
+
+    const scope = await getDataScope(ctx, userId);
+    if ((await countSlotEntries(ctx, scope, args.date, args.slot)) >= MAX_ENTRIES_PER_SLOT) {
+      throw createError("VALIDATION", "This meal slot is full");
+    }
+
+    return await ctx.db.insert("mealPlans", {
+      ...scopeFields(scope),
+      date: args.date,
+      slot: args.slot,
+      recipeId: args.recipeId,
+      title,
+      servings: args.servings,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const moveEntry = mutation({
+  args: {
+    id: v.id("mealPlans"),
+    date: v.string(),
+    slot: slotValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const entry = await ctx.db.get(args.id);
+
+    if (!entry) {
+      throw createError("NOT_FOUND", "Meal plan entry not found");
+    }
+    await requireAccess(ctx, entry, userId);
+
+    if (!isPlanDate(args.date)) {
+      throw createError("VALIDATION", "Date must be in YYYY-MM-DD format");
+    }
+    if (entry.date === args.date && entry.slot === args.slot) return;
+
+    const scope = await getDataScope(ctx, userId);
+    if ((await countSlotEntries(ctx, scope, args.date, args.slot)) >= MAX_ENTRIES_PER_SLOT) {
+      throw createError("VALIDATION", "This meal slot is full");
+    }
+
+    await ctx.db.patch(args.id, { date: args.date, slot: args.slot });
+  },
+});
+
+export const removeEntry = mutation({
+  args: { id: v.id("mealPlans") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const entry = await ctx.db.get(args.id);
+
+    if (!entry) {
+      throw createError("NOT_FOUND", "Meal plan entry not found");
+    }
+    await requireAccess(ctx, entry, userId);
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Internal: Meal plan summary for the chat assistant's get_meal_plan tool
+export const getPlanForTool = internalQuery({
+  args: {
+    userId: v.id("users"),
+    startDate: v.string(),
+    endDate: v.string(),
+    slot: v.optional(slotValidator),
+  },
+  handler: async (ctx, args) => {
+    const scope = await getDataScope(ctx, args.userId);
+    const entries = await getPlanEntries(ctx, scope, args.startDate, args.endDate);
+
+    return await Promise.all(
+      entries
+        .filter((entry) => !args.slot || entry.slot === args.slot)
+        .map(async (entry) => {
+          const recipe = entry.recipeId ? await ctx.db.get(entry.recipeId) : null;
+          return {
+            date: entry.date,
+            weekday: weekdayName(entry.date),
+            slot: entry.slot,
+            title: recipe?.title ?? entry.title,
+            servings: entry.servings ?? recipe?.servings,
+            recipe: recipe
+              ? {
+                  description: recipe.description,
+                  prepTime: recipe.prepTime,
+                  cookTime: recipe.cookTime,
+                  ingredients: recipe.ingredients.map((i) => i.name),
+                }
+              : null,
+          };
+        })
+    );
+  },
+});
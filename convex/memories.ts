@@ -4,12 +4,45 @@ import {
   query,
   internalQuery,
   internalMutation,
+  MutationCtx,
+  QueryCtx,
 } from "./_generated/server";
-import { requireAuth } from "./lib/auth";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { requireAuth, getUserProfile } from "./lib/auth";
 import {
   sanitizeMemoryFact,
   escapeForPrompt,
 } from "./lib/memorySanitization";
+import {
+  factSignature,
+  isSuppressed,
+  matchesTombstone,
+} from "./lib/memoryTombstones";
+import {
+  compareFacts,
+  reconcileFact,
+  SAFETY_CATEGORIES,
+} from "./lib/memorySimilarity";
+import {
+  appliesTo,
+  expiryFromDays,
+  isExpired,
+  isTemporary,
+} from "./lib/memoryLifetime";
+import {
+  MemoryChange,
+  newMemoryChange,
+  recordMemoryEvent,
+  snapshotOf,
+} from "./lib/memoryEvents";
+import {
+  isConfirmedByUser,
+  isPendingConfirmationLive,
+  matchMemories,
+  MemoryToolAction,
+} from "./lib/memoryMatching";
+import { createError } from "./lib/errors";
 
 // Memory category type
 const memoryCategory = v.union(
@@ -21,7 +54,8 @@ const memoryCategory = v.union(
   v.literal("equipment")
 );
 
-// Priority order for context injection (allergies first = survives truncation)
+// Priority order for context injection; the chat trims its prompt from the
+// bottom of this list (see lib/contextAssembler), so allergies are never cut
 const CATEGORY_PRIORITY = [
   "allergy",
   "intolerance",
@@ -31,6 +65,287 @@ const CATEGORY_PRIORITY = [
   "preference",
 ] as const;
 
+// Memories saved before the review inbox have no status and count as approved
+const isApproved = (memory: Doc<"userMemories">) => memory.status !== "pending";
+
+// Prompt line for a memory, noting when a temporary fact stops applying
+function describeForPrompt(memory: Doc<"userMemories">) {
+  const notes = [];
+  if (memory.expiresAt !== undefined) {
+    notes.push(`until ${new Date(memory.expiresAt).toISOString().slice(0, 10)}`);
+  }
+  if (memory.scopeConversationId !== undefined) {
+    notes.push("this conversation only");
+  }
+  const fact = escapeForPrompt(memory.fact);
+  return notes.length > 0 ? `${fact} (${notes.join(", ")})` : fact;
+}
+
+const PROMPT_HEADINGS: Record<Doc<"userMemories">["category"], string> = {
+  allergy: "ALLERGIES (CRITICAL - NEVER INCLUDE)",
+  intolerance: "INTOLERANCES",
+  restriction: "DIETARY RESTRICTIONS",
+  equipment: "KITCHEN EQUIPMENT",
+  goal: "DIETARY GOALS",
+  preference: "PREFERENCES",
+};
+
+// Memories that apply to a chat right now
+async function getPromptMemories(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  conversationId: Id<"conversations"> | undefined
+) {
+  const now = Date.now();
+  return (
+    await ctx.db
+      .query("userMemories")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect()
+  ).filter((m) => isApproved(m) && appliesTo(m, conversationId, now));
+}
+
+// One prompt section per category with memories, in CATEGORY_PRIORITY order
+function buildMemoryContextSections(memories: Doc<"userMemories">[]) {
+  return CATEGORY_PRIORITY.flatMap((category) => {
+    const lines = memories
+      .filter((m) => m.category === category)
+      .map((m) => `  - ${describeForPrompt(m)}`);
+    return lines.length > 0
+      ? [{ category, text: `${PROMPT_HEADINGS[category]}:\n${lines.join("\n")}` }]
+      : [];
+  });
+}
+
+async function getTombstones(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("memoryTombstones")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+// Remember that the user removed (or replaced) this fact so compaction won't re-learn it
+async function addTombstone(
+  ctx: MutationCtx,
+  memory: Doc<"userMemories">,
+  reason: "deleted" | "overridden" | "rejected"
+) {
+  const signature = factSignature(memory.fact);
+  if (!signature) return;
+
+  const existing = await ctx.db
+    .query("memoryTombstones")
+    .withIndex("by_userId_signature", (q) =>
+      q.eq("userId", memory.userId).eq("signature", signature)
+    )
+    .first();
+  if (existing) return;
+
+  await ctx.db.insert("memoryTombstones", {
+    userId: memory.userId,
+    fact: memory.fact,
+    category: memory.category,
+    signature,
+    reason,
+    createdAt: Date.now(),
+  });
+}
+
+// An explicit "remember this" from the user lifts any matching tombstone
+async function clearMatchingTombstones(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  fact: string
+) {
+  for (const tombstone of await getTombstones(ctx, userId)) {
+    if (matchesTombstone(fact, tombstone.signature)) {
+      await ctx.db.delete(tombstone._id);
+    }
+  }
+}
+
+async function getUserMemories(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("userMemories")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+// Delete a memory along with any conflicts that reference it, and log it
+async function removeMemory(
+  ctx: MutationCtx,
+  memory: Doc<"userMemories">,
+  change: MemoryChange,
+  options: {
+    tombstone?: "deleted" | "overridden" | "rejected";
+    reason?: string;
+  } = {}
+) {
+  if (options.tombstone) {
+    await addTombstone(ctx, memory, options.tombstone);
+  }
+
+  const conflicts = [
+    ...(await ctx.db
+      .query("memoryConflicts")
+      .withIndex("by_memoryId", (q) => q.eq("memoryId", memory._id))
+      .collect()),
+    ...(await ctx.db
+      .query("memoryConflicts")
+      .withIndex("by_conflictingMemoryId", (q) =>
+        q.eq("conflictingMemoryId", memory._id)
+      )
+      .collect()),
+  ];
+  for (const conflict of conflicts) {
+    await ctx.db.delete(conflict._id);
+  }
+
+  await ctx.db.delete(memory._id);
+  await recordMemoryEvent(
+    ctx,
+    {
+      userId: memory.userId,
+      memoryId: memory._id,
+      action: "deleted",
+      before: memory,
+      reason: options.reason,
+    },
+    change
+  );
+}
+
+/**
+ * Store a fact the user has confirmed: facts it restates in more detail are
+ * folded into it, facts it reverses are replaced (outside the safety
+ * categories), and other contradictions are recorded for the user to settle.
+ * Passing `existingId` approves that (pending) memory instead of inserting.
+ */
+async function saveApprovedFact(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  memory: {
+    fact: string;
+    category: Doc<"userMemories">["category"];
+    sourceConversationId?: Id<"conversations">;
+    evidence?: Doc<"userMemories">["evidence"];
+    expiresAt?: number;
+    scopeConversationId?: Id<"conversations">;
+  },
+  change: MemoryChange,
+  existingId?: Id<"userMemories">
+) {
+  const now = Date.now();
+  const others = (await getUserMemories(ctx, userId)).filter(
+    (m) =>
+      m._id !== existingId && appliesTo(m, memory.scopeConversationId, now)
+  );
+  const plan = reconcileFact(
+    memory.fact,
+    memory.category,
+    others.filter(isApproved)
+  );
+
+  // A temporary fact sits on top of permanent ones instead of replacing them
+  if (isTemporary(memory)) {
+    plan.merges = [];
+    plan.supersedes = [];
+  }
+
+  if (plan.duplicate) {
+    const existing = existingId ? await ctx.db.get(existingId) : null;
+    if (existing) {
+      await removeMemory(ctx, existing, change, {
+        reason: `Already remembered as "${plan.duplicate.fact}"`,
+      });
+    }
+    return { ...plan, memoryId: plan.duplicate._id };
+  }
+
+  await clearMatchingTombstones(ctx, userId, memory.fact);
+
+  // Suggestions in the inbox that this fact already covers are settled too
+  for (const pending of others.filter((m) => !isApproved(m))) {
+    const relation = compareFacts(pending.fact, memory.fact);
+    if (
+      pending.category === memory.category &&
+      (relation === "same" || relation === "covered")
+    ) {
+      await removeMemory(ctx, pending, change, {
+        reason: `Covered by "${memory.fact}"`,
+      });
+    }
+  }
+
+  let memoryId: Id<"userMemories">;
+  const before = existingId ? await ctx.db.get(existingId) : null;
+  if (before) {
+    memoryId = before._id;
+    await ctx.db.patch(memoryId, {
+      fact: memory.fact,
+      category: memory.category,
+      status: "approved",
+    });
+    await recordMemoryEvent(
+      ctx,
+      {
+        userId,
+        memoryId,
+        action: "updated",
+        before,
+        after: { ...before, ...memory, status: "approved" },
+      },
+      change
+    );
+  } else {
+    memoryId = await ctx.db.insert("userMemories", {
+      userId,
+      fact: memory.fact,
+      category: memory.category,
+      confidence: "high",
+      extractedAt: Date.now(),
+      sourceConversationId: memory.sourceConversationId,
+      status: "approved",
+      evidence: memory.evidence,
+      expiresAt: memory.expiresAt,
+      scopeConversationId: memory.scopeConversationId,
+    });
+    await recordMemoryEvent(
+      ctx,
+      {
+        userId,
+        memoryId,
+        action: "added",
+        after: { ...memory, status: "approved" },
+      },
+      change
+    );
+  }
+
+  for (const merged of plan.merges) {
+    await removeMemory(ctx, merged, change, {
+      reason: `Merged into "${memory.fact}"`,
+    });
+  }
+  for (const superseded of plan.supersedes) {
+    await removeMemory(ctx, superseded, change, {
+      tombstone: "overridden",
+      reason: `Replaced by "${memory.fact}"`,
+    });
+  }
+  for (const { memory: conflicting, reason } of plan.conflicts) {
+    await ctx.db.insert("memoryConflicts", {
+      userId,
+      memoryId,
+      conflictingMemoryId: conflicting._id,
+      reason,
+      createdAt: Date.now(),
+    });
+  }
+
+  return { ...plan, memoryId };
+}
+
 // Get all memories for a user
 export const getMemories = query({
   args: {
@@ -39,19 +354,24 @@ export const getMemories = query({
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
 
+    const now = Date.now();
+    const visible = (m: Doc<"userMemories">) => isApproved(m) && !isExpired(m, now);
+
     if (args.category) {
-      return await ctx.db
+      const memories = await ctx.db
         .query("userMemories")
         .withIndex("by_userId_category", (q) =>
           q.eq("userId", userId).eq("category", args.category!)
         )
         .collect();
+      return memories.filter(visible);
     }
 
-    return await ctx.db
+    const memories = await ctx.db
       .query("userMemories")
       .withIndex("by_userId", (q) => q.eq("userId", userId))
       .collect();
+    return memories.filter(visible);
   },
 });
 
@@ -61,10 +381,13 @@ export const getMemoryContext = query({
   handler: async (ctx) => {
     const userId = await requireAuth(ctx);
 
-    const memories = await ctx.db
-      .query("userMemories")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .collect();
+    const now = Date.now();
+    const memories = (
+      await ctx.db
+        .query("userMemories")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect()
+    ).filter((m) => isApproved(m) && appliesTo(m, undefined, now));
 
     if (memories.length === 0) return "";
 
@@ -80,41 +403,41 @@ export const getMemoryContext = query({
     if (grouped.allergy.length > 0) {
       context += `ALLERGIES (CRITICAL - NEVER INCLUDE):\n`;
       context +=
-        grouped.allergy.map((m) => `  - ${escapeForPrompt(m.fact)}`).join("\n") +
+        grouped.allergy.map((m) => `  - ${describeForPrompt(m)}`).join("\n") +
         "\n\n";
     }
     if (grouped.intolerance.length > 0) {
       context += `INTOLERANCES (avoid, traces may be acceptable):\n`;
       context +=
         grouped.intolerance
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
+          .map((m) => `  - ${describeForPrompt(m)}`)
           .join("\n") + "\n\n";
     }
     if (grouped.restriction.length > 0) {
       context += `DIETARY RESTRICTIONS (hard limits):\n`;
       context +=
         grouped.restriction
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
+          .map((m) => `  - ${describeForPrompt(m)}`)
           .join("\n") + "\n\n";
     }
     if (grouped.equipment.length > 0) {
       context += `KITCHEN EQUIPMENT:\n`;
       context +=
         grouped.equipment
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
+          .map((m) => `  - ${describeForPrompt(m)}`)
           .join("\n") + "\n\n";
     }
     if (grouped.goal.length > 0) {
       context += `DIETARY GOALS:\n`;
       context +=
-        grouped.goal.map((m) => `  - ${escapeForPrompt(m.fact)}`).join("\n") +
+        grouped.goal.map((m) => `  - ${describeForPrompt(m)}`).join("\n") +
         "\n\n";
     }
     if (grouped.preference.length > 0) {
       context += `PREFERENCES:\n`;
       context +=
         grouped.preference
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
+          .map((m) => `  - ${describeForPrompt(m)}`)
           .join("\n") + "\n\n";
     }
 
@@ -122,77 +445,60 @@ export const getMemoryContext = query({
   },
 });
 
-// Internal query for memory compaction
+// Internal query for memory compaction and dietary checks (approved only by default).
+// With a conversation, facts scoped to other chats are left out.
 export const getMemoriesInternal = internalQuery({
-  args: { userId: v.id("users") },
+  args: {
+    userId: v.id("users"),
+    includePending: v.optional(v.boolean()),
+    conversationId: v.optional(v.id("conversations")),
+  },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const now = Date.now();
+    const memories = await ctx.db
       .query("userMemories")
       .withIndex("by_userId", (q) => q.eq("userId", args.userId))
       .collect();
+    return memories.filter(
+      (m) =>
+        (args.includePending || isApproved(m)) &&
+        (args.conversationId
+          ? appliesTo(m, args.conversationId, now)
+          : !isExpired(m, now))
+    );
   },
 });
 
 // Internal: Get memory context for AI
 export const getMemoryContextInternal = internalQuery({
-  args: { userId: v.id("users") },
+  args: {
+    userId: v.id("users"),
+    conversationId: v.optional(v.id("conversations")),
+  },
   handler: async (ctx, args) => {
-    const memories = await ctx.db
-      .query("userMemories")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .collect();
-
-    if (memories.length === 0) return "";
-
-    const grouped: Record<string, typeof memories> = {};
-    for (const category of CATEGORY_PRIORITY) {
-      grouped[category] = memories.filter((m) => m.category === category);
-    }
-
-    let context = "**User Dietary Profile (ALWAYS RESPECT):**\n\n";
+    const sections = buildMemoryContextSections(
+      await getPromptMemories(ctx, args.userId, args.conversationId)
+    );
+    if (sections.length === 0) return "";
 
-    if (grouped.allergy.length > 0) {
-      context += `ALLERGIES (CRITICAL - NEVER INCLUDE):\n`;
-      context +=
-        grouped.allergy.map((m) => `  - ${escapeForPrompt(m.fact)}`).join("\n") +
-        "\n\n";
-    }
-    if (grouped.intolerance.length > 0) {
-      context += `INTOLERANCES:\n`;
-      context +=
-        grouped.intolerance
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
-          .join("\n") + "\n\n";
-    }
-    if (grouped.restriction.length > 0) {
-      context += `DIETARY RESTRICTIONS:\n`;
-      context +=
-        grouped.restriction
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
-          .join("\n") + "\n\n";
-    }
-    if (grouped.equipment.length > 0) {
-      context += `KITCHEN EQUIPMENT:\n`;
-      context +=
-        grouped.equipment
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
-          .join("\n") + "\n\n";
-    }
-    if (grouped.goal.length > 0) {
-      context += `DIETARY GOALS:\n`;
-      context +=
-        grouped.goal.map((m) => `  - ${escapeForPrompt(m.fact)}`).join("\n") +
-        "\n\n";
-    }
-    if (grouped.preference.length > 0) {
-      context += `PREFERENCES:\n`;
-      context +=
-        grouped.preference
-          .map((m) => `  - ${escapeForPrompt(m.fact)}`)
-          .join("\n") + "\n\n";
-    }
+    return (
+      "**User Dietary Profile (ALWAYS RESPECT):**\n\n" +
+      sections.map((s) => `${s.text}\n\n`).join("")
+    );
+  },
+});
 
-    return context;
+// Internal: The same profile split by category, so the chat can trim it to
+// fit its token budget (lib/contextAssembler)
+export const getMemoryContextSectionsInternal = internalQuery({
+  args: {
+    userId: v.id("users"),
+    conversationId: v.optional(v.id("conversations")),
+  },
+  handler: async (ctx, args) => {
+    return buildMemoryContextSections(
+      await getPromptMemories(ctx, args.userId, args.conversationId)
+    );
   },
 });
 
@@ -205,12 +511,25 @@ export const addMemories = internalMutation({
         fact: v.string(),
         category: memoryCategory,
         confidence: v.literal("high"),
+        evidence: v.optional(
+          v.object({
+            messageId: v.id("messages"),
+            excerpt: v.string(),
+          })
+        ),
+        expiresAt: v.optional(v.number()),
+        scopeConversationId: v.optional(v.id("conversations")),
       })
     ),
     sourceConversationId: v.optional(v.id("conversations")),
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
+    const tombstones = await getTombstones(ctx, args.userId);
+    const profile = await getUserProfile(ctx, args.userId);
+    const autoApprove = profile?.autoApproveMemories === true;
+    const change = newMemoryChange("compaction", {
+      conversationId: args.sourceConversationId,
+    });
 
     for (const memory of args.memories) {
       // Sanitize the memory fact
@@ -220,23 +539,53 @@ export const addMemories = internalMutation({
         continue;
       }
 
-      // Check for duplicate facts
-      const existing = await ctx.db
-        .query("userMemories")
-        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-        .filter((q) => q.eq(q.field("fact"), sanitized.sanitized))
-        .first();
+      // Never re-learn something the user deleted, however the model phrases it
+      if (isSuppressed(sanitized.sanitized, tombstones)) {
+        continue;
+      }
 
-      if (!existing) {
-        await ctx.db.insert("userMemories", {
-          userId: args.userId,
+      if (autoApprove && !SAFETY_CATEGORIES.has(memory.category)) {
+        await saveApprovedFact(ctx, args.userId, {
           fact: sanitized.sanitized,
           category: memory.category,
-          confidence: memory.confidence,
-          extractedAt: now,
           sourceConversationId: args.sourceConversationId,
-        });
+          evidence: memory.evidence,
+          expiresAt: memory.expiresAt,
+          scopeConversationId: memory.scopeConversationId,
+        }, change);
+        continue;
       }
+
+      // Pending facts are only checked for restatements here; merging and
+      // conflicts are settled when the user approves them
+      const now = Date.now();
+      const existing = (await getUserMemories(ctx, args.userId)).filter((m) =>
+        appliesTo(m, memory.scopeConversationId, now)
+      );
+      if (reconcileFact(sanitized.sanitized, memory.category, existing).duplicate) {
+        continue;
+      }
+
+      const pending = {
+        fact: sanitized.sanitized,
+        category: memory.category,
+        sourceConversationId: args.sourceConversationId,
+        status: "pending" as const,
+        expiresAt: memory.expiresAt,
+        scopeConversationId: memory.scopeConversationId,
+      };
+      const memoryId = await ctx.db.insert("userMemories", {
+        ...pending,
+        userId: args.userId,
+        confidence: memory.confidence,
+        extractedAt: Date.now(),
+        evidence: memory.evidence,
+      });
+      await recordMemoryEvent(
+        ctx,
+        { userId: args.userId, memoryId, action: "added", after: pending },
+        change
+      );
     }
   },
 });
@@ -249,10 +598,12 @@ export const deleteMemory = mutation({
     const memory = await ctx.db.get(args.id);
 
     if (!memory || memory.userId !== userId) {
-      throw new Error("Memory not found");
+      throw createError("NOT_FOUND", "Memory not found");
     }
 
-    await ctx.db.delete(args.id);
+    await removeMemory(ctx, memory, newMemoryChange("user"), {
+      tombstone: "deleted",
+    });
   },
 });
 
@@ -267,16 +618,407 @@ export const addMemoryManual = mutation({
 
     const result = sanitizeMemoryFact(args.fact, args.category);
     if (result.rejectionReason) {
-      throw new Error(`Invalid memory: ${result.rejectionReason}`);
+      throw createError(
+        "VALIDATION",
+        `Invalid memory: ${result.rejectionReason}`
+      );
     }
 
-    await ctx.db.insert("userMemories", {
+    const saved = await saveApprovedFact(
+      ctx,
       userId,
-      fact: result.sanitized,
-      category: args.category,
-      confidence: "high",
-      extractedAt: Date.now(),
+      { fact: result.sanitized, category: args.category },
+      newMemoryChange("user")
+    );
+    if (saved.duplicate) {
+      throw createError(
+        "VALIDATION",
+        `Already remembered: "${saved.duplicate.fact}"`
+      );
+    }
+
+    return { conflicts: saved.conflicts.length };
+  },
+});
+
+// Extracted facts awaiting review, newest first, with their source conversation
+export const listPendingMemories = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const pending = await ctx.db
+      .query("userMemories")
+      .withIndex("by_userId_status", (q) =>
+        q.eq("userId", userId).eq("status", "pending")
+      )
+      .collect();
+
+    const approved = (await getUserMemories(ctx, userId)).filter(isApproved);
+
+    const results = [];
+    for (const memory of pending.sort((a, b) => b.extractedAt - a.extractedAt)) {
+      const conversation = memory.sourceConversationId
+        ? await ctx.db.get(memory.sourceConversationId)
+        : null;
+      const plan = reconcileFact(memory.fact, memory.category, approved);
+      results.push({
+        ...memory,
+        conversationTitle: conversation?.title ?? null,
+        conflicts: plan.conflicts.map((c) => c.reason),
+      });
+    }
+    return results;
+  },
+});
+
+async function getPendingMemory(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  id: Id<"userMemories">
+) {
+  const memory = await ctx.db.get(id);
+  if (!memory || memory.userId !== userId || memory.status !== "pending") {
+    throw createError("NOT_FOUND", "Memory not found");
+  }
+  return memory;
+}
+
+// Approve an extracted fact, optionally correcting it first
+export const approveMemory = mutation({
+  args: {
+    id: v.id("userMemories"),
+    fact: v.optional(v.string()),
+    category: v.optional(memoryCategory),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const memory = await getPendingMemory(ctx, userId, args.id);
+    const category = args.category ?? memory.category;
+
+    let fact = memory.fact;
+    if (args.fact !== undefined) {
+      const result = sanitizeMemoryFact(args.fact, category);
+      if (result.rejectionReason) {
+        throw createError(
+          "VALIDATION",
+          `Invalid memory: ${result.rejectionReason}`
+        );
+      }
+      fact = result.sanitized;
+    }
+
+    // A corrected fact replaces what was extracted; don't suggest the original again
+    if (factSignature(fact) !== factSignature(memory.fact)) {
+      await addTombstone(ctx, memory, "overridden");
+    }
+
+    const saved = await saveApprovedFact(
+      ctx,
+      userId,
+      { fact, category },
+      newMemoryChange("user", { reason: "Approved in review" }),
+      memory._id
+    );
+    return {
+      duplicateOf: saved.duplicate?.fact ?? null,
+      conflicts: saved.conflicts.length,
+    };
+  },
+});
+
+// Reject an extracted fact; compaction won't suggest it again
+export const rejectMemory = mutation({
+  args: { id: v.id("userMemories") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const memory = await getPendingMemory(ctx, userId, args.id);
+
+    await removeMemory(
+      ctx,
+      memory,
+      newMemoryChange("user", { reason: "Rejected in review" }),
+      { tombstone: "rejected" }
+    );
+  },
+});
+
+// Contradicting memories the user still has to settle
+export const listConflicts = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const conflicts = await ctx.db
+      .query("memoryConflicts")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+
+    const results = [];
+    for (const conflict of conflicts) {
+      const newer = await ctx.db.get(conflict.memoryId);
+      const older = await ctx.db.get(conflict.conflictingMemoryId);
+      if (!newer || !older) continue;
+      results.push({ _id: conflict._id, reason: conflict.reason, newer, older });
+    }
+    return results;
+  },
+});
+
+// Settle a conflict by keeping one fact (the other is forgotten) or both
+export const resolveConflict = mutation({
+  args: {
+    id: v.id("memoryConflicts"),
+    keep: v.union(v.literal("newer"), v.literal("older"), v.literal("both")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const conflict = await ctx.db.get(args.id);
+
+    if (!conflict || conflict.userId !== userId) {
+      throw createError("NOT_FOUND", "Conflict not found");
+    }
+
+    if (args.keep === "both") {
+      await ctx.db.delete(conflict._id);
+      return;
+    }
+
+    const dropId =
+      args.keep === "newer" ? conflict.conflictingMemoryId : conflict.memoryId;
+    const dropped = await ctx.db.get(dropId);
+    if (dropped) {
+      await removeMemory(
+        ctx,
+        dropped,
+        newMemoryChange("user", { reason: `Conflict resolved: ${conflict.reason}` }),
+        { tombstone: "overridden" }
+      );
+    } else {
+      await ctx.db.delete(conflict._id);
+    }
+  },
+});
+
+const HISTORY_EVENT_LIMIT = 200;
+
+// Recent memory changes, one entry per operation (newest first)
+export const listMemoryHistory = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const events = await ctx.db
+      .query("memoryEvents")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(HISTORY_EVENT_LIMIT);
+
+    const groups = new Map<string, Doc<"memoryEvents">[]>();
+    for (const event of events) {
+      groups.set(event.groupId, [...(groups.get(event.groupId) ?? []), event]);
+    }
+
+    const results = [];
+    for (const [groupId, groupEvents] of groups) {
+      const [latest] = groupEvents;
+      const conversation = latest.sourceConversationId
+        ? await ctx.db.get(latest.sourceConversationId)
+        : null;
+      results.push({
+        groupId,
+        actor: latest.actor,
+        reason: latest.reason,
+        createdAt: latest.createdAt,
+        conversationTitle: conversation?.title ?? null,
+        isUndo: latest.undoesGroupId !== undefined,
+        undoneAt: latest.undoneAt,
+        events: groupEvents.reverse().map((event) => ({
+          _id: event._id,
+          action: event.action,
+          reason: event.reason,
+          before: event.before,
+          after: event.after,
+        })),
+      });
+    }
+    return results;
+  },
+});
+
+// Revert every change one operation made, newest first
+export const undoMemoryChange = mutation({
+  args: { groupId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const events = await ctx.db
+      .query("memoryEvents")
+      .withIndex("by_groupId", (q) => q.eq("groupId", args.groupId))
+      .collect();
+
+    if (events.length === 0 || events.some((e) => e.userId !== userId)) {
+      throw createError("NOT_FOUND", "Change not found");
+    }
+    if (events.some((e) => e.undoneAt !== undefined)) {
+      throw createError("VALIDATION", "This change was already undone");
+    }
+    if (events.some((e) => e.undoesGroupId !== undefined)) {
+      throw createError("VALIDATION", "An undo can't be undone");
+    }
+
+    const change = newMemoryChange("user", {
+      reason: "Undo",
+      undoesGroupId: args.groupId,
     });
+    const now = Date.now();
+
+    // A fact whose time ran out (or whose chat is gone) can't come back as it
+    // was, and bringing it back as a permanent fact would be a different fact
+    for (const event of events) {
+      if (event.action === "added" || !event.before) continue;
+      if (isExpired(event.before, now)) {
+        throw createError(
+          "VALIDATION",
+          `"${event.before.fact}" has expired since. Add it again if it still applies.`
+        );
+      }
+      const scope = event.before.scopeConversationId;
+      if (scope && !(await ctx.db.get(scope))) {
+        throw createError(
+          "VALIDATION",
+          `"${event.before.fact}" belonged to a chat that has been deleted.`
+        );
+      }
+    }
+
+    for (const event of [...events].reverse()) {
+      const memory = await ctx.db.get(event.memoryId);
+
+      if (event.action === "added" && memory) {
+        await removeMemory(ctx, memory, change);
+      } else if (event.action === "updated" && memory && event.before) {
+        await clearMatchingTombstones(ctx, userId, event.before.fact);
+        // Every snapshot field, so ones the update added (an expiry, a chat
+        // scope) are cleared rather than kept
+        await ctx.db.patch(memory._id, snapshotOf(event.before));
+        await recordMemoryEvent(
+          ctx,
+          {
+            userId,
+            memoryId: memory._id,
+            action: "updated",
+            before: memory,
+            after: event.before,
+          },
+          change
+        );
+      } else if (event.action === "deleted" && event.before) {
+        const restored = snapshotOf(event.before);
+        await clearMatchingTombstones(ctx, userId, restored.fact);
+        const memoryId = await ctx.db.insert("userMemories", {
+          ...restored,
+          userId,
+          confidence: "high",
+          extractedAt: now,
+        });
+        await recordMemoryEvent(
+          ctx,
+          { userId, memoryId, action: "added", after: restored },
+          change
+        );
+      }
+
+      await ctx.db.patch(event._id, { undoneAt: now });
+    }
+  },
+});
+
+// "Don't remember" rules, newest first
+export const listTombstones = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const tombstones = await getTombstones(ctx, userId);
+    return tombstones.sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+// Lift a rule so the fact can be learned from conversations again
+export const clearTombstone = mutation({
+  args: { id: v.id("memoryTombstones") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const tombstone = await ctx.db.get(args.id);
+
+    if (!tombstone || tombstone.userId !== userId) {
+      throw createError("NOT_FOUND", "Rule not found");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const clearAllTombstones = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    for (const tombstone of await getTombstones(ctx, userId)) {
+      await ctx.db.delete(tombstone._id);
+    }
+  },
+});
+
+// Internal: Suppressed facts for the compaction prompt
+export const getTombstonesInternal = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await getTombstones(ctx, args.userId);
+  },
+});
+
+const EXPIRY_BATCH_SIZE = 200;
+
+// Cron: delete temporary memories whose time is up. They simply lapse, so no
+// tombstone: the user may well say the same thing again later.
+export const expireMemories = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("userMemories")
+      .withIndex("by_expiresAt", (q) =>
+        q.gte("expiresAt", 0).lte("expiresAt", Date.now())
+      )
+      .take(EXPIRY_BATCH_SIZE);
+
+    for (const memory of expired) {
+      await removeMemory(
+        ctx,
+        memory,
+        newMemoryChange("system", { reason: "Expired" })
+      );
+    }
+
+    // Work through a backlog without waiting for the next cron tick
+    if (expired.length === EXPIRY_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.memories.expireMemories, {});
+    }
+    return { expired: expired.length };
+  },
+});
+
+// Internal: Delete memories that only applied to a deleted conversation
+export const removeConversationMemories = internalMutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const scoped = await ctx.db
+      .query("userMemories")
+      .withIndex("by_scopeConversationId", (q) =>
+        q.eq("scopeConversationId", args.conversationId)
+      )
+      .collect();
+    const change = newMemoryChange("system", {
+      reason: "Its conversation was deleted",
+    });
+    for (const memory of scoped) {
+      await removeMemory(ctx, memory, change);
+    }
   },
 });
 
@@ -289,6 +1031,7 @@ export const listMemoriesForTool = internalQuery({
   args: {
     userId: v.id("users"),
     category: v.optional(memoryCategory),
+    conversationId: v.optional(v.id("conversations")),
   },
   handler: async (ctx, args) => {
     let memories;
@@ -308,83 +1051,194 @@ export const listMemoriesForTool = internalQuery({
     }
 
     // Return formatted for LLM consumption
-    return memories.map((m) => ({
-      id: m._id,
-      fact: m.fact,
-      category: m.category,
-      extractedAt: m.extractedAt,
-    }));
+    const now = Date.now();
+    return memories
+      .filter((m) => isApproved(m) && appliesTo(m, args.conversationId, now))
+      .map((m) => ({
+        id: m._id,
+        fact: m.fact,
+        category: m.category,
+        extractedAt: m.extractedAt,
+        expiresAt: m.expiresAt,
+        thisConversationOnly: m.scopeConversationId !== undefined,
+      }));
   },
 });
 
-// Remove memory by fuzzy search (internal, for tool use)
-export const removeBySearch = internalMutation({
+const toCandidate = (memory: Doc<"userMemories">) => ({
+  id: memory._id,
+  fact: memory.fact,
+  category: memory.category,
+});
+
+// The memories a tool call refers to, by explicit ID or by search term.
+// Only the ones the model can see in this chat (approved, unexpired, in
+// scope) are candidates, so it can't touch a fact the user never approved.
+async function findToolTargets(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  args: {
+    memoryId?: Id<"userMemories">;
+    searchTerm?: string;
+    conversationId?: Id<"conversations">;
+  }
+) {
+  const memories = await getPromptMemories(ctx, userId, args.conversationId);
+  if (args.memoryId) {
+    return memories.filter((m) => m._id === args.memoryId);
+  }
+  return matchMemories(memories, args.searchTerm ?? "");
+}
+
+async function getOwnConversation(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  conversationId: Id<"conversations"> | undefined
+) {
+  if (!conversationId) return null;
+  const conversation = await ctx.db.get(conversationId);
+  return conversation?.userId === userId ? conversation : null;
+}
+
+// Remember what the assistant is asking about so the user's answer on the
+// next turn can refer back to it
+async function requestConfirmation(
+  ctx: MutationCtx,
+  args: {
+    userId: Id<"users">;
+    conversationId?: Id<"conversations">;
+    messageId?: Id<"messages">;
+  },
+  action: MemoryToolAction,
+  memories: Doc<"userMemories">[]
+) {
+  const conversation = await getOwnConversation(ctx, args.userId, args.conversationId);
+  if (!conversation || !args.messageId) return;
+  await ctx.db.patch(conversation._id, {
+    pendingMemoryConfirmation: {
+      action,
+      memoryIds: memories.map((m) => m._id),
+      requestedByMessageId: args.messageId,
+      requestedAt: Date.now(),
+    },
+  });
+}
+
+async function clearConfirmation(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  conversationId: Id<"conversations"> | undefined
+) {
+  const conversation = await getOwnConversation(ctx, userId, conversationId);
+  if (conversation?.pendingMemoryConfirmation) {
+    await ctx.db.patch(conversation._id, { pendingMemoryConfirmation: undefined });
+  }
+}
+
+// The open question for the system prompt, if the chat has one
+export const getPendingConfirmationInternal = internalQuery({
   args: {
     userId: v.id("users"),
-    searchTerm: v.string(),
+    conversationId: v.id("conversations"),
   },
   handler: async (ctx, args) => {
-    const searchLower = args.searchTerm.toLowerCase();
+    const conversation = await getOwnConversation(ctx, args.userId, args.conversationId);
+    const pending = conversation?.pendingMemoryConfirmation;
+    if (!isPendingConfirmationLive(pending, Date.now())) return null;
 
-    // Get all user memories
-    const memories = await ctx.db
-      .query("userMemories")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .collect();
+    const memories = await Promise.all(pending.memoryIds.map((id) => ctx.db.get(id)));
+    const candidates = memories.flatMap((m) => (m ? [toCandidate(m)] : []));
+    return candidates.length > 0 ? { action: pending.action, candidates } : null;
+  },
+});
 
-    // Fuzzy match - find memories where the fact contains the search term
-    const matches = memories.filter((m) =>
-      m.fact.toLowerCase().includes(searchLower) ||
-      searchLower.includes(m.fact.toLowerCase().split(" ")[0]) // Match first word
-    );
+// Remove a memory by ID or search term (internal, for tool use). Several
+// matches come back as candidates, and allergies need the user's "yes" on a
+// later turn, so nothing is deleted on a guess.
+export const removeBySearch = internalMutation({
+  args: {
+    userId: v.id("users"),
+    searchTerm: v.optional(v.string()),
+    memoryId: v.optional(v.id("userMemories")),
+    confirmed: v.optional(v.boolean()),
+    conversationId: v.optional(v.id("conversations")),
+    // The user message this tool call is answering
+    messageId: v.optional(v.id("messages")),
+  },
+  handler: async (ctx, args) => {
+    const reference = args.searchTerm ?? "that";
+    if (!args.memoryId && !args.searchTerm?.trim()) {
+      return {
+        success: false,
+        message: "Provide a searchTerm or a memoryId",
+        deletedCount: 0,
+        deletedFacts: [],
+      };
+    }
 
+    const matches = await findToolTargets(ctx, args.userId, args);
     if (matches.length === 0) {
       return {
         success: false,
-        message: `No memories found matching "${args.searchTerm}"`,
+        message: `No memories found matching "${reference}"`,
         deletedCount: 0,
         deletedFacts: [],
       };
     }
 
-    // Delete all matches
-    const deletedFacts: string[] = [];
-    for (const memory of matches) {
-      await ctx.db.delete(memory._id);
-      deletedFacts.push(memory.fact);
+    if (matches.length > 1) {
+      await requestConfirmation(ctx, args, "remove", matches);
+      return {
+        success: false,
+        message: `${matches.length} memories match "${reference}". Ask the user which one to forget, then call again with its memoryId. Nothing was deleted.`,
+        needsChoice: true,
+        candidates: matches.map(toCandidate),
+        deletedCount: 0,
+        deletedFacts: [],
+      };
     }
 
-    return {
-      success: true,
-      message: `Deleted ${matches.length} memory(s) matching "${args.searchTerm}"`,
-      deletedCount: matches.length,
-      deletedFacts,
-    };
-  },
-});
-
-// Remove memory by ID (internal, for tool use)
-export const removeById = internalMutation({
-  args: {
-    userId: v.id("users"),
-    memoryId: v.id("userMemories"),
-  },
-  handler: async (ctx, args) => {
-    const memory = await ctx.db.get(args.memoryId);
-
-    if (!memory) {
-      return { success: false, message: "Memory not found" };
+    const [memory] = matches;
+    if (memory.category === "allergy") {
+      const conversation = await getOwnConversation(ctx, args.userId, args.conversationId);
+      const confirmed =
+        args.confirmed === true &&
+        isConfirmedByUser(
+          conversation?.pendingMemoryConfirmation,
+          "remove",
+          memory._id,
+          args.messageId,
+          Date.now()
+        );
+      if (!confirmed) {
+        await requestConfirmation(ctx, args, "remove", [memory]);
+        return {
+          success: false,
+          message: `"${memory.fact}" is an allergy. Ask the user to confirm they want it forgotten, then call again with its memoryId and confirmed: true once they say yes. Nothing was deleted.`,
+          needsConfirmation: true,
+          candidates: [toCandidate(memory)],
+          deletedCount: 0,
+          deletedFacts: [],
+        };
+      }
     }
 
-    if (memory.userId !== args.userId) {
-      return { success: false, message: "Memory not found" };
-    }
+    await removeMemory(
+      ctx,
+      memory,
+      newMemoryChange("chat_tool", {
+        reason: `Forget "${reference}"`,
+        conversationId: args.conversationId,
+      }),
+      { tombstone: "deleted" }
+    );
+    await clearConfirmation(ctx, args.userId, args.conversationId);
 
-    await ctx.db.delete(args.memoryId);
     return {
       success: true,
-      message: `Deleted memory: "${memory.fact}"`,
-      deletedFact: memory.fact,
+      message: `Deleted memory: "${memory.fact}". The user can undo this under Settings > Memory history.`,
+      deletedCount: 1,
+      deletedFacts: [memory.fact],
     };
   },
 });
@@ -396,6 +1250,8 @@ export const addMemoryForTool = internalMutation({
     fact: v.string(),
     category: memoryCategory,
     sourceConversationId: v.optional(v.id("conversations")),
+    expiresInDays: v.optional(v.number()),
+    thisConversationOnly: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     // Sanitize the input first
@@ -408,47 +1264,52 @@ export const addMemoryForTool = internalMutation({
       };
     }
 
-    const factLower = sanitized.sanitized.toLowerCase();
-
-    // Check for similar existing memories
-    const existing = await ctx.db
-      .query("userMemories")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .collect();
-
-    // Check for duplicates (exact or very similar)
-    const duplicate = existing.find((m) => {
-      const existingLower = m.fact.toLowerCase();
-      return (
-        existingLower === factLower ||
-        existingLower.includes(factLower) ||
-        factLower.includes(existingLower)
-      );
-    });
+    const expiresAt = expiryFromDays(args.expiresInDays, Date.now());
+    const scopeConversationId = args.thisConversationOnly
+      ? args.sourceConversationId
+      : undefined;
+    const saved = await saveApprovedFact(
+      ctx,
+      args.userId,
+      {
+        fact: sanitized.sanitized,
+        category: args.category,
+        sourceConversationId: args.sourceConversationId,
+        expiresAt,
+        scopeConversationId,
+      },
+      newMemoryChange("chat_tool", { conversationId: args.sourceConversationId })
+    );
 
-    if (duplicate) {
+    if (saved.duplicate) {
       return {
         success: false,
-        message: `Similar memory already exists: "${duplicate.fact}"`,
+        message: `Similar memory already exists: "${saved.duplicate.fact}"`,
         isDuplicate: true,
-        existingFact: duplicate.fact,
+        existingFact: saved.duplicate.fact,
       };
     }
 
-    // Insert new memory
-    const id = await ctx.db.insert("userMemories", {
-      userId: args.userId,
-      fact: sanitized.sanitized,
-      category: args.category,
-      confidence: "high",
-      extractedAt: Date.now(),
-      sourceConversationId: args.sourceConversationId,
-    });
+    // Tell the model what changed so it can mention it to the user
+    const notes = [
+      ...(expiresAt
+        ? [`Expires ${new Date(expiresAt).toISOString().slice(0, 10)}.`]
+        : []),
+      ...(scopeConversationId ? ["Applies to this conversation only."] : []),
+      ...saved.merges.map((m) => `Merged "${m.fact}" into it.`),
+      ...saved.supersedes.map((m) => `Replaced "${m.fact}".`),
+      ...saved.conflicts.map(
+        (c) => `Conflict: ${c.reason}. Ask the user which is right.`
+      ),
+    ];
 
     return {
       success: true,
-      message: `Remembered: "${sanitized.sanitized}" (${args.category})`,
-      memoryId: id,
+      message: [
+        `Remembered: "${sanitized.sanitized}" (${args.category})`,
+        ...notes,
+      ].join(" "),
+      memoryId: saved.memoryId,
       isDuplicate: false,
     };
   },
@@ -458,29 +1319,37 @@ export const addMemoryForTool = internalMutation({
 export const updateMemoryForTool = internalMutation({
   args: {
     userId: v.id("users"),
-    searchTerm: v.string(),
+    searchTerm: v.optional(v.string()),
+    memoryId: v.optional(v.id("userMemories")),
     newFact: v.optional(v.string()),
     newCategory: v.optional(memoryCategory),
+    confirmed: v.optional(v.boolean()),
+    conversationId: v.optional(v.id("conversations")),
+    messageId: v.optional(v.id("messages")),
   },
   handler: async (ctx, args) => {
-    const searchLower = args.searchTerm.toLowerCase();
-
-    // Find matching memory
-    const memories = await ctx.db
-      .query("userMemories")
-      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
-      .collect();
-
-    const match = memories.find((m) =>
-      m.fact.toLowerCase().includes(searchLower)
-    );
+    const reference = args.searchTerm ?? "that";
+    if (!args.memoryId && !args.searchTerm?.trim()) {
+      return { success: false, message: "Provide a searchTerm or a memoryId" };
+    }
 
-    if (!match) {
+    const matches = await findToolTargets(ctx, args.userId, args);
+    if (matches.length === 0) {
       return {
         success: false,
-        message: `No memory found matching "${args.searchTerm}"`,
+        message: `No memory found matching "${reference}"`,
       };
     }
+    if (matches.length > 1) {
+      await requestConfirmation(ctx, args, "update", matches);
+      return {
+        success: false,
+        message: `${matches.length} memories match "${reference}". Ask the user which one they mean, then call again with its memoryId. Nothing was changed.`,
+        needsChoice: true,
+        candidates: matches.map(toCandidate),
+      };
+    }
+    const [match] = matches;
 
     // Update the memory
     const updates: Record<string, any> = {};
@@ -506,7 +1375,60 @@ export const updateMemoryForTool = internalMutation({
       };
     }
 
-    await ctx.db.patch(match._id, updates);
+    // Rewording or recategorizing an allergy can drop it, so it needs the
+    // same "yes" on a later turn as removing one
+    const changesAllergy =
+      match.category === "allergy" &&
+      ((updates.category !== undefined && updates.category !== match.category) ||
+        (updates.fact !== undefined && updates.fact !== match.fact));
+    if (changesAllergy) {
+      const conversation = await getOwnConversation(ctx, args.userId, args.conversationId);
+      const confirmed =
+        args.confirmed === true &&
+        isConfirmedByUser(
+          conversation?.pendingMemoryConfirmation,
+          "update",
+          match._id,
+          args.messageId,
+          Date.now()
+        );
+      if (!confirmed) {
+        await requestConfirmation(ctx, args, "update", [match]);
+        return {
+          success: false,
+          message: `"${match.fact}" is an allergy. Ask the user to confirm the change, then call again with its memoryId and confirmed: true once they say yes. Nothing was changed.`,
+          needsConfirmation: true,
+          candidates: [toCandidate(match)],
+        };
+      }
+    }
+
+    // The replaced wording becomes a rule so compaction doesn't bring it back
+    if (
+      updates.fact &&
+      factSignature(updates.fact) !== factSignature(match.fact)
+    ) {
+      await addTombstone(ctx, match, "overridden");
+      await clearMatchingTombstones(ctx, args.userId, updates.fact);
+    }
+
+    // An explicit correction from the user doubles as approval
+    await ctx.db.patch(match._id, { ...updates, status: "approved" });
+    await recordMemoryEvent(
+      ctx,
+      {
+        userId: args.userId,
+        memoryId: match._id,
+        action: "updated",
+        before: match,
+        after: { ...match, ...updates, status: "approved" },
+      },
+      newMemoryChange("chat_tool", {
+        reason: `Update "${reference}"`,
+        conversationId: args.conversationId,
+      })
+    );
+    await clearConfirmation(ctx, args.userId, args.conversationId);
 
     return {
       success: true,
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { FakeLLMProvider, setLLMProviderForTesting } from "./lib/llm";
+import { createUser, setupTest, TestConvex } from "./test.setup";
+
+async function createConversation(t: TestConvex, userId: Id<"users">) {
+  return await t.run((ctx) =>
+    ctx.db.insert("conversations", {
+      userId,
+      title: "Dinner ideas",
+      lastMessageAt: Date.now(),
+      messageCount: 0,
+      isArchived: false,
+      createdAt: Date.now(),
+    })
+  );
+}
+
+async function addMessages(
+  t: TestConvex,
+  userId: Id<"users">,
+  conversationId: Id<"conversations">,
+  contents: string[]
+) {
+  await t.run(async (ctx) => {
+    for (const [i, content] of contents.entries()) {
+      await ctx.db.insert("messages", {
+        conversationId,
+        userId,
+        role: i % 2 === 0 ? "user" : "assistant",
+        content,
+        isStreaming: false,
+        createdAt: Date.now(),
+      });
+    }
+  });
+}
+
+const numbered = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+function useFakeProvider(json: unknown[] = []) {
+  const provider = new FakeLLMProvider({ json });
+  setLLMProviderForTesting(provider);
+  return provider;
+}
+
+const promptOf = (provider: FakeLLMProvider, index: number) => {
+  const call = provider.calls.filter((c) => c.kind === "json")[index];
+  return call?.kind === "json" ? call.request.prompt : "";
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  setLLMProviderForTesting(null);
+});
+
+describe("memory compaction", () => {
+  it("does not queue a run until enough new messages arrive", async () => {
+    const t = setupTest();
+    const { userId } = await createUser(t);
+    const conversationId = await createConversation(t, userId);
+    await addMessages(t, userId, conversationId, numbered("msg", 4));
+
+    await t.mutation(internal.memoryCompaction.scheduleCompaction, { conversationId });
+
+    const conversation = await t.run((ctx) => ctx.db.get(conversationId));
+    expect(conversation?.pendingCompaction).toBeUndefined();
+  });
+
+  it("debounces rapid replies into one run over the new messages", async () => {
+    const t = setupTest();
+    const { userId } = await createUser(t);
+    const conversationId = await createConversation(t, userId);
+    const provider = useFakeProvider([
+      {
+        memories: [
+          { fact: "User is allergic to peanuts", category: "allergy", confidence: "high" },
+        ],
+      },
+    ]);
+    await addMessages(t, userId, conversationId, numbered("msg", 10));
+
+    await t.mutation(internal.memoryCompaction.scheduleCompaction, { conversationId });
+    vi.advanceTimersByTime(30_000);
+    await addMessages(t, userId, conversationId, ["I'm allergic to peanuts", "Noted"]);
+    await t.mutation(internal.memoryCompaction.scheduleCompaction, { conversationId });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(provider.calls.filter((c) => c.kind === "json")).toHaveLength(1);
+    expect(promptOf(provider, 0)).toContain("USER: msg 1");
+    expect(promptOf(provider, 0)).toContain("USER: I'm allergic to peanuts");
+
+    // Extracted facts wait for review, with the message they came from
+    const memories = await t.query(internal.memories.getMemoriesInternal, {
+      userId,
+      includePending: true,
+    });
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({
+      fact: "User is allergic to peanuts",
+      status: "pending",
+      evidence: { excerpt: "I'm allergic to peanuts" },
+    });
+
+    const conversation = await t.run((ctx) => ctx.db.get(conversationId));
+    expect(conversation?.pendingCompaction).toBeUndefined();
+    expect(conversation?.compactionWatermark).toBeDefined();
+
+    const runs = await t.query(internal.memoryCompaction.getRecentRuns, { conversationId });
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({
+      trigger: "scheduled",
+      status: "succeeded",
+      messagesProcessed: 12,
+      memoriesAdded: 1,
+    });
+  });
+
+  it("only sends messages added since the watermark", async () => {
+    const t = setupTest();
+    const { userId } = await createUser(t);
+    const conversationId = await createConversation(t, userId);
+    const provider = useFakeProvider([{ memories: [] }, { memories: [] }]);
+
+    await addMessages(t, userId, conversationId, numbered("first", 10));
+    await t.mutation(internal.memoryCompaction.scheduleCompaction, { conversationId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    // Below the threshold after the first run: nothing is queued
+    await addMessages(t, userId, conversationId, numbered("second", 9));
+    await t.mutation(internal.memoryCompaction.scheduleCompaction, { conversationId });
+    expect((await t.run((ctx) => ctx.db.get(conversationId)))?.pendingCompaction).toBeUndefined();
+
+    await addMessages(t, userId, conversationId, ["second 10"]);
+    await t.mutation(internal.memoryCompaction.scheduleCompaction, { conversationId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(promptOf(provider, 1)).toContain("second 1\n");
+    expect(promptOf(provider, 1)).toContain("second 10");
+    expect(promptOf(provider, 1)).not.toContain("first");
+  });
+
+  it("records failures and keeps the watermark so messages are retried", async () => {
+    const t = setupTest();
+    const { userId } = await createUser(t);
+    const conversationId = await createConversation(t, userId);
+    const provider = useFakeProvider();
+    provider.extractJson = async () => {
+      throw new Error("model overloaded");
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await addMessages(t, userId, conversationId, numbered("msg", 10));
+    await t.mutation(internal.memoryCompaction.scheduleCompaction, { conversationId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const conversation = await t.run((ctx) => ctx.db.get(conversationId));
+    expect(conversation?.compactionWatermark).toBeUndefined();
+    const [run] = await t.query(internal.memoryCompaction.getRecentRuns, { conversationId });
+    expect(run).toMatchObject({ status: "failed", detail: "model overloaded" });
+  });
+
+  it("runs on demand for the conversation owner", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const other = await createUser(t, "Other");
+    const conversationId = await createConversation(t, owner.userId);
+    useFakeProvider([
+      { memories: [{ fact: "User is vegan", category: "restriction", confidence: "high" }] },
+    ]);
+    await addMessages(t, owner.userId, conversationId, ["I'm vegan", "Got it"]);
+
+    await expect(
+      other.as.action(api.memoryCompaction.runCompaction, { conversationId })
+    ).rejects.toThrow(/NOT_FOUND/);
+
+    const result = await owner.as.action(api.memoryCompaction.runCompaction, {
+      conversationId,
+    });
+    expect(result).toEqual({ newMemories: 1 });
+
+    // Nothing new since the watermark: the next run is skipped
+    await owner.as.action(api.memoryCompaction.runCompaction, { conversationId });
+    const runs = await t.query(internal.memoryCompaction.getRecentRuns, { conversationId });
+    expect(runs.map((r) => r.status)).toEqual(["skipped", "succeeded"]);
+  });
+
+  it("tells the model what not to re-learn and drops it if extracted anyway", async () => {
+    const t = setupTest();
+    const { userId, as } = await createUser(t);
+    const conversationId = await createConversation(t, userId);
+    const provider = useFakeProvider([
+      {
+        memories: [
+          { fact: "User has a peanut allergy", category: "allergy", confidence: "high" },
+        ],
+      },
+    ]);
+    const memoryId = await t.run((ctx) =>
+      ctx.db.insert("userMemories", {
+        userId,
+        fact: "User is allergic to peanuts",
+        category: "allergy",
+        confidence: "high",
+        extractedAt: Date.now(),
+      })
+    );
+    await as.mutation(api.memories.deleteMemory, { id: memoryId });
+    await addMessages(t, userId, conversationId, ["I'm allergic to peanuts", "Noted"]);
+
+    await as.action(api.memoryCompaction.runCompaction, { conversationId });
+
+    expect(promptOf(provider, 0)).toContain(
+      "asked to forget (NEVER extract these or restatements of them, even if the chat mentions them):**\n- User is allergic to peanuts"
+    );
+    expect(
+      await t.query(internal.memories.getMemoriesInternal, {
+        userId,
+        includePending: true,
+      })
+    ).toEqual([]);
+  });
+});
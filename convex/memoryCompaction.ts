@@ -1,91 +1,314 @@
 import { v } from "convex/values";
-import { action, internalAction, internalMutation, internalQuery } from "./_generated/server";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  ActionCtx,
+  QueryCtx,
+} from "./_generated/server";
 import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import OpenAI from "openai";
-import { compactMemories } from "./lib/memoryCompaction";
-
-// Auto-trigger thresholds
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  compactMemories,
+  CompactionResult,
+  findEvidence,
+} from "./lib/memoryCompaction";
+import { expiryFromDays } from "./lib/memoryLifetime";
+import { AppError, createError } from "./lib/errors";
+import { getLLMProvider } from "./lib/llm";
+
+// Auto-trigger thresholds, counted from the compaction watermark
 const MESSAGE_THRESHOLD = 10;
 const TIME_THRESHOLD_MS = 24 * 60 * 60 * 1000; // 24 hours
 
+// Wait for a pause in the conversation before compacting; each reply pushes
+// the queued run back, but never more than MAX_DEBOUNCE_MS past the first request
+const DEBOUNCE_MS = 60 * 1000;
+const MAX_DEBOUNCE_MS = 10 * 60 * 1000;
+
+// Messages sent to the model per run; any remainder is left for the next run
+const BATCH_SIZE = 30;
+
+const triggerValidator = v.union(v.literal("scheduled"), v.literal("manual"));
+
+// Surface model failures from user-triggered compaction as a retryable AppError
+function toCompactionError(error: unknown): never {
+  console.error("Memory compaction error:", error);
+  if (error instanceof AppError) throw error;
+  throw createError(
+    "AI_UNAVAILABLE",
+    "Memory extraction is temporarily unavailable.",
+    true
+  );
+}
+
+async function isCompactionDue(
+  ctx: QueryCtx,
+  conversation: Doc<"conversations">
+) {
+  const newMessages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversationId", (q) =>
+      q
+        .eq("conversationId", conversation._id)
+        .gt("_creationTime", conversation.compactionWatermark ?? 0)
+    )
+    .take(MESSAGE_THRESHOLD);
+
+  const lastCompaction = conversation.lastCompactionAt ?? conversation.createdAt;
+
+  // Trigger on 10+ new messages, or any new messages 24+ hours after the last run
+  return (
+    newMessages.length >= MESSAGE_THRESHOLD ||
+    (newMessages.length > 0 && Date.now() - lastCompaction > TIME_THRESHOLD_MS)
+  );
+}
+
 // Check if compaction should run
 export const shouldRunCompaction = internalQuery({
   args: { conversationId: v.id("conversations") },
   handler: async (ctx, args) => {
     const conversation = await ctx.db.get(args.conversationId);
     if (!conversation) return false;
+    return await isCompactionDue(ctx, conversation);
+  },
+});
 
-    const now = Date.now();
-    const lastCompaction =
-      conversation.lastCompactionAt || conversation.createdAt;
-    const messagesSinceCompaction = conversation.messageCount;
-
-    // Trigger if 10+ messages OR 24+ hours since last compaction
-    const shouldRun =
-      messagesSinceCompaction >= MESSAGE_THRESHOLD ||
-      now - lastCompaction > TIME_THRESHOLD_MS;
-
-    return shouldRun;
+// Internal: Messages after the watermark, oldest first
+export const getMessagesSinceWatermark = internalQuery({
+  args: {
+    conversationId: v.id("conversations"),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) return null;
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q
+          .eq("conversationId", args.conversationId)
+          .gt("_creationTime", conversation.compactionWatermark ?? 0)
+      )
+      .take(args.limit);
+
+    // Stop at a reply that is still streaming so the watermark never passes it
+    const streamingIndex = messages.findIndex((m) => m.isStreaming);
+    return {
+      userId: conversation.userId,
+      messages: streamingIndex === -1 ? messages : messages.slice(0, streamingIndex),
+    };
   },
 });
 
-// Update last compaction timestamp
-export const markCompactionRun = internalMutation({
+// Internal: Queue a compaction run after the chat goes quiet (called after each reply)
+export const scheduleCompaction = internalMutation({
   args: { conversationId: v.id("conversations") },
   handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || !(await isCompactionDue(ctx, conversation))) return;
+
+    const now = Date.now();
+    let requestedAt = now;
+    const pending = conversation.pendingCompaction;
+    if (pending) {
+      const job = await ctx.db.system.get(pending.jobId);
+      if (job && job.state.kind === "pending") {
+        // Already waited long enough: let the queued run go ahead as planned
+        if (now + DEBOUNCE_MS - pending.requestedAt > MAX_DEBOUNCE_MS) return;
+        await ctx.scheduler.cancel(pending.jobId);
+        requestedAt = pending.requestedAt;
+      }
+    }
+
+    const jobId = await ctx.scheduler.runAfter(
+      DEBOUNCE_MS,
+      internal.memoryCompaction.runScheduledCompaction,
+      { conversationId: args.conversationId }
+    );
     await ctx.db.patch(args.conversationId, {
-      lastCompactionAt: Date.now(),
+      pendingCompaction: { jobId, requestedAt },
     });
   },
 });
 
-export const runCompaction = action({
+// Internal: Record a run and, on success, advance the watermark
+export const recordCompactionRun = internalMutation({
   args: {
     conversationId: v.id("conversations"),
+    userId: v.id("users"),
+    trigger: triggerValidator,
+    status: v.union(
+      v.literal("succeeded"),
+      v.literal("skipped"),
+      v.literal("failed")
+    ),
+    messagesProcessed: v.number(),
+    memoriesAdded: v.number(),
+    detail: v.optional(v.string()),
+    startedAt: v.number(),
+    watermark: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Unauthorized");
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) return;
 
-    // Get recent messages from this conversation
-    const messages = await ctx.runQuery(internal.messages.getRecentInternal, {
-      conversationId: args.conversationId,
-      limit: 30,
-    });
+    const now = Date.now();
+    const { watermark, ...run } = args;
+    await ctx.db.insert("compactionRuns", { ...run, finishedAt: now });
 
-    // Get existing memories
-    const existingMemories = await ctx.runQuery(
-      internal.memories.getMemoriesInternal,
-      {
-        userId,
+    const updates: Partial<Doc<"conversations">> = {};
+    if (args.status === "succeeded" && watermark !== undefined) {
+      updates.compactionWatermark = watermark;
+      updates.lastCompactionAt = now;
+    }
+    // Clear the queued job unless a newer one was scheduled while this ran
+    if (args.trigger === "scheduled" && conversation.pendingCompaction) {
+      const job = await ctx.db.system.get(conversation.pendingCompaction.jobId);
+      if (!job || job.state.kind !== "pending") {
+        updates.pendingCompaction = undefined;
       }
-    );
+    }
+    await ctx.db.patch(args.conversationId, updates);
+  },
+});
 
-    const existingFacts = existingMemories.map((m: any) => m.fact);
+export const getRecentRuns = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("compactionRuns")
+      .withIndex("by_conversationId", (q) =>
+        q.eq("conversationId", args.conversationId)
+      )
+      .order("desc")
+      .take(10);
+  },
+});
 
-    // Run compaction with OpenAI
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+/**
+ * Extract memories from the messages added since the conversation's watermark
+ * and record the run. Failed runs leave the watermark in place so the same
+ * messages are retried next time; the error is rethrown to the caller.
+ */
+async function compactSinceWatermark(
+  ctx: ActionCtx,
+  conversationId: Id<"conversations">,
+  userId: Id<"users">,
+  trigger: "scheduled" | "manual"
+): Promise<CompactionResult & { messagesProcessed: number }> {
+  const startedAt = Date.now();
+  const batch: { messages: Doc<"messages">[] } | null = await ctx.runQuery(
+    internal.memoryCompaction.getMessagesSinceWatermark,
+    { conversationId, limit: BATCH_SIZE }
+  );
+  const messages = batch?.messages ?? [];
+
+  const record = (
+    status: "succeeded" | "skipped" | "failed",
+    memoriesAdded: number,
+    detail?: string
+  ) =>
+    ctx.runMutation(internal.memoryCompaction.recordCompactionRun, {
+      conversationId,
+      userId,
+      trigger,
+      status,
+      messagesProcessed: status === "skipped" ? 0 : messages.length,
+      memoriesAdded,
+      detail,
+      startedAt,
+      watermark:
+        status === "succeeded"
+          ? messages[messages.length - 1]._creationTime
+          : undefined,
+    });
+
+  if (messages.length === 0) {
+    await record("skipped", 0, "No new messages since the last run");
+    return { memories: [], messagesProcessed: 0 };
+  }
+
+  try {
+    // Pending facts count as existing so the inbox doesn't fill with repeats
+    const existingMemories: Doc<"userMemories">[] = await ctx.runQuery(
+      internal.memories.getMemoriesInternal,
+      { userId, includePending: true, conversationId }
+    );
+    const tombstones: Doc<"memoryTombstones">[] = await ctx.runQuery(
+      internal.memories.getTombstonesInternal,
+      { userId }
+    );
 
     const result = await compactMemories(
-      client,
-      messages.map((m: any) => ({ role: m.role, content: m.content })),
-      existingFacts
+      getLLMProvider(),
+      messages.map((m) => ({ role: m.role, content: m.content })),
+      existingMemories.map((m) => m.fact),
+      tombstones.map((t) => t.fact),
+      BATCH_SIZE
     );
 
     // Store new memories (only high-confidence are returned)
     if (result.memories.length > 0) {
       await ctx.runMutation(internal.memories.addMemories, {
         userId,
-        memories: result.memories,
-        sourceConversationId: args.conversationId,
+        memories: result.memories.map((memory) => {
+          const evidence = findEvidence(memory.fact, messages);
+          return {
+            fact: memory.fact,
+            category: memory.category,
+            confidence: memory.confidence,
+            expiresAt: expiryFromDays(memory.expiresInDays, Date.now()),
+            scopeConversationId:
+              memory.conversationOnly === true ? conversationId : undefined,
+            evidence: evidence
+              ? { messageId: evidence.message._id, excerpt: evidence.excerpt }
+              : undefined,
+          };
+        }),
+        sourceConversationId: conversationId,
       });
     }
 
-    // Mark compaction as run
-    await ctx.runMutation(internal.memoryCompaction.markCompactionRun, {
-      conversationId: args.conversationId,
-    });
+    await record("succeeded", result.memories.length);
+    return { ...result, messagesProcessed: messages.length };
+  } catch (error) {
+    await record(
+      "failed",
+      0,
+      error instanceof Error ? error.message : "Compaction failed"
+    );
+    throw error;
+  }
+}
+
+export const runCompaction = action({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw createError("UNAUTHORIZED", "Please sign in");
+
+    const conversation: Doc<"conversations"> | null = await ctx.runQuery(
+      internal.conversations.getInternal,
+      { conversationId: args.conversationId }
+    );
+    if (!conversation || conversation.userId !== userId) {
+      throw createError("NOT_FOUND", "Conversation not found");
+    }
+
+    await ctx.runMutation(internal.users.consumeQuota, { userId });
+
+    const result: CompactionResult = await compactSinceWatermark(
+      ctx,
+      args.conversationId,
+      userId,
+      "manual"
+    ).catch(toCompactionError);
 
     return {
       newMemories: result.memories.length,
@@ -93,77 +316,70 @@ export const runCompaction = action({
   },
 });
 
-// Auto-compaction trigger (call this after AI response)
-export const maybeRunCompaction = internalAction({
+// Internal: Queued run; never throws, failures are recorded on the run instead
+export const runScheduledCompaction = internalAction({
   args: { conversationId: v.id("conversations") },
   handler: async (ctx, args) => {
-    const shouldRun = await ctx.runQuery(
-      internal.memoryCompaction.shouldRunCompaction,
-      {
-        conversationId: args.conversationId,
-      }
+    const conversation: Doc<"conversations"> | null = await ctx.runQuery(
+      internal.conversations.getInternal,
+      { conversationId: args.conversationId }
     );
+    // Deleted while the run was queued
+    if (!conversation) return;
+    const userId = conversation.userId;
 
-    if (shouldRun) {
-      // Run compaction
-      try {
-        const userId = await getAuthUserId(ctx);
-        if (!userId) return;
-
-        const messages = await ctx.runQuery(
-          internal.messages.getRecentInternal,
-          {
-            conversationId: args.conversationId,
-            limit: 30,
-          }
-        );
-
-        const existingMemories = await ctx.runQuery(
-          internal.memories.getMemoriesInternal,
-          {
-            userId,
-          }
-        );
-
-        const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-
-        const result = await compactMemories(
-          client,
-          messages.map((m: any) => ({ role: m.role, content: m.content })),
-          existingMemories.map((m: any) => m.fact)
-        );
-
-        if (result.memories.length > 0) {
-          await ctx.runMutation(internal.memories.addMemories, {
-            userId,
-            memories: result.memories,
-            sourceConversationId: args.conversationId,
-          });
-        }
-
-        await ctx.runMutation(internal.memoryCompaction.markCompactionRun, {
+    // Background compaction never consumes quota, but it stops once the user has none left
+    const quota = await ctx.runQuery(internal.users.getQuotaInternal, {
+      userId,
+    });
+    if (!quota || quota.remaining === 0) {
+      await ctx.runMutation(internal.memoryCompaction.recordCompactionRun, {
+        conversationId: args.conversationId,
+        userId,
+        trigger: "scheduled",
+        status: "skipped",
+        messagesProcessed: 0,
+        memoriesAdded: 0,
+        detail: "Daily quota exhausted",
+        startedAt: Date.now(),
+      });
+      return;
+    }
+
+    try {
+      const result = await compactSinceWatermark(
+        ctx,
+        args.conversationId,
+        userId,
+        "scheduled"
+      );
+      // A full batch may have left messages behind; queue them if they're due
+      if (result.messagesProcessed === BATCH_SIZE) {
+        await ctx.runMutation(internal.memoryCompaction.scheduleCompaction, {
           conversationId: args.conversationId,
         });
-      } catch (error) {
-        console.error("Memory compaction error:", error);
       }
+    } catch (error) {
+      console.error("Memory compaction error:", error);
     }
   },
 });
 
-// Debug action to manually check and trigger compaction
+// Debug action to inspect compaction state and force a run
 export const debugCompaction = action({
   args: { conversationId: v.id("conversations") },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) throw new Error("Unauthorized");
+    if (!userId) throw createError("UNAUTHORIZED", "Please sign in");
 
     // Get conversation details
     const conversation: any = await ctx.runQuery(internal.conversations.getInternal, {
       conversationId: args.conversationId,
     });
 
-    if (!conversation) throw new Error("Conversation not found");
+    if (!conversation || conversation.userId !== userId) {
+      throw createError("NOT_FOUND", "Conversation not found");
+    }
 
     // Check if should run
     const shouldRun = await ctx.runQuery(
@@ -171,11 +387,10 @@ export const debugCompaction = action({
       { conversationId: args.conversationId }
     );
 
-    // Get messages count
-    const messages = await ctx.runQuery(internal.messages.getRecentInternal, {
-      conversationId: args.conversationId,
-      limit: 50,
-    });
+    const pendingBatch: { messages: Doc<"messages">[] } | null = await ctx.runQuery(
+      internal.memoryCompaction.getMessagesSinceWatermark,
+      { conversationId: args.conversationId, limit: BATCH_SIZE }
+    );
 
     // Get existing memories
     const existingMemories = await ctx.runQuery(
@@ -186,45 +401,39 @@ export const debugCompaction = action({
     const debug: any = {
       conversationId: args.conversationId,
       messageCount: conversation.messageCount,
-      actualMessages: messages.length,
+      messagesSinceWatermark: pendingBatch?.messages.length ?? 0,
+      compactionWatermark: conversation.compactionWatermark,
       lastCompactionAt: conversation.lastCompactionAt,
+      pendingCompaction: conversation.pendingCompaction,
       createdAt: conversation.createdAt,
       shouldRunCompaction: shouldRun,
       existingMemoriesCount: existingMemories.length,
       threshold: MESSAGE_THRESHOLD,
     };
 
-    // Force run compaction
-    if (messages.length > 0) {
-      const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+    // Force run compaction over the new messages
+    let compactionResult = null;
+    if (debug.messagesSinceWatermark > 0) {
+      await ctx.runMutation(internal.users.consumeQuota, { userId });
 
-      const result = await compactMemories(
-        client,
-        messages.map((m: any) => ({ role: m.role, content: m.content })),
-        existingMemories.map((m: any) => m.fact)
-      );
-
-      if (result.memories.length > 0) {
-        await ctx.runMutation(internal.memories.addMemories, {
-          userId,
-          memories: result.memories,
-          sourceConversationId: args.conversationId,
-        });
-      }
-
-      await ctx.runMutation(internal.memoryCompaction.markCompactionRun, {
-        conversationId: args.conversationId,
-      });
+      const result = await compactSinceWatermark(
+        ctx,
+        args.conversationId,
+        userId,
+        "manual"
+      ).catch(toCompactionError);
 
-      return {
-        debug,
-        compactionResult: {
-          newMemories: result.memories.length,
-          memories: result.memories,
-        },
+      compactionResult = {
+        newMemories: result.memories.length,
+        memories: result.memories,
       };
     }
 
-    return { debug, compactionResult: null };
+    const recentRuns: Doc<"compactionRuns">[] = await ctx.runQuery(
+      internal.memoryCompaction.getRecentRuns,
+      { conversationId: args.conversationId }
+    );
+
+    return { debug, compactionResult, recentRuns };
   },
 });
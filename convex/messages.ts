@@ -5,8 +5,17 @@ import {
   internalQuery,
   internalMutation,
 } from "./_generated/server";
-import { requireAuth, requireOwnership, verifyFileOwnership } from "./lib/auth";
+import {
+  getUserProfile,
+  requireAuth,
+  requireOwnership,
+  verifyFileOwnership,
+} from "./lib/auth";
 import { validatePrompt } from "./lib/validators";
+import { createError } from "./lib/errors";
+import { consumeQuotaOrThrow, messageCost } from "./lib/rateLimit";
+import { recipesOf, recipesPatch } from "./lib/messageRecipes";
+import { messageRecipe } from "./schema";
 
 export const list = query({
   args: {
@@ -19,7 +28,7 @@ export const list = query({
     // Verify conversation ownership
     const conversation = await ctx.db.get(args.conversationId);
     if (!conversation) {
-      throw new Error("Conversation not found");
+      throw createError("NOT_FOUND", "Conversation not found");
     }
     requireOwnership(conversation.userId, userId);
 
@@ -47,7 +56,7 @@ export const send = mutation({
     // Verify conversation ownership
     const conversation = await ctx.db.get(args.conversationId);
     if (!conversation) {
-      throw new Error("Conversation not found");
+      throw createError("NOT_FOUND", "Conversation not found");
     }
     requireOwnership(conversation.userId, userId);
 
@@ -59,6 +68,15 @@ export const send = mutation({
     // Validate content
     const validatedContent = validatePrompt(args.content);
 
+    // Every message gets a reply, so charge for it before storing it; an
+    // over-limit send then leaves nothing behind. Image analysis is a second
+    // model request.
+    const profile = await getUserProfile(ctx, userId);
+    if (!profile) {
+      throw createError("NOT_FOUND", "Profile not found");
+    }
+    await consumeQuotaOrThrow(ctx, profile, messageCost(!!args.imageStorageId));
+
     const messageId = await ctx.db.insert("messages", {
       conversationId: args.conversationId,
       userId,
@@ -90,18 +108,43 @@ export const getRecentInternal = internalQuery({
   args: {
     conversationId: v.id("conversations"),
     limit: v.number(),
+    // Only messages created after this (e.g. not yet in the history summary)
+    afterCreationTime: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     return await ctx.db
       .query("messages")
       .withIndex("by_conversationId", (q) =>
-        q.eq("conversationId", args.conversationId)
+        q
+          .eq("conversationId", args.conversationId)
+          .gt("_creationTime", args.afterCreationTime ?? 0)
       )
       .order("desc")
       .take(args.limit);
   },
 });
 
+// Internal: Messages in (afterCreationTime, throughCreationTime], oldest first
+export const getRangeInternal = internalQuery({
+  args: {
+    conversationId: v.id("conversations"),
+    afterCreationTime: v.optional(v.number()),
+    throughCreationTime: v.number(),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q
+          .eq("conversationId", args.conversationId)
+          .gt("_creationTime", args.afterCreationTime ?? 0)
+          .lte("_creationTime", args.throughCreationTime)
+      )
+      .take(args.limit);
+  },
+});
+
 // Internal: Get message by ID
 export const getById = internalQuery({
   args: { messageId: v.id("messages") },
@@ -110,24 +153,32 @@ export const getById = internalQuery({
   },
 });
 
-// Internal: Create assistant message
-export const createAssistantMessage = internalMutation({
+// Internal: Create an empty assistant message that is filled in as the reply streams
+export const createStreamingMessage = internalMutation({
   args: {
     conversationId: v.id("conversations"),
     userId: v.id("users"),
-    content: v.string(),
-    recipeJson: v.optional(v.string()),
-    linkedRecipeId: v.optional(v.id("recipes")),
+    // The user message being answered. Each one is charged for a single
+    // reply, so it must still be the latest message: a reply already
+    // written or in progress for it comes after it.
+    replyTo: v.id("messages"),
   },
   handler: async (ctx, args) => {
+    const latest = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) => q.eq("conversationId", args.conversationId))
+      .order("desc")
+      .first();
+    if (latest?._id !== args.replyTo) {
+      throw createError("VALIDATION", "This message has already been answered");
+    }
+
     const messageId = await ctx.db.insert("messages", {
       conversationId: args.conversationId,
       userId: args.userId,
       role: "assistant",
-      content: args.content,
-      recipeJson: args.recipeJson,
-      linkedRecipeId: args.linkedRecipeId,
-      isStreaming: false,
+      content: "",
+      isStreaming: true,
       createdAt: Date.now(),
     });
 
@@ -144,21 +195,86 @@ export const createAssistantMessage = internalMutation({
   },
 });
 
-// Link a saved recipe to the message it came from
+// Internal: Replace the partial content of a streaming message
+export const updateStreamingContent = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    // Ignore late chunks once the message has been finalized or deleted
+    if (!message || !message.isStreaming) return;
+
+    await ctx.db.patch(args.messageId, { content: args.content });
+  },
+});
+
+// Internal: Write the final content of a streamed message and clear the streaming flag
+export const finalizeStreamingMessage = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+    recipes: v.optional(v.array(messageRecipe)),
+    recipeError: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return;
+
+    await ctx.db.patch(args.messageId, {
+      content: args.content,
+      recipes: args.recipes,
+      recipeError: args.recipeError,
+      isStreaming: false,
+    });
+  },
+});
+
+// Internal: Remove a streaming message whose reply failed
+export const discardStreamingMessage = internalMutation({
+  args: { messageId: v.id("messages") },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message || !message.isStreaming) return;
+
+    await ctx.db.delete(args.messageId);
+
+    const conversation = await ctx.db.get(message.conversationId);
+    if (conversation) {
+      await ctx.db.patch(message.conversationId, {
+        messageCount: Math.max(conversation.messageCount - 1, 0),
+      });
+    }
+  },
+});
+
+// Link a saved recipe to the card in the message it came from
 export const linkRecipe = mutation({
   args: {
     messageId: v.id("messages"),
+    // Position of the card among the message's recipes
+    recipeIndex: v.number(),
     recipeId: v.id("recipes"),
   },
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
     const message = await ctx.db.get(args.messageId);
-    if (!message) throw new Error("Message not found");
+    if (!message) throw createError("NOT_FOUND", "Message not found");
     requireOwnership(message.userId, userId);
 
-    await ctx.db.patch(args.messageId, {
-      linkedRecipeId: args.recipeId,
-    });
+    const recipes = recipesOf(message);
+    if (!recipes[args.recipeIndex]) {
+      throw createError("NOT_FOUND", "Recipe not found in message");
+    }
+    await ctx.db.patch(
+      args.messageId,
+      recipesPatch(
+        recipes.map((recipe, i) =>
+          i === args.recipeIndex ? { ...recipe, linkedRecipeId: args.recipeId } : recipe
+        )
+      )
+    );
   },
 });
 
@@ -167,10 +283,25 @@ export const updateImageAnalysis = internalMutation({
   args: {
     messageId: v.id("messages"),
     analysis: v.string(),
+    detectedItems: v.optional(
+      v.array(
+        v.object({
+          name: v.string(),
+          quantity: v.string(),
+          unit: v.string(),
+          condition: v.string(),
+        })
+      )
+    ),
   },
   handler: async (ctx, args) => {
     await ctx.db.patch(args.messageId, {
       imageAnalysis: args.analysis,
+      // Only offer the pantry confirmation when something was found
+      detectedItems:
+        args.detectedItems && args.detectedItems.length > 0
+          ? args.detectedItems
+          : undefined,
     });
   },
 });
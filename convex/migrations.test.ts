@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { api, internal } from "./_generated/api";
+import { createUser, setupTest } from "./test.setup";
+
+describe("moveMessageRecipes", () => {
+  it("moves single-recipe fields into the recipes array", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const recipeJson = JSON.stringify({ title: "Hummus" });
+    const { legacyId, plainId, recipeId } = await t.run(async (ctx) => {
+      const conversationId = await ctx.db.insert("conversations", {
+        userId: user.userId,
+        title: "Chat",
+        lastMessageAt: Date.now(),
+        messageCount: 2,
+        isArchived: false,
+        createdAt: Date.now(),
+      });
+      const recipeId = await ctx.db.insert("recipes", {
+        userId: user.userId,
+        title: "Hummus",
+        description: "",
+        ingredients: [{ name: "chickpeas", amount: "1", unit: "can" }],
+        instructions: ["Blend"],
+        servings: 4,
+        dietaryTags: [],
+        source: "ai_generated",
+        isFavorite: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      const message = {
+        conversationId,
+        userId: user.userId,
+        role: "assistant" as const,
+        isStreaming: false,
+        createdAt: Date.now(),
+      };
+      const legacyId = await ctx.db.insert("messages", {
+        ...message,
+        content: "Here you go!",
+        recipeJson,
+        linkedRecipeId: recipeId,
+        dietaryWarnings: [{ ingredient: "tahini", allergen: "sesame", fact: "Allergic to sesame" }],
+      });
+      const plainId = await ctx.db.insert("messages", { ...message, content: "Hello!" });
+      return { legacyId, plainId, recipeId };
+    });
+
+    const result = await t.mutation(internal.migrations.moveMessageRecipes, {});
+
+    expect(result).toEqual({ moved: 1, isDone: true });
+    const [legacy, plain] = await t.run(async (ctx) =>
+      Promise.all([ctx.db.get(legacyId), ctx.db.get(plainId)])
+    );
+    expect(legacy).toMatchObject({
+      recipes: [
+        {
+          recipeJson,
+          linkedRecipeId: recipeId,
+          dietaryWarnings: [{ ingredient: "tahini", allergen: "sesame", fact: "Allergic to sesame" }],
+        },
+      ],
+    });
+    expect(legacy?.recipeJson).toBeUndefined();
+    expect(legacy?.linkedRecipeId).toBeUndefined();
+    expect(legacy?.dietaryWarnings).toBeUndefined();
+    expect(plain?.recipes).toBeUndefined();
+
+    // Running it again changes nothing
+    expect(await t.mutation(internal.migrations.moveMessageRecipes, {})).toEqual({
+      moved: 0,
+      isDone: true,
+    });
+  });
+
+  it("leaves messages it hasn't reached yet usable", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const recipeJson = JSON.stringify({ title: "Hummus" });
+    const { messageId, recipeId } = await t.run(async (ctx) => {
+      const conversationId = await ctx.db.insert("conversations", {
+        userId: user.userId,
+        title: "Chat",
+        lastMessageAt: Date.now(),
+        messageCount: 1,
+        isArchived: false,
+        createdAt: Date.now(),
+      });
+      const recipeId = await ctx.db.insert("recipes", {
+        userId: user.userId,
+        title: "Hummus",
+        description: "",
+        ingredients: [{ name: "chickpeas", amount: "1", unit: "can" }],
+        instructions: ["Blend"],
+        servings: 4,
+        dietaryTags: [],
+        source: "ai_generated",
+        isFavorite: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      const messageId = await ctx.db.insert("messages", {
+        conversationId,
+        userId: user.userId,
+        role: "assistant",
+        content: "Here you go!",
+        isStreaming: false,
+        createdAt: Date.now(),
+        recipeJson,
+      });
+      return { messageId, recipeId };
+    });
+
+    await user.as.mutation(api.messages.linkRecipe, { messageId, recipeIndex: 0, recipeId });
+
+    const message = await t.run((ctx) => ctx.db.get(messageId));
+    expect(message?.recipes).toEqual([{ recipeJson, linkedRecipeId: recipeId }]);
+    expect(message?.recipeJson).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+// One-off data migrations. Start one with `npx convex run migrations:<name>`;
+// each works through its table in batches, scheduling the next batch itself,
+// and is safe to run again. `npm run deploy` starts the pending ones after
+// pushing, so add new migrations to that script too.
+
+const BATCH_SIZE = 200;
+
+// Messages from before multi-recipe replies kept a single recipe in
+// top-level fields; move it into `recipes` and clear them
+export const moveMessageRecipes = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const batch = await ctx.db
+      .query("messages")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let moved = 0;
+    for (const message of batch.page) {
+      const { recipeJson, linkedRecipeId, dietaryWarnings, memberSafety } = message;
+      if (!recipeJson && !linkedRecipeId && !dietaryWarnings && !memberSafety) continue;
+
+      await ctx.db.patch(message._id, {
+        // A message that already has `recipes` was written after the switch
+        recipes:
+          message.recipes ??
+          (recipeJson
+            ? [{ recipeJson, linkedRecipeId, dietaryWarnings, memberSafety }]
+            : undefined),
+        recipeJson: undefined,
+        linkedRecipeId: undefined,
+        dietaryWarnings: undefined,
+        memberSafety: undefined,
+      });
+      moved++;
+    }
+
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.moveMessageRecipes, {
+        cursor: batch.continueCursor,
+      });
+    }
+    return { moved, isDone: batch.isDone };
+  },
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { createUser, setupTest, TestConvex } from "./test.setup";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A user photo message whose analysis found some items
+async function insertPhotoMessage(t: TestConvex, userId: Id<"users">) {
+  return await t.run(async (ctx) => {
+    const conversationId = await ctx.db.insert("conversations", {
+      userId,
+      title: "Fridge",
+      lastMessageAt: Date.now(),
+      messageCount: 1,
+      isArchived: false,
+      createdAt: Date.now(),
+    });
+    return await ctx.db.insert("messages", {
+      conversationId,
+      userId,
+      role: "user",
+      content: "What can I make?",
+      detectedItems: [
+        { name: "eggs", quantity: "6", unit: "", condition: "fresh" },
+        { name: "spinach", quantity: "1", unit: "bag", condition: "wilting" },
+      ],
+      isStreaming: false,
+      createdAt: Date.now(),
+    });
+  });
+}
+
+describe("pantry", () => {
+  it("merges repeat additions of the same ingredient", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+
+    const first = await as.mutation(api.pantry.add, { name: "Eggs", quantity: "2" });
+    const second = await as.mutation(api.pantry.add, { name: "egg", quantity: "6" });
+    await as.mutation(api.pantry.add, { name: "Flour", quantity: "1", unit: "kg" });
+    await as.mutation(api.pantry.add, { name: "flour", quantity: "2", unit: "cups" });
+
+    expect(second).toBe(first);
+    const items = await as.query(api.pantry.list);
+    expect(items.map((i) => [i.name, i.quantity, i.unit])).toEqual([
+      ["Eggs", "8", ""],
+      ["Flour", "1", "kg"],
+      ["flour", "2", "cups"],
+    ]);
+  });
+
+  it("updates and removes items", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const id = await as.mutation(api.pantry.add, { name: "Milk", quantity: "1", unit: "L" });
+    expect((await as.query(api.pantry.list))[0].expiresAt).toBeDefined();
+
+    await as.mutation(api.pantry.update, { id, quantity: "1/2", expiresAt: null });
+    let [item] = await as.query(api.pantry.list);
+    expect(item).toMatchObject({ quantity: "1/2", unit: "L" });
+    expect(item.expiresAt).toBeUndefined();
+
+    await as.mutation(api.pantry.remove, { id });
+    expect(await as.query(api.pantry.list)).toEqual([]);
+  });
+
+  it("keeps pantries private to their owner", async () => {
+    const t = setupTest();
+    const alice = await createUser(t, "Alice");
+    const bob = await createUser(t, "Bob");
+    const id = await alice.as.mutation(api.pantry.add, { name: "Rice" });
+
+    await expect(bob.as.mutation(api.pantry.remove, { id })).rejects.toThrow(/FORBIDDEN/);
+    expect(await bob.as.query(api.pantry.list)).toEqual([]);
+  });
+
+  it("confirms items detected in a photo once", async () => {
+    const t = setupTest();
+    const { userId, as } = await createUser(t);
+    const messageId = await insertPhotoMessage(t, userId);
+
+    const count = await as.mutation(api.pantry.addDetectedItems, {
+      messageId,
+      items: [{ name: "eggs", quantity: "6", unit: "", condition: "fresh" }],
+    });
+
+    expect(count).toBe(1);
+    const [item] = await as.query(api.pantry.list);
+    expect(item).toMatchObject({ name: "eggs", quantity: "6", source: "image" });
+    const message = await t.run((ctx) => ctx.db.get(messageId));
+    expect(message?.detectedItemsAddedAt).toBeDefined();
+
+    await expect(
+      as.mutation(api.pantry.addDetectedItems, {
+        messageId,
+        items: [{ name: "eggs", quantity: "6", unit: "", condition: "fresh" }],
+      })
+    ).rejects.toThrow(/VALIDATION_ERROR/);
+  });
+
+  it("won't confirm another user's photo items", async () => {
+    const t = setupTest();
+    const alice = await createUser(t, "Alice");
+    const bob = await createUser(t, "Bob");
+    const messageId = await insertPhotoMessage(t, alice.userId);
+
+    await expect(
+      bob.as.mutation(api.pantry.addDetectedItems, {
+        messageId,
+        items: [{ name: "eggs", quantity: "6", unit: "", condition: "" }],
+      })
+    ).rejects.toThrow(/FORBIDDEN/);
+  });
+
+  it("lists expiring items for the chat tool", async () => {
+    const t = setupTest();
+    const { userId, as } = await createUser(t);
+    await as.mutation(api.pantry.add, { name: "Salmon fillet", quantity: "2" });
+    await as.mutation(api.pantry.add, { name: "Rice", quantity: "1", unit: "kg" });
+    await as.mutation(api.pantry.add, {
+      name: "Yogurt",
+      expiresAt: Date.now() + 10 * DAY_MS,
+    });
+
+    const all = await t.query(internal.pantry.getPantryForTool, { userId });
+    expect(all.map((i) => i.name)).toEqual(["Salmon fillet", "Yogurt", "Rice"]);
+
+    const soon = await t.query(internal.pantry.getPantryForTool, {
+      userId,
+      expiringWithinDays: 3,
+    });
+    expect(soon).toEqual([
+      { name: "Salmon fillet", quantity: "2", condition: undefined, expiresInDays: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { v } from "convex/values";
+import { z } from "zod";
+import {
+  mutation,
+  query,
+  internalQuery,
+  MutationCtx,
+} from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { requireAuth, requireOwnership } from "./lib/auth";
+import { createError } from "./lib/errors";
+import {
+  combinePantryQuantities,
+  DetectedPantryItem,
+  DetectedPantryItemSchema,
+  estimateExpiry,
+  MAX_PANTRY_ITEMS,
+} from "./lib/pantry";
+import { normalizeIngredientName } from "./lib/shoppingList";
+import { parseOrThrow } from "./lib/validators";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const detectedItemValidator = v.object({
+  name: v.string(),
+  quantity: v.string(),
+  unit: v.string(),
+  condition: v.string(),
+});
+
+// Merge into an existing row when the quantities add up cleanly, else insert
+async function addOrMergeItem(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  item: DetectedPantryItem & { expiresAt?: number },
+  source: "manual" | "image"
+) {
+  const now = Date.now();
+  const normalizedName = normalizeIngredientName(item.name);
+  const expiresAt =
+    item.expiresAt ?? estimateExpiry(item.name, item.condition, now);
+
+  const sameName = await ctx.db
+    .query("pantryItems")
+    .withIndex("by_userId_normalizedName", (q) =>
+      q.eq("userId", userId).eq("normalizedName", normalizedName)
+    )
+    .collect();
+  for (const existing of sameName) {
+    const quantity = combinePantryQuantities(existing, item);
+    if (quantity === null) continue;
+    // Keep the earlier expiry: the older stock goes off first
+    await ctx.db.patch(existing._id, {
+      quantity,
+      expiresAt:
+        existing.expiresAt !== undefined && expiresAt !== undefined
+          ? Math.min(existing.expiresAt, expiresAt)
+          : existing.expiresAt ?? expiresAt,
+      updatedAt: now,
+    });
+    return existing._id;
+  }
+
+  const count = (
+    await ctx.db
+      .query("pantryItems")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect()
+  ).length;
+  if (count >= MAX_PANTRY_ITEMS) {
+    throw createError(
+      "VALIDATION",
+      `Your pantry can hold at most ${MAX_PANTRY_ITEMS} items`
+    );
+  }
+
+  return await ctx.db.insert("pantryItems", {
+    userId,
+    name: item.name,
+    normalizedName,
+    quantity: item.quantity,
+    unit: item.unit,
+    condition: item.condition || undefined,
+    expiresAt,
+    source,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Soonest-expiring first; items without an estimate go last
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const items = await ctx.db
+      .query("pantryItems")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+
+    return items.sort(
+      (a, b) =>
+        (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity) ||
+        a.name.localeCompare(b.name)
+    );
+  },
+});
+
+export const add = mutation({
+  args: {
+    name: v.string(),
+    quantity: v.optional(v.string()),
+    unit: v.optional(v.string()),
+    condition: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const item = parseOrThrow(DetectedPantryItemSchema, args);
+    return await addOrMergeItem(
+      ctx,
+      userId,
+      { ...item, expiresAt: args.expiresAt },
+      "manual"
+    );
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("pantryItems"),
+    quantity: v.optional(v.string()),
+    unit: v.optional(v.string()),
+    // null clears the expiry estimate
+    expiresAt: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const item = await ctx.db.get(args.id);
+    if (!item) {
+      throw createError("NOT_FOUND", "Pantry item not found");
+    }
+    requireOwnership(item.userId, userId);
+
+    const updates = parseOrThrow(
+      DetectedPantryItemSchema.pick({ quantity: true, unit: true }).partial(),
+      { quantity: args.quantity, unit: args.unit }
+    );
+    await ctx.db.patch(args.id, {
+      ...(args.quantity !== undefined && { quantity: updates.quantity }),
+      ...(args.unit !== undefined && { unit: updates.unit }),
+      ...(args.expiresAt !== undefined && {
+        expiresAt: args.expiresAt ?? undefined,
+      }),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("pantryItems") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const item = await ctx.db.get(args.id);
+    if (!item) {
+      throw createError("NOT_FOUND", "Pantry item not found");
+    }
+    requireOwnership(item.userId, userId);
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Confirm items detected in a photo into the pantry. The user may have
+// edited or deselected some, so the confirmed list is passed explicitly.
+export const addDetectedItems = mutation({
+  args: {
+    messageId: v.id("messages"),
+    items: v.array(detectedItemValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const message = await ctx.db.get(args.messageId);
+    if (!message || !message.detectedItems) {
+      throw createError("NOT_FOUND", "Message not found");
+    }
+    requireOwnership(message.userId, userId);
+    if (message.detectedItemsAddedAt) {
+      throw createError("VALIDATION", "These items were already added");
+    }
+
+    const items = parseOrThrow(
+      z.array(DetectedPantryItemSchema).min(1).max(50),
+      args.items
+    );
+    for (const item of items) {
+      await addOrMergeItem(ctx, userId, item, "image");
+    }
+
+    await ctx.db.patch(args.messageId, { detectedItemsAddedAt: Date.now() });
+    return items.length;
+  },
+});
+
+export const dismissDetectedItems = mutation({
+  args: { messageId: v.id("messages") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw createError("NOT_FOUND", "Message not found");
+    }
+    requireOwnership(message.userId, userId);
+    await ctx.db.patch(args.messageId, { detectedItems: undefined });
+  },
+});
+
+// Internal: Pantry summary for the chat assistant's get_pantry_items tool
+export const getPantryForTool = internalQuery({
+  args: {
+    userId: v.id("users"),
+    expiringWithinDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const items = await ctx.db
+      .query("pantryItems")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    const cutoff =
+      args.expiringWithinDays !== undefined
+        ? now + args.expiringWithinDays * DAY_MS
+        : undefined;
+
+    return items
+      .filter(
+        (item) =>
+          cutoff === undefined ||
+          (item.expiresAt !== undefined && item.expiresAt <= cutoff)
+      )
+      .sort((a, b) => (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity))
+      .map((item) => ({
+        name: item.name,
+        quantity: [item.quantity, item.unit].filter(Boolean).join(" "),
+        condition: item.condition,
+        expiresInDays:
+          item.expiresAt !== undefined
+            ? Math.floor((item.expiresAt - now) / DAY_MS)
+            : undefined,
+      }));
+  },
+});
@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import { createUser, setupTest } from "./test.setup";
+
+const pancakes = {
+  title: "Pancakes",
+  description: "Fluffy weekend pancakes",
+  ingredients: [
+    { name: "flour", amount: "1 1/2", unit: "cups" },
+    { name: "eggs", amount: "2", unit: "" },
+    { name: "salt", amount: "to taste", unit: "" },
+  ],
+  instructions: ["Mix", "Cook"],
+  servings: 4,
+  dietaryTags: ["vegetarian"],
+  source: "user_created" as const,
+};
+
+describe("saveScaledCopy", () => {
+  it("saves a scaled copy and leaves the original untouched", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const id = await as.mutation(api.recipes.create, pancakes);
+
+    const copyId = await as.mutation(api.recipes.saveScaledCopy, {
+      id,
+      servings: 6,
+      unitSystem: "metric",
+    });
+
+    const copy = await as.query(api.recipes.get, { id: copyId });
+    expect(copy).toMatchObject({
+      title: "Pancakes (serves 6)",
+      servings: 6,
+      dietaryTags: ["vegetarian"],
+      isFavorite: false,
+    });
+    expect(copy.ingredients).toEqual([
+      { name: "flour", amount: "280", unit: "g" },
+      { name: "eggs", amount: "3", unit: "" },
+      { name: "salt", amount: "to taste", unit: "" },
+    ]);
+
+    const original = await as.query(api.recipes.get, { id });
+    expect(original.ingredients).toEqual(pancakes.ingredients);
+  });
+
+  it("rejects other users and out-of-range servings", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const intruder = await createUser(t, "Intruder");
+    const id = await owner.as.mutation(api.recipes.create, pancakes);
+
+    await expect(
+      intruder.as.mutation(api.recipes.saveScaledCopy, {
+        id,
+        servings: 2,
+        unitSystem: "original",
+      })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(
+      owner.as.mutation(api.recipes.saveScaledCopy, {
+        id,
+        servings: 0,
+        unitSystem: "original",
+      })
+    ).rejects.toThrow(/VALIDATION_ERROR/);
+  });
+});
+
+describe("updateFromChat", () => {
+  it("replaces the saved recipe and links the chat card to it", async () => {
+    const t = setupTest();
+    const user = await createUser(t);
+    const conversationId = await user.as.mutation(api.conversations.create, {});
+    const messageId = await t.run(async (ctx) =>
+      ctx.db.insert("messages", {
+        conversationId,
+        userId: user.userId,
+        role: "assistant",
+        content: "Here's a fluffier version",
+        recipes: [{ recipeJson: "{}" }],
+        isStreaming: false,
+        createdAt: Date.now(),
+      })
+    );
+    const id = await user.as.mutation(api.recipes.create, {
+      ...pancakes,
+      prepTime: 10,
+      source: "ai_generated",
+      sourceConversationId: conversationId,
+    });
+    expect(
+      await user.as.query(api.recipes.listSavedFromConversation, { conversationId })
+    ).toMatchObject([{ _id: id }]);
+
+    const { source, ...content } = pancakes;
+    await user.as.mutation(api.recipes.updateFromChat, {
+      id,
+      messageId,
+      recipeIndex: 0,
+      ...content,
+      title: "Fluffy Pancakes",
+      ingredients: [...pancakes.ingredients, { name: "buttermilk", amount: "1", unit: "cup" }],
+    });
+
+    const updated = await user.as.query(api.recipes.get, { id });
+    expect(updated).toMatchObject({ title: "Fluffy Pancakes", sourceMessageId: messageId });
+    expect(updated.ingredients).toHaveLength(4);
+    expect(updated.prepTime).toBeUndefined();
+    const message = await t.run(async (ctx) => ctx.db.get(messageId));
+    expect(message?.recipes?.[0].linkedRecipeId).toBe(id);
+    expect(await user.as.query(api.recipes.list, {})).toHaveLength(1);
+  });
+
+  it("rejects recipes the user can't access", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const intruder = await createUser(t, "Intruder");
+    const id = await owner.as.mutation(api.recipes.create, pancakes);
+    const conversationId = await intruder.as.mutation(api.conversations.create, {});
+    const messageId = await t.run(async (ctx) =>
+      ctx.db.insert("messages", {
+        conversationId,
+        userId: intruder.userId,
+        role: "assistant",
+        content: "",
+        recipes: [{ recipeJson: "{}" }],
+        isStreaming: false,
+        createdAt: Date.now(),
+      })
+    );
+    const { source, ...content } = pancakes;
+
+    await expect(
+      intruder.as.mutation(api.recipes.updateFromChat, {
+        id,
+        messageId,
+        recipeIndex: 0,
+        ...content,
+      })
+    ).rejects.toThrow(/FORBIDDEN/);
+  });
+});
+
+describe("recipe versions", () => {
+  it("records each edit and restores an earlier version", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const id = await as.mutation(api.recipes.create, pancakes);
+
+    await as.mutation(api.recipes.update, { id, title: "Best Pancakes", servings: 6 });
+    await as.mutation(api.recipes.update, { id, instructions: ["Whisk", "Rest", "Cook"] });
+
+    let versions = await as.query(api.recipes.listVersions, { id });
+    expect(versions.map((v) => [v.version, v.change, v.author])).toEqual([
+      [3, "edited", "user"],
+      [2, "edited", "user"],
+      [1, "created", "user"],
+    ]);
+    expect(versions[2].content).toMatchObject({ title: "Pancakes", servings: 4 });
+
+    await as.mutation(api.recipes.restoreVersion, { id, version: 1 });
+
+    const restored = await as.query(api.recipes.get, { id });
+    expect(restored).toMatchObject({ title: "Pancakes", servings: 4, instructions: ["Mix", "Cook"] });
+    versions = await as.query(api.recipes.listVersions, { id });
+    expect(versions[0]).toMatchObject({ version: 4, change: "restored", restoredFromVersion: 1 });
+  });
+
+  it("doesn't record a version when nothing changed", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const id = await as.mutation(api.recipes.create, pancakes);
+    await as.mutation(api.recipes.update, { id, servings: 6 });
+
+    await as.mutation(api.recipes.update, { id });
+    await as.mutation(api.recipes.update, { id, title: pancakes.title, servings: 6 });
+    await as.mutation(api.recipes.restoreVersion, { id, version: 2 });
+
+    const versions = await as.query(api.recipes.listVersions, { id });
+    expect(versions.map((v) => v.version)).toEqual([2, 1]);
+  });
+
+  it("keeps what a recipe saved before versioning looked like", async () => {
+    const t = setupTest();
+    const { userId, as } = await createUser(t);
+    const now = Date.now();
+    const id = await t.run(async (ctx) =>
+      ctx.db.insert("recipes", {
+        ...pancakes,
+        userId,
+        source: "ai_generated",
+        isFavorite: false,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+
+    await as.mutation(api.recipes.update, { id, servings: 2 });
+
+    const versions = await as.query(api.recipes.listVersions, { id });
+    expect(versions).toMatchObject([
+      { version: 2, author: "user", content: { servings: 2 } },
+      { version: 1, author: "ai", change: "created", content: { servings: 4 } },
+    ]);
+  });
+
+  it("links scaled copies and remixes to the recipe they came from", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const intruder = await createUser(t, "Intruder");
+    const id = await owner.as.mutation(api.recipes.create, pancakes);
+    const copyId = await owner.as.mutation(api.recipes.saveScaledCopy, {
+      id,
+      servings: 8,
+      unitSystem: "original",
+    });
+    const remixId = await owner.as.mutation(api.recipes.create, {
+      ...pancakes,
+      title: "Banana Pancakes",
+      parentRecipeId: id,
+    });
+
+    expect(await owner.as.query(api.recipes.getLineage, { id: copyId })).toEqual({
+      parent: { _id: id, title: "Pancakes" },
+      remixes: [],
+    });
+    const lineage = await owner.as.query(api.recipes.getLineage, { id });
+    expect(lineage.parent).toBeNull();
+    expect(lineage.remixes.map((r) => r._id).sort()).toEqual([copyId, remixId].sort());
+
+    await expect(
+      intruder.as.mutation(api.recipes.create, { ...pancakes, parentRecipeId: id })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(
+      intruder.as.query(api.recipes.listVersions, { id })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(
+      intruder.as.mutation(api.recipes.restoreVersion, { id, version: 1 })
+    ).rejects.toThrow(/FORBIDDEN/);
+  });
+});
@@ -1,7 +1,33 @@
-import { v } from "convex/values";
-import { mutation, query, internalMutation, internalQuery } from "./_generated/server";
-import { requireAuth, requireOwnership } from "./lib/auth";
-import { RecipeInputSchema } from "./lib/validators";
+import { ObjectType, v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalMutation,
+  internalQuery,
+  QueryCtx,
+} from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  canAccess,
+  getDataScope,
+  requireAccess,
+  requireAuth,
+  requireOwnership,
+  scopeFields,
+} from "./lib/auth";
+import { MAX_TITLE_LENGTH, RecipeInputSchema, parseOrThrow } from "./lib/validators";
+import { createError } from "./lib/errors";
+import { scaleRecipe } from "./lib/recipeScaling";
+import { recipeFromJson } from "./lib/recipeGeneration";
+import { recipesOf, recipesPatch } from "./lib/messageRecipes";
+import { rankRecipes } from "./lib/recipeSearch";
+import {
+  deleteRecipeVersions,
+  recordRecipeVersion,
+  reviseRecipe,
+  snapshotRecipe,
+} from "./lib/recipeVersions";
+import { recipeContent } from "./schema";
 
 const mealTypeValidator = v.optional(v.union(
   v.literal("Main Dish"),
@@ -15,7 +41,45 @@ const mealTypeValidator = v.optional(v.union(
   v.literal("Beverage")
 ));
 
-
+const recipeUpdateFields = {
+  title: v.optional(v.string()),
+  description: v.optional(v.string()),
+  ingredients: v.optional(recipeContent.fields.ingredients),
+  instructions: v.optional(v.array(v.string())),
+  servings: v.optional(v.number()),
+  prepTime: v.optional(v.number()),
+  cookTime: v.optional(v.number()),
+  dietaryTags: v.optional(v.array(v.string())),
+};
+
+// Validate an edit and turn it into a patch
+function recipePatch(args: ObjectType<typeof recipeUpdateFields>) {
+  parseOrThrow(RecipeInputSchema.partial(), {
+    ...(args.title !== undefined && { title: args.title }),
+    ...(args.description !== undefined && { description: args.description }),
+    ...(args.ingredients !== undefined && { ingredients: args.ingredients }),
+    ...(args.instructions !== undefined && { instructions: args.instructions }),
+    ...(args.servings !== undefined && { servings: args.servings }),
+    ...(args.prepTime !== undefined && { prepTime: args.prepTime }),
+    ...(args.cookTime !== undefined && { cookTime: args.cookTime }),
+    ...(args.dietaryTags !== undefined && { dietaryTags: args.dietaryTags }),
+  });
+
+  const updates: Record<string, unknown> = {
+    updatedAt: Date.now(),
+  };
+
+  if (args.title) updates.title = args.title;
+  if (args.description) updates.description = args.description;
+  if (args.ingredients) updates.ingredients = args.ingredients;
+  if (args.instructions) updates.instructions = args.instructions;
+  if (args.servings) updates.servings = args.servings;
+  if (args.prepTime !== undefined) updates.prepTime = args.prepTime;
+  if (args.cookTime !== undefined) updates.cookTime = args.cookTime;
+  if (args.dietaryTags) updates.dietaryTags = args.dietaryTags;
+
+  return updates;
+}
 
 export const list = query({
   args: {
@@ -27,22 +91,37 @@ export const list = query({
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
     const limit = Math.min(args.limit ?? 20, 50);
+    const { groupId } = await getDataScope(ctx, userId);
 
     let recipes;
 
+    // In a shared household the recipe book is the whole group's
     if (args.favoritesOnly) {
-      recipes = await ctx.db
-        .query("recipes")
-        .withIndex("by_userId_isFavorite", (q) =>
-          q.eq("userId", userId).eq("isFavorite", true)
-        )
-        .take(limit);
+      recipes = groupId
+        ? await ctx.db
+            .query("recipes")
+            .withIndex("by_groupId_isFavorite", (q) =>
+              q.eq("groupId", groupId).eq("isFavorite", true)
+            )
+            .take(limit)
+        : await ctx.db
+            .query("recipes")
+            .withIndex("by_userId_isFavorite", (q) =>
+              q.eq("userId", userId).eq("isFavorite", true)
+            )
+            .take(limit);
     } else {
-      recipes = await ctx.db
-        .query("recipes")
-        .withIndex("by_userId", (q) => q.eq("userId", userId))
-        .order("desc")
-        .take(limit);
+      recipes = groupId
+        ? await ctx.db
+            .query("recipes")
+            .withIndex("by_groupId", (q) => q.eq("groupId", groupId))
+            .order("desc")
+            .take(limit)
+        : await ctx.db
+            .query("recipes")
+            .withIndex("by_userId", (q) => q.eq("userId", userId))
+            .order("desc")
+            .take(limit);
     }
 
     // Simple text search filter
@@ -82,34 +161,24 @@ export const get = query({
     const recipe = await ctx.db.get(args.id);
 
     if (!recipe) {
-      throw new Error("Recipe not found");
+      throw createError("NOT_FOUND", "Recipe not found");
     }
 
-    requireOwnership(recipe.userId, userId);
+    await requireAccess(ctx, recipe, userId);
     return recipe;
   },
 });
 
+// A recipe's full content, as saved from a chat card or the editor
+const recipeContentFields = recipeContent.fields;
+
+// Whose words a new recipe's first version is
+const authorOf = (source: Doc<"recipes">["source"]) =>
+  source === "user_created" ? "user" : "ai";
+
 export const create = mutation({
   args: {
-    title: v.string(),
-    description: v.string(),
-    ingredients: v.array(
-      v.object({
-        name: v.string(),
-        amount: v.string(),
-        unit: v.string(),
-        preparation: v.optional(v.string()),
-        optional: v.optional(v.boolean()),
-      })
-    ),
-    instructions: v.array(v.string()),
-    prepTime: v.optional(v.number()),
-    cookTime: v.optional(v.number()),
-    servings: v.number(),
-    dietaryTags: v.array(v.string()),
-    mealType: mealTypeValidator,
-    proteinType: v.optional(v.string()),
+    ...recipeContentFields,
     source: v.union(
       v.literal("ai_generated"),
       v.literal("user_created"),
@@ -117,11 +186,22 @@ export const create = mutation({
     ),
     sourceConversationId: v.optional(v.id("conversations")),
     sourceMessageId: v.optional(v.id("messages")),
+    // The recipe this one is a remix of
+    parentRecipeId: v.optional(v.id("recipes")),
   },
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
+    const scope = await getDataScope(ctx, userId);
+
+    if (args.parentRecipeId) {
+      const parent = await ctx.db.get(args.parentRecipeId);
+      if (!parent) {
+        throw createError("NOT_FOUND", "Recipe not found");
+      }
+      await requireAccess(ctx, parent, userId);
+    }
 
-    RecipeInputSchema.parse({
+    parseOrThrow(RecipeInputSchema, {
       title: args.title,
       description: args.description,
       ingredients: args.ingredients,
@@ -136,8 +216,8 @@ export const create = mutation({
 
     const now = Date.now();
 
-    return await ctx.db.insert("recipes", {
-      userId,
+    const recipeId = await ctx.db.insert("recipes", {
+      ...scopeFields(scope),
       title: args.title,
       description: args.description,
       ingredients: args.ingredients,
@@ -151,10 +231,18 @@ export const create = mutation({
       source: args.source,
       sourceConversationId: args.sourceConversationId,
       sourceMessageId: args.sourceMessageId,
+      parentRecipeId: args.parentRecipeId,
       isFavorite: false,
       createdAt: now,
       updatedAt: now,
     });
+    await recordRecipeVersion(ctx, (await ctx.db.get(recipeId))!, {
+      author: authorOf(args.source),
+      userId,
+      change: "created",
+      sourceMessageId: args.sourceMessageId,
+    });
+    return recipeId;
   },
 });
 
@@ -188,7 +276,7 @@ export const createInternal = internalMutation({
     sourceConversationId: v.optional(v.id("conversations")),
   },
   handler: async (ctx, args) => {
-    RecipeInputSchema.parse({
+    parseOrThrow(RecipeInputSchema, {
       title: args.title,
       description: args.description,
       ingredients: args.ingredients,
@@ -201,14 +289,104 @@ export const createInternal = internalMutation({
       proteinType: args.proteinType,
     });
 
+    const scope = await getDataScope(ctx, args.userId);
     const now = Date.now();
-    return await ctx.db.insert("recipes", {
+    const recipeId = await ctx.db.insert("recipes", {
       ...args,
+      ...scopeFields(scope),
       dietaryTags: args.dietaryTags || [],
       isFavorite: false,
       createdAt: now,
       updatedAt: now,
     });
+    await recordRecipeVersion(ctx, (await ctx.db.get(recipeId))!, {
+      author: authorOf(args.source),
+      userId: args.userId,
+      change: "created",
+    });
+    return recipeId;
+  },
+});
+
+// Recipes saved from a conversation, newest first, so a chat card for a
+// revised recipe can offer to update the saved copy
+export const listSavedFromConversation = query({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) {
+      throw createError("NOT_FOUND", "Conversation not found");
+    }
+    requireOwnership(conversation.userId, userId);
+
+    const recipes = await ctx.db
+      .query("recipes")
+      .withIndex("by_sourceConversationId", (q) =>
+        q.eq("sourceConversationId", args.conversationId)
+      )
+      .take(50);
+
+    const accessible: Doc<"recipes">[] = [];
+    for (const recipe of recipes) {
+      if (await canAccess(ctx, recipe, userId)) accessible.push(recipe);
+    }
+    return accessible.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+// Replace a saved recipe with a revised version from a chat card, and link
+// the card to it
+export const updateFromChat = mutation({
+  args: {
+    id: v.id("recipes"),
+    messageId: v.id("messages"),
+    recipeIndex: v.number(),
+    ...recipeContentFields,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const { id, messageId, recipeIndex, ...content } = args;
+
+    const recipe = await ctx.db.get(id);
+    if (!recipe) {
+      throw createError("NOT_FOUND", "Recipe not found");
+    }
+    await requireAccess(ctx, recipe, userId);
+
+    const message = await ctx.db.get(messageId);
+    if (!message) {
+      throw createError("NOT_FOUND", "Message not found");
+    }
+    requireOwnership(message.userId, userId);
+    const cards = recipesOf(message);
+    if (!cards[recipeIndex]) {
+      throw createError("NOT_FOUND", "Recipe not found in message");
+    }
+
+    parseOrThrow(RecipeInputSchema, content);
+
+    await reviseRecipe(
+      ctx,
+      recipe,
+      {
+        ...content,
+        // Optional fields the revision dropped are cleared, not kept
+        prepTime: content.prepTime,
+        cookTime: content.cookTime,
+        mealType: content.mealType,
+        proteinType: content.proteinType,
+        sourceMessageId: messageId,
+        updatedAt: Date.now(),
+      },
+      { author: "ai", userId, change: "edited", sourceMessageId: messageId }
+    );
+    await ctx.db.patch(
+      messageId,
+      recipesPatch(
+        cards.map((card, i) => (i === recipeIndex ? { ...card, linkedRecipeId: id } : card))
+      )
+    );
   },
 });
 
@@ -216,59 +394,84 @@ export const createInternal = internalMutation({
 export const update = mutation({
   args: {
     id: v.id("recipes"),
-    title: v.optional(v.string()),
-    description: v.optional(v.string()),
-    ingredients: v.optional(
-      v.array(
-        v.object({
-          name: v.string(),
-          amount: v.string(),
-          unit: v.string(),
-        })
-      )
+    ...recipeUpdateFields,
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const { id, ...changes } = args;
+    const recipe = await ctx.db.get(id);
+
+    if (!recipe) {
+      throw createError("NOT_FOUND", "Recipe not found");
+    }
+
+    await requireAccess(ctx, recipe, userId);
+    await reviseRecipe(ctx, recipe, recipePatch(changes), {
+      author: "user",
+      userId,
+      change: "edited",
+    });
+  },
+});
+
+// Save a copy of a recipe scaled to a new serving count and/or unit system
+export const saveScaledCopy = mutation({
+  args: {
+    id: v.id("recipes"),
+    servings: v.number(),
+    unitSystem: v.union(
+      v.literal("original"),
+      v.literal("metric"),
+      v.literal("imperial")
     ),
-    instructions: v.optional(v.array(v.string())),
-    servings: v.optional(v.number()),
-    prepTime: v.optional(v.number()),
-    cookTime: v.optional(v.number()),
-    dietaryTags: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
     const recipe = await ctx.db.get(args.id);
 
     if (!recipe) {
-      throw new Error("Recipe not found");
+      throw createError("NOT_FOUND", "Recipe not found");
     }
 
-    requireOwnership(recipe.userId, userId);
-
-    RecipeInputSchema.partial().parse({
-      ...(args.title !== undefined && { title: args.title }),
-      ...(args.description !== undefined && { description: args.description }),
-      ...(args.ingredients !== undefined && { ingredients: args.ingredients }),
-      ...(args.instructions !== undefined && { instructions: args.instructions }),
-      ...(args.servings !== undefined && { servings: args.servings }),
-      ...(args.prepTime !== undefined && { prepTime: args.prepTime }),
-      ...(args.cookTime !== undefined && { cookTime: args.cookTime }),
-      ...(args.dietaryTags !== undefined && { dietaryTags: args.dietaryTags }),
-    });
+    await requireAccess(ctx, recipe, userId);
 
-    // Update recipe
-    const updates: Record<string, unknown> = {
-      updatedAt: Date.now(),
-    };
+    const scaled = scaleRecipe(recipe, args.servings, args.unitSystem);
+    const title = `${recipe.title} (serves ${args.servings})`.slice(0, MAX_TITLE_LENGTH);
 
-    if (args.title) updates.title = args.title;
-    if (args.description) updates.description = args.description;
-    if (args.ingredients) updates.ingredients = args.ingredients;
-    if (args.instructions) updates.instructions = args.instructions;
-    if (args.servings) updates.servings = args.servings;
-    if (args.prepTime !== undefined) updates.prepTime = args.prepTime;
-    if (args.cookTime !== undefined) updates.cookTime = args.cookTime;
-    if (args.dietaryTags) updates.dietaryTags = args.dietaryTags;
+    parseOrThrow(RecipeInputSchema, {
+      title,
+      description: scaled.description,
+      ingredients: scaled.ingredients,
+      instructions: scaled.instructions,
+      servings: scaled.servings,
+    });
 
-    await ctx.db.patch(args.id, updates);
+    const scope = await getDataScope(ctx, userId);
+    const now = Date.now();
+    const recipeId = await ctx.db.insert("recipes", {
+      ...scopeFields(scope),
+      title,
+      description: scaled.description,
+      ingredients: scaled.ingredients,
+      instructions: scaled.instructions,
+      prepTime: scaled.prepTime,
+      cookTime: scaled.cookTime,
+      servings: scaled.servings,
+      dietaryTags: scaled.dietaryTags,
+      mealType: scaled.mealType,
+      proteinType: scaled.proteinType,
+      source: "user_created",
+      parentRecipeId: recipe._id,
+      isFavorite: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await recordRecipeVersion(ctx, (await ctx.db.get(recipeId))!, {
+      author: "user",
+      userId,
+      change: "created",
+    });
+    return recipeId;
   },
 });
 
@@ -279,10 +482,10 @@ export const toggleFavorite = mutation({
     const recipe = await ctx.db.get(args.id);
 
     if (!recipe) {
-      throw new Error("Recipe not found");
+      throw createError("NOT_FOUND", "Recipe not found");
     }
 
-    requireOwnership(recipe.userId, userId);
+    await requireAccess(ctx, recipe, userId);
     await ctx.db.patch(args.id, {
       isFavorite: !recipe.isFavorite,
       updatedAt: Date.now(),
@@ -297,14 +500,110 @@ export const remove = mutation({
     const recipe = await ctx.db.get(args.id);
 
     if (!recipe) {
-      throw new Error("Recipe not found");
+      throw createError("NOT_FOUND", "Recipe not found");
     }
 
-    requireOwnership(recipe.userId, userId);
+    await requireAccess(ctx, recipe, userId, { manage: true });
+    await deleteRecipeVersions(ctx, args.id);
     await ctx.db.delete(args.id);
   },
 });
 
+// A recipe's revisions, newest first
+export const listVersions = query({
+  args: { id: v.id("recipes") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const recipe = await ctx.db.get(args.id);
+
+    if (!recipe) {
+      throw createError("NOT_FOUND", "Recipe not found");
+    }
+
+    await requireAccess(ctx, recipe, userId);
+    return await ctx.db
+      .query("recipeVersions")
+      .withIndex("by_recipeId_version", (q) => q.eq("recipeId", args.id))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Put an earlier version's content back. This is itself a new version, so
+// the restore can be undone the same way.
+export const restoreVersion = mutation({
+  args: { id: v.id("recipes"), version: v.number() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const recipe = await ctx.db.get(args.id);
+
+    if (!recipe) {
+      throw createError("NOT_FOUND", "Recipe not found");
+    }
+
+    await requireAccess(ctx, recipe, userId);
+
+    const version = await ctx.db
+      .query("recipeVersions")
+      .withIndex("by_recipeId_version", (q) =>
+        q.eq("recipeId", args.id).eq("version", args.version)
+      )
+      .unique();
+    if (!version) {
+      throw createError("NOT_FOUND", "Version not found");
+    }
+
+    const content = snapshotRecipe(version.content);
+    await reviseRecipe(
+      ctx,
+      recipe,
+      { ...content, updatedAt: Date.now() },
+      {
+        author: version.author,
+        userId,
+        change: "restored",
+        restoredFromVersion: version.version,
+      }
+    );
+  },
+});
+
+// The recipe this one was adapted from, and the ones adapted from it, as far
+// as the user can see them
+export const getLineage = query({
+  args: { id: v.id("recipes") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const recipe = await ctx.db.get(args.id);
+
+    if (!recipe) {
+      throw createError("NOT_FOUND", "Recipe not found");
+    }
+
+    await requireAccess(ctx, recipe, userId);
+
+    const parent = recipe.parentRecipeId && (await ctx.db.get(recipe.parentRecipeId));
+    const children = await ctx.db
+      .query("recipes")
+      .withIndex("by_parentRecipeId", (q) => q.eq("parentRecipeId", args.id))
+      .take(50);
+
+    const remixes: Array<{ _id: Id<"recipes">; title: string }> = [];
+    for (const child of children) {
+      if (await canAccess(ctx, child, userId)) {
+        remixes.push({ _id: child._id, title: child.title });
+      }
+    }
+    return {
+      parent:
+        parent && (await canAccess(ctx, parent, userId))
+          ? { _id: parent._id, title: parent.title }
+          : null,
+      remixes,
+    };
+  },
+});
+
 // Lightweight autocomplete endpoint for @mention
 export const listForMention = query({
   args: {
@@ -314,11 +613,17 @@ export const listForMention = query({
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
     const limit = Math.min(args.limit ?? 10, 20);
-
-    const recipes = await ctx.db
-      .query("recipes")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .take(50);
+    const { groupId } = await getDataScope(ctx, userId);
+
+    const recipes = groupId
+      ? await ctx.db
+          .query("recipes")
+          .withIndex("by_groupId", (q) => q.eq("groupId", groupId))
+          .take(50)
+      : await ctx.db
+          .query("recipes")
+          .withIndex("by_userId", (q) => q.eq("userId", userId))
+          .take(50);
 
     let filtered = recipes;
     if (args.search) {
@@ -344,3 +649,235 @@ export const getInternal = internalQuery({
     return await ctx.db.get(args.id);
   },
 });
+
+// ============================================
+// INTERNAL (for the chat's recipe book tools)
+// ============================================
+
+const TOOL_RECIPE_NOT_FOUND = {
+  success: false,
+  message: "No recipe with that ID in the user's recipe book. Search for it first.",
+};
+
+// Most recent recipes in the user's (or their household's) recipe book
+async function getRecipeBook(ctx: QueryCtx, userId: Id<"users">, limit: number) {
+  const { groupId } = await getDataScope(ctx, userId);
+  return groupId
+    ? await ctx.db
+        .query("recipes")
+        .withIndex("by_groupId", (q) => q.eq("groupId", groupId))
+        .order("desc")
+        .take(limit)
+    : await ctx.db
+        .query("recipes")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .order("desc")
+        .take(limit);
+}
+
+// Model-supplied IDs are untrusted strings
+async function getRecipeForTool(ctx: QueryCtx, userId: Id<"users">, recipeId: string) {
+  const id = ctx.db.normalizeId("recipes", recipeId);
+  const recipe = id ? await ctx.db.get(id) : null;
+  return recipe && (await canAccess(ctx, recipe, userId)) ? recipe : null;
+}
+
+const savedOn = (recipe: Doc<"recipes">) =>
+  new Date(recipe.createdAt).toISOString().slice(0, 10);
+
+function summarizeForTool(recipe: Doc<"recipes">) {
+  return {
+    id: recipe._id,
+    title: recipe.title,
+    description: recipe.description.slice(0, 160),
+    mealType: recipe.mealType,
+    proteinType: recipe.proteinType,
+    isFavorite: recipe.isFavorite,
+    savedOn: savedOn(recipe),
+  };
+}
+
+// Internal: search_recipe_book
+export const searchForTool = internalQuery({
+  args: {
+    userId: v.id("users"),
+    query: v.optional(v.string()),
+    favoritesOnly: v.optional(v.boolean()),
+    mealType: v.optional(v.string()),
+    savedAfter: v.optional(v.number()),
+    savedBefore: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, ...options } = args;
+    const recipes = await getRecipeBook(ctx, userId, 500);
+    return rankRecipes(recipes, options).slice(0, 10).map(summarizeForTool);
+  },
+});
+
+// Internal: get_recipe
+export const getForTool = internalQuery({
+  args: { userId: v.id("users"), recipeId: v.string() },
+  handler: async (ctx, args) => {
+    const recipe = await getRecipeForTool(ctx, args.userId, args.recipeId);
+    if (!recipe) return TOOL_RECIPE_NOT_FOUND;
+
+    return {
+      success: true,
+      recipe: {
+        ...summarizeForTool(recipe),
+        description: recipe.description,
+        ingredients: recipe.ingredients,
+        instructions: recipe.instructions,
+        servings: recipe.servings,
+        prepTime: recipe.prepTime,
+        cookTime: recipe.cookTime,
+        dietaryTags: recipe.dietaryTags,
+      },
+    };
+  },
+});
+
+// Internal: save_recipe_from_conversation. Saves the latest recipe the
+// assistant gave in this chat, or the latest one whose title matches.
+export const saveFromConversationForTool = internalMutation({
+  args: {
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    title: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== args.userId) {
+      return { success: false, message: "Conversation not found" };
+    }
+
+    const wanted = args.title?.trim().toLowerCase();
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) => q.eq("conversationId", args.conversationId))
+      .order("desc")
+      .take(50);
+
+    for (const message of messages) {
+      if (message.role !== "assistant") continue;
+      const cards = recipesOf(message);
+      const candidates = cards.flatMap((card, index) => {
+        const recipe = recipeFromJson(card.recipeJson);
+        return recipe && (!wanted || recipe.title.toLowerCase().includes(wanted))
+          ? [{ card, index, recipe }]
+          : [];
+      });
+      if (candidates.length === 0) continue;
+
+      // Several options in one reply: don't guess which the user meant
+      if (candidates.length > 1) {
+        return {
+          success: false,
+          needsChoice: true,
+          message: `The reply has ${candidates.length} recipes. Ask the user which one to save, then call again with its title. Nothing was saved.`,
+          titles: candidates.map((c) => c.recipe.title),
+        };
+      }
+      const [{ card, index, recipe }] = candidates;
+
+      // Saved already, from the card or an earlier call
+      const linked = card.linkedRecipeId && (await ctx.db.get(card.linkedRecipeId));
+      if (linked) {
+        return {
+          success: true,
+          alreadySaved: true,
+          message: `"${linked.title}" is already in the recipe book.`,
+          recipe: summarizeForTool(linked),
+        };
+      }
+
+      const scope = await getDataScope(ctx, args.userId);
+      const now = Date.now();
+      const recipeId = await ctx.db.insert("recipes", {
+        ...scopeFields(scope),
+        ...recipe,
+        source: "ai_generated",
+        sourceConversationId: args.conversationId,
+        sourceMessageId: message._id,
+        isFavorite: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await recordRecipeVersion(ctx, (await ctx.db.get(recipeId))!, {
+        author: "ai",
+        userId: args.userId,
+        change: "created",
+        sourceMessageId: message._id,
+      });
+      await ctx.db.patch(
+        message._id,
+        recipesPatch(cards.map((c, i) => (i === index ? { ...c, linkedRecipeId: recipeId } : c)))
+      );
+
+      const saved = (await ctx.db.get(recipeId))!;
+      return {
+        success: true,
+        message: `Saved "${saved.title}" to the recipe book.`,
+        recipe: summarizeForTool(saved),
+      };
+    }
+
+    return {
+      success: false,
+      message: wanted
+        ? `No recipe called "${args.title}" in this conversation.`
+        : "There's no complete recipe in this conversation to save yet. Recipes can only be saved after they've been shown in a reply.",
+    };
+  },
+});
+
+// Internal: update_saved_recipe
+export const updateForTool = internalMutation({
+  args: {
+    userId: v.id("users"),
+    recipeId: v.string(),
+    ...recipeUpdateFields,
+  },
+  handler: async (ctx, args) => {
+    const { userId, recipeId, ...changes } = args;
+    const recipe = await getRecipeForTool(ctx, userId, recipeId);
+    if (!recipe) return TOOL_RECIPE_NOT_FOUND;
+
+    await reviseRecipe(ctx, recipe, recipePatch(changes), {
+      author: "ai",
+      userId,
+      change: "edited",
+    });
+    const updated = (await ctx.db.get(recipe._id))!;
+    return {
+      success: true,
+      message: `Updated "${updated.title}".`,
+      recipe: summarizeForTool(updated),
+    };
+  },
+});
+
+// Internal: toggle_favorite; `favorite` sets it outright instead of flipping
+export const toggleFavoriteForTool = internalMutation({
+  args: {
+    userId: v.id("users"),
+    recipeId: v.string(),
+    favorite: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const recipe = await getRecipeForTool(ctx, args.userId, args.recipeId);
+    if (!recipe) return TOOL_RECIPE_NOT_FOUND;
+
+    const isFavorite = args.favorite ?? !recipe.isFavorite;
+    if (isFavorite !== recipe.isFavorite) {
+      await ctx.db.patch(recipe._id, { isFavorite, updatedAt: Date.now() });
+    }
+    return {
+      success: true,
+      message: isFavorite
+        ? `"${recipe.title}" is marked as a favorite.`
+        : `"${recipe.title}" is no longer a favorite.`,
+      recipe: summarizeForTool({ ...recipe, isFavorite }),
+    };
+  },
+});
@@ -2,6 +2,84 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+// A memory's fields as recorded in its change history
+const memorySnapshot = v.object({
+  fact: v.string(),
+  category: v.union(
+    v.literal("allergy"),
+    v.literal("intolerance"),
+    v.literal("restriction"),
+    v.literal("preference"),
+    v.literal("goal"),
+    v.literal("equipment")
+  ),
+  status: v.optional(v.union(v.literal("pending"), v.literal("approved"))),
+  expiresAt: v.optional(v.number()),
+  scopeConversationId: v.optional(v.id("conversations")),
+  sourceConversationId: v.optional(v.id("conversations")),
+});
+
+// What a recipe says, as opposed to who owns it or where it came from;
+// recipe versions snapshot exactly this
+export const recipeContent = v.object({
+  title: v.string(),
+  description: v.string(),
+  ingredients: v.array(
+    v.object({
+      name: v.string(),
+      amount: v.string(),
+      unit: v.string(),
+      preparation: v.optional(v.string()),
+      optional: v.optional(v.boolean()),
+    })
+  ),
+  instructions: v.array(v.string()),
+  prepTime: v.optional(v.number()),
+  cookTime: v.optional(v.number()),
+  servings: v.number(),
+  dietaryTags: v.array(v.string()),
+  mealType: v.optional(v.union(
+    v.literal("Main Dish"),
+    v.literal("Side Dish"),
+    v.literal("Appetizer"),
+    v.literal("Dessert"),
+    v.literal("Snack"),
+    v.literal("Soup"),
+    v.literal("Salad"),
+    v.literal("Breakfast"),
+    v.literal("Beverage")
+  )),
+  proteinType: v.optional(v.string()),
+});
+
+// A recipe presented in an assistant reply, with the checks run against it
+export const messageRecipe = v.object({
+  recipeJson: v.string(),
+  // Set once the recipe is saved to the recipe book
+  linkedRecipeId: v.optional(v.id("recipes")),
+  // Ingredients that conflict with the user's dietary profile
+  dietaryWarnings: v.optional(
+    v.array(
+      v.object({
+        ingredient: v.string(),
+        allergen: v.string(),
+        fact: v.string(),
+      })
+    )
+  ),
+  // Per-person safety when cooking for household members
+  memberSafety: v.optional(
+    v.array(
+      v.object({
+        memberId: v.optional(v.id("householdMembers")),
+        name: v.string(),
+        safe: v.boolean(),
+        allergens: v.array(v.string()),
+      })
+    )
+  ),
+});
+
 export default defineSchema({
   ...authTables,
 
@@ -12,6 +90,8 @@ export default defineSchema({
     subscriptionTier: v.union(v.literal("free"), v.literal("premium")),
     dailyRequestCount: v.number(),
     lastRequestReset: v.number(),
+    // Skip the review inbox for extracted memories outside the safety categories
+    autoApproveMemories: v.optional(v.boolean()),
     createdAt: v.number(),
   })
     .index("by_userId", ["userId"]),
@@ -31,9 +111,93 @@ export default defineSchema({
     confidence: v.literal("high"),
     extractedAt: v.number(),
     sourceConversationId: v.optional(v.id("conversations")),
+    // Extracted facts wait in the review inbox; missing means approved
+    status: v.optional(v.union(v.literal("pending"), v.literal("approved"))),
+    // The message the fact was extracted from, shown when reviewing it
+    evidence: v.optional(
+      v.object({
+        messageId: v.id("messages"),
+        excerpt: v.string(),
+      })
+    ),
+    // Temporary facts ("doing Whole30 this month") are removed by a cron
+    expiresAt: v.optional(v.number()),
+    // Facts that only matter in one chat ("cooking for my in-laws tonight")
+    scopeConversationId: v.optional(v.id("conversations")),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_category", ["userId", "category"])
+    .index("by_userId_status", ["userId", "status"])
+    .index("by_expiresAt", ["expiresAt"])
+    .index("by_scopeConversationId", ["scopeConversationId"]),
+
+  // "Don't remember" rules: deleted or replaced memories that compaction
+  // must not extract again
+  memoryTombstones: defineTable({
+    userId: v.id("users"),
+    fact: v.string(),
+    category: v.union(
+      v.literal("allergy"),
+      v.literal("intolerance"),
+      v.literal("restriction"),
+      v.literal("preference"),
+      v.literal("goal"),
+      v.literal("equipment")
+    ),
+    // factSignature() of the fact, for phrasing-tolerant matching
+    signature: v.string(),
+    reason: v.union(
+      v.literal("deleted"),
+      v.literal("overridden"),
+      v.literal("rejected")
+    ),
+    createdAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_signature", ["userId", "signature"]),
+
+  // Append-only log of memory changes. Events written by one operation share
+  // a groupId so the whole operation can be undone at once.
+  memoryEvents: defineTable({
+    userId: v.id("users"),
+    memoryId: v.id("userMemories"),
+    groupId: v.string(),
+    action: v.union(
+      v.literal("added"),
+      v.literal("updated"),
+      v.literal("deleted")
+    ),
+    actor: v.union(
+      v.literal("user"),
+      v.literal("chat_tool"),
+      v.literal("compaction"),
+      v.literal("system")
+    ),
+    reason: v.optional(v.string()),
+    before: v.optional(memorySnapshot),
+    after: v.optional(memorySnapshot),
+    sourceConversationId: v.optional(v.id("conversations")),
+    // Set on the events an undo wrote, pointing at the group it reverted
+    undoesGroupId: v.optional(v.string()),
+    // Set once this event's group has been undone
+    undoneAt: v.optional(v.number()),
+    createdAt: v.number(),
   })
     .index("by_userId", ["userId"])
-    .index("by_userId_category", ["userId", "category"]),
+    .index("by_groupId", ["groupId"]),
+
+  // Contradicting memories waiting for the user to pick which one is right
+  memoryConflicts: defineTable({
+    userId: v.id("users"),
+    // The newer fact that introduced the contradiction
+    memoryId: v.id("userMemories"),
+    conflictingMemoryId: v.id("userMemories"),
+    reason: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_memoryId", ["memoryId"])
+    .index("by_conflictingMemoryId", ["conflictingMemoryId"]),
 
   // Conversations (chat sessions)
   conversations: defineTable({
@@ -43,12 +207,67 @@ export default defineSchema({
     messageCount: v.number(),
     isArchived: v.boolean(),
     lastCompactionAt: v.optional(v.number()),
+    // _creationTime of the last message memory compaction has processed
+    compactionWatermark: v.optional(v.number()),
+    // Queued compaction run; rescheduled (debounced) while the chat is active
+    pendingCompaction: v.optional(
+      v.object({
+        jobId: v.id("_scheduled_functions"),
+        requestedAt: v.number(),
+      })
+    ),
+    // Memory change the assistant asked the user to confirm or pick a target
+    // for; the answer must come in a later message (see lib/memoryMatching)
+    pendingMemoryConfirmation: v.optional(
+      v.object({
+        action: v.union(v.literal("remove"), v.literal("update")),
+        memoryIds: v.array(v.id("userMemories")),
+        requestedByMessageId: v.id("messages"),
+        requestedAt: v.number(),
+      })
+    ),
+    // Running summary of messages that no longer fit the chat prompt,
+    // covering everything up to throughCreationTime (see lib/historySummary)
+    historySummary: v.optional(
+      v.object({
+        text: v.string(),
+        throughCreationTime: v.number(),
+        updatedAt: v.number(),
+      })
+    ),
+    // Who this chat is cooking for; unset means just the user
+    cookingFor: v.optional(
+      v.object({
+        memberIds: v.array(v.id("householdMembers")),
+        includesUser: v.boolean(),
+      })
+    ),
     createdAt: v.number(),
   })
     .index("by_userId", ["userId"])
     .index("by_userId_lastMessageAt", ["userId", "lastMessageAt"])
     .searchIndex("search_title", { searchField: "title", filterFields: ["userId"] }),
 
+  // People the user cooks for, each with their own dietary profile
+  householdMembers: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    facts: v.array(
+      v.object({
+        fact: v.string(),
+        category: v.union(
+          v.literal("allergy"),
+          v.literal("intolerance"),
+          v.literal("restriction"),
+          v.literal("goal"),
+          v.literal("preference")
+        ),
+      })
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_userId", ["userId"]),
+
   // Messages within conversations
   messages: defineTable({
     conversationId: v.id("conversations"),
@@ -57,7 +276,27 @@ export default defineSchema({
     content: v.string(),
     imageStorageId: v.optional(v.id("_storage")),
     imageAnalysis: v.optional(v.string()),
+    // Items the vision model found in the photo, pending the user's confirmation
+    detectedItems: v.optional(
+      v.array(
+        v.object({
+          name: v.string(),
+          quantity: v.string(),
+          unit: v.string(),
+          condition: v.string(),
+        })
+      )
+    ),
+    detectedItemsAddedAt: v.optional(v.number()),
+    // Recipes presented in the reply, in order, each its own card
+    recipes: v.optional(v.array(messageRecipe)),
+    // Why a presented recipe couldn't be attached, even after a repair pass
+    recipeError: v.optional(v.string()),
+    // Single-recipe fields from before `recipes`; moved into it by
+    // migrations.moveMessageRecipes and no longer written
     recipeJson: v.optional(v.string()),
+    dietaryWarnings: messageRecipe.fields.dietaryWarnings,
+    memberSafety: messageRecipe.fields.memberSafety,
     linkedRecipeId: v.optional(v.id("recipes")),
     isStreaming: v.boolean(),
     createdAt: v.number(),
@@ -75,37 +314,38 @@ export default defineSchema({
     .index("by_storageId", ["storageId"])
     .index("by_userId", ["userId"]),
 
+  // Shared households: accounts that pool their recipe book, meal plan and
+  // shopping lists. Each user belongs to at most one.
+  groups: defineTable({
+    name: v.string(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  }),
+
+  groupMemberships: defineTable({
+    groupId: v.id("groups"),
+    userId: v.id("users"),
+    role: v.union(v.literal("owner"), v.literal("member")),
+    joinedAt: v.number(),
+  })
+    .index("by_groupId", ["groupId"])
+    .index("by_userId", ["userId"]),
+
+  // Pending invitations, matched to the invitee by email
+  groupInvites: defineTable({
+    groupId: v.id("groups"),
+    email: v.string(),
+    invitedBy: v.id("users"),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_groupId", ["groupId"])
+    .index("by_email", ["email"]),
+
   // Saved recipes
   recipes: defineTable({
     userId: v.id("users"),
-    title: v.string(),
-    description: v.string(),
-    ingredients: v.array(
-      v.object({
-        name: v.string(),
-        amount: v.string(),
-        unit: v.string(),
-        preparation: v.optional(v.string()),
-        optional: v.optional(v.boolean()),
-      })
-    ),
-    instructions: v.array(v.string()),
-    prepTime: v.optional(v.number()),
-    cookTime: v.optional(v.number()),
-    servings: v.number(),
-    dietaryTags: v.array(v.string()),
-    mealType: v.optional(v.union(
-      v.literal("Main Dish"),
-      v.literal("Side Dish"),
-      v.literal("Appetizer"),
-      v.literal("Dessert"),
-      v.literal("Snack"),
-      v.literal("Soup"),
-      v.literal("Salad"),
-      v.literal("Breakfast"),
-      v.literal("Beverage")
-    )),
-    proteinType: v.optional(v.string()),
+    ...recipeContent.fields,
     source: v.union(
       v.literal("ai_generated"),
       v.literal("user_created"),
@@ -113,10 +353,117 @@ export default defineSchema({
     ),
     sourceConversationId: v.optional(v.id("conversations")),
     sourceMessageId: v.optional(v.id("messages")),
+    // The recipe this one was adapted from (a scaled copy or a remix)
+    parentRecipeId: v.optional(v.id("recipes")),
     isFavorite: v.boolean(),
+    // Shared household this recipe belongs to; userId is then just the creator
+    groupId: v.optional(v.id("groups")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_isFavorite", ["userId", "isFavorite"])
+    .index("by_groupId", ["groupId"])
+    .index("by_groupId_isFavorite", ["groupId", "isFavorite"])
+    .index("by_sourceConversationId", ["sourceConversationId"])
+    .index("by_parentRecipeId", ["parentRecipeId"]),
+
+  // A recipe's content after each revision; version 1 is as first saved
+  recipeVersions: defineTable({
+    recipeId: v.id("recipes"),
+    version: v.number(),
+    content: recipeContent,
+    // Whose words these are: the user's own edit, or the assistant's rewrite
+    author: v.union(v.literal("user"), v.literal("ai")),
+    // Who saved the revision (for AI updates, who accepted it)
+    userId: v.id("users"),
+    change: v.union(
+      v.literal("created"),
+      v.literal("edited"),
+      v.literal("restored")
+    ),
+    restoredFromVersion: v.optional(v.number()),
+    // Chat reply an AI revision came from
+    sourceMessageId: v.optional(v.id("messages")),
+    createdAt: v.number(),
+  }).index("by_recipeId_version", ["recipeId", "version"]),
+
+  // Shopping lists generated from saved recipes
+  shoppingLists: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    recipeIds: v.array(v.id("recipes")),
+    items: v.array(
+      v.object({
+        key: v.string(),
+        name: v.string(),
+        quantity: v.string(),
+        aisle: v.string(),
+        checked: v.boolean(),
+        isStaple: v.boolean(),
+        isManual: v.boolean(),
+      })
+    ),
+    hideStaples: v.boolean(),
+    groupId: v.optional(v.id("groups")),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_userId", ["userId"])
-    .index("by_userId_isFavorite", ["userId", "isFavorite"]),
+    .index("by_groupId", ["groupId"]),
+
+  // Meal plan entries: one recipe (or free-text meal) in a date x meal-slot cell
+  mealPlans: defineTable({
+    userId: v.id("users"),
+    date: v.string(),
+    slot: v.union(
+      v.literal("breakfast"),
+      v.literal("lunch"),
+      v.literal("dinner"),
+      v.literal("snack")
+    ),
+    recipeId: v.optional(v.id("recipes")),
+    title: v.string(),
+    servings: v.optional(v.number()),
+    groupId: v.optional(v.id("groups")),
+    createdAt: v.number(),
+  })
+    .index("by_userId_date", ["userId", "date"])
+    .index("by_groupId_date", ["groupId", "date"]),
+
+  // Ingredients the user has on hand
+  pantryItems: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    // Canonical name used to merge repeat additions ("Eggs" + "egg")
+    normalizedName: v.string(),
+    quantity: v.string(),
+    unit: v.string(),
+    condition: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
+    source: v.union(v.literal("manual"), v.literal("image")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_userId_normalizedName", ["userId", "normalizedName"]),
+
+  // One row per memory compaction run, for debugging extraction
+  compactionRuns: defineTable({
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    trigger: v.union(v.literal("scheduled"), v.literal("manual")),
+    status: v.union(
+      v.literal("succeeded"),
+      v.literal("skipped"),
+      v.literal("failed")
+    ),
+    messagesProcessed: v.number(),
+    memoriesAdded: v.number(),
+    // Why a run was skipped or failed
+    detail: v.optional(v.string()),
+    startedAt: v.number(),
+    finishedAt: v.number(),
+  })
+    .index("by_conversationId", ["conversationId"]),
 });
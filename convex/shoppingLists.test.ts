@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { api } from "./_generated/api";
+import { createUser, setupTest } from "./test.setup";
+
+const recipe = (title: string, ingredients: Array<[string, string, string]>) => ({
+  title,
+  description: "",
+  ingredients: ingredients.map(([amount, unit, name]) => ({ name, amount, unit })),
+  instructions: ["Cook"],
+  servings: 2,
+  dietaryTags: [],
+  source: "user_created" as const,
+});
+
+describe("shoppingLists", () => {
+  it("builds one merged list from several recipes", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const soup = await as.mutation(
+      api.recipes.create,
+      recipe("Soup", [["1", "", "onion"], ["2", "cups", "stock"], ["1", "tsp", "salt"]])
+    );
+    const stew = await as.mutation(
+      api.recipes.create,
+      recipe("Stew", [["2", "", "onions"], ["1", "lb", "beef"]])
+    );
+
+    const id = await as.mutation(api.shoppingLists.createFromRecipes, {
+      recipeIds: [soup, stew],
+    });
+    const list = await as.query(api.shoppingLists.get, { id });
+
+    expect(list.name).toBe("Soup + 1 more");
+    expect(list.hideStaples).toBe(true);
+    expect(list.items.map((i) => [i.name, i.quantity])).toEqual([
+      ["onion", "3"],
+      ["beef", "1 lb"],
+      ["stock", "2 cups"],
+      ["salt", "1 tsp"],
+    ]);
+  });
+
+  it("checks off, adds and clears items", async () => {
+    const t = setupTest();
+    const { as } = await createUser(t);
+    const soup = await as.mutation(api.recipes.create, recipe("Soup", [["1", "", "onion"]]));
+    const id = await as.mutation(api.shoppingLists.createFromRecipes, {
+      recipeIds: [soup],
+    });
+
+    await as.mutation(api.shoppingLists.toggleItem, { id, key: "onion" });
+    const key = await as.mutation(api.shoppingLists.addItem, {
+      id,
+      name: "Sourdough bread",
+      quantity: "1 loaf",
+    });
+    let list = await as.query(api.shoppingLists.get, { id });
+    expect(list.items.find((i) => i.key === "onion")?.checked).toBe(true);
+    expect(list.items.find((i) => i.key === key)).toMatchObject({
+      aisle: "Bakery",
+      isManual: true,
+      checked: false,
+    });
+
+    await as.mutation(api.shoppingLists.clearChecked, { id });
+    list = await as.query(api.shoppingLists.get, { id });
+    expect(list.items.map((i) => i.name)).toEqual(["Sourdough bread"]);
+  });
+
+  it("only uses the caller's own recipes and lists", async () => {
+    const t = setupTest();
+    const owner = await createUser(t, "Owner");
+    const intruder = await createUser(t, "Intruder");
+    const soup = await owner.as.mutation(api.recipes.create, recipe("Soup", [["1", "", "onion"]]));
+    const id = await owner.as.mutation(api.shoppingLists.createFromRecipes, {
+      recipeIds: [soup],
+    });
+
+    await expect(
+      intruder.as.mutation(api.shoppingLists.createFromRecipes, { recipeIds: [soup] })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(
+      intruder.as.mutation(api.shoppingLists.toggleItem, { id, key: "onion" })
+    ).rejects.toThrow(/FORBIDDEN/);
+    await expect(
+      owner.as.mutation(api.shoppingLists.createFromRecipes, { recipeIds: [] })
+    ).rejects.toThrow(/VALIDATION_ERROR/);
+  });
+});
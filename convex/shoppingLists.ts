@@ -0,0 +1,294 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import {
+  canAccess,
+  getDataScope,
+  requireAccess,
+  requireAuth,
+  scopeFields,
+} from "./lib/auth";
+import { createError } from "./lib/errors";
+import { getPlanEntries, validatePlanRange } from "./lib/mealPlanning";
+import { RecipeIngredient, scaleRecipe } from "./lib/recipeScaling";
+import {
+  aisleFor,
+  buildShoppingListItems,
+  isPantryStaple,
+  sortShoppingListItems,
+} from "./lib/shoppingList";
+
+const MAX_RECIPES_PER_LIST = 20;
+const MAX_ITEMS_PER_LIST = 300;
+
+async function getOwnedList(
+  ctx: MutationCtx,
+  id: Id<"shoppingLists">,
+  userId: Id<"users">,
+  options: { manage?: boolean } = {}
+) {
+  const list = await ctx.db.get(id);
+  if (!list) {
+    throw createError("NOT_FOUND", "Shopping list not found");
+  }
+  await requireAccess(ctx, list, userId, options);
+  return list;
+}
+
+async function insertList(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  list: {
+    name: string;
+    recipeIds: Id<"recipes">[];
+    ingredientLists: RecipeIngredient[][];
+    hideStaples?: boolean;
+  }
+) {
+  const scope = await getDataScope(ctx, userId);
+  const now = Date.now();
+  return await ctx.db.insert("shoppingLists", {
+    ...scopeFields(scope),
+    name: list.name.slice(0, 100),
+    recipeIds: list.recipeIds,
+    items: buildShoppingListItems(list.ingredientLists),
+    hideStaples: list.hideStaples ?? true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const { groupId } = await getDataScope(ctx, userId);
+
+    return groupId
+      ? await ctx.db
+          .query("shoppingLists")
+          .withIndex("by_groupId", (q) => q.eq("groupId", groupId))
+          .order("desc")
+          .take(50)
+      : await ctx.db
+          .query("shoppingLists")
+          .withIndex("by_userId", (q) => q.eq("userId", userId))
+          .order("desc")
+          .take(50);
+  },
+});
+
+export const get = query({
+  args: { id: v.id("shoppingLists") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const list = await ctx.db.get(args.id);
+
+    if (!list) {
+      throw createError("NOT_FOUND", "Shopping list not found");
+    }
+
+    await requireAccess(ctx, list, userId);
+    return list;
+  },
+});
+
+// Generate a list from saved recipes, merging duplicate ingredients
+export const createFromRecipes = mutation({
+  args: {
+    recipeIds: v.array(v.id("recipes")),
+    name: v.optional(v.string()),
+    hideStaples: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+
+    const recipeIds = [...new Set(args.recipeIds)];
+    if (recipeIds.length === 0) {
+      throw createError("VALIDATION", "Choose at least one recipe");
+    }
+    if (recipeIds.length > MAX_RECIPES_PER_LIST) {
+      throw createError(
+        "VALIDATION",
+        `A shopping list can include at most ${MAX_RECIPES_PER_LIST} recipes`
+      );
+    }
+
+    const recipes = [];
+    for (const id of recipeIds) {
+      const recipe = await ctx.db.get(id);
+      if (!recipe) {
+        throw createError("NOT_FOUND", "Recipe not found");
+      }
+      await requireAccess(ctx, recipe, userId);
+      recipes.push(recipe);
+    }
+
+    const name =
+      args.name?.trim() ||
+      (recipes.length === 1
+        ? recipes[0].title
+        : `${recipes[0].title} + ${recipes.length - 1} more`);
+
+    return await insertList(ctx, userId, {
+      name,
+      recipeIds,
+      ingredientLists: recipes.map((r) => r.ingredients),
+      hideStaples: args.hideStaples,
+    });
+  },
+});
+
+// Generate a list from every planned recipe in a date range, scaled to the planned servings
+export const createFromMealPlan = mutation({
+  args: {
+    startDate: v.string(),
+    endDate: v.string(),
+    name: v.optional(v.string()),
+    hideStaples: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    validatePlanRange(args.startDate, args.endDate);
+
+    const scope = await getDataScope(ctx, userId);
+    const entries = await getPlanEntries(ctx, scope, args.startDate, args.endDate);
+
+    const recipeIds: Id<"recipes">[] = [];
+    const ingredientLists: RecipeIngredient[][] = [];
+    for (const entry of entries) {
+      if (!entry.recipeId) continue;
+      const recipe = await ctx.db.get(entry.recipeId);
+      // Skip recipes deleted since they were planned
+      if (!recipe || !(await canAccess(ctx, recipe, userId))) continue;
+
+      const planned = entry.servings
+        ? scaleRecipe(recipe, entry.servings)
+        : recipe;
+      ingredientLists.push(planned.ingredients);
+      if (!recipeIds.includes(recipe._id)) recipeIds.push(recipe._id);
+    }
+
+    if (ingredientLists.length === 0) {
+      throw createError(
+        "VALIDATION",
+        "No planned recipes in this date range"
+      );
+    }
+
+    return await insertList(ctx, userId, {
+      name: args.name?.trim() || `Meal plan ${args.startDate} to ${args.endDate}`,
+      recipeIds,
+      ingredientLists,
+      hideStaples: args.hideStaples,
+    });
+  },
+});
+
+export const toggleItem = mutation({
+  args: { id: v.id("shoppingLists"), key: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const list = await getOwnedList(ctx, args.id, userId);
+
+    if (!list.items.some((item) => item.key === args.key)) {
+      throw createError("NOT_FOUND", "Item not found");
+    }
+
+    await ctx.db.patch(args.id, {
+      items: list.items.map((item) =>
+        item.key === args.key ? { ...item, checked: !item.checked } : item
+      ),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const addItem = mutation({
+  args: {
+    id: v.id("shoppingLists"),
+    name: v.string(),
+    quantity: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const list = await getOwnedList(ctx, args.id, userId);
+
+    const name = args.name.trim();
+    const quantity = args.quantity?.trim() ?? "";
+    if (!name || name.length > 100) {
+      throw createError("VALIDATION", "Item name must be 1-100 characters");
+    }
+    if (quantity.length > 50) {
+      throw createError("VALIDATION", "Quantity must be under 50 characters");
+    }
+    if (list.items.length >= MAX_ITEMS_PER_LIST) {
+      throw createError("VALIDATION", "This shopping list is full");
+    }
+
+    const item = {
+      key: `manual:${Date.now()}:${list.items.length}`,
+      name,
+      quantity,
+      aisle: aisleFor(name),
+      checked: false,
+      isStaple: isPantryStaple(name),
+      isManual: true,
+    };
+
+    await ctx.db.patch(args.id, {
+      items: sortShoppingListItems([...list.items, item]),
+      updatedAt: Date.now(),
+    });
+    return item.key;
+  },
+});
+
+export const removeItem = mutation({
+  args: { id: v.id("shoppingLists"), key: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const list = await getOwnedList(ctx, args.id, userId);
+
+    await ctx.db.patch(args.id, {
+      items: list.items.filter((item) => item.key !== args.key),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Show or hide pantry staples (salt, oil, flour...) the user already has
+export const setHideStaples = mutation({
+  args: { id: v.id("shoppingLists"), hideStaples: v.boolean() },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnedList(ctx, args.id, userId);
+
+    await ctx.db.patch(args.id, {
+      hideStaples: args.hideStaples,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const clearChecked = mutation({
+  args: { id: v.id("shoppingLists") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    const list = await getOwnedList(ctx, args.id, userId);
+
+    await ctx.db.patch(args.id, {
+      items: list.items.filter((item) => !item.checked),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("shoppingLists") },
+  handler: async (ctx, args) => {
+    const userId = await requireAuth(ctx);
+    await getOwnedList(ctx, args.id, userId, { manage: true });
+    await ctx.db.delete(args.id);
+  },
+});
@@ -0,0 +1,34 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import schema from "./schema";
+import { Id } from "./_generated/dataModel";
+
+// Every module under convex/, loaded lazily by convex-test
+export const modules = import.meta.glob("./**/*.*s");
+
+export function setupTest() {
+  return convexTest(schema, modules);
+}
+
+export type TestConvex = ReturnType<typeof setupTest>;
+
+// Create a user with a free-tier profile and return a client authenticated as them
+export async function createUser(t: TestConvex, name = "Test User") {
+  const userId: Id<"users"> = await t.run(async (ctx) => {
+    const id = await ctx.db.insert("users", { name });
+    await ctx.db.insert("userProfiles", {
+      userId: id,
+      name,
+      subscriptionTier: "free",
+      dailyRequestCount: 0,
+      lastRequestReset: Date.now(),
+      createdAt: Date.now(),
+    });
+    return id;
+  });
+
+  return {
+    userId,
+    as: t.withIdentity({ subject: `${userId}|test-session` }),
+  };
+}
@@ -2,6 +2,13 @@ import { v } from "convex/values";
 import { mutation, query, internalQuery, internalMutation } from "./_generated/server";
 import { requireAuth, getUserProfile } from "./lib/auth";
 import { Id } from "./_generated/dataModel";
+import {
+  getQuotaStatus,
+  recordedQuota,
+  tryConsumeQuota,
+  consumeQuotaOrThrow,
+} from "./lib/rateLimit";
+import { createError } from "./lib/errors";
 
 // Create profile after signup
 export const createProfile = mutation({
@@ -52,17 +59,21 @@ export const getProfileInternal = internalQuery({
 export const updateProfile = mutation({
   args: {
     name: v.optional(v.string()),
+    autoApproveMemories: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const userId = await requireAuth(ctx);
     const profile = await getUserProfile(ctx, userId);
 
     if (!profile) {
-      throw new Error("Profile not found");
+      throw createError("NOT_FOUND", "Profile not found");
     }
 
     const updates: Record<string, unknown> = {};
     if (args.name !== undefined) updates.name = args.name;
+    if (args.autoApproveMemories !== undefined) {
+      updates.autoApproveMemories = args.autoApproveMemories;
+    }
 
     await ctx.db.patch(profile._id, updates);
   },
@@ -76,34 +87,53 @@ export const checkRateLimit = mutation({
     const profile = await getUserProfile(ctx, userId);
 
     if (!profile) {
-      throw new Error("Profile not found");
+      throw createError("NOT_FOUND", "Profile not found");
     }
 
-    const now = Date.now();
-    const dayInMs = 24 * 60 * 60 * 1000;
-    const limit = profile.subscriptionTier === "premium" ? 1000 : 50;
-
-    // Reset if new day
-    if (profile.lastRequestReset < now - dayInMs) {
-      await ctx.db.patch(profile._id, {
-        dailyRequestCount: 1,
-        lastRequestReset: now,
-      });
-      return { allowed: true, remaining: limit - 1 };
-    }
+    const { allowed, remaining } = await tryConsumeQuota(ctx, profile);
+    return { allowed, remaining };
+  },
+});
+
+// The current user's daily quota as last recorded (null until the profile
+// exists). Clients apply the day rollover with quotaAt(), since a query that
+// read the clock wouldn't rerun when the day changes.
+export const getQuota = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireAuth(ctx);
+    const profile = await getUserProfile(ctx, userId);
+    if (!profile) return null;
+
+    return recordedQuota(profile);
+  },
+});
+
+// Internal: Remaining daily quota (for background work that must not consume it)
+export const getQuotaInternal = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const profile = await getUserProfile(ctx, args.userId);
+    if (!profile) return null;
 
-    // Increment FIRST (atomic with transaction)
-    const newCount = profile.dailyRequestCount + 1;
-    await ctx.db.patch(profile._id, { dailyRequestCount: newCount });
+    return getQuotaStatus(profile);
+  },
+});
 
-    // THEN check if over limit
-    if (newCount > limit) {
-      // Over limit - decrement back and reject
-      await ctx.db.patch(profile._id, { dailyRequestCount: newCount - 1 });
-      return { allowed: false, remaining: 0 };
+// Internal: Consume quota for an AI request, throwing RATE_LIMIT when exhausted
+export const consumeQuota = internalMutation({
+  args: {
+    userId: v.id("users"),
+    cost: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const profile = await getUserProfile(ctx, args.userId);
+
+    if (!profile) {
+      throw createError("NOT_FOUND", "Profile not found");
     }
 
-    return { allowed: true, remaining: limit - newCount };
+    return await consumeQuotaOrThrow(ctx, profile, args.cost ?? 1);
   },
 });
 
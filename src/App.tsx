@@ -4,6 +4,9 @@ import { AuthPage } from "@/pages/AuthPage";
 import { ChatPage } from "@/pages/ChatPage";
 import { SettingsPage } from "@/pages/SettingsPage";
 import { RecipeBookPage } from "@/pages/RecipeBookPage";
+import { ShoppingPage } from "@/pages/ShoppingPage";
+import { PlannerPage } from "@/pages/PlannerPage";
+import { PantryPage } from "@/pages/PantryPage";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { AppLayout } from "@/components/layout/AppLayout";
 
@@ -39,6 +42,9 @@ export default function App() {
         >
           <Route path="/" element={<ChatPage />} />
           <Route path="/recipes" element={<RecipeBookPage />} />
+          <Route path="/shopping" element={<ShoppingPage />} />
+          <Route path="/planner" element={<PlannerPage />} />
+          <Route path="/pantry" element={<PantryPage />} />
           <Route path="/settings" element={<SettingsPage />} />
         </Route>
         <Route path="*" element={<Navigate to="/" replace />} />
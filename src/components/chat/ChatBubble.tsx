@@ -1,6 +1,8 @@
 import { Doc } from "../../../convex/_generated/dataModel";
-import { ChefHat, User } from "lucide-react";
+import { recipesOf } from "../../../convex/lib/messageRecipes";
+import { AlertTriangle, ChefHat, User } from "lucide-react";
 import { RecipeCard } from "./RecipeCard";
+import { DetectedItemsPanel } from "./DetectedItemsPanel";
 import { cn } from "@/lib/utils";
 import ReactMarkdown from "react-markdown";
 
@@ -10,6 +12,8 @@ interface ChatBubbleProps {
 
 export function ChatBubble({ message }: ChatBubbleProps) {
   const isUser = message.role === "user";
+  const isWaitingForFirstToken = message.isStreaming && !message.content;
+  const recipes = recipesOf(message);
 
   return (
     <div
@@ -44,9 +48,25 @@ export function ChatBubble({ message }: ChatBubbleProps) {
             <p className="whitespace-pre-wrap text-base leading-relaxed">
               {message.content}
             </p>
+          ) : isWaitingForFirstToken ? (
+            <div className="flex items-center gap-1.5 py-2" role="status" aria-label="AI is typing">
+              <span className="sr-only">AI is typing</span>
+              <span className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce" />
+              <span className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce [animation-delay:0.15s]" />
+              <span className="w-2 h-2 bg-muted-foreground/60 rounded-full animate-bounce [animation-delay:0.3s]" />
+            </div>
           ) : (
-            <div className="prose prose-base dark:prose-invert max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1 prose-ol:my-1 prose-li:my-0.5">
+            <div
+              className="prose prose-base dark:prose-invert max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1 prose-ol:my-1 prose-li:my-0.5"
+              aria-busy={message.isStreaming}
+            >
               <ReactMarkdown>{message.content}</ReactMarkdown>
+              {message.isStreaming && (
+                <span
+                  className="inline-block w-2 h-4 bg-muted-foreground/60 animate-pulse align-text-bottom"
+                  aria-hidden="true"
+                />
+              )}
             </div>
           )}
           {message.imageStorageId && (
@@ -61,13 +81,37 @@ export function ChatBubble({ message }: ChatBubbleProps) {
           )}
         </div>
 
-        {message.recipeJson && (
+        {isUser && message.detectedItems && (
+          <DetectedItemsPanel
+            messageId={message._id}
+            items={message.detectedItems}
+            addedAt={message.detectedItemsAddedAt}
+          />
+        )}
+
+        {recipes.map((recipe, index) => (
           <RecipeCard
-            recipeJson={message.recipeJson}
+            key={index}
+            recipeJson={recipe.recipeJson}
             conversationId={message.conversationId}
             messageId={message._id}
-            linkedRecipeId={message.linkedRecipeId}
+            recipeIndex={index}
+            linkedRecipeId={recipe.linkedRecipeId}
+            dietaryWarnings={recipe.dietaryWarnings}
+            memberSafety={recipe.memberSafety}
           />
+        ))}
+
+        {message.recipeError && (
+          <p
+            className="flex items-start gap-1.5 px-1 text-xs text-muted-foreground"
+            title={message.recipeError}
+          >
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" aria-hidden="true" />
+            {recipes.length > 0
+              ? "One of these recipes couldn't be turned into a card you can save. Ask me to send it again."
+              : "This recipe couldn't be turned into a card you can save. Ask me to send it again."}
+          </p>
         )}
       </div>
     </div>
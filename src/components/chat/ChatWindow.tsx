@@ -2,10 +2,12 @@ import { useState } from "react";
 import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
+import { toLocalPlanDate } from "../../../convex/lib/mealPlanning";
 import { MessageList } from "./MessageList";
 import { InputPill } from "./InputPill";
 import { WelcomeState } from "./WelcomeState";
-import { useToast } from "@/components/common/Toast";
+import { CookingForBar } from "./CookingForBar";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 
 interface ChatWindowProps {
   conversationId: Id<"conversations"> | null;
@@ -19,7 +21,7 @@ export function ChatWindow({
   onConversationCreated,
 }: ChatWindowProps) {
   const [isAiResponding, setIsAiResponding] = useState(false);
-  const { showToast } = useToast();
+  const handleError = useErrorHandler();
 
   const messages = useQuery(
     api.messages.list,
@@ -29,6 +31,30 @@ export function ChatWindow({
   const createConversation = useMutation(api.conversations.create);
   const chatWithAI = useAction(api.ai.chat);
 
+  const requestAiResponse = async (
+    activeConversationId: Id<"conversations">,
+    messageId: Id<"messages">,
+    mentionedRecipeIds: Id<"recipes">[]
+  ) => {
+    setIsAiResponding(true);
+    try {
+      await chatWithAI({
+        conversationId: activeConversationId,
+        messageId,
+        mentionedRecipeIds,
+        localDate: toLocalPlanDate(new Date()),
+      });
+    } catch (error) {
+      handleError(error, {
+        fallback: "Failed to get AI response. Please try again.",
+        onRetry: () =>
+          requestAiResponse(activeConversationId, messageId, mentionedRecipeIds),
+      });
+    } finally {
+      setIsAiResponding(false);
+    }
+  };
+
   const handleSend = async (
     content: string,
     imageStorageId?: Id<"_storage">,
@@ -50,22 +76,15 @@ export function ChatWindow({
 
       onMessageSent?.();
 
-      setIsAiResponding(true);
-      try {
-        await chatWithAI({
-          conversationId: activeConversationId,
-          messageId,
-          mentionedRecipeIds: mentionedRecipeIds || [],
-        });
-      } catch (error) {
-        console.error("AI chat error:", error);
-        showToast("Failed to get AI response. Please try again.", "error");
-      } finally {
-        setIsAiResponding(false);
-      }
+      await requestAiResponse(
+        activeConversationId,
+        messageId,
+        mentionedRecipeIds || []
+      );
     } catch (error) {
-      console.error("Send message error:", error);
-      showToast("Failed to send message. Please try again.", "error");
+      handleError(error, {
+        fallback: "Failed to send message. Please try again.",
+      });
     }
   };
 
@@ -92,6 +111,7 @@ export function ChatWindow({
         messages={messages ?? []}
         isLoading={messages === undefined || isAiResponding}
       />
+      <CookingForBar conversationId={conversationId} />
       <InputPill
         onSend={handleSend}
         disabled={isAiResponding}
@@ -0,0 +1,81 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Users } from "lucide-react";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { cn } from "@/lib/utils";
+
+interface CookingForBarProps {
+  conversationId: Id<"conversations">;
+}
+
+// Who this chat is cooking for; hidden until the user has household members
+export function CookingForBar({ conversationId }: CookingForBarProps) {
+  const members = useQuery(api.household.list, {});
+  const cookingFor = useQuery(api.household.getConversationCookingFor, {
+    conversationId,
+  });
+  const setCookingFor = useMutation(api.household.setConversationCookingFor);
+  const handleError = useErrorHandler();
+
+  if (!members || members.length === 0 || cookingFor === undefined) return null;
+
+  const includesUser = cookingFor?.includesUser ?? true;
+  const selectedIds = cookingFor?.members.map((m) => m._id) ?? [];
+
+  const update = async (memberIds: Id<"householdMembers">[], withUser: boolean) => {
+    try {
+      await setCookingFor({ conversationId, memberIds, includesUser: withUser });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to update who you're cooking for" });
+    }
+  };
+
+  const toggleMember = (id: Id<"householdMembers">) =>
+    update(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selected) => selected !== id)
+        : [...selectedIds, id],
+      includesUser
+    );
+
+  const chip = (active: boolean) =>
+    cn(
+      "rounded-full border px-3 py-0.5 text-xs transition-colors",
+      active
+        ? "border-primary bg-primary/10 text-primary"
+        : "border-input text-muted-foreground hover:text-foreground"
+    );
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2 px-4 pt-2"
+      role="group"
+      aria-label="Cooking for"
+    >
+      <Users className="h-4 w-4 text-muted-foreground" />
+      <span className="text-xs text-muted-foreground">Cooking for</span>
+      <button
+        type="button"
+        className={chip(includesUser)}
+        aria-pressed={includesUser}
+        // Someone has to be eating
+        disabled={includesUser && selectedIds.length === 0}
+        onClick={() => update(selectedIds, !includesUser)}
+      >
+        Me
+      </button>
+      {members.map((member) => (
+        <button
+          key={member._id}
+          type="button"
+          className={chip(selectedIds.includes(member._id))}
+          aria-pressed={selectedIds.includes(member._id)}
+          onClick={() => toggleMember(member._id)}
+        >
+          {member.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { useNavigate } from "react-router-dom";
+import { api } from "../../../convex/_generated/api";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Check, Refrigerator } from "lucide-react";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+interface DetectedItemsPanelProps {
+  messageId: Id<"messages">;
+  items: NonNullable<Doc<"messages">["detectedItems"]>;
+  addedAt?: number;
+}
+
+export function DetectedItemsPanel({
+  messageId,
+  items,
+  addedAt,
+}: DetectedItemsPanelProps) {
+  const addDetectedItems = useMutation(api.pantry.addDetectedItems);
+  const dismissDetectedItems = useMutation(api.pantry.dismissDetectedItems);
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(items.map((_, i) => i))
+  );
+  const [saving, setSaving] = useState(false);
+
+  if (addedAt) {
+    return (
+      <button
+        onClick={() => navigate("/pantry")}
+        className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+      >
+        <Check className="h-3.5 w-3.5 text-green-600" />
+        Added to your pantry
+      </button>
+    );
+  }
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const count = await addDetectedItems({
+        messageId,
+        items: items.filter((_, i) => selected.has(i)),
+      });
+      showToast(
+        `Added ${count} item${count === 1 ? "" : "s"} to your pantry`,
+        "success"
+      );
+    } catch (error) {
+      handleError(error, { fallback: "Failed to add items to your pantry" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await dismissDetectedItems({ messageId });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to dismiss items" });
+    }
+  };
+
+  return (
+    <div className="w-72 rounded-xl border bg-card text-card-foreground p-3 space-y-2 text-sm">
+      <div className="flex items-center gap-2 font-medium">
+        <Refrigerator className="h-4 w-4 text-primary" />
+        Found in your photo
+      </div>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {items.map((item, i) => {
+          const details = [
+            [item.quantity, item.unit].filter(Boolean).join(" "),
+            item.condition,
+          ].filter(Boolean);
+          return (
+            <li key={i}>
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(i)}
+                  onChange={() => toggle(i)}
+                  className="mt-1 accent-primary"
+                />
+                <span>
+                  {item.name}
+                  {details.length > 0 && (
+                    <span className="text-muted-foreground">
+                      {` · ${details.join(" · ")}`}
+                    </span>
+                  )}
+                </span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="flex-1"
+          onClick={handleAdd}
+          disabled={saving || selected.size === 0}
+        >
+          {saving ? "Adding..." : `Add ${selected.size} to pantry`}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={handleDismiss} disabled={saving}>
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,22 +4,29 @@ import { api } from "../../../convex/_generated/api";
 import { Button } from "@/components/ui/button";
 import { ImagePlus, X } from "lucide-react";
 import { Id } from "../../../convex/_generated/dataModel";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 
 interface ImageUploadProps {
   onImageUploaded: (storageId: Id<"_storage">) => void;
   onClear: () => void;
   preview: string | null;
+  disabled?: boolean;
+  // Shown on the button, e.g. why it's disabled
+  title?: string;
 }
 
 export function ImageUpload({
   onImageUploaded,
   onClear,
   preview,
+  disabled,
+  title,
 }: ImageUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploading, setUploading] = useState(false);
   const generateUploadUrl = useMutation(api.files.generateUploadUrl);
   const registerUpload = useMutation(api.files.registerUpload);
+  const handleError = useErrorHandler();
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -57,8 +64,7 @@ export function ImageUpload({
       await registerUpload({ storageId });
       onImageUploaded(storageId);
     } catch (error) {
-      console.error("Upload error:", error);
-      alert("Failed to upload image");
+      handleError(error, { fallback: "Failed to upload image" });
     } finally {
       setUploading(false);
     }
@@ -96,7 +102,8 @@ export function ImageUpload({
         variant="ghost"
         size="icon"
         onClick={() => fileInputRef.current?.click()}
-        disabled={uploading}
+        disabled={uploading || disabled}
+        title={title}
       >
         <ImagePlus className="h-5 w-5" />
       </Button>
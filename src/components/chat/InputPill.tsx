@@ -5,6 +5,8 @@ import { ImageUpload } from "./ImageUpload";
 import { Send, X, BookOpen } from "lucide-react";
 import { Id } from "../../../convex/_generated/dataModel";
 import { cn } from "@/lib/utils";
+import { useQuota } from "@/hooks/useQuota";
+import { IMAGE_MESSAGE_COST } from "../../../convex/lib/rateLimit";
 
 interface InputPillProps {
   onSend: (
@@ -30,6 +32,13 @@ export function InputPill({
   const [showMentionDropdown, setShowMentionDropdown] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const quota = useQuota();
+  const quotaExhausted = quota != null && quota.remaining === 0;
+  // A photo costs more than one request, so it can run out first
+  const imageUnaffordable = quota != null && quota.remaining < IMAGE_MESSAGE_COST;
+  const sendDisabled = disabled || quotaExhausted;
+  const imageBlocked = !!imageStorageId && imageUnaffordable;
+
   const mentionResults = useQuery(
     api.recipes.listForMention,
     mentionQuery !== null ? { search: mentionQuery, limit: 5 } : "skip"
@@ -116,7 +125,9 @@ export function InputPill({
 
   const handleSubmit = async (e?: FormEvent) => {
     e?.preventDefault();
-    if ((!content.trim() && !imageStorageId) || sending || disabled) return;
+    if ((!content.trim() && !imageStorageId) || sending || sendDisabled || imageBlocked) {
+      return;
+    }
 
     setSending(true);
     try {
@@ -204,6 +215,12 @@ export function InputPill({
             onImageUploaded={handleImageUploaded}
             onClear={handleClearImage}
             preview={imagePreview}
+            disabled={imageUnaffordable}
+            title={
+              imageUnaffordable
+                ? `Sending a photo uses ${IMAGE_MESSAGE_COST} requests`
+                : undefined
+            }
           />
 
           <textarea
@@ -212,11 +229,13 @@ export function InputPill({
             onChange={(e) => handleContentChange(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder={
-              imageStorageId
-                ? "Add a message about your ingredients..."
-                : placeholder
+              quotaExhausted
+                ? "Daily limit reached. Come back tomorrow!"
+                : imageStorageId
+                  ? "Add a message about your ingredients..."
+                  : placeholder
             }
-            disabled={disabled || sending}
+            disabled={sendDisabled || sending}
             rows={1}
             className={cn(
               "flex-1 resize-none bg-transparent border-0 outline-none",
@@ -231,7 +250,9 @@ export function InputPill({
 
           <button
             type="submit"
-            disabled={(!content.trim() && !imageStorageId) || sending || disabled}
+            disabled={
+              (!content.trim() && !imageStorageId) || sending || sendDisabled || imageBlocked
+            }
             className={cn(
               "flex-shrink-0 w-10 h-10 rounded-full",
               "flex items-center justify-center",
@@ -246,6 +267,22 @@ export function InputPill({
           </button>
         </div>
       </form>
+
+      {quota && (
+        <p
+          className={cn(
+            "max-w-chat mx-auto mt-2 text-center text-xs",
+            quotaExhausted ? "text-destructive" : "text-muted-foreground"
+          )}
+          aria-live="polite"
+        >
+          {quotaExhausted
+            ? `You've used all ${quota.limit} requests for today. Your quota resets at ${new Date(quota.resetsAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}.`
+            : imageUnaffordable
+              ? `${quota.remaining} of ${quota.limit} requests left today. Sending a photo uses ${IMAGE_MESSAGE_COST}, so only text can be sent until your quota resets.`
+              : `${quota.remaining} of ${quota.limit} requests left today`}
+        </p>
+      )}
     </div>
   );
 }
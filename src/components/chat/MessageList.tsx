@@ -16,6 +16,11 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Once the streaming placeholder exists it renders its own progress state
+  const lastMessage = messages[messages.length - 1];
+  const isStreamingReply =
+    lastMessage?.role === "assistant" && lastMessage.isStreaming;
+
   if (messages.length === 0 && !isLoading) {
     return (
       <div className="flex-1 flex items-center justify-center text-muted-foreground px-4">
@@ -42,7 +47,9 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
       {messages.map((message) => (
         <ChatBubble key={message._id} message={message} />
       ))}
-      {isLoading && messages.length > 0 && <TypingIndicator />}
+      {isLoading && messages.length > 0 && !isStreamingReply && (
+        <TypingIndicator />
+      )}
       <div ref={bottomRef} />
     </div>
   );
@@ -1,12 +1,27 @@
 import { useState } from "react";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { BookmarkPlus, Check, Clock, Users } from "lucide-react";
+import {
+  AlertTriangle,
+  BookmarkPlus,
+  Check,
+  ChevronDown,
+  Clock,
+  RefreshCw,
+  Users,
+} from "lucide-react";
 import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { useNavigate } from "react-router-dom";
+import { useRecipeScaling } from "@/hooks/useRecipeScaling";
+import { ScalingControls } from "@/components/recipes/ScalingControls";
+import { MemberSafetyList } from "@/components/household/MemberSafetyList";
+import { cn } from "@/lib/utils";
+import { diffRecipes, findSavedVersion } from "../../../convex/lib/recipeDiff";
+import { RecipeUpdateDiff } from "./RecipeUpdateDiff";
 
 interface RecipeData {
   title: string;
@@ -25,47 +40,83 @@ interface RecipeCardProps {
   recipeJson: string;
   conversationId: Id<"conversations">;
   messageId: Id<"messages">;
+  // Position among the message's recipe cards
+  recipeIndex: number;
   linkedRecipeId?: Id<"recipes"> | null;
+  dietaryWarnings?: Array<{ ingredient: string; allergen: string; fact: string }>;
+  memberSafety?: Array<{ name: string; safe: boolean; allergens: string[] }>;
 }
 
 export function RecipeCard({
   recipeJson,
   conversationId,
   messageId,
+  recipeIndex,
   linkedRecipeId,
+  dietaryWarnings,
+  memberSafety,
 }: RecipeCardProps) {
   const createRecipe = useMutation(api.recipes.create);
+  const updateFromChat = useMutation(api.recipes.updateFromChat);
   const linkRecipe = useMutation(api.messages.linkRecipe);
   const navigate = useNavigate();
-  const alreadySaved = !!linkedRecipeId;
-  const [saved, setSaved] = useState(alreadySaved);
+  // Saved from this card, before the message's link comes back; the link
+  // also arrives when the assistant saves the recipe itself
+  const [localRecipeId, setLocalRecipeId] = useState<Id<"recipes"> | null>(null);
+  const savedRecipeId = localRecipeId ?? linkedRecipeId ?? null;
+  const saved = savedRecipeId !== null;
   const [saving, setSaving] = useState(false);
-  const [savedRecipeId, setSavedRecipeId] = useState<Id<"recipes"> | null>(linkedRecipeId ?? null);
   const { showToast } = useToast();
+  const handleError = useErrorHandler();
+  const [showIngredients, setShowIngredients] = useState(false);
+  const [reviewingUpdate, setReviewingUpdate] = useState(false);
+  // Recipes already saved from this chat, for iterating on one dish
+  const savedFromChat = useQuery(
+    api.recipes.listSavedFromConversation,
+    saved ? "skip" : { conversationId }
+  );
 
-  let recipe: RecipeData;
+  let parsed: RecipeData | null;
   try {
-    recipe = JSON.parse(recipeJson);
+    parsed = JSON.parse(recipeJson);
   } catch {
-    return null;
+    parsed = null;
   }
+  const scaling = useRecipeScaling({
+    servings: parsed?.servings ?? 1,
+    ingredients: parsed?.ingredients ?? [],
+  });
+
+  if (!parsed) return null;
+  const recipe = parsed;
+  // Exactly what the user is looking at, including any scaling
+  const current = {
+    ...recipe,
+    servings: scaling.servings,
+    ingredients: scaling.ingredients,
+    dietaryTags: recipe.dietaryTags || [],
+    mealType: recipe.mealType as "Main Dish" | "Side Dish" | "Appetizer" | "Dessert" | "Snack" | "Soup" | "Salad" | "Breakfast" | "Beverage" | undefined,
+  };
+  const savedVersion =
+    !saved && savedFromChat ? findSavedVersion(current, savedFromChat, messageId) : null;
+  const updateDiff = savedVersion ? diffRecipes(savedVersion, current) : null;
+  // The saved copy already matches this card, so there's nothing to update
+  const matchesSaved = !!updateDiff && !updateDiff.changed;
 
   const handleSave = async () => {
     setSaving(true);
     try {
       const recipeId = await createRecipe({
-        ...recipe,
-        dietaryTags: recipe.dietaryTags || [],
-        mealType: recipe.mealType as "Main Dish" | "Side Dish" | "Appetizer" | "Dessert" | "Snack" | "Soup" | "Salad" | "Breakfast" | "Beverage" | undefined,
-        proteinType: recipe.proteinType,
+        ...current,
         source: "ai_generated",
         sourceConversationId: conversationId,
         sourceMessageId: messageId,
+        // Saving a revision separately makes it a remix of the saved copy
+        parentRecipeId: savedVersion?._id,
       });
       // Link the recipe back to this message so it persists
-      await linkRecipe({ messageId, recipeId });
-      setSaved(true);
-      setSavedRecipeId(recipeId);
+      await linkRecipe({ messageId, recipeIndex, recipeId });
+      setLocalRecipeId(recipeId);
       showToast(
         <span>
           "{recipe.title}" saved!{" "}
@@ -79,22 +130,70 @@ export function RecipeCard({
         "success"
       );
     } catch (error) {
-      console.error("Failed to save recipe:", error);
-      showToast("Failed to save recipe. Please try again.", "error");
+      handleError(error, {
+        fallback: "Failed to save recipe. Please try again.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!savedVersion) return;
+    setSaving(true);
+    try {
+      await updateFromChat({
+        ...current,
+        id: savedVersion._id,
+        messageId,
+        recipeIndex,
+      });
+      setLocalRecipeId(savedVersion._id);
+      setReviewingUpdate(false);
+      showToast(`Updated "${recipe.title}" in your Recipe Book`, "success");
+    } catch (error) {
+      handleError(error, {
+        fallback: "Failed to update the saved recipe. Please try again.",
+      });
     } finally {
       setSaving(false);
     }
   };
 
   const handleViewRecipe = () => {
-    if (savedRecipeId) {
-      navigate("/recipes", { state: { recipeId: savedRecipeId } });
+    const recipeId = savedRecipeId ?? (matchesSaved ? savedVersion?._id : null);
+    if (recipeId) {
+      navigate("/recipes", { state: { recipeId } });
     }
   };
 
   return (
     <Card className="mt-3 bg-primary/5 dark:bg-primary/10 border-primary/20 dark:border-primary/30">
       <CardContent className="p-4">
+        {dietaryWarnings && dietaryWarnings.length > 0 && (
+          <div
+            role="alert"
+            className="mb-3 flex gap-2 rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive"
+          >
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <div>
+              <p className="font-semibold">
+                This recipe may conflict with your dietary profile
+              </p>
+              <ul className="mt-1 space-y-0.5">
+                {dietaryWarnings.map((warning) => (
+                  <li key={`${warning.ingredient}-${warning.allergen}`}>
+                    <span className="font-medium">{warning.ingredient}</span>{" "}
+                    contains {warning.allergen} ({warning.fact})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+        {memberSafety && memberSafety.length > 0 && (
+          <MemberSafetyList safety={memberSafety} className="mb-3" />
+        )}
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1">
             <h4 className="font-semibold text-lg">{recipe.title}</h4>
@@ -116,11 +215,11 @@ export function RecipeCard({
               )}
               <span className="inline-flex items-center gap-1 text-xs bg-background px-2 py-1 rounded">
                 <Users className="h-3 w-3" />
-                Serves {recipe.servings}
+                Serves {scaling.servings}
               </span>
             </div>
           </div>
-          {saved ? (
+          {saved || matchesSaved ? (
             <Button
               onClick={handleViewRecipe}
               variant="outline"
@@ -130,6 +229,26 @@ export function RecipeCard({
               <Check className="h-4 w-4 mr-1" />
               Saved
             </Button>
+          ) : savedVersion ? (
+            <div className="flex flex-col items-end gap-1.5">
+              <Button
+                onClick={() => setReviewingUpdate(true)}
+                disabled={saving || reviewingUpdate}
+                size="sm"
+              >
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Update saved recipe
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                variant="outline"
+                size="sm"
+              >
+                <BookmarkPlus className="h-4 w-4 mr-1" />
+                Save as new
+              </Button>
+            </div>
           ) : (
             <Button
               onClick={handleSave}
@@ -141,6 +260,61 @@ export function RecipeCard({
             </Button>
           )}
         </div>
+
+        {savedVersion && updateDiff?.changed && reviewingUpdate && (
+          <div className="mt-3 rounded-md border bg-background p-3">
+            <p className="text-sm font-semibold mb-2">
+              Changes to your saved "{savedVersion.title}"
+            </p>
+            <RecipeUpdateDiff diff={updateDiff} />
+            <div className="mt-3 flex justify-end gap-2">
+              <Button
+                onClick={() => setReviewingUpdate(false)}
+                disabled={saving}
+                variant="outline"
+                size="sm"
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleUpdate} disabled={saving} size="sm">
+                {saving ? "Updating..." : "Confirm update"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={() => setShowIngredients((open) => !open)}
+          className="mt-3 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          aria-expanded={showIngredients}
+        >
+          <ChevronDown
+            className={cn("h-3 w-3 transition-transform", showIngredients && "rotate-180")}
+          />
+          {showIngredients ? "Hide ingredients" : "Ingredients & servings"}
+        </button>
+        {showIngredients && (
+          <div className="mt-2 space-y-2">
+            {!saved && (
+              <ScalingControls
+                servings={scaling.servings}
+                onServingsChange={scaling.setServings}
+                unitSystem={scaling.unitSystem}
+                onUnitSystemChange={scaling.setUnitSystem}
+              />
+            )}
+            <ul className="space-y-1 text-sm">
+              {scaling.ingredients.map((ing, i) => (
+                <li key={i} className={cn(ing.optional && "text-muted-foreground")}>
+                  {ing.amount === "to taste"
+                    ? `${ing.name}, to taste`
+                    : `${ing.amount} ${ing.unit} ${ing.name}`}
+                  {ing.optional && " (optional)"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,98 @@
+import type { DiffLine, RecipeDiff } from "../../../convex/lib/recipeDiff";
+import { cn } from "@/lib/utils";
+
+interface RecipeUpdateDiffProps {
+  diff: RecipeDiff;
+}
+
+const MARKERS: Record<DiffLine["kind"], string> = {
+  same: " ",
+  added: "+",
+  removed: "−",
+  changed: "~",
+};
+
+function DiffLines({ label, lines }: { label: string; lines: DiffLine[] }) {
+  if (lines.every((line) => line.kind === "same")) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {label}: no changes
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-muted-foreground mb-1">{label}</p>
+      <ul className="space-y-0.5 text-sm">
+        {lines.map((line, i) => (
+          <li
+            key={i}
+            className={cn(
+              "flex gap-2 rounded px-1.5",
+              line.kind === "added" && "bg-green-500/10 text-green-800 dark:text-green-300",
+              line.kind === "removed" && "bg-destructive/10 text-destructive line-through",
+              line.kind === "changed" && "bg-amber-500/10 text-amber-900 dark:text-amber-200",
+              line.kind === "same" && "text-muted-foreground"
+            )}
+          >
+            <span aria-hidden="true" className="w-3 shrink-0 font-mono">
+              {MARKERS[line.kind]}
+            </span>
+            <span>
+              {line.kind === "changed" ? (
+                <>
+                  <span className="sr-only">Changed from </span>
+                  <span className="line-through opacity-70">{line.previous}</span>
+                  {" → "}
+                  {line.text}
+                </>
+              ) : (
+                <>
+                  {line.kind !== "same" && <span className="sr-only">{line.kind}: </span>}
+                  {line.text}
+                </>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// What updating the saved recipe would change, shown before committing
+export function RecipeUpdateDiff({ diff }: RecipeUpdateDiffProps) {
+  if (!diff.changed) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This matches your saved recipe exactly.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {(diff.title || diff.servings) && (
+        <ul className="space-y-0.5 text-sm">
+          {diff.title && (
+            <li>
+              Title: <span className="line-through opacity-70">{diff.title.before}</span>
+              {" → "}
+              {diff.title.after}
+            </li>
+          )}
+          {diff.servings && (
+            <li>
+              Serves: <span className="line-through opacity-70">{diff.servings.before}</span>
+              {" → "}
+              {diff.servings.after}
+            </li>
+          )}
+        </ul>
+      )}
+      <DiffLines label="Ingredients" lines={diff.ingredients} />
+      <DiffLines label="Steps" lines={diff.instructions} />
+    </div>
+  );
+}
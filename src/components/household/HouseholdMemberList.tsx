@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Plus, Trash2, UserRound, Users, X } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+type Member = Doc<"householdMembers">;
+type FactCategory = Member["facts"][number]["category"];
+
+const categoryLabels: Record<FactCategory, string> = {
+  allergy: "Allergy",
+  intolerance: "Intolerance",
+  restriction: "Restriction",
+  goal: "Goal",
+  preference: "Preference",
+};
+
+const categoryColors: Record<FactCategory, string> = {
+  allergy: "text-red-500",
+  intolerance: "text-orange-500",
+  restriction: "text-purple-500",
+  goal: "text-green-500",
+  preference: "text-blue-500",
+};
+
+function MemberCard({ member }: { member: Member }) {
+  const [fact, setFact] = useState("");
+  const [category, setCategory] = useState<FactCategory>("allergy");
+  const [busy, setBusy] = useState(false);
+  const updateMember = useMutation(api.household.update);
+  const removeMember = useMutation(api.household.remove);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const saveFacts = async (facts: Member["facts"]) => {
+    setBusy(true);
+    try {
+      await updateMember({ id: member._id, facts });
+      return true;
+    } catch (error) {
+      handleError(error, { fallback: "Failed to update dietary info" });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddFact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fact.trim()) return;
+    if (await saveFacts([...member.facts, { fact: fact.trim(), category }])) {
+      setFact("");
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeMember({ id: member._id });
+      showToast(`Removed ${member.name}`, "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to remove household member" });
+    }
+  };
+
+  return (
+    <li className="py-3 border-b last:border-0 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium flex items-center gap-2">
+          <UserRound className="h-4 w-4 text-muted-foreground" />
+          {member.name}
+        </span>
+        <Button variant="ghost" size="sm" onClick={handleRemove} aria-label={`Remove ${member.name}`}>
+          <Trash2 className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+        </Button>
+      </div>
+
+      {member.facts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No dietary needs added.</p>
+      ) : (
+        <ul className="space-y-1">
+          {member.facts.map((f, index) => (
+            <li key={`${f.category}-${f.fact}`} className="flex items-center gap-2 text-sm">
+              <span className={`text-xs ${categoryColors[f.category]}`}>
+                {categoryLabels[f.category]}
+              </span>
+              <span className="flex-1">{f.fact}</span>
+              <button
+                type="button"
+                onClick={() => saveFacts(member.facts.filter((_, i) => i !== index))}
+                disabled={busy}
+                className="text-muted-foreground hover:text-destructive"
+                aria-label={`Remove "${f.fact}"`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAddFact} className="flex gap-2">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as FactCategory)}
+          className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          aria-label="Category"
+        >
+          {Object.entries(categoryLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <Input
+          value={fact}
+          onChange={(e) => setFact(e.target.value)}
+          placeholder="e.g., Allergic to tree nuts"
+          className="h-9"
+        />
+        <Button type="submit" size="sm" disabled={!fact.trim() || busy}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </li>
+  );
+}
+
+export function HouseholdMemberList() {
+  const members = useQuery(api.household.list, {});
+  const addMember = useMutation(api.household.add);
+  const [name, setName] = useState("");
+  const [adding, setAdding] = useState(false);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setAdding(true);
+    try {
+      await addMember({ name: name.trim() });
+      showToast(`Added ${name.trim()}`, "success");
+      setName("");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to add household member" });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  if (members === undefined) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          Household
+        </CardTitle>
+        <CardDescription>
+          People you cook for. Tell me "I'm cooking for me and Sam tonight" and
+          I'll keep everyone's allergies and restrictions in mind.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {members.length > 0 && (
+          <ul>
+            {members.map((member) => (
+              <MemberCard key={member._id} member={member} />
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Sam"
+            aria-label="Name"
+          />
+          <Button type="submit" disabled={!name.trim() || adding}>
+            <Plus className="h-4 w-4 mr-2" />
+            {adding ? "Adding..." : "Add person"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
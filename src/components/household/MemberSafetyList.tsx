@@ -0,0 +1,38 @@
+import { AlertTriangle, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface MemberSafetyListProps {
+  safety: Array<{ name: string; safe: boolean; allergens: string[] }>;
+  className?: string;
+}
+
+// "Safe for You, Sam" with anyone it isn't safe for called out
+export function MemberSafetyList({ safety, className }: MemberSafetyListProps) {
+  return (
+    <ul className={cn("flex flex-wrap gap-2 text-xs", className)} aria-label="Who this recipe is safe for">
+      {safety.map((person) => (
+        <li
+          key={person.name}
+          className={cn(
+            "flex items-center gap-1 rounded-full border px-2 py-0.5",
+            person.safe
+              ? "border-green-500/40 text-green-700 dark:text-green-400"
+              : "border-destructive/40 text-destructive"
+          )}
+          title={
+            person.safe ? undefined : `Contains ${person.allergens.join(", ")}`
+          }
+        >
+          {person.safe ? (
+            <Check className="h-3 w-3" />
+          ) : (
+            <AlertTriangle className="h-3 w-3" />
+          )}
+          {person.safe
+            ? `Safe for ${person.name}`
+            : `Not safe for ${person.name} (${person.allergens.join(", ")})`}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Check, Crown, Home, LogOut, Mail, UserMinus, X } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+// Invitations waiting for the user, shown whether or not they're in a household
+function PendingInvites() {
+  const invites = useQuery(api.groups.listMyInvites, {});
+  const acceptInvite = useMutation(api.groups.acceptInvite);
+  const declineInvite = useMutation(api.groups.declineInvite);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  if (!invites || invites.length === 0) return null;
+
+  const handleAccept = async (id: Id<"groupInvites">, groupName: string) => {
+    try {
+      await acceptInvite({ id });
+      showToast(`Joined ${groupName}`, "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to join household" });
+    }
+  };
+
+  const handleDecline = async (id: Id<"groupInvites">) => {
+    try {
+      await declineInvite({ id });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to decline invite" });
+    }
+  };
+
+  return (
+    <ul className="space-y-2">
+      {invites.map((invite) => (
+        <li
+          key={invite._id}
+          className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm"
+        >
+          <span>
+            <span className="font-medium">{invite.invitedBy}</span> invited you
+            to join <span className="font-medium">{invite.groupName}</span>
+          </span>
+          <span className="flex gap-1">
+            <Button size="sm" onClick={() => handleAccept(invite._id, invite.groupName)}>
+              <Check className="h-4 w-4 mr-1" />
+              Join
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleDecline(invite._id)}
+              aria-label={`Decline invite to ${invite.groupName}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function CreateHouseholdForm() {
+  const createGroup = useMutation(api.groups.create);
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const handleError = useErrorHandler();
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      await createGroup({ name: name.trim() });
+      setName("");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to create household" });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleCreate} className="flex gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Household name, e.g. The Lees"
+        aria-label="Household name"
+      />
+      <Button type="submit" disabled={!name.trim() || creating}>
+        {creating ? "Creating..." : "Create"}
+      </Button>
+    </form>
+  );
+}
+
+export function SharedHouseholdCard() {
+  const group = useQuery(api.groups.getMyGroup, {});
+  const invite = useMutation(api.groups.invite);
+  const cancelInvite = useMutation(api.groups.cancelInvite);
+  const removeMember = useMutation(api.groups.removeMember);
+  const setRole = useMutation(api.groups.setRole);
+  const leave = useMutation(api.groups.leave);
+  const [email, setEmail] = useState("");
+  const [inviting, setInviting] = useState(false);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  if (group === undefined) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const isOwner = group?.role === "owner";
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setInviting(true);
+    try {
+      await invite({ email: email.trim() });
+      showToast(`Invited ${email.trim()}`, "success");
+      setEmail("");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to send invite" });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      handleError(error, { fallback });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Home className="h-5 w-5 text-primary" />
+          {group ? group.name : "Shared household"}
+        </CardTitle>
+        <CardDescription>
+          Share one recipe book, meal plan and shopping lists with the people
+          you live with. Everything you've saved comes with you when you join.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <PendingInvites />
+
+        {!group ? (
+          <CreateHouseholdForm />
+        ) : (
+          <>
+            <ul>
+              {group.members.map((member) => (
+                <li
+                  key={member.userId}
+                  className="flex items-center justify-between py-2 border-b last:border-0 text-sm"
+                >
+                  <span className="flex items-center gap-2">
+                    {member.name}
+                    {member.isYou && (
+                      <span className="text-xs text-muted-foreground">(you)</span>
+                    )}
+                    {member.role === "owner" && (
+                      <Crown className="h-3 w-3 text-amber-500" aria-label="Owner" />
+                    )}
+                  </span>
+                  {isOwner && !member.isYou && (
+                    <span className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          run(
+                            () =>
+                              setRole({
+                                userId: member.userId,
+                                role: member.role === "owner" ? "member" : "owner",
+                              }),
+                            "Failed to change role"
+                          )
+                        }
+                      >
+                        {member.role === "owner" ? "Make member" : "Make owner"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          run(
+                            () => removeMember({ userId: member.userId }),
+                            "Failed to remove member"
+                          )
+                        }
+                        aria-label={`Remove ${member.name}`}
+                      >
+                        <UserMinus className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+                      </Button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {isOwner && (
+              <>
+                {group.invites.length > 0 && (
+                  <ul className="space-y-1">
+                    {group.invites.map((pending) => (
+                      <li
+                        key={pending._id}
+                        className="flex items-center gap-2 text-sm text-muted-foreground"
+                      >
+                        <Mail className="h-4 w-4" />
+                        <span className="flex-1">{pending.email} (invited)</span>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            run(
+                              () => cancelInvite({ id: pending._id }),
+                              "Failed to cancel invite"
+                            )
+                          }
+                          className="hover:text-destructive"
+                          aria-label={`Cancel invite to ${pending.email}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <form onSubmit={handleInvite} className="flex gap-2">
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Their email address"
+                    aria-label="Email to invite"
+                  />
+                  <Button type="submit" disabled={!email.trim() || inviting}>
+                    {inviting ? "Inviting..." : "Invite"}
+                  </Button>
+                </form>
+              </>
+            )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => run(() => leave({}), "Failed to leave household")}
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave household
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { X, ChefHat, Plus, Search, BookOpen, MessageSquare } from "lucide-react";
+import { X, ChefHat, Plus, Search, BookOpen, ShoppingCart, CalendarDays, Refrigerator, MessageSquare } from "lucide-react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
@@ -173,7 +173,7 @@ export function MobileDrawer({
           </div>
         )}
 
-        <div className="px-3 py-2">
+        <div className="px-3 py-2 space-y-1">
           <button
             onClick={() => handleNavigate("/recipes")}
             className={cn(
@@ -186,6 +186,42 @@ export function MobileDrawer({
             <BookOpen className="h-5 w-5" />
             Recipe Book
           </button>
+          <button
+            onClick={() => handleNavigate("/shopping")}
+            className={cn(
+              "flex items-center gap-3 w-full px-3 py-2.5 rounded-lg transition-colors font-medium",
+              location.pathname === "/shopping"
+                ? "bg-primary text-primary-foreground"
+                : "text-foreground hover:bg-muted"
+            )}
+          >
+            <ShoppingCart className="h-5 w-5" />
+            Shopping Lists
+          </button>
+          <button
+            onClick={() => handleNavigate("/planner")}
+            className={cn(
+              "flex items-center gap-3 w-full px-3 py-2.5 rounded-lg transition-colors font-medium",
+              location.pathname === "/planner"
+                ? "bg-primary text-primary-foreground"
+                : "text-foreground hover:bg-muted"
+            )}
+          >
+            <CalendarDays className="h-5 w-5" />
+            Meal Planner
+          </button>
+          <button
+            onClick={() => handleNavigate("/pantry")}
+            className={cn(
+              "flex items-center gap-3 w-full px-3 py-2.5 rounded-lg transition-colors font-medium",
+              location.pathname === "/pantry"
+                ? "bg-primary text-primary-foreground"
+                : "text-foreground hover:bg-muted"
+            )}
+          >
+            <Refrigerator className="h-5 w-5" />
+            Pantry
+          </button>
         </div>
 
         <div className="flex-1 overflow-y-auto px-3 py-2 scrollbar-thin scrollbar-thumb-muted-foreground/30 scrollbar-track-transparent">
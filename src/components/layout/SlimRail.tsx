@@ -8,6 +8,9 @@ import {
   Plus,
   Search,
   BookOpen,
+  ShoppingCart,
+  CalendarDays,
+  Refrigerator,
   MessageSquare,
   PanelLeftClose,
   PanelLeft,
@@ -16,6 +19,7 @@ import {
 } from "lucide-react";
 import { useSidebar } from "@/providers/SidebarProvider";
 import { useMotion } from "@/providers/MotionProvider";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { SlimRailNavItem } from "./SlimRailNavItem";
 import { UserProfilePopup } from "./UserProfilePopup";
 import { cn } from "@/lib/utils";
@@ -47,6 +51,7 @@ export function SlimRail({
       : "skip"
   );
   const removeConversation = useMutation(api.conversations.remove);
+  const handleError = useErrorHandler();
 
   const displayedConversations =
     isSearching && searchTerm.trim() ? searchResults : conversations;
@@ -57,7 +62,12 @@ export function SlimRail({
   ) => {
     e.stopPropagation();
     if (confirm("Delete this conversation?")) {
-      await removeConversation({ id });
+      try {
+        await removeConversation({ id });
+      } catch (error) {
+        handleError(error, { fallback: "Failed to delete conversation" });
+        return;
+      }
       if (selectedConversationId === id && onNewConversation) {
         onNewConversation();
       }
@@ -149,7 +159,7 @@ export function SlimRail({
         </div>
       )}
 
-      <div className="px-2 py-1">
+      <div className="px-2 py-1 space-y-1">
         <SlimRailNavItem
           icon={BookOpen}
           label="Recipe Book"
@@ -157,6 +167,27 @@ export function SlimRail({
           isActive={location.pathname === "/recipes"}
           onClick={() => navigate("/recipes")}
         />
+        <SlimRailNavItem
+          icon={ShoppingCart}
+          label="Shopping Lists"
+          isExpanded={isExpanded}
+          isActive={location.pathname === "/shopping"}
+          onClick={() => navigate("/shopping")}
+        />
+        <SlimRailNavItem
+          icon={CalendarDays}
+          label="Meal Planner"
+          isExpanded={isExpanded}
+          isActive={location.pathname === "/planner"}
+          onClick={() => navigate("/planner")}
+        />
+        <SlimRailNavItem
+          icon={Refrigerator}
+          label="Pantry"
+          isExpanded={isExpanded}
+          isActive={location.pathname === "/pantry"}
+          onClick={() => navigate("/pantry")}
+        />
       </div>
 
       <div className="flex-1 overflow-y-auto overflow-x-hidden px-2 py-2 scrollbar-thin scrollbar-thumb-muted-foreground/30 scrollbar-track-transparent">
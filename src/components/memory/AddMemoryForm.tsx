@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/card";
 import { Plus } from "lucide-react";
 import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 
 type MemoryCategory =
   | "allergy"
@@ -36,6 +37,7 @@ export function AddMemoryForm() {
   const [adding, setAdding] = useState(false);
   const addMemory = useMutation(api.memories.addMemoryManual);
   const { showToast } = useToast();
+  const handleError = useErrorHandler();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,11 +45,15 @@ export function AddMemoryForm() {
 
     setAdding(true);
     try {
-      await addMemory({ fact: fact.trim(), category });
+      const result = await addMemory({ fact: fact.trim(), category });
       setFact("");
-      showToast("Memory added successfully!", "success");
-    } catch {
-      showToast("Failed to add memory", "error");
+      if (result.conflicts > 0) {
+        showToast("Memory added. It contradicts something else I remember", "info");
+      } else {
+        showToast("Memory added successfully!", "success");
+      }
+    } catch (error) {
+      handleError(error, { fallback: "Failed to add memory" });
     } finally {
       setAdding(false);
     }
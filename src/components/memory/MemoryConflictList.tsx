@@ -0,0 +1,81 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { GitCompare } from "lucide-react";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+type Keep = "newer" | "older" | "both";
+
+// Renders nothing unless there are contradictions to settle
+export function MemoryConflictList() {
+  const conflicts = useQuery(api.memories.listConflicts, {});
+  const resolveConflict = useMutation(api.memories.resolveConflict);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const handleResolve = async (id: Id<"memoryConflicts">, keep: Keep) => {
+    try {
+      await resolveConflict({ id, keep });
+      showToast("Conflict resolved", "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to resolve conflict" });
+    }
+  };
+
+  if (!conflicts || conflicts.length === 0) return null;
+
+  return (
+    <Card className="border-amber-500/50">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-amber-500" />
+          Which is right?
+        </CardTitle>
+        <CardDescription>
+          Some things I remember contradict each other. Pick the one to keep.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-4">
+          {conflicts.map((conflict) => (
+            <li key={conflict._id} className="space-y-2 border-b pb-4 last:border-0">
+              <p className="text-sm text-muted-foreground">{conflict.reason}</p>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleResolve(conflict._id, "newer")}
+                >
+                  Keep "{conflict.newer.fact}"
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleResolve(conflict._id, "older")}
+                >
+                  Keep "{conflict.older.fact}"
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleResolve(conflict._id, "both")}
+                >
+                  Both are true
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
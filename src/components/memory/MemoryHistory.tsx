@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { History, Undo2 } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+const actorLabels = {
+  user: "You",
+  chat_tool: "Chat",
+  compaction: "Learned from chats",
+  system: "Automatic",
+};
+
+const actionLabels = {
+  added: "Added",
+  updated: "Changed",
+  deleted: "Removed",
+};
+
+export function MemoryHistory() {
+  const history = useQuery(api.memories.listMemoryHistory, {});
+  const undoMemoryChange = useMutation(api.memories.undoMemoryChange);
+  const [undoing, setUndoing] = useState<string | null>(null);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const handleUndo = async (groupId: string) => {
+    setUndoing(groupId);
+    try {
+      await undoMemoryChange({ groupId });
+      showToast("Change undone", "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to undo change" });
+    } finally {
+      setUndoing(null);
+    }
+  };
+
+  if (history === undefined) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5 text-muted-foreground" />
+          Memory history
+        </CardTitle>
+        <CardDescription>
+          Every change to what I remember, and who made it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes yet.</p>
+        ) : (
+          <ul>
+            {history.map((entry) => (
+              <li
+                key={entry.groupId}
+                className="py-3 border-b last:border-0 space-y-1"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm">
+                    <span className="font-medium">{actorLabels[entry.actor]}</span>
+                    {entry.reason && (
+                      <span className="text-muted-foreground"> · {entry.reason}</span>
+                    )}
+                    <span className="block text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()}
+                      {entry.conversationTitle && ` · ${entry.conversationTitle}`}
+                    </span>
+                  </div>
+                  {entry.undoneAt !== undefined ? (
+                    <span className="text-xs text-muted-foreground">Undone</span>
+                  ) : (
+                    !entry.isUndo && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleUndo(entry.groupId)}
+                        disabled={undoing !== null}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Undo
+                      </Button>
+                    )
+                  )}
+                </div>
+                <ul className="text-sm space-y-0.5">
+                  {entry.events.map((event) => (
+                    <li key={event._id} className="text-muted-foreground">
+                      <span className="text-foreground">
+                        {actionLabels[event.action]}:
+                      </span>{" "}
+                      {event.action === "updated" && event.before && event.after ? (
+                        <>
+                          <s>{event.before.fact}</s> → {event.after.fact}
+                        </>
+                      ) : (
+                        (event.after ?? event.before)?.fact
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Check, Inbox, MessageSquare, Pencil, X } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useAppLayout } from "@/components/layout/AppLayout";
+
+type MemoryCategory = Doc<"userMemories">["category"];
+
+const categoryLabels: Record<MemoryCategory, string> = {
+  allergy: "Allergy",
+  intolerance: "Intolerance",
+  restriction: "Dietary Restriction",
+  preference: "Preference",
+  goal: "Goal",
+  equipment: "Kitchen Equipment",
+};
+
+type PendingMemory = Doc<"userMemories"> & {
+  conversationTitle: string | null;
+  conflicts: string[];
+};
+
+function PendingMemoryRow({ memory }: { memory: PendingMemory }) {
+  const [editing, setEditing] = useState(false);
+  const [fact, setFact] = useState(memory.fact);
+  const [category, setCategory] = useState<MemoryCategory>(memory.category);
+  const [busy, setBusy] = useState(false);
+  const approveMemory = useMutation(api.memories.approveMemory);
+  const rejectMemory = useMutation(api.memories.rejectMemory);
+  const { setSelectedConversationId } = useAppLayout();
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const handleApprove = async () => {
+    setBusy(true);
+    try {
+      const result = await approveMemory(
+        editing
+          ? { id: memory._id, fact: fact.trim(), category }
+          : { id: memory._id }
+      );
+      if (result.duplicateOf) {
+        showToast(`Already remembered: "${result.duplicateOf}"`, "info");
+      } else if (result.conflicts > 0) {
+        showToast("Saved. It contradicts something else I remember", "info");
+      } else {
+        showToast("Memory saved", "success");
+      }
+    } catch (error) {
+      handleError(error, { fallback: "Failed to save memory" });
+      setBusy(false);
+    }
+  };
+
+  const handleReject = async () => {
+    setBusy(true);
+    try {
+      await rejectMemory({ id: memory._id });
+      showToast("I won't remember that", "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to reject memory" });
+      setBusy(false);
+    }
+  };
+
+  const openConversation = (id: Id<"conversations">) => {
+    setSelectedConversationId(id);
+    navigate("/");
+  };
+
+  return (
+    <li className="py-3 border-b last:border-0 space-y-2">
+      {editing ? (
+        <div className="space-y-2">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as MemoryCategory)}
+            className="w-full h-9 rounded-md border border-input bg-background px-3 text-sm"
+            aria-label="Category"
+          >
+            {Object.entries(categoryLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={fact}
+            onChange={(e) => setFact(e.target.value)}
+            aria-label="Fact"
+          />
+        </div>
+      ) : (
+        <div>
+          <span>{memory.fact}</span>
+          <span className="ml-2 text-xs text-muted-foreground">
+            {categoryLabels[memory.category]}
+          </span>
+        </div>
+      )}
+
+      {memory.conflicts.map((reason) => (
+        <p key={reason} className="text-xs text-amber-600 dark:text-amber-400">
+          {reason}
+        </p>
+      ))}
+
+      {memory.evidence && (
+        <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground italic">
+          "{memory.evidence.excerpt}"
+        </blockquote>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          onClick={handleApprove}
+          disabled={busy || (editing && !fact.trim())}
+        >
+          <Check className="h-4 w-4 mr-1" />
+          {editing ? "Save" : "Approve"}
+        </Button>
+        {!editing && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setEditing(true)}
+            disabled={busy}
+          >
+            <Pencil className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={handleReject} disabled={busy}>
+          <X className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+        {memory.sourceConversationId && (
+          <button
+            type="button"
+            onClick={() => openConversation(memory.sourceConversationId!)}
+            className="ml-auto flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <MessageSquare className="h-3 w-3" />
+            {memory.conversationTitle ?? "View conversation"}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export function MemoryInbox() {
+  const pending = useQuery(api.memories.listPendingMemories, {});
+  const profile = useQuery(api.users.getProfile, {});
+  const updateProfile = useMutation(api.users.updateProfile);
+  const handleError = useErrorHandler();
+
+  const handleToggleAutoApprove = async (enabled: boolean) => {
+    try {
+      await updateProfile({ autoApproveMemories: enabled });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to update setting" });
+    }
+  };
+
+  if (pending === undefined) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Inbox className="h-5 w-5 text-primary" />
+          To review
+          {pending.length > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">
+              ({pending.length})
+            </span>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Things I picked up from our chats. I only use them once you approve.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing to review.</p>
+        ) : (
+          <ul>
+            {pending.map((memory) => (
+              <PendingMemoryRow key={memory._id} memory={memory} />
+            ))}
+          </ul>
+        )}
+
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={profile?.autoApproveMemories ?? false}
+            disabled={!profile}
+            onChange={(e) => handleToggleAutoApprove(e.target.checked)}
+          />
+          <span>
+            Approve preferences, goals and equipment automatically.
+            <span className="block text-muted-foreground">
+              Allergies, intolerances and restrictions always wait for review.
+            </span>
+          </span>
+        </label>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,9 +9,19 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Trash2, AlertTriangle, Ban, Heart, Target, Wrench } from "lucide-react";
+import {
+  Trash2,
+  AlertTriangle,
+  Ban,
+  Heart,
+  Target,
+  Wrench,
+  Clock,
+  MessageSquare,
+} from "lucide-react";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
 import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 
 const categoryIcons = {
   allergy: AlertTriangle,
@@ -40,17 +50,32 @@ const categoryColors = {
   equipment: "text-gray-500",
 };
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function formatTimeRemaining(expiresAt: number, now: number) {
+  const remaining = expiresAt - now;
+  if (remaining < HOUR_MS) return "less than an hour left";
+  if (remaining < DAY_MS) {
+    const hours = Math.round(remaining / HOUR_MS);
+    return `${hours} hour${hours === 1 ? "" : "s"} left`;
+  }
+  const days = Math.round(remaining / DAY_MS);
+  return `${days} day${days === 1 ? "" : "s"} left`;
+}
+
 export function MemoryList() {
   const memories = useQuery(api.memories.getMemories, {});
   const deleteMemory = useMutation(api.memories.deleteMemory);
   const { showToast } = useToast();
+  const handleError = useErrorHandler();
 
   const handleDelete = async (id: Id<"userMemories">) => {
     try {
       await deleteMemory({ id });
       showToast("Memory removed", "success");
-    } catch {
-      showToast("Failed to remove memory", "error");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to remove memory" });
     }
   };
 
@@ -122,7 +147,29 @@ export function MemoryList() {
                     key={memory._id}
                     className="flex items-center justify-between py-2 border-b last:border-0"
                   >
-                    <span>{memory.fact}</span>
+                    <div className="min-w-0">
+                      <span>{memory.fact}</span>
+                      {(memory.expiresAt !== undefined ||
+                        memory.scopeConversationId !== undefined) && (
+                        <div className="flex flex-wrap gap-3 mt-0.5 text-xs text-muted-foreground">
+                          {memory.expiresAt !== undefined && (
+                            <span
+                              className="flex items-center gap-1"
+                              title={new Date(memory.expiresAt).toLocaleString()}
+                            >
+                              <Clock className="h-3 w-3" />
+                              {formatTimeRemaining(memory.expiresAt, Date.now())}
+                            </span>
+                          )}
+                          {memory.scopeConversationId !== undefined && (
+                            <span className="flex items-center gap-1">
+                              <MessageSquare className="h-3 w-3" />
+                              One chat only
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
                     <Button
                       variant="ghost"
                       size="sm"
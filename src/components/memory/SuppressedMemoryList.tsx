@@ -0,0 +1,113 @@
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { EyeOff, X } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+const reasonLabels = {
+  deleted: "Deleted",
+  overridden: "Replaced",
+  rejected: "Rejected",
+};
+
+export function SuppressedMemoryList() {
+  const tombstones = useQuery(api.memories.listTombstones, {});
+  const clearTombstone = useMutation(api.memories.clearTombstone);
+  const clearAllTombstones = useMutation(api.memories.clearAllTombstones);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const handleClear = async (id: Id<"memoryTombstones">) => {
+    try {
+      await clearTombstone({ id });
+      showToast("I can learn this again", "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to clear rule" });
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!confirm("Allow me to learn all of these facts again?")) return;
+    try {
+      await clearAllTombstones({});
+      showToast("All rules cleared", "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to clear rules" });
+    }
+  };
+
+  if (tombstones === undefined) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <EyeOff className="h-5 w-5 text-muted-foreground" />
+              Things I won't remember
+            </CardTitle>
+            <CardDescription>
+              Facts you deleted, replaced or rejected. I won't pick them up
+              from your chats again unless you clear them here or add them
+              yourself.
+            </CardDescription>
+          </div>
+          {tombstones.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleClearAll}>
+              Clear all
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {tombstones.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing here yet.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {tombstones.map((tombstone) => (
+              <li
+                key={tombstone._id}
+                className="flex items-center justify-between py-2 border-b last:border-0"
+              >
+                <div className="min-w-0">
+                  <span>{tombstone.fact}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {reasonLabels[tombstone.reason]}{" "}
+                    {new Date(tombstone.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleClear(tombstone._id)}
+                  aria-label={`Allow "${tombstone.fact}" to be remembered again`}
+                >
+                  <X className="h-4 w-4 text-muted-foreground" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus } from "lucide-react";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+export function AddPantryItemForm() {
+  const addItem = useMutation(api.pantry.add);
+  const handleError = useErrorHandler();
+  const [name, setName] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [unit, setUnit] = useState("");
+  const [expiry, setExpiry] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await addItem({
+        name: name.trim(),
+        quantity: quantity.trim() || undefined,
+        unit: unit.trim() || undefined,
+        // Date inputs give a local calendar day; expire at the end of it
+        expiresAt: expiry
+          ? new Date(`${expiry}T23:59:59`).getTime()
+          : undefined,
+      });
+      setName("");
+      setQuantity("");
+      setUnit("");
+      setExpiry("");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to add pantry item" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap gap-2">
+      <Input
+        placeholder="Add an item (e.g. eggs)"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={100}
+        className="flex-1 min-w-[10rem]"
+      />
+      <Input
+        placeholder="Qty"
+        value={quantity}
+        onChange={(e) => setQuantity(e.target.value)}
+        maxLength={50}
+        className="w-20"
+      />
+      <Input
+        placeholder="Unit"
+        value={unit}
+        onChange={(e) => setUnit(e.target.value)}
+        maxLength={30}
+        className="w-24"
+      />
+      <Input
+        type="date"
+        value={expiry}
+        onChange={(e) => setExpiry(e.target.value)}
+        aria-label="Expiry date (optional)"
+        className="w-40"
+      />
+      <Button type="submit" disabled={saving || !name.trim()}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc } from "../../../convex/_generated/dataModel";
+import { Camera, Trash2 } from "lucide-react";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { cn } from "@/lib/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PantryItemRowProps {
+  item: Doc<"pantryItems">;
+}
+
+function expiryLabel(expiresAt: number | undefined, now = Date.now()) {
+  if (expiresAt === undefined) return null;
+  const days = Math.floor((expiresAt - now) / DAY_MS);
+  if (expiresAt < now) return "Expired";
+  if (days === 0) return "Use today";
+  if (days === 1) return "Use by tomorrow";
+  if (days < 14) return `Use within ${days} days`;
+  return `Good until ${new Date(expiresAt).toLocaleDateString()}`;
+}
+
+export function PantryItemRow({ item }: PantryItemRowProps) {
+  const updateItem = useMutation(api.pantry.update);
+  const removeItem = useMutation(api.pantry.remove);
+  const handleError = useErrorHandler();
+  const [editing, setEditing] = useState(false);
+  const [quantity, setQuantity] = useState(item.quantity);
+
+  const now = Date.now();
+  const expired = item.expiresAt !== undefined && item.expiresAt < now;
+  const expiringSoon =
+    !expired && item.expiresAt !== undefined && item.expiresAt - now < 3 * DAY_MS;
+
+  const saveQuantity = async () => {
+    setEditing(false);
+    if (quantity.trim() === item.quantity) return;
+    try {
+      await updateItem({ id: item._id, quantity: quantity.trim() });
+    } catch (error) {
+      setQuantity(item.quantity);
+      handleError(error, { fallback: "Failed to update quantity" });
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeItem({ id: item._id });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to remove pantry item" });
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-1.5">
+          <span className="font-medium truncate">{item.name}</span>
+          {item.source === "image" && (
+            <Camera
+              className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0"
+              aria-label="Added from a photo"
+            />
+          )}
+        </div>
+        <p
+          className={cn(
+            "text-xs",
+            expired
+              ? "text-destructive"
+              : expiringSoon
+                ? "text-amber-600"
+                : "text-muted-foreground"
+          )}
+        >
+          {[item.condition, expiryLabel(item.expiresAt, now)]
+            .filter(Boolean)
+            .join(" · ") || "No expiry estimate"}
+        </p>
+      </div>
+
+      {editing ? (
+        <input
+          autoFocus
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          onBlur={saveQuantity}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") saveQuantity();
+            if (e.key === "Escape") {
+              setQuantity(item.quantity);
+              setEditing(false);
+            }
+          }}
+          maxLength={50}
+          className="w-20 rounded border border-input bg-background px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-ring"
+        />
+      ) : (
+        <button
+          onClick={() => setEditing(true)}
+          className="text-sm text-muted-foreground hover:text-foreground whitespace-nowrap"
+          aria-label={`Edit quantity of ${item.name}`}
+        >
+          {[item.quantity, item.unit].filter(Boolean).join(" ") || "Set qty"}
+        </button>
+      )}
+
+      <button
+        onClick={handleRemove}
+        className="p-1 text-muted-foreground hover:text-destructive"
+        aria-label={`Remove ${item.name}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </li>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
+import type { MealSlot } from "../../../convex/lib/mealPlanning";
+import { Plus, X, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ENTRY_DRAG_TYPE, RECIPE_DRAG_TYPE } from "./dragTypes";
+
+export type PlanEntry = Doc<"mealPlans"> & { recipeMissing: boolean };
+
+interface MealSlotCellProps {
+  date: string;
+  slot: MealSlot;
+  entries: PlanEntry[];
+  placingRecipe: boolean;
+  onAddRecipe: (date: string, slot: MealSlot, recipeId: Id<"recipes">) => void;
+  onAddText: (date: string, slot: MealSlot, title: string) => void;
+  onMove: (id: Id<"mealPlans">, date: string, slot: MealSlot) => void;
+  onRemove: (id: Id<"mealPlans">) => void;
+  onPlace: (date: string, slot: MealSlot) => void;
+}
+
+export function MealSlotCell({
+  date,
+  slot,
+  entries,
+  placingRecipe,
+  onAddRecipe,
+  onAddText,
+  onMove,
+  onRemove,
+  onPlace,
+}: MealSlotCellProps) {
+  const [dragOver, setDragOver] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [text, setText] = useState("");
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const recipeId = e.dataTransfer.getData(RECIPE_DRAG_TYPE);
+    const entryId = e.dataTransfer.getData(ENTRY_DRAG_TYPE);
+    if (recipeId) onAddRecipe(date, slot, recipeId as Id<"recipes">);
+    else if (entryId) onMove(entryId as Id<"mealPlans">, date, slot);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onAddText(date, slot, text.trim());
+    setText("");
+    setAdding(false);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+      onClick={() => placingRecipe && onPlace(date, slot)}
+      className={cn(
+        "min-h-[4.5rem] rounded-md border border-dashed border-input p-1.5 space-y-1 transition-colors",
+        dragOver && "border-primary bg-primary/5",
+        placingRecipe && "cursor-pointer hover:border-primary hover:bg-primary/5"
+      )}
+    >
+      {entries.map((entry) => (
+        <div
+          key={entry._id}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(ENTRY_DRAG_TYPE, entry._id);
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          className={cn(
+            "group flex items-start gap-1 rounded px-1.5 py-1 text-xs cursor-grab active:cursor-grabbing",
+            entry.recipeId ? "bg-primary/10" : "bg-secondary"
+          )}
+        >
+          {entry.recipeMissing && (
+            <AlertTriangle
+              className="h-3 w-3 text-amber-500 flex-shrink-0 mt-0.5"
+              aria-label="Recipe was deleted"
+            />
+          )}
+          <span className="flex-1 line-clamp-2">{entry.title}</span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(entry._id);
+            }}
+            className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+            aria-label={`Remove ${entry.title}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+
+      {adding ? (
+        <form onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()}>
+          <input
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => !text.trim() && setAdding(false)}
+            onKeyDown={(e) => e.key === "Escape" && setAdding(false)}
+            maxLength={200}
+            placeholder="e.g. Leftovers"
+            className="w-full rounded border border-input bg-background px-1.5 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+          />
+        </form>
+      ) : (
+        !placingRecipe && (
+          <button
+            onClick={() => setAdding(true)}
+            className="flex w-full items-center justify-center rounded py-0.5 text-muted-foreground/60 hover:text-foreground hover:bg-accent"
+            aria-label={`Add ${slot}`}
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+        )
+      )}
+    </div>
+  );
+}
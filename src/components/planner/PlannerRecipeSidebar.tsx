@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { GripVertical, Search } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { cn } from "@/lib/utils";
+import { RECIPE_DRAG_TYPE } from "./dragTypes";
+
+interface PlannerRecipeSidebarProps {
+  selectedRecipeId: Id<"recipes"> | null;
+  onSelect: (id: Id<"recipes"> | null) => void;
+}
+
+export function PlannerRecipeSidebar({
+  selectedRecipeId,
+  onSelect,
+}: PlannerRecipeSidebarProps) {
+  const [search, setSearch] = useState("");
+  const recipes = useQuery(api.recipes.list, {
+    search: search || undefined,
+    limit: 50,
+  });
+
+  return (
+    <Card className="lg:sticky lg:top-24">
+      <CardHeader className="space-y-3">
+        <CardTitle className="text-base">Recipe Book</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Drag a recipe onto a day, or tap it and then tap a slot.
+        </p>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search recipes..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {recipes === undefined ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : recipes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {search ? "No recipes match your search." : "No saved recipes yet."}
+          </p>
+        ) : (
+          <ul className="max-h-[28rem] overflow-y-auto space-y-1">
+            {recipes.map((recipe) => (
+              <li
+                key={recipe._id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(RECIPE_DRAG_TYPE, recipe._id);
+                  e.dataTransfer.effectAllowed = "copy";
+                }}
+                onClick={() =>
+                  onSelect(selectedRecipeId === recipe._id ? null : recipe._id)
+                }
+                className={cn(
+                  "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-grab active:cursor-grabbing hover:bg-accent",
+                  selectedRecipeId === recipe._id &&
+                    "bg-primary/10 text-primary ring-1 ring-primary"
+                )}
+              >
+                <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="line-clamp-1">{recipe.title}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
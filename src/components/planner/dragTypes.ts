@@ -0,0 +1,3 @@
+// dataTransfer keys: a recipe dragged in from the sidebar vs an entry moved between cells
+export const RECIPE_DRAG_TYPE = "application/x-culinary-recipe";
+export const ENTRY_DRAG_TYPE = "application/x-culinary-plan-entry";
@@ -1,20 +1,56 @@
-import { Doc } from "../../../convex/_generated/dataModel";
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, Heart, Clock, Users } from "lucide-react";
+import { ArrowLeft, Heart, Clock, Users, CopyPlus, GitBranch } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useRecipeScaling } from "@/hooks/useRecipeScaling";
+import { ScalingControls } from "./ScalingControls";
+import { MemberSafetyList } from "@/components/household/MemberSafetyList";
+import { RecipeHistory } from "./RecipeHistory";
 
 interface RecipeDetailProps {
   recipe: Doc<"recipes">;
   onBack: () => void;
   onToggleFavorite: () => void;
+  onOpenRecipe: (id: Id<"recipes">) => void;
 }
 
 export function RecipeDetail({
   recipe,
   onBack,
   onToggleFavorite,
+  onOpenRecipe,
 }: RecipeDetailProps) {
+  const saveScaledCopy = useMutation(api.recipes.saveScaledCopy);
+  const memberSafety = useQuery(api.household.getRecipeSafety, {
+    recipeId: recipe._id,
+  });
+  const lineage = useQuery(api.recipes.getLineage, { id: recipe._id });
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+  const [savingCopy, setSavingCopy] = useState(false);
+  const { servings, setServings, unitSystem, setUnitSystem, ingredients, isScaled } =
+    useRecipeScaling(recipe);
+
+  const handleSaveScaledCopy = async () => {
+    setSavingCopy(true);
+    try {
+      await saveScaledCopy({ id: recipe._id, servings, unitSystem });
+      showToast(`Saved a copy for ${servings} servings`, "success");
+    } catch (error) {
+      handleError(error, {
+        fallback: "Failed to save scaled recipe. Please try again.",
+      });
+    } finally {
+      setSavingCopy(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -38,6 +74,42 @@ export function RecipeDetail({
         </Button>
       </div>
 
+      {/* Lineage */}
+      {lineage && (lineage.parent || lineage.remixes.length > 0) && (
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+          <GitBranch className="h-4 w-4" />
+          {lineage.parent && (
+            <span>
+              Adapted from{" "}
+              <button
+                type="button"
+                className="underline hover:text-foreground"
+                onClick={() => onOpenRecipe(lineage.parent!._id)}
+              >
+                {lineage.parent.title}
+              </button>
+            </span>
+          )}
+          {lineage.remixes.length > 0 && (
+            <span>
+              {lineage.parent && "· "}Remixed as{" "}
+              {lineage.remixes.map((remix, i) => (
+                <span key={remix._id}>
+                  {i > 0 && ", "}
+                  <button
+                    type="button"
+                    className="underline hover:text-foreground"
+                    onClick={() => onOpenRecipe(remix._id)}
+                  >
+                    {remix.title}
+                  </button>
+                </span>
+              ))}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Meta info */}
       <div className="flex flex-wrap gap-4">
         {recipe.prepTime && (
@@ -88,16 +160,39 @@ export function RecipeDetail({
         </div>
       )}
 
+      {/* Household safety */}
+      {memberSafety && memberSafety.length > 0 && (
+        <MemberSafetyList safety={memberSafety} />
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         {/* Ingredients */}
         <Card>
-          <CardHeader>
+          <CardHeader className="space-y-3">
             <CardTitle>Ingredients</CardTitle>
+            <ScalingControls
+              servings={servings}
+              onServingsChange={setServings}
+              unitSystem={unitSystem}
+              onUnitSystemChange={setUnitSystem}
+            />
+            {isScaled && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="self-start"
+                onClick={handleSaveScaledCopy}
+                disabled={savingCopy}
+              >
+                <CopyPlus className="h-4 w-4 mr-1" />
+                {savingCopy ? "Saving..." : "Save as new recipe"}
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             {(() => {
-              const required = recipe.ingredients.filter((ing) => !ing.optional);
-              const optional = recipe.ingredients.filter((ing) => ing.optional);
+              const required = ingredients.filter((ing) => !ing.optional);
+              const optional = ingredients.filter((ing) => ing.optional);
               return (
                 <>
                   <ul className="space-y-2">
@@ -156,6 +251,8 @@ export function RecipeDetail({
           </CardContent>
         </Card>
       </div>
+
+      <RecipeHistory recipe={recipe} />
     </div>
   );
 }
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc } from "../../../convex/_generated/dataModel";
+import { diffRecipes } from "../../../convex/lib/recipeDiff";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { RecipeUpdateDiff } from "@/components/chat/RecipeUpdateDiff";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+
+const authorLabels = {
+  user: "You",
+  ai: "Assistant",
+};
+
+const changeLabels = {
+  created: "Saved",
+  edited: "Edited",
+  restored: "Restored",
+};
+
+interface RecipeHistoryProps {
+  recipe: Doc<"recipes">;
+}
+
+// Timeline of a recipe's versions; picking one shows what restoring it
+// would change
+export function RecipeHistory({ recipe }: RecipeHistoryProps) {
+  const versions = useQuery(api.recipes.listVersions, { id: recipe._id });
+  const restoreVersion = useMutation(api.recipes.restoreVersion);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const handleRestore = async (version: number) => {
+    setRestoring(true);
+    try {
+      await restoreVersion({ id: recipe._id, version });
+      setSelected(null);
+      showToast(`Restored version ${version}`, "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to restore this version" });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (versions === undefined) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5 text-muted-foreground" />
+          History
+        </CardTitle>
+        <CardDescription>
+          Every saved version of this recipe, and who wrote it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {versions.length <= 1 ? (
+          <p className="text-sm text-muted-foreground">
+            No earlier versions yet. Edits you or the assistant make will show up here.
+          </p>
+        ) : (
+          <ol>
+            {versions.map((entry, i) => {
+              const isCurrent = i === 0;
+              const isSelected = selected === entry.version;
+              return (
+                <li
+                  key={entry._id}
+                  className="py-3 border-b last:border-0 space-y-2"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      className={cn(
+                        "text-left text-sm rounded px-1 -mx-1",
+                        !isCurrent && "hover:bg-muted"
+                      )}
+                      onClick={() => setSelected(isSelected ? null : entry.version)}
+                      disabled={isCurrent}
+                      aria-expanded={isCurrent ? undefined : isSelected}
+                    >
+                      <span className="font-medium">Version {entry.version}</span>
+                      <span className="text-muted-foreground">
+                        {" · "}
+                        {changeLabels[entry.change]}
+                        {entry.restoredFromVersion !== undefined &&
+                          ` version ${entry.restoredFromVersion}`}
+                        {" by "}
+                        {authorLabels[entry.author]}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </span>
+                    </button>
+                    {isCurrent ? (
+                      <span className="text-xs text-muted-foreground">Current</span>
+                    ) : (
+                      isSelected && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(entry.version)}
+                          disabled={restoring}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {restoring ? "Restoring..." : "Restore this version"}
+                        </Button>
+                      )
+                    )}
+                  </div>
+                  {isSelected && (
+                    <div className="rounded-md border bg-muted/30 p-3">
+                      <p className="text-xs font-semibold text-muted-foreground mb-2">
+                        Restoring would change the recipe like this
+                      </p>
+                      <RecipeUpdateDiff diff={diffRecipes(recipe, entry.content)} />
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
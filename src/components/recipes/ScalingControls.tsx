@@ -0,0 +1,82 @@
+import { Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { UnitSystem } from "../../../convex/lib/recipeScaling";
+
+const MIN_SERVINGS = 1;
+const MAX_SERVINGS = 100;
+
+const UNIT_OPTIONS: Array<{ value: UnitSystem; label: string }> = [
+  { value: "original", label: "Original" },
+  { value: "metric", label: "Metric" },
+  { value: "imperial", label: "US" },
+];
+
+interface ScalingControlsProps {
+  servings: number;
+  onServingsChange: (servings: number) => void;
+  unitSystem: UnitSystem;
+  onUnitSystemChange: (system: UnitSystem) => void;
+  className?: string;
+}
+
+export function ScalingControls({
+  servings,
+  onServingsChange,
+  unitSystem,
+  onUnitSystemChange,
+  className,
+}: ScalingControlsProps) {
+  return (
+    <div className={cn("flex flex-wrap items-center gap-3", className)}>
+      <div className="flex items-center gap-1" role="group" aria-label="Servings">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onServingsChange(Math.max(MIN_SERVINGS, servings - 1))}
+          disabled={servings <= MIN_SERVINGS}
+          aria-label="Fewer servings"
+        >
+          <Minus className="h-3 w-3" />
+        </Button>
+        <span className="min-w-[5.5rem] text-center text-sm">
+          {servings} {servings === 1 ? "serving" : "servings"}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onServingsChange(Math.min(MAX_SERVINGS, servings + 1))}
+          disabled={servings >= MAX_SERVINGS}
+          aria-label="More servings"
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div
+        className="inline-flex rounded-md border border-input p-0.5"
+        role="radiogroup"
+        aria-label="Units"
+      >
+        {UNIT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            role="radio"
+            aria-checked={unitSystem === option.value}
+            onClick={() => onUnitSystemChange(option.value)}
+            className={cn(
+              "px-2 py-0.5 text-xs rounded transition-colors",
+              unitSystem === option.value
+                ? "bg-primary text-primary-foreground"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ListPlus } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { cn } from "@/lib/utils";
+
+interface NewShoppingListFormProps {
+  onCreated: (id: Id<"shoppingLists">) => void;
+}
+
+export function NewShoppingListForm({ onCreated }: NewShoppingListFormProps) {
+  const recipes = useQuery(api.recipes.list, { limit: 50 });
+  const createList = useMutation(api.shoppingLists.createFromRecipes);
+  const handleError = useErrorHandler();
+  const [selected, setSelected] = useState<Set<Id<"recipes">>>(new Set());
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const toggle = (id: Id<"recipes">) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected.size === 0) return;
+
+    setCreating(true);
+    try {
+      const id = await createList({
+        recipeIds: [...selected],
+        name: name.trim() || undefined,
+      });
+      setSelected(new Set());
+      setName("");
+      onCreated(id);
+    } catch (error) {
+      handleError(error, { fallback: "Failed to create shopping list" });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Shopping List</CardTitle>
+        <CardDescription>
+          Pick recipes from your Recipe Book and we'll combine their ingredients
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {recipes === undefined ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : recipes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Save some recipes first to build a shopping list from them.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="max-h-64 overflow-y-auto space-y-1 rounded-md border border-input p-2">
+              {recipes.map((recipe) => (
+                <label
+                  key={recipe._id}
+                  className={cn(
+                    "flex items-center gap-3 px-2 py-1.5 rounded cursor-pointer hover:bg-muted",
+                    selected.has(recipe._id) && "bg-primary/5"
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(recipe._id)}
+                    onChange={() => toggle(recipe._id)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  <span className="flex-1 text-sm">{recipe.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {recipe.ingredients.length} ingredients
+                  </span>
+                </label>
+              ))}
+            </div>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="List name (optional)"
+            />
+            <Button type="submit" disabled={selected.size === 0 || creating}>
+              <ListPlus className="h-4 w-4 mr-2" />
+              {creating
+                ? "Creating..."
+                : `Create list${selected.size > 0 ? ` from ${selected.size} recipe${selected.size === 1 ? "" : "s"}` : ""}`}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
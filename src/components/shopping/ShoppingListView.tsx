@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Plus, Trash2, X } from "lucide-react";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { cn } from "@/lib/utils";
+
+interface ShoppingListViewProps {
+  list: Doc<"shoppingLists">;
+  onBack: () => void;
+}
+
+type ShoppingItem = Doc<"shoppingLists">["items"][number];
+
+export function ShoppingListView({ list, onBack }: ShoppingListViewProps) {
+  const toggleItem = useMutation(api.shoppingLists.toggleItem);
+  const addItem = useMutation(api.shoppingLists.addItem);
+  const removeItem = useMutation(api.shoppingLists.removeItem);
+  const setHideStaples = useMutation(api.shoppingLists.setHideStaples);
+  const clearChecked = useMutation(api.shoppingLists.clearChecked);
+  const handleError = useErrorHandler();
+  const [newItem, setNewItem] = useState("");
+  const [newQuantity, setNewQuantity] = useState("");
+
+  const visibleItems = list.items.filter(
+    (item) => !(list.hideStaples && item.isStaple)
+  );
+  const hiddenStapleCount = list.items.length - visibleItems.length;
+  const checkedCount = visibleItems.filter((item) => item.checked).length;
+
+  // Items arrive sorted by aisle, so grouping preserves aisle order
+  const aisles = visibleItems.reduce<Array<[string, ShoppingItem[]]>>(
+    (groups, item) => {
+      const last = groups[groups.length - 1];
+      if (last && last[0] === item.aisle) last[1].push(item);
+      else groups.push([item.aisle, [item]]);
+      return groups;
+    },
+    []
+  );
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      handleError(error, { fallback });
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+    await run(
+      () =>
+        addItem({
+          id: list._id,
+          name: newItem.trim(),
+          quantity: newQuantity.trim() || undefined,
+        }),
+      "Failed to add item"
+    );
+    setNewItem("");
+    setNewQuantity("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={onBack}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex-1">
+          <h2 className="text-2xl font-bold">{list.name}</h2>
+          <p className="text-muted-foreground text-sm">
+            {checkedCount} of {visibleItems.length} items checked
+          </p>
+        </div>
+        {checkedCount > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              run(() => clearChecked({ id: list._id }), "Failed to clear items")
+            }
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Clear checked
+          </Button>
+        )}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder="Add an item..."
+          className="flex-1"
+        />
+        <Input
+          value={newQuantity}
+          onChange={(e) => setNewQuantity(e.target.value)}
+          placeholder="Qty"
+          className="w-24"
+        />
+        <Button type="submit" disabled={!newItem.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={list.hideStaples}
+          onChange={(e) =>
+            run(
+              () => setHideStaples({ id: list._id, hideStaples: e.target.checked }),
+              "Failed to update list"
+            )
+          }
+          className="h-4 w-4 accent-primary"
+        />
+        Hide pantry staples
+        {list.hideStaples && hiddenStapleCount > 0 && ` (${hiddenStapleCount} hidden)`}
+      </label>
+
+      {aisles.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <p className="text-lg">Nothing to buy</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {aisles.map(([aisle, items]) => (
+            <Card key={aisle}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">{aisle}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1">
+                  {items.map((item) => (
+                    <li key={item.key} className="group flex items-center gap-3">
+                      <label className="flex flex-1 items-center gap-3 py-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={item.checked}
+                          onChange={() =>
+                            run(
+                              () => toggleItem({ id: list._id, key: item.key }),
+                              "Failed to update item"
+                            )
+                          }
+                          className="h-4 w-4 accent-primary"
+                        />
+                        <span
+                          className={cn(
+                            "flex-1 text-sm",
+                            item.checked && "line-through text-muted-foreground"
+                          )}
+                        >
+                          {item.name}
+                          {item.quantity && (
+                            <span className="text-muted-foreground"> · {item.quantity}</span>
+                          )}
+                        </span>
+                      </label>
+                      <button
+                        onClick={() =>
+                          run(
+                            () => removeItem({ id: list._id, key: item.key }),
+                            "Failed to remove item"
+                          )
+                        }
+                        className="p-1 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+                        aria-label={`Remove ${item.name}`}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
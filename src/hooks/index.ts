@@ -2,3 +2,6 @@ export { useTheme } from "./useTheme";
 export { useSidebar } from "./useSidebar";
 export { useReducedMotion } from "./useReducedMotion";
 export { useMediaQuery, useIsMobile, useIsTablet, useIsDesktop } from "./useMediaQuery";
+export { useErrorHandler } from "./useErrorHandler";
+export { useRecipeScaling } from "./useRecipeScaling";
+export { useQuota } from "./useQuota";
@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { useToast } from "@/components/common/Toast";
+import { getErrorMessage, isRetryableError } from "@/lib/errors";
+
+interface HandleErrorOptions {
+  // Shown when the error is not a recognised AppError
+  fallback: string;
+  // Offered as a "Retry" action when the server marks the error retryable
+  onRetry?: () => void;
+}
+
+export function useErrorHandler() {
+  const { showToast } = useToast();
+
+  return useCallback(
+    (error: unknown, { fallback, onRetry }: HandleErrorOptions) => {
+      console.error(error);
+      const message = getErrorMessage(error, fallback);
+
+      if (onRetry && isRetryableError(error)) {
+        showToast(
+          <span>
+            {message}{" "}
+            <button
+              onClick={onRetry}
+              className="underline font-semibold hover:opacity-80"
+            >
+              Retry
+            </button>
+          </span>,
+          "error"
+        );
+        return;
+      }
+
+      showToast(message, "error");
+    },
+    [showToast]
+  );
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { quotaAt } from "../../convex/lib/rateLimit";
+
+// Today's quota for the current user, rolling over at the reset time even
+// though nothing changes on the server then
+export function useQuota() {
+  const recorded = useQuery(api.users.getQuota);
+  const [, setRolledOver] = useState(0);
+  const resetsAt = recorded?.resetsAt;
+
+  useEffect(() => {
+    if (resetsAt === undefined) return;
+    const delay = resetsAt - Date.now();
+    if (delay <= 0) return;
+    const timer = setTimeout(() => setRolledOver((n) => n + 1), delay);
+    return () => clearTimeout(timer);
+  }, [resetsAt]);
+
+  return recorded && quotaAt(recorded, Date.now());
+}
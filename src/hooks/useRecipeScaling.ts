@@ -0,0 +1,48 @@
+import { useMemo, useState } from "react";
+import {
+  RecipeIngredient,
+  UnitSystem,
+  scaleRecipe,
+} from "../../convex/lib/recipeScaling";
+
+const STORAGE_KEY = "culinary-unit-system";
+
+function readStoredUnitSystem(): UnitSystem {
+  if (typeof window === "undefined") return "original";
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored === "metric" || stored === "imperial" ? stored : "original";
+}
+
+// Servings stepper + unit toggle state for a recipe; the unit choice is remembered across recipes
+export function useRecipeScaling<T extends RecipeIngredient>(recipe: {
+  servings: number;
+  ingredients: T[];
+}) {
+  const [servings, setServings] = useState(recipe.servings);
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(readStoredUnitSystem);
+
+  const setUnitSystem = (system: UnitSystem) => {
+    setUnitSystemState(system);
+    localStorage.setItem(STORAGE_KEY, system);
+  };
+
+  const ingredients = useMemo(
+    () =>
+      scaleRecipe(
+        { servings: recipe.servings, ingredients: recipe.ingredients },
+        servings,
+        unitSystem
+      ).ingredients,
+    [recipe.servings, recipe.ingredients, servings, unitSystem]
+  );
+
+  return {
+    servings,
+    setServings,
+    unitSystem,
+    setUnitSystem,
+    ingredients,
+    isScaled: servings !== recipe.servings || unitSystem !== "original",
+    reset: () => setServings(recipe.servings),
+  };
+}
@@ -0,0 +1,47 @@
+import { ConvexError } from "convex/values";
+import {
+  ErrorCodes,
+  isAppErrorData,
+  type AppErrorData,
+  type ErrorCode,
+} from "../../convex/lib/errors";
+
+// User-facing copy for each server error code
+const errorMessages: Record<ErrorCode, string> = {
+  [ErrorCodes.UNAUTHORIZED]: "Your session has expired. Please sign in again.",
+  [ErrorCodes.FORBIDDEN]: "You don't have access to that.",
+  [ErrorCodes.NOT_FOUND]: "We couldn't find what you were looking for. It may have been deleted.",
+  [ErrorCodes.RATE_LIMIT]: "You've reached today's request limit. It resets at midnight UTC.",
+  [ErrorCodes.VALIDATION]: "Please check your input and try again.",
+  [ErrorCodes.AI_UNAVAILABLE]: "The assistant is temporarily unavailable.",
+  [ErrorCodes.AI_TIMEOUT]: "The assistant took too long to respond.",
+  [ErrorCodes.INVALID_IMAGE]: "That image couldn't be processed. Try a different photo.",
+  [ErrorCodes.DIETARY_CONFLICT]: "This conflicts with your dietary profile.",
+  [ErrorCodes.OFF_TOPIC]: "I can only help with cooking and food questions.",
+};
+
+// Codes whose server message is specific enough to show verbatim
+const passthroughCodes = new Set<ErrorCode>([
+  ErrorCodes.VALIDATION,
+  ErrorCodes.DIETARY_CONFLICT,
+  ErrorCodes.RATE_LIMIT,
+]);
+
+export function getAppError(error: unknown): AppErrorData | null {
+  if (error instanceof ConvexError && isAppErrorData(error.data)) {
+    return error.data;
+  }
+  return null;
+}
+
+export function getErrorMessage(error: unknown, fallback: string): string {
+  const appError = getAppError(error);
+  if (!appError) return fallback;
+
+  if (passthroughCodes.has(appError.code)) return appError.message;
+  return errorMessages[appError.code] ?? fallback;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return getAppError(error)?.retryable ?? false;
+}
@@ -0,0 +1,81 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Refrigerator } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { AddPantryItemForm } from "@/components/pantry/AddPantryItemForm";
+import { PantryItemRow } from "@/components/pantry/PantryItemRow";
+
+const USE_SOON_MS = 3 * 24 * 60 * 60 * 1000;
+
+export function PantryPage() {
+  const items = useQuery(api.pantry.list);
+
+  const now = Date.now();
+  // The list arrives soonest-expiring first
+  const sections = items
+    ? [
+        {
+          title: "Use soon",
+          items: items.filter(
+            (item) =>
+              item.expiresAt !== undefined && item.expiresAt - now < USE_SOON_MS
+          ),
+        },
+        {
+          title: "On hand",
+          items: items.filter(
+            (item) =>
+              item.expiresAt === undefined || item.expiresAt - now >= USE_SOON_MS
+          ),
+        },
+      ].filter((section) => section.items.length > 0)
+    : [];
+
+  return (
+    <div className="flex-1 bg-background overflow-y-auto">
+      <header className="border-b sticky top-0 bg-background/95 backdrop-blur z-10">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center gap-2">
+          <Refrigerator className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-semibold">Pantry</h1>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <AddPantryItemForm />
+        <p className="text-sm text-muted-foreground">
+          Tip: share a photo of your fridge or groceries in chat and confirm the
+          items it finds to add them here. Ask "use what I have" for recipes
+          built around your pantry.
+        </p>
+
+        {items === undefined ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p className="text-lg">Your pantry is empty</p>
+          </div>
+        ) : (
+          sections.map((section) => (
+            <Card key={section.title}>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {section.title} ({section.items.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {section.items.map((item) => (
+                    <PantryItemRow key={item._id} item={item} />
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
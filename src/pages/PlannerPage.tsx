@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { useNavigate } from "react-router-dom";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import {
+  addDays,
+  MEAL_SLOTS,
+  MealSlot,
+  startOfWeek,
+  toLocalPlanDate,
+  weekdayName,
+} from "../../convex/lib/mealPlanning";
+import { Button } from "@/components/ui/button";
+import {
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  ShoppingCart,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { MealSlotCell } from "@/components/planner/MealSlotCell";
+import { PlannerRecipeSidebar } from "@/components/planner/PlannerRecipeSidebar";
+
+const SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+  snack: "Snack",
+};
+
+function formatDay(date: string) {
+  const [, month, day] = date.split("-").map(Number);
+  return `${weekdayName(date).slice(0, 3)} ${month}/${day}`;
+}
+
+export function PlannerPage() {
+  const navigate = useNavigate();
+  const today = toLocalPlanDate(new Date());
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(today));
+  const [placingRecipeId, setPlacingRecipeId] = useState<Id<"recipes"> | null>(
+    null
+  );
+  const [creatingList, setCreatingList] = useState(false);
+  const weekEnd = addDays(weekStart, 6);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  const entries = useQuery(api.mealPlans.listRange, {
+    startDate: weekStart,
+    endDate: weekEnd,
+  });
+  const addEntry = useMutation(api.mealPlans.addEntry);
+  const moveEntry = useMutation(api.mealPlans.moveEntry);
+  const removeEntry = useMutation(api.mealPlans.removeEntry);
+  const createFromMealPlan = useMutation(api.shoppingLists.createFromMealPlan);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  const handleAddRecipe = async (
+    date: string,
+    slot: MealSlot,
+    recipeId: Id<"recipes">
+  ) => {
+    try {
+      await addEntry({ date, slot, recipeId });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to add recipe to the plan" });
+    }
+  };
+
+  const handleAddText = async (date: string, slot: MealSlot, title: string) => {
+    try {
+      await addEntry({ date, slot, title });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to add meal" });
+    }
+  };
+
+  const handleMove = async (
+    id: Id<"mealPlans">,
+    date: string,
+    slot: MealSlot
+  ) => {
+    try {
+      await moveEntry({ id, date, slot });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to move meal" });
+    }
+  };
+
+  const handleRemove = async (id: Id<"mealPlans">) => {
+    try {
+      await removeEntry({ id });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to remove meal" });
+    }
+  };
+
+  const handlePlace = async (date: string, slot: MealSlot) => {
+    if (!placingRecipeId) return;
+    setPlacingRecipeId(null);
+    await handleAddRecipe(date, slot, placingRecipeId);
+  };
+
+  const handleCreateShoppingList = async () => {
+    setCreatingList(true);
+    try {
+      const listId = await createFromMealPlan({
+        startDate: weekStart,
+        endDate: weekEnd,
+      });
+      showToast("Shopping list created", "success");
+      navigate("/shopping", { state: { listId } });
+    } catch (error) {
+      handleError(error, { fallback: "Failed to create shopping list" });
+    } finally {
+      setCreatingList(false);
+    }
+  };
+
+  const hasRecipes = entries?.some((e) => e.recipeId && !e.recipeMissing) ?? false;
+
+  return (
+    <div className="flex-1 bg-background overflow-y-auto">
+      <header className="border-b sticky top-0 bg-background/95 backdrop-blur z-10">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center gap-2">
+          <CalendarDays className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-semibold">Meal Planner</h1>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 py-8 grid gap-6 lg:grid-cols-[16rem_1fr]">
+        <PlannerRecipeSidebar
+          selectedRecipeId={placingRecipeId}
+          onSelect={setPlacingRecipeId}
+        />
+
+        <div className="space-y-4 min-w-0">
+          {/* Week navigation */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setWeekStart(addDays(weekStart, -7))}
+              aria-label="Previous week"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setWeekStart(addDays(weekStart, 7))}
+              aria-label="Next week"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWeekStart(startOfWeek(today))}
+              disabled={weekStart === startOfWeek(today)}
+            >
+              This week
+            </Button>
+            <span className="text-sm font-medium">
+              {formatDay(weekStart)} – {formatDay(weekEnd)}
+            </span>
+            <Button
+              size="sm"
+              className="ml-auto"
+              onClick={handleCreateShoppingList}
+              disabled={!hasRecipes || creatingList}
+            >
+              <ShoppingCart className="h-4 w-4 mr-1" />
+              {creatingList ? "Creating..." : "Shopping list for this week"}
+            </Button>
+          </div>
+
+          {placingRecipeId && (
+            <p className="text-sm text-primary">
+              Tap a slot to place the selected recipe.
+            </p>
+          )}
+
+          {entries === undefined ? (
+            <div className="flex items-center justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <div className="grid grid-cols-[5rem_repeat(4,minmax(7rem,1fr))] gap-2 min-w-[36rem]">
+                <div />
+                {MEAL_SLOTS.map((slot) => (
+                  <div
+                    key={slot}
+                    className="text-xs font-medium text-muted-foreground uppercase tracking-wide"
+                  >
+                    {SLOT_LABELS[slot]}
+                  </div>
+                ))}
+
+                {days.map((date) => (
+                  <div key={date} className="contents">
+                    <div
+                      className={cn(
+                        "text-sm font-medium pt-2",
+                        date === today && "text-primary"
+                      )}
+                    >
+                      {formatDay(date)}
+                    </div>
+                    {MEAL_SLOTS.map((slot) => (
+                      <MealSlotCell
+                        key={slot}
+                        date={date}
+                        slot={slot}
+                        entries={entries.filter(
+                          (e) => e.date === date && e.slot === slot
+                        )}
+                        placingRecipe={placingRecipeId !== null}
+                        onAddRecipe={handleAddRecipe}
+                        onAddText={handleAddText}
+                        onMove={handleMove}
+                        onRemove={handleRemove}
+                        onPlace={handlePlace}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { useLocation, useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { LoadingSpinner } from "@/components/common/LoadingSpinner";
 import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 
 export function RecipeBookPage() {
   const location = useLocation();
@@ -23,6 +24,7 @@ export function RecipeBookPage() {
     null
   );
   const { showToast } = useToast();
+  const handleError = useErrorHandler();
 
   // Deep link: fetch recipe by ID from navigation state
   const linkedRecipe = useQuery(
@@ -39,6 +41,12 @@ export function RecipeBookPage() {
     }
   }, [linkedRecipe, selectedRecipe, navigate]);
 
+  // Keep the open recipe current as it's edited or restored
+  const liveSelectedRecipe = useQuery(
+    api.recipes.get,
+    selectedRecipe ? { id: selectedRecipe._id } : "skip"
+  );
+
   const recipes = useQuery(api.recipes.list, {
     search: search || undefined,
     favoritesOnly: showFavoritesOnly || undefined,
@@ -51,8 +59,8 @@ export function RecipeBookPage() {
     try {
       await toggleFavorite({ id });
       showToast("Recipe updated!", "success");
-    } catch {
-      showToast("Failed to update recipe", "error");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to update recipe" });
     }
   };
 
@@ -60,8 +68,8 @@ export function RecipeBookPage() {
     try {
       await deleteRecipe({ id });
       showToast("Recipe deleted", "success");
-    } catch {
-      showToast("Failed to delete recipe", "error");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to delete recipe" });
     }
   };
 
@@ -77,8 +85,13 @@ export function RecipeBookPage() {
         </header>
         <div className="max-w-4xl mx-auto px-4 py-8">
           <RecipeDetail
-            recipe={selectedRecipe}
+            key={selectedRecipe._id}
+            recipe={liveSelectedRecipe ?? selectedRecipe}
             onBack={() => setSelectedRecipe(null)}
+            onOpenRecipe={(recipeId) => {
+              setSelectedRecipe(null);
+              navigate("/recipes", { state: { recipeId } });
+            }}
             onToggleFavorite={async () => {
               await handleToggleFavorite(selectedRecipe._id);
               setSelectedRecipe({
@@ -2,11 +2,18 @@ import { useAuthActions } from "@convex-dev/auth/react";
 import { Button } from "@/components/ui/button";
 import { MemoryList } from "@/components/memory/MemoryList";
 import { AddMemoryForm } from "@/components/memory/AddMemoryForm";
+import { MemoryInbox } from "@/components/memory/MemoryInbox";
+import { MemoryConflictList } from "@/components/memory/MemoryConflictList";
+import { SuppressedMemoryList } from "@/components/memory/SuppressedMemoryList";
+import { MemoryHistory } from "@/components/memory/MemoryHistory";
+import { HouseholdMemberList } from "@/components/household/HouseholdMemberList";
+import { SharedHouseholdCard } from "@/components/household/SharedHouseholdCard";
 import { ChefHat, LogOut, Bug } from "lucide-react";
 import { useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useState } from "react";
 import { Id } from "../../convex/_generated/dataModel";
+import { getAppError } from "@/lib/errors";
 
 export function SettingsPage() {
   const { signOut } = useAuthActions();
@@ -27,8 +34,10 @@ export function SettingsPage() {
         conversationId: conversationId.trim() as Id<"conversations">,
       });
       setDebugResult(result);
-    } catch (error: any) {
-      setDebugResult({ error: error.message });
+    } catch (error) {
+      setDebugResult({
+        error: getAppError(error) ?? (error as Error).message,
+      });
     } finally {
       setLoading(false);
     }
@@ -66,6 +75,28 @@ export function SettingsPage() {
             </div>
           </section>
 
+          {/* Household Section */}
+          <section className="space-y-6">
+            <SharedHouseholdCard />
+            <HouseholdMemberList />
+          </section>
+
+          {/* Memory Review Section */}
+          <section className="space-y-6">
+            <MemoryConflictList />
+            <MemoryInbox />
+          </section>
+
+          {/* Suppressed Memory Section */}
+          <section>
+            <SuppressedMemoryList />
+          </section>
+
+          {/* Memory History Section */}
+          <section>
+            <MemoryHistory />
+          </section>
+
           {/* Debug Compaction Section */}
           <section className="pt-8 border-t">
             <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Card, CardContent } from "@/components/ui/card";
+import { ShoppingCart, Trash2 } from "lucide-react";
+import { LoadingSpinner } from "@/components/common/LoadingSpinner";
+import { useToast } from "@/components/common/Toast";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { NewShoppingListForm } from "@/components/shopping/NewShoppingListForm";
+import { ShoppingListView } from "@/components/shopping/ShoppingListView";
+
+export function ShoppingPage() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const listIdFromState =
+    (location.state as { listId?: Id<"shoppingLists"> } | null)?.listId ?? null;
+  const [selectedListId, setSelectedListId] =
+    useState<Id<"shoppingLists"> | null>(listIdFromState);
+  const lists = useQuery(api.shoppingLists.list);
+  const selectedList = useQuery(
+    api.shoppingLists.get,
+    selectedListId ? { id: selectedListId } : "skip"
+  );
+  const removeList = useMutation(api.shoppingLists.remove);
+  const { showToast } = useToast();
+  const handleError = useErrorHandler();
+
+  // Deep link (e.g. from the meal planner): clear the state so refreshing doesn't re-open
+  useEffect(() => {
+    if (listIdFromState) {
+      navigate("/shopping", { replace: true, state: {} });
+    }
+  }, [listIdFromState, navigate]);
+
+  const handleDelete = async (id: Id<"shoppingLists">) => {
+    if (!confirm("Delete this shopping list?")) return;
+    try {
+      await removeList({ id });
+      showToast("Shopping list deleted", "success");
+    } catch (error) {
+      handleError(error, { fallback: "Failed to delete shopping list" });
+    }
+  };
+
+  return (
+    <div className="flex-1 bg-background overflow-y-auto">
+      <header className="border-b sticky top-0 bg-background/95 backdrop-blur z-10">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center gap-2">
+          <ShoppingCart className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-semibold">Shopping Lists</h1>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {selectedListId ? (
+          selectedList === undefined ? (
+            <div className="flex items-center justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : (
+            <ShoppingListView
+              list={selectedList}
+              onBack={() => setSelectedListId(null)}
+            />
+          )
+        ) : (
+          <div className="space-y-6">
+            <NewShoppingListForm onCreated={setSelectedListId} />
+
+            {lists === undefined ? (
+              <div className="flex items-center justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : lists.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <p className="text-lg">No shopping lists yet</p>
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                {lists.map((list) => {
+                  const remaining = list.items.filter(
+                    (item) => !item.checked && !(list.hideStaples && item.isStaple)
+                  ).length;
+                  return (
+                    <Card
+                      key={list._id}
+                      className="cursor-pointer hover:shadow-md transition-shadow"
+                      onClick={() => setSelectedListId(list._id)}
+                    >
+                      <CardContent className="p-4 flex items-start justify-between gap-2">
+                        <div className="flex-1">
+                          <h3 className="font-semibold line-clamp-1">{list.name}</h3>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {remaining === 0
+                              ? "All done"
+                              : `${remaining} item${remaining === 1 ? "" : "s"} to buy`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(list._id);
+                          }}
+                          className="p-1 text-muted-foreground hover:text-destructive"
+                          aria-label="Delete shopping list"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}